@@ -38,6 +38,7 @@ module.exports = {
         },
       ],
       "expo-web-browser",
+      "expo-notifications",
     ],
     experiments: {
       typedRoutes: true,
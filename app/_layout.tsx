@@ -6,6 +6,7 @@ import GearLogo from '../components/branding/GearLogo';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { AuthProvider } from '../contexts/AuthContext';
 import { AppShellProvider } from '../contexts/AppShellContext';
+import { NotificationProvider } from '../contexts/NotificationContext';
 import { ThemeProvider, useTheme } from '../contexts/ThemeContext';
 
 function RootLayoutInner() {
@@ -38,10 +39,12 @@ function RootLayoutInner() {
 
   return (
     <AuthProvider>
-      <AppShellProvider>
-        <StatusBar style={theme === 'light' ? 'dark' : 'light'} />
-        <Stack screenOptions={{ headerShown: false }} />
-      </AppShellProvider>
+      <NotificationProvider>
+        <AppShellProvider>
+          <StatusBar style={theme === 'light' ? 'dark' : 'light'} />
+          <Stack screenOptions={{ headerShown: false }} />
+        </AppShellProvider>
+      </NotificationProvider>
     </AuthProvider>
   );
 }
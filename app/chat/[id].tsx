@@ -37,6 +37,7 @@ import {
   analyzeRepairDocument,
 } from '../../services/ai-multimodal-service';
 import { getVehicleById, getMileageLogs } from '../../services/vehicle-service';
+import { buildMileageProjection, monthlyMileage } from '../../services/mileage-projection';
 import { getMaintenanceRecords, createMaintenanceRecord, getServiceReminders } from '../../services/maintenance-service';
 import { getDiagnosticHistory } from '../../services/diagnostic-service';
 import type {
@@ -182,7 +183,7 @@ export default function ChatScreen() {
         const [maintenanceRecords, activeCodes, mileageLogs, serviceReminders] = await Promise.allSettled([
           getMaintenanceRecords(routeId, userId),
           getDiagnosticHistory(routeId),
-          getMileageLogs(routeId, userId),
+          getMileageLogs(routeId, userId, 100),
           getServiceReminders(routeId, userId),
         ]);
 
@@ -191,16 +192,9 @@ export default function ChatScreen() {
         const logs = mileageLogs.status === 'fulfilled' ? mileageLogs.value : [];
         const reminders = serviceReminders.status === 'fulfilled' ? serviceReminders.value : [];
 
-        // Calculate 30-day mileage delta
-        let monthlyDelta: number | undefined;
-        if (logs.length >= 2) {
-          const sorted = [...logs].sort((a, b) => new Date(b.logged_date).getTime() - new Date(a.logged_date).getTime());
-          const cutoff = Date.now() - 30 * 24 * 60 * 60 * 1000;
-          const recent = sorted.filter((l) => new Date(l.logged_date).getTime() > cutoff);
-          if (recent.length >= 2) {
-            monthlyDelta = recent[0].mileage - recent[recent.length - 1].mileage;
-          }
-        }
+        // Projected miles this month; a national-average guess isn't worth telling the model
+        const projection = buildMileageProjection(logs, vehicle);
+        const monthlyDelta = projection.basis === 'default' ? undefined : monthlyMileage(projection);
 
         const fullCtx: VehicleFullContext = {
           vehicle_id: vehicle.vehicle_id,
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Pressable,
   RefreshControl,
   ScrollView,
@@ -8,6 +9,7 @@ import {
   Text,
   View,
 } from 'react-native';
+import { router } from 'expo-router';
 import AppShell from '../../components/layout/AppShell';
 import GearActionIcon from '../../components/branding/GearActionIcon';
 import GearLogo from '../../components/branding/GearLogo';
@@ -15,24 +17,38 @@ import { useAuth } from '../../contexts/AuthContext';
 import {
   analyzeDTC,
   calculateHealthScore,
+  checkInspectionReadiness,
   checkSymptoms,
   clearDTCCodes,
   connectOBDAdapter,
+  disconnectOBDAdapter,
   getDiagnosticHistory,
   getLatestHealthScore,
-  readDTCCodes,
-  readFreezeFrame,
+  getScanHistory,
   resolveDiagnosticCode,
-  saveDiagnosticCode,
+  runDiagnosticScan,
+  saveDiagnosticFlowProgress,
   startLiveDataStream,
+  syncDiagnosticCodes,
   updateCodeWithAIAnalysis,
 } from '../../services/diagnostic-service';
+import { analyzeFuelTrims, attachFuelTrimAnalysis, FUEL_TRIM_CODES, fuelTrimAnalysisToText } from '../../services/fuel-trim-analyzer';
+import { getAlertRules, saveAlertRules, startAlertMonitor } from '../../services/obd-alert-rules';
+import { getInspectionWarning } from '../../services/obd-readiness';
+import { hasFeatureAccess } from '../../services/subscription-service';
 import { acknowledgeRecall, getRecallAlerts, lookupTSBs } from '../../services/recall-service';
 import { getUserVehicles } from '../../services/vehicle-service';
 import type {
   DiagnosticCode,
+  DiagnosticFlowAnswer,
+  DiagnosticFlowOutcome,
+  DiagnosticScan,
   DTCAnalysis,
-  LiveOBDData,
+  InspectionReadiness,
+  LiveDataRecording,
+  OBDAlertEvent,
+  OBDAlertRule,
+  OBDParameter,
   OBDSessionState,
   RecallAlert,
   SymptomCheck,
@@ -41,19 +57,23 @@ import type {
 } from '../../types/diagnostic';
 import type { Vehicle } from '../../types/vehicle';
 import HealthScoreGauge from '../../components/diagnostics/HealthScoreGauge';
+import AlertRulesPanel from '../../components/diagnostics/AlertRulesPanel';
 import LiveDataGrid from '../../components/diagnostics/LiveDataGrid';
+import LiveDataRecorderPanel from '../../components/diagnostics/LiveDataRecorderPanel';
 import SymptomCheckerPanel from '../../components/diagnostics/SymptomCheckerPanel';
 import RecallAlertsPanel from '../../components/diagnostics/RecallAlertsPanel';
+import ScanHistoryPanel from '../../components/diagnostics/ScanHistoryPanel';
 import DTCCodeCard from '../../components/diagnostics/DTCCodeCard';
 import { radii } from '../../theme/tokens';
 import { fontFamilies, typeScale } from '../../theme/typography';
 import { useTheme } from '../../contexts/ThemeContext';
 
-type Tab = 'overview' | 'codes' | 'live' | 'symptoms' | 'recalls';
+type Tab = 'overview' | 'codes' | 'scans' | 'live' | 'symptoms' | 'recalls';
 
 const TABS: { key: Tab; label: string }[] = [
   { key: 'overview', label: 'Overview' },
   { key: 'codes', label: 'Codes' },
+  { key: 'scans', label: 'Scans' },
   { key: 'live', label: 'Live Data' },
   { key: 'symptoms', label: 'Symptom Check' },
   { key: 'recalls', label: 'Recalls' },
@@ -79,9 +99,17 @@ export default function DiagnosticsScreen() {
 
   // Live data tab
   const [obdState, setObdState] = useState<OBDSessionState>({ status: 'disconnected' });
-  const [liveData, setLiveData] = useState<LiveOBDData | undefined>(undefined);
+  const [liveData, setLiveData] = useState<OBDParameter[] | undefined>(undefined);
   const [scanning, setScanning] = useState(false);
   const stopStreamRef = useRef<(() => void) | null>(null);
+  const [playbackData, setPlaybackData] = useState<OBDParameter[] | undefined>(undefined);
+  const [canRecord, setCanRecord] = useState(false);
+  const [alertRules, setAlertRules] = useState<OBDAlertRule[]>([]);
+  const [alertEvents, setAlertEvents] = useState<OBDAlertEvent[]>([]);
+
+  // Scans tab
+  const [scans, setScans] = useState<DiagnosticScan[]>([]);
+  const [scansLoading, setScansLoading] = useState(false);
 
   // Recalls tab
   const [recalls, setRecalls] = useState<RecallAlert[]>([]);
@@ -92,6 +120,10 @@ export default function DiagnosticsScreen() {
   const [healthScore, setHealthScore] = useState<VehicleHealthScore | null>(null);
   const [healthLoading, setHealthLoading] = useState(false);
 
+  // Inspection readiness
+  const [readiness, setReadiness] = useState<InspectionReadiness | undefined>(undefined);
+  const [readinessLoading, setReadinessLoading] = useState(false);
+
   // -------------------------------------------------------------------------
   // Initial load
   // -------------------------------------------------------------------------
@@ -111,6 +143,11 @@ export default function DiagnosticsScreen() {
 
   useEffect(() => { loadVehicles(); }, [loadVehicles]);
 
+  useEffect(() => {
+    if (!user?.user_id) return;
+    hasFeatureAccess(user.user_id, 'liveDataRecording').then(setCanRecord);
+  }, [user?.user_id]);
+
   // -------------------------------------------------------------------------
   // Code history
   // -------------------------------------------------------------------------
@@ -128,6 +165,22 @@ export default function DiagnosticsScreen() {
     }
   }, [selectedVehicle]);
 
+  // -------------------------------------------------------------------------
+  // Scan history
+  // -------------------------------------------------------------------------
+
+  const loadScans = useCallback(async () => {
+    if (!selectedVehicle) return;
+    setScansLoading(true);
+    try {
+      setScans(await getScanHistory(selectedVehicle.vehicle_id));
+    } catch (err) {
+      console.warn('[Diagnostics] loadScans error:', err);
+    } finally {
+      setScansLoading(false);
+    }
+  }, [selectedVehicle]);
+
   // -------------------------------------------------------------------------
   // Health score
   // -------------------------------------------------------------------------
@@ -144,7 +197,8 @@ export default function DiagnosticsScreen() {
           selectedVehicle.vehicle_id,
           user.user_id,
           selectedVehicle.current_mileage || 0,
-          selectedVehicle.year
+          selectedVehicle.year,
+          { make: selectedVehicle.make, model: selectedVehicle.model }
         );
       }
       setHealthScore(score);
@@ -188,12 +242,37 @@ export default function DiagnosticsScreen() {
     }
   }, [selectedVehicle, loadCodeHistory, loadHealthScore]);
 
+  useEffect(() => {
+    setReadiness(selectedVehicle?.inspection_readiness);
+  }, [selectedVehicle]);
+
+  useEffect(() => {
+    if (!selectedVehicle) return;
+    setAlertEvents([]);
+    getAlertRules(selectedVehicle).then(setAlertRules);
+  }, [selectedVehicle]);
+
+  // Evaluate alert rules for as long as the adapter is connected
+  useEffect(() => {
+    if (obdState.status !== 'connected' || !selectedVehicle || !user?.user_id) return;
+    return startAlertMonitor(selectedVehicle, user.user_id, alertRules, (event) => {
+      setAlertEvents((prev) => [event, ...prev]);
+      void loadCodeHistory();
+    });
+  }, [obdState.status, selectedVehicle, user?.user_id, alertRules, loadCodeHistory]);
+
   useEffect(() => {
     if (selectedVehicle && tab === 'recalls') {
       void loadRecalls();
     }
   }, [selectedVehicle, tab, loadRecalls]);
 
+  useEffect(() => {
+    if (selectedVehicle && tab === 'scans') {
+      void loadScans();
+    }
+  }, [selectedVehicle, tab, loadScans]);
+
   // -------------------------------------------------------------------------
   // OBD-II connection
   // -------------------------------------------------------------------------
@@ -203,6 +282,7 @@ export default function DiagnosticsScreen() {
       // Disconnect
       stopStreamRef.current?.();
       stopStreamRef.current = null;
+      await disconnectOBDAdapter();
       setObdState({ status: 'disconnected' });
       setLiveData(undefined);
       return;
@@ -223,24 +303,23 @@ export default function DiagnosticsScreen() {
     }
   }
 
+  async function handleSaveAlertRules(rules: OBDAlertRule[]) {
+    if (!selectedVehicle || !user?.user_id) return;
+    try {
+      setAlertRules(await saveAlertRules(selectedVehicle.vehicle_id, user.user_id, rules));
+    } catch (err) {
+      console.warn('[Diagnostics] saveAlertRules error:', err);
+    }
+  }
+
   async function handleReadCodes() {
     if (!selectedVehicle || !user?.user_id) return;
     setCodesLoading(true);
     try {
-      const codeList = await readDTCCodes();
-      for (const code of codeList) {
-        const ff = await readFreezeFrame(code);
-        const desc = (await analyzeDTC(selectedVehicle.vin || '', code, selectedVehicle.current_mileage || 0)).description;
-        await saveDiagnosticCode(
-          selectedVehicle.vehicle_id,
-          user.user_id,
-          code,
-          desc,
-          'medium',
-          selectedVehicle.current_mileage,
-          ff
-        );
-      }
+      await syncDiagnosticCodes(selectedVehicle.vehicle_id, user.user_id, {
+        mileage: selectedVehicle.current_mileage,
+        vehicle: selectedVehicle,
+      });
       await loadCodeHistory();
     } finally {
       setCodesLoading(false);
@@ -249,9 +328,42 @@ export default function DiagnosticsScreen() {
 
   async function handleClearCodes() {
     await clearDTCCodes();
+    if (selectedVehicle && user?.user_id) {
+      // Cleared codes resolve; permanent codes stay active until the ECU re-verifies
+      await syncDiagnosticCodes(selectedVehicle.vehicle_id, user.user_id, {
+        mileage: selectedVehicle.current_mileage,
+        vehicle: selectedVehicle,
+      });
+    }
     await loadCodeHistory();
   }
 
+  async function handleRunScan() {
+    if (!selectedVehicle || !user?.user_id) return;
+    try {
+      await runDiagnosticScan(selectedVehicle, user.user_id);
+    } catch (err) {
+      console.warn('[Diagnostics] runDiagnosticScan error:', err);
+    }
+    await Promise.all([loadScans(), loadCodeHistory()]);
+  }
+
+  // -------------------------------------------------------------------------
+  // Inspection readiness
+  // -------------------------------------------------------------------------
+
+  async function handleCheckReadiness() {
+    if (!selectedVehicle) return;
+    setReadinessLoading(true);
+    try {
+      setReadiness(await checkInspectionReadiness(selectedVehicle));
+    } catch (err) {
+      console.warn('[Diagnostics] checkInspectionReadiness error:', err);
+    } finally {
+      setReadinessLoading(false);
+    }
+  }
+
   // -------------------------------------------------------------------------
   // Code analysis
   // -------------------------------------------------------------------------
@@ -263,7 +375,8 @@ export default function DiagnosticsScreen() {
       selectedVehicle.vin || '',
       code.code,
       code.mileage_at_detection || selectedVehicle.current_mileage || 0,
-      vehicleCtx
+      vehicleCtx,
+      selectedVehicle
     );
     await updateCodeWithAIAnalysis(code.diagnostic_id, analysis);
     return analysis;
@@ -274,6 +387,25 @@ export default function DiagnosticsScreen() {
     await loadCodeHistory();
   }
 
+  // -------------------------------------------------------------------------
+  // Fuel trim analysis
+  // -------------------------------------------------------------------------
+
+  async function handleAnalyzeRecording(recording: LiveDataRecording) {
+    const analysis = analyzeFuelTrims(recording.samples, {
+      displacementL: selectedVehicle?.engine_displacement_l,
+    });
+    // Lean/rich codes still open get the findings attached
+    const targets = codes.filter((c) => FUEL_TRIM_CODES.includes(c.code) && c.status !== 'resolved');
+    await Promise.all(targets.map((c) => attachFuelTrimAnalysis(c, analysis)));
+    if (targets.length > 0) await loadCodeHistory();
+    Alert.alert(
+      'Fuel Trim Analysis',
+      fuelTrimAnalysisToText(analysis) +
+        (targets.length > 0 ? `\n\nAttached to ${targets.map((c) => c.code).join(', ')}.` : '')
+    );
+  }
+
   // -------------------------------------------------------------------------
   // Symptom check
   // -------------------------------------------------------------------------
@@ -294,6 +426,24 @@ export default function DiagnosticsScreen() {
     );
   }
 
+  function handleFlowProgress(check: SymptomCheck, answers: DiagnosticFlowAnswer[], outcome?: DiagnosticFlowOutcome) {
+    void saveDiagnosticFlowProgress(check.check_id, answers, outcome);
+  }
+
+  /** Open the new-record form pre-filled from a troubleshooting outcome. */
+  function handleLogFlowOutcome(outcome: DiagnosticFlowOutcome) {
+    if (!outcome.maintenance || !selectedVehicle) return;
+    router.push({
+      pathname: '/maintenance/new',
+      params: {
+        vehicleId: selectedVehicle.vehicle_id,
+        type: outcome.maintenance.type,
+        title: outcome.maintenance.title,
+        description: `${outcome.maintenance.description}\n\n${outcome.action}`,
+      },
+    });
+  }
+
   // -------------------------------------------------------------------------
   // Recall acknowledgment
   // -------------------------------------------------------------------------
@@ -314,6 +464,7 @@ export default function DiagnosticsScreen() {
     setRefreshing(true);
     await Promise.all([loadCodeHistory(), loadHealthScore()]);
     if (tab === 'recalls') await loadRecalls();
+    if (tab === 'scans') await loadScans();
     setRefreshing(false);
   }
 
@@ -329,7 +480,8 @@ export default function DiagnosticsScreen() {
         selectedVehicle.vehicle_id,
         user.user_id,
         selectedVehicle.current_mileage || 0,
-        selectedVehicle.year
+        selectedVehicle.year,
+        { make: selectedVehicle.make, model: selectedVehicle.model, recalls: recalls.length ? recalls : undefined }
       );
       setHealthScore(score);
     } finally {
@@ -343,7 +495,7 @@ export default function DiagnosticsScreen() {
 
   const filteredCodes = codeFilter === 'all'
     ? codes
-    : codes.filter((c) => codeFilter === 'active' ? c.status === 'active' || c.status === 'pending' : c.status === 'resolved' || c.status === 'false_positive');
+    : codes.filter((c) => codeFilter === 'active' ? c.status === 'active' || c.status === 'pending' || c.status === 'alert' : c.status === 'resolved' || c.status === 'false_positive');
 
   const activeBadge = codes.filter((c) => c.status === 'active').length;
   const recallBadge = recalls.filter((r) => !r.acknowledged).length;
@@ -433,7 +585,11 @@ export default function DiagnosticsScreen() {
                 healthLoading={healthLoading}
                 activeCodes={codes.filter((c) => c.status === 'active')}
                 unacknowledgedRecalls={recallBadge}
+                readiness={readiness}
+                readinessLoading={readinessLoading}
+                obdConnected={obdState.status === 'connected'}
                 onRecalcHealth={handleRecalcHealth}
+                onCheckReadiness={handleCheckReadiness}
                 onGoToTab={setTab}
               />
             )}
@@ -450,17 +606,43 @@ export default function DiagnosticsScreen() {
                 obdConnected={obdState.status === 'connected'}
               />
             )}
+            {tab === 'scans' && (
+              <ScanHistoryPanel
+                scans={scans}
+                loading={scansLoading}
+                obdConnected={obdState.status === 'connected'}
+                onRunScan={handleRunScan}
+              />
+            )}
             {tab === 'live' && (
               <LiveDataTab
                 obdState={obdState}
                 liveData={liveData}
+                playbackData={playbackData}
                 scanning={scanning}
                 onConnect={handleConnectOBD}
+                recorder={
+                  <LiveDataRecorderPanel
+                    vehicleId={selectedVehicle.vehicle_id}
+                    userId={user?.user_id}
+                    obdConnected={obdState.status === 'connected'}
+                    canRecord={canRecord}
+                    onPlaybackFrame={setPlaybackData}
+                    onAnalyze={handleAnalyzeRecording}
+                  />
+                }
+                alerts={
+                  <AlertRulesPanel rules={alertRules} alerts={alertEvents} onSave={handleSaveAlertRules} />
+                }
               />
             )}
             {tab === 'symptoms' && (
               <View style={{ gap: 0 }}>
-                <SymptomCheckerPanel onSubmit={handleSymptomCheck} />
+                <SymptomCheckerPanel
+                  onSubmit={handleSymptomCheck}
+                  onFlowProgress={handleFlowProgress}
+                  onLogMaintenance={handleLogFlowOutcome}
+                />
               </View>
             )}
             {tab === 'recalls' && (
@@ -502,11 +684,27 @@ interface OverviewTabProps {
   healthLoading: boolean;
   activeCodes: DiagnosticCode[];
   unacknowledgedRecalls: number;
+  readiness?: InspectionReadiness;
+  readinessLoading: boolean;
+  obdConnected: boolean;
   onRecalcHealth: () => void;
+  onCheckReadiness: () => void;
   onGoToTab: (tab: Tab) => void;
 }
 
-function OverviewTab({ vehicle, healthScore, healthLoading, activeCodes, unacknowledgedRecalls, onRecalcHealth, onGoToTab }: OverviewTabProps) {
+function OverviewTab({
+  vehicle,
+  healthScore,
+  healthLoading,
+  activeCodes,
+  unacknowledgedRecalls,
+  readiness,
+  readinessLoading,
+  obdConnected,
+  onRecalcHealth,
+  onCheckReadiness,
+  onGoToTab,
+}: OverviewTabProps) {
   const { colors } = useTheme();
   const styles = makeStyles(colors);
   const severityColor: Record<string, string> = {
@@ -579,6 +777,15 @@ function OverviewTab({ vehicle, healthScore, healthLoading, activeCodes, unackno
         </Pressable>
       </SectionCard>
 
+      {/* Inspection readiness */}
+      <InspectionReadinessCard
+        readiness={readiness}
+        inspectionDue={vehicle.inspection_due}
+        loading={readinessLoading}
+        obdConnected={obdConnected}
+        onCheck={onCheckReadiness}
+      />
+
       {/* Recalls summary */}
       {unacknowledgedRecalls > 0 && (
         <Pressable
@@ -605,6 +812,77 @@ function OverviewTab({ vehicle, healthScore, healthLoading, activeCodes, unackno
   );
 }
 
+interface InspectionReadinessCardProps {
+  readiness?: InspectionReadiness;
+  inspectionDue?: string;
+  loading: boolean;
+  obdConnected: boolean;
+  onCheck: () => void;
+}
+
+function InspectionReadinessCard({ readiness, inspectionDue, loading, obdConnected, onCheck }: InspectionReadinessCardProps) {
+  const { colors } = useTheme();
+  const styles = makeStyles(colors);
+  const warning = getInspectionWarning(readiness, inspectionDue);
+  return (
+    <SectionCard title="Inspection Readiness">
+      {warning && (
+        <View style={styles.recallBanner}>
+          <Text style={styles.recallBannerIcon}>⚠</Text>
+          <Text style={[styles.recallBannerSub, { flex: 1, marginTop: 0 }]}>{warning}</Text>
+        </View>
+      )}
+      {readiness ? (
+        <View style={styles.readinessBody}>
+          <View style={styles.readinessHeader}>
+            <Text style={[styles.readinessVerdict, { color: readiness.prediction === 'pass' ? colors.success : colors.danger }]}>
+              {readiness.prediction === 'pass' ? '✓ Likely to pass' : '✗ Likely to fail'}
+            </Text>
+            <Text style={styles.readinessMeta}>
+              Checked {new Date(readiness.checked_at).toLocaleDateString()}
+              {inspectionDue ? ` · Due ${new Date(inspectionDue).toLocaleDateString()}` : ''}
+            </Text>
+          </View>
+          {readiness.reasons.map((r) => (
+            <Text key={r} style={styles.readinessReason}>• {r}</Text>
+          ))}
+          <View style={styles.monitorGrid}>
+            {readiness.monitors.map((m) => (
+              <View key={m.id} style={styles.monitorRow}>
+                <Text style={[styles.monitorMark, { color: m.complete ? colors.success : colors.warning }]}>
+                  {m.complete ? '✓' : '…'}
+                </Text>
+                <Text style={styles.monitorName} numberOfLines={1}>{m.name}</Text>
+                <Text style={styles.monitorState}>{m.complete ? 'Ready' : 'Not ready'}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>
+          No readiness check yet. Connect an OBD-II adapter to see whether emissions monitors are complete.
+        </Text>
+      )}
+      {obdConnected && (
+        <Pressable
+          style={({ pressed }) => [styles.outlineBtn, pressed && { opacity: 0.8 }]}
+          onPress={onCheck}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color={colors.brandAccent} size="small" />
+          ) : (
+            <View style={styles.outlineBtnContent}>
+              <GearActionIcon size="sm" />
+              <Text style={styles.outlineBtnText}>Check Readiness</Text>
+            </View>
+          )}
+        </Pressable>
+      )}
+    </SectionCard>
+  );
+}
+
 function QuickActionBtn({ label, icon, onPress }: { label: string; icon: string; onPress: () => void }) {
   const { colors } = useTheme();
   const styles = makeStyles(colors);
@@ -699,12 +977,15 @@ function CodesTab({ codes, filter, loading, obdConnected, onFilterChange, onAnal
 
 interface LiveDataTabProps {
   obdState: OBDSessionState;
-  liveData?: LiveOBDData;
+  liveData?: OBDParameter[];
+  playbackData?: OBDParameter[];
   scanning: boolean;
   onConnect: () => Promise<void>;
+  recorder: React.ReactNode;
+  alerts: React.ReactNode;
 }
 
-function LiveDataTab({ obdState, liveData, scanning, onConnect }: LiveDataTabProps) {
+function LiveDataTab({ obdState, liveData, playbackData, scanning, onConnect, recorder, alerts }: LiveDataTabProps) {
   const { colors } = useTheme();
   const styles = makeStyles(colors);
   return (
@@ -758,10 +1039,20 @@ function LiveDataTab({ obdState, liveData, scanning, onConnect }: LiveDataTabPro
         )}
       </SectionCard>
 
-      {/* Live data grid */}
-      <SectionCard title="Live Parameters">
-        <LiveDataGrid sessionState={obdState} data={liveData} />
+      {/* Live data grid (or a recorded sample during playback) */}
+      <SectionCard title={playbackData ? 'Recorded Parameters' : 'Live Parameters'}>
+        <LiveDataGrid
+          sessionState={obdState}
+          parameters={playbackData ?? liveData}
+          playback={playbackData !== undefined}
+        />
       </SectionCard>
+
+      {/* Threshold alerts */}
+      <SectionCard title="Alert Rules">{alerts}</SectionCard>
+
+      {/* Recording & playback */}
+      <SectionCard title="Recordings">{recorder}</SectionCard>
     </View>
   );
 }
@@ -891,6 +1182,18 @@ function makeStyles(colors: ReturnType<typeof useTheme>['colors']) {
   recallBannerTitle: { color: colors.danger, fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
   recallBannerSub: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
 
+  // Inspection readiness
+  readinessBody: { gap: 8 },
+  readinessHeader: { gap: 2 },
+  readinessVerdict: { fontFamily: fontFamilies.heading, fontSize: typeScale.md },
+  readinessMeta: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+  readinessReason: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+  monitorGrid: { gap: 4 },
+  monitorRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  monitorMark: { fontFamily: fontFamilies.heading, fontSize: typeScale.sm, width: 14, textAlign: 'center' },
+  monitorName: { flex: 1, color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+  monitorState: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+
   // Quick actions
   quickActions: { flexDirection: 'row', gap: 8 },
   quickBtn: { flex: 1, backgroundColor: colors.surfaceAlt, borderWidth: 1, borderColor: colors.border, borderRadius: radii.md, alignItems: 'center', paddingVertical: 12, gap: 4 },
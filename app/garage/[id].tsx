@@ -18,6 +18,28 @@ import GearActionIcon from '../../components/branding/GearActionIcon';
 import AppShell from '../../components/layout/AppShell';
 import { useAuth } from '../../contexts/AuthContext';
 import { getMaintenanceRecords } from '../../services/maintenance-service';
+import {
+  createFinancialAccount,
+  deleteFinancialAccount,
+  deleteLoanPayment,
+  getFinancialAccounts,
+  getLoanOverview,
+  recordLoanPayment,
+  updateLeaseAccount,
+  updateLoanAccount,
+  type LoanOverview,
+} from '../../services/financing-service';
+import { getLeaseReport, type LeaseReport } from '../../services/lease-tracker';
+import { addFuelLog, deleteFuelLog } from '../../services/fuel-service';
+import { formatEconomy, fuelKindsFor, getFuelEconomy, type FuelEconomyReport } from '../../services/fuel-economy';
+import {
+  compareOwnershipCosts,
+  getOwnershipCostReport,
+  printOwnershipCostReport,
+  renderOwnershipCostReport,
+  type CostCategory,
+  type OwnershipCostReport,
+} from '../../services/ownership-cost';
 import {
   addMileageLog,
   getMileageLogs,
@@ -26,6 +48,15 @@ import {
   getVehicleById,
 } from '../../services/vehicle-service';
 import { uploadFile, STORAGE_BUCKETS } from '../../services/storage-service';
+import { hasFeatureAccess } from '../../services/subscription-service';
+import { getVehicleValuationHistory, refreshVehicleValuation } from '../../services/valuation-service';
+import type {
+  ConditionGrade,
+  FinancialAccount,
+  FinancialFormData,
+  ValuationHistory,
+} from '../../types/financial';
+import type { FuelEntryKind, FuelLogEntry } from '../../types/fuel';
 import type { MaintenanceRecord } from '../../types/maintenance';
 import type { MileageLogEntry, Vehicle, VehicleStatus } from '../../types/vehicle';
 import { radii } from '../../theme/tokens';
@@ -44,6 +75,37 @@ const STATUS_CONFIG: Record<VehicleStatus, { label: string; color: string; bg: s
 
 const ALL_STATUSES: VehicleStatus[] = ['active', 'stored', 'for_sale', 'sold', 'totaled'];
 
+type DetailTab = 'overview' | 'fuel' | 'financing' | 'costs';
+
+const CONDITION_GRADES: ConditionGrade[] = ['excellent', 'good', 'fair', 'poor'];
+
+/** Most recent points shown in the value chart. */
+const CHART_POINTS = 12;
+
+const DETAIL_TABS: { key: DetailTab; label: string }[] = [
+  { key: 'overview', label: 'Overview' },
+  { key: 'fuel', label: 'Fuel' },
+  { key: 'financing', label: 'Financing' },
+  { key: 'costs', label: 'Costs' },
+];
+
+/** Fill-ups listed before "Show all". */
+const FUEL_PREVIEW_ROWS = 10;
+
+/** Where to fill in a cost the ownership report has nothing for. */
+const COST_HINTS: Record<CostCategory, string> = {
+  depreciation: 'depreciation (add the purchase price and a valuation)',
+  lease: 'lease payments',
+  interest: 'loan interest',
+  maintenance: 'maintenance (log service costs)',
+  fuel: 'fuel',
+  insurance: 'insurance (add your annual premium)',
+  registration: 'registration (add the annual fee)',
+};
+
+/** Schedule rows shown before "Show full schedule". */
+const SCHEDULE_PREVIEW_ROWS = 12;
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function fmtDate(iso?: string | null): string {
@@ -56,6 +118,23 @@ function fmtMileage(n?: number | null): string {
   return `${n.toLocaleString()} mi`;
 }
 
+function fmtMoney(n?: number | null, cents = false): string {
+  if (n === undefined || n === null) return '—';
+  return `$${n.toLocaleString('en-US', { minimumFractionDigits: cents ? 2 : 0, maximumFractionDigits: cents ? 2 : 0 })}`;
+}
+
+/** The account of a type to show: the active one, else the most recent. */
+function currentAccount(accounts: FinancialAccount[], type: FinancialAccount['type']): FinancialAccount | undefined {
+  const matching = accounts.filter((a) => a.type === type);
+  return matching.find((a) => a.status === 'active') ?? matching[0];
+}
+
+const PACE_LABEL: Record<LeaseReport['pace'], string> = {
+  under: 'Under pace',
+  on_track: 'On track',
+  over: 'Over pace',
+};
+
 function calcAnnualMileage(logs: MileageLogEntry[]): string {
   if (logs.length < 2) return '—';
   const sorted = [...logs].sort((a, b) => a.logged_date.localeCompare(b.logged_date));
@@ -91,6 +170,34 @@ function SectionCard({ title, children }: { title: string; children: React.React
   );
 }
 
+function ValueChart({ points }: { points: { date: string; value: number; flagged?: boolean }[] }) {
+  const { colors } = useTheme();
+  const styles = makeStyles(colors);
+  const shown = points.slice(-CHART_POINTS);
+  const max = Math.max(...shown.map((p) => p.value), 1);
+  return (
+    <View>
+      <View style={styles.chartBars}>
+        {shown.map((point, i) => (
+          <View key={`${point.date}-${i}`} style={styles.chartColumn}>
+            <View
+              style={[
+                styles.chartBar,
+                point.flagged && styles.chartBarFlagged,
+                { height: `${Math.max((point.value / max) * 100, 2)}%` },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.chartAxis}>
+        <Text style={styles.chartAxisText}>{fmtDate(shown[0].date)}</Text>
+        <Text style={styles.chartAxisText}>{fmtDate(shown[shown.length - 1].date)}</Text>
+      </View>
+    </View>
+  );
+}
+
 function InfoRow({ label, value }: { label: string; value?: string | null }) {
   const { colors } = useTheme();
   const styles = makeStyles(colors);
@@ -143,6 +250,18 @@ export default function VehicleDetailScreen() {
   const [records, setRecords] = useState<MaintenanceRecord[]>([]);
   const [mileageLogs, setMileageLogs] = useState<MileageLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<DetailTab>('overview');
+  const [loan, setLoan] = useState<LoanOverview | null>(null);
+  const [lease, setLease] = useState<{ account: FinancialAccount; report: LeaseReport } | null>(null);
+  const [showFullSchedule, setShowFullSchedule] = useState(false);
+  const [valuation, setValuation] = useState<ValuationHistory | null>(null);
+  const [canValue, setCanValue] = useState(false);
+  const [valuationCondition, setValuationCondition] = useState<ConditionGrade>('good');
+  const [valuing, setValuing] = useState(false);
+  const [costs, setCosts] = useState<OwnershipCostReport | null>(null);
+  const [fuelEntries, setFuelEntries] = useState<FuelLogEntry[]>([]);
+  const [fuelReport, setFuelReport] = useState<FuelEconomyReport>({});
+  const [showAllFuel, setShowAllFuel] = useState(false);
 
   // Modals
   const [editVisible, setEditVisible] = useState(false);
@@ -160,6 +279,8 @@ export default function VehicleDetailScreen() {
   const [editInsPolicyNum, setEditInsPolicyNum] = useState('');
   const [editInsCoverage, setEditInsCoverage] = useState('');
   const [editInsExpiry, setEditInsExpiry] = useState('');
+  const [editInsPremium, setEditInsPremium] = useState('');
+  const [editRegFee, setEditRegFee] = useState('');
   const [editPurchaseDate, setEditPurchaseDate] = useState('');
   const [editPurchasePrice, setEditPurchasePrice] = useState('');
   const [editDealerInfo, setEditDealerInfo] = useState('');
@@ -172,18 +293,81 @@ export default function VehicleDetailScreen() {
   const [newMileageNotes, setNewMileageNotes] = useState('');
   const [loggingMileage, setLoggingMileage] = useState(false);
 
+  // Loan form state
+  const [loanVisible, setLoanVisible] = useState(false);
+  const [loanLender, setLoanLender] = useState('');
+  const [loanAmount, setLoanAmount] = useState('');
+  const [loanApr, setLoanApr] = useState('');
+  const [loanTerm, setLoanTerm] = useState('');
+  const [loanStart, setLoanStart] = useState('');
+  const [loanPayment, setLoanPayment] = useState('');
+  const [loanPaymentEdited, setLoanPaymentEdited] = useState(false);
+  const [loanDown, setLoanDown] = useState('');
+  const [savingLoan, setSavingLoan] = useState(false);
+
+  // Loan payment form state
+  const [paymentVisible, setPaymentVisible] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [paymentNotes, setPaymentNotes] = useState('');
+  const [savingPayment, setSavingPayment] = useState(false);
+
+  // Fuel log modal
+  const [fuelVisible, setFuelVisible] = useState(false);
+  const [fuelKind, setFuelKind] = useState<FuelEntryKind>('fuel');
+  const [fuelDate, setFuelDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [fuelOdometer, setFuelOdometer] = useState('');
+  const [fuelVolume, setFuelVolume] = useState('');
+  const [fuelPrice, setFuelPrice] = useState('');
+  const [fuelTotal, setFuelTotal] = useState('');
+  const [fuelFull, setFuelFull] = useState(true);
+  const [fuelStation, setFuelStation] = useState('');
+  const [savingFuel, setSavingFuel] = useState(false);
+
+  // Lease form state
+  const [leaseVisible, setLeaseVisible] = useState(false);
+  const [leaseCompany, setLeaseCompany] = useState('');
+  const [leasePayment, setLeasePayment] = useState('');
+  const [leaseTerm, setLeaseTerm] = useState('');
+  const [leaseStart, setLeaseStart] = useState('');
+  const [leaseResidual, setLeaseResidual] = useState('');
+  const [leaseMoneyFactor, setLeaseMoneyFactor] = useState('');
+  const [leaseMiles, setLeaseMiles] = useState('');
+  const [leaseOverage, setLeaseOverage] = useState('');
+  const [leaseStartMileage, setLeaseStartMileage] = useState('');
+  const [leaseDueAtSigning, setLeaseDueAtSigning] = useState('');
+  const [savingLease, setSavingLease] = useState(false);
+
   const loadData = useCallback(async () => {
     if (!user?.user_id || !id) return;
     setLoading(true);
     try {
-      const [vehicleRow, maintenanceRows, mileageRows] = await Promise.all([
+      const [vehicleRow, maintenanceRows, mileageRows, accountRows] = await Promise.all([
         getVehicleById(id, user.user_id),
         getMaintenanceRecords(id, user.user_id),
         getMileageLogs(id, user.user_id),
+        getFinancialAccounts(id).catch(() => [] as FinancialAccount[]),
       ]);
       setVehicle(vehicleRow);
       setRecords(maintenanceRows.slice(0, 5));
       setMileageLogs(mileageRows);
+      const loanAccount = currentAccount(accountRows, 'loan');
+      const leaseAccount = currentAccount(accountRows, 'lease');
+      const [loanOverview, leaseReport, valuationHistory, valuationAccess, costReport, fuel] = await Promise.all([
+        loanAccount ? getLoanOverview(loanAccount).catch(() => null) : null,
+        leaseAccount && vehicleRow ? getLeaseReport(leaseAccount, vehicleRow, user.user_id) : null,
+        vehicleRow ? getVehicleValuationHistory(vehicleRow) : null,
+        hasFeatureAccess(user.user_id, 'valuationTracking'),
+        vehicleRow ? getOwnershipCostReport(vehicleRow, user.user_id) : null,
+        vehicleRow ? getFuelEconomy(vehicleRow) : null,
+      ]);
+      setLoan(loanOverview);
+      setValuation(valuationHistory);
+      setCanValue(valuationAccess);
+      setCosts(costReport);
+      setFuelEntries(fuel?.entries ?? []);
+      setFuelReport(fuel?.report ?? {});
+      setLease(leaseAccount && leaseReport ? { account: leaseAccount, report: leaseReport } : null);
     } catch (error) {
       console.warn('Could not load vehicle detail:', error);
     } finally {
@@ -204,6 +388,8 @@ export default function VehicleDetailScreen() {
     setEditInsPolicyNum(vehicle.insurance_policy_number || '');
     setEditInsCoverage(vehicle.insurance_coverage_type || '');
     setEditInsExpiry(vehicle.insurance_expiry || '');
+    setEditInsPremium(vehicle.insurance_premium_annual ? String(vehicle.insurance_premium_annual) : '');
+    setEditRegFee(vehicle.registration_fee_annual ? String(vehicle.registration_fee_annual) : '');
     setEditPurchaseDate(vehicle.purchase_date || '');
     setEditPurchasePrice(vehicle.purchase_price ? String(vehicle.purchase_price) : '');
     setEditDealerInfo(vehicle.dealer_seller_info || '');
@@ -225,6 +411,8 @@ export default function VehicleDetailScreen() {
         insurance_policy_number: editInsPolicyNum || undefined,
         insurance_coverage_type: editInsCoverage || undefined,
         insurance_expiry: editInsExpiry || undefined,
+        insurance_premium_annual: editInsPremium ? parseFloat(editInsPremium) : undefined,
+        registration_fee_annual: editRegFee ? parseFloat(editRegFee) : undefined,
         purchase_date: editPurchaseDate || undefined,
         purchase_price: editPurchasePrice ? parseFloat(editPurchasePrice) : undefined,
         dealer_seller_info: editDealerInfo || undefined,
@@ -261,6 +449,241 @@ export default function VehicleDetailScreen() {
     }
   }
 
+  function openLoanForm(account?: FinancialAccount) {
+    setLoanLender(account?.lender_name || '');
+    setLoanAmount(account?.principal_amount ? String(account.principal_amount) : '');
+    setLoanApr(account?.interest_rate !== undefined && account?.interest_rate !== null ? String(Math.round(Number(account.interest_rate) * 10000) / 100) : '');
+    setLoanTerm(account?.term_months ? String(account.term_months) : '');
+    setLoanStart(account?.start_date || vehicle?.purchase_date || new Date().toISOString().slice(0, 10));
+    setLoanPayment(account?.monthly_payment ? String(account.monthly_payment) : '');
+    setLoanPaymentEdited(false);
+    setLoanDown(account?.down_payment ? String(account.down_payment) : '');
+    setLoanVisible(true);
+  }
+
+  // A pre-filled payment belongs to the old terms; drop it so it's recalculated, unless the user typed one
+  function changeLoanTerm(setter: (value: string) => void) {
+    return (value: string) => {
+      setter(value);
+      if (!loanPaymentEdited) setLoanPayment('');
+    };
+  }
+
+  async function handleSaveLoan() {
+    if (!vehicle) return;
+    const principal = parseFloat(loanAmount);
+    const apr = parseFloat(loanApr || '0');
+    const term = parseInt(loanTerm, 10);
+    if (!(principal > 0) || !(term > 0) || !(apr >= 0) || !/^\d{4}-\d{2}-\d{2}$/.test(loanStart)) {
+      Alert.alert('Missing loan terms', 'Enter the amount financed, APR, term in months and start date (YYYY-MM-DD).');
+      return;
+    }
+    const form: FinancialFormData = {
+      type: 'loan',
+      lender_name: loanLender || undefined,
+      start_date: loanStart,
+      term_months: term,
+      interest_rate: apr / 100,
+      principal_amount: principal,
+      monthly_payment: loanPayment ? parseFloat(loanPayment) : undefined,
+      down_payment: loanDown ? parseFloat(loanDown) : undefined,
+    };
+    setSavingLoan(true);
+    try {
+      if (loan) await updateLoanAccount(loan.account, form);
+      else await createFinancialAccount(vehicle.vehicle_id, form);
+      setLoanVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message || 'Please try again.');
+    } finally {
+      setSavingLoan(false);
+    }
+  }
+
+  async function handleRemoveLoan() {
+    if (!loan) return;
+    try {
+      await deleteFinancialAccount(loan.account.account_id);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Failed to remove loan', e?.message);
+    }
+  }
+
+  function openLeaseForm(account?: FinancialAccount) {
+    const num = (n?: number | null) => (n !== undefined && n !== null ? String(n) : '');
+    setLeaseCompany(account?.lender_name || '');
+    setLeasePayment(num(account?.monthly_payment));
+    setLeaseTerm(num(account?.term_months));
+    setLeaseStart(account?.start_date || vehicle?.purchase_date || new Date().toISOString().slice(0, 10));
+    setLeaseResidual(num(account?.residual_value));
+    setLeaseMoneyFactor(num(account?.money_factor));
+    setLeaseMiles(num(account?.miles_allowed_annual));
+    setLeaseOverage(num(account?.overage_charge_per_mile));
+    setLeaseStartMileage(num(account?.start_mileage));
+    setLeaseDueAtSigning(num(account?.down_payment));
+    setLeaseVisible(true);
+  }
+
+  async function handleSaveLease() {
+    if (!vehicle) return;
+    const payment = parseFloat(leasePayment);
+    const term = parseInt(leaseTerm, 10);
+    const residual = parseFloat(leaseResidual);
+    const miles = parseInt(leaseMiles, 10);
+    if (!(payment > 0) || !(term > 0) || !(residual > 0) || !(miles > 0) || !/^\d{4}-\d{2}-\d{2}$/.test(leaseStart)) {
+      Alert.alert('Missing lease terms', 'Enter the monthly payment, term, start date (YYYY-MM-DD), residual value and annual mile allowance.');
+      return;
+    }
+    const optional = (text: string) => (text ? parseFloat(text) : undefined);
+    const form: FinancialFormData = {
+      type: 'lease',
+      lender_name: leaseCompany || undefined,
+      start_date: leaseStart,
+      term_months: term,
+      monthly_payment: payment,
+      residual_value: residual,
+      money_factor: optional(leaseMoneyFactor),
+      miles_allowed_annual: miles,
+      overage_charge_per_mile: optional(leaseOverage),
+      start_mileage: leaseStartMileage ? parseInt(leaseStartMileage, 10) : undefined,
+      down_payment: optional(leaseDueAtSigning),
+    };
+    setSavingLease(true);
+    try {
+      if (lease) await updateLeaseAccount(lease.account, form);
+      else await createFinancialAccount(vehicle.vehicle_id, form);
+      setLeaseVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message || 'Please try again.');
+    } finally {
+      setSavingLease(false);
+    }
+  }
+
+  async function handleRemoveLease() {
+    if (!lease) return;
+    try {
+      await deleteFinancialAccount(lease.account.account_id);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Failed to remove lease', e?.message);
+    }
+  }
+
+  async function handleRefreshValuation() {
+    if (!vehicle || !user?.user_id) return;
+    setValuing(true);
+    try {
+      await refreshVehicleValuation(vehicle, user.user_id, valuationCondition);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Valuation failed', e?.message || 'Please try again.');
+    } finally {
+      setValuing(false);
+    }
+  }
+
+  const fuelKinds = fuelKindsFor(vehicle?.fuel_type);
+  const fuelPrefs = user?.preferences ?? {};
+
+  function openFuelForm(kind: FuelEntryKind) {
+    setFuelKind(kind);
+    setFuelDate(new Date().toISOString().slice(0, 10));
+    setFuelOdometer(vehicle?.current_mileage ? String(vehicle.current_mileage) : '');
+    setFuelVolume('');
+    setFuelPrice('');
+    setFuelTotal('');
+    setFuelFull(true);
+    setFuelStation('');
+    setFuelVisible(true);
+  }
+
+  async function handleSaveFuel() {
+    if (!vehicle || !user?.user_id) return;
+    const odometer = parseInt(fuelOdometer, 10);
+    const volume = parseFloat(fuelVolume);
+    if (isNaN(odometer) || odometer < 0 || !(volume > 0)) {
+      Alert.alert('Missing details', 'Enter the odometer reading and how much you added.');
+      return;
+    }
+    setSavingFuel(true);
+    try {
+      await addFuelLog(user.user_id, vehicle.vehicle_id, {
+        kind: fuelKind,
+        filled_date: fuelDate,
+        odometer,
+        volume,
+        volume_unit: fuelKind === 'charge' ? 'kwh' : fuelPrefs.fuel_unit === 'liters' ? 'l' : 'gal',
+        price_per_unit: fuelPrice ? parseFloat(fuelPrice) : undefined,
+        total_cost: fuelTotal ? parseFloat(fuelTotal) : undefined,
+        is_full: fuelFull,
+        station: fuelStation || undefined,
+      });
+      setFuelVisible(false);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Failed to log fill-up', e?.message || 'Please try again.');
+    } finally {
+      setSavingFuel(false);
+    }
+  }
+
+  async function handleDeleteFuel(entry: FuelLogEntry) {
+    try {
+      await deleteFuelLog(entry);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Failed to delete fill-up', e?.message);
+    }
+  }
+
+  async function handlePrintCosts() {
+    if (!costs) return;
+    try {
+      await printOwnershipCostReport(renderOwnershipCostReport(compareOwnershipCosts([costs])));
+    } catch (e: any) {
+      Alert.alert('Could not print report', e?.message || 'Please try again.');
+    }
+  }
+
+  async function handleRecordPayment() {
+    if (!loan || !user?.user_id) return;
+    const amount = parseFloat(paymentAmount);
+    if (!(amount > 0)) {
+      Alert.alert('Invalid amount', 'Please enter the amount paid.');
+      return;
+    }
+    setSavingPayment(true);
+    try {
+      await recordLoanPayment(user.user_id, loan.account, {
+        payment_date: paymentDate,
+        amount,
+        notes: paymentNotes || undefined,
+      });
+      setPaymentVisible(false);
+      setPaymentNotes('');
+      setPaymentDate(new Date().toISOString().slice(0, 10));
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Failed to record payment', e?.message || 'Please try again.');
+    } finally {
+      setSavingPayment(false);
+    }
+  }
+
+  async function handleDeletePayment(paymentId: string) {
+    if (!loan) return;
+    try {
+      await deleteLoanPayment(paymentId, loan.account);
+      loadData();
+    } catch (e: any) {
+      Alert.alert('Failed to delete payment', e?.message);
+    }
+  }
+
   async function handleSetStatus(status: VehicleStatus) {
     if (!vehicle || !user?.user_id) return;
     try {
@@ -410,106 +833,708 @@ export default function VehicleDetailScreen() {
               </View>
             </View>
 
-            {/* ── Overview ───────────────────────────────────── */}
-            <SectionCard title="Vehicle Overview">
-              <View style={styles.infoGrid}>
-                <InfoRow label="VIN" value={vehicle.vin ? `***${vehicle.vin.slice(-6)}` : undefined} />
-                <InfoRow label="Color" value={vehicle.color} />
-                <InfoRow label="Fuel Type" value={vehicle.fuel_type} />
-                <InfoRow label="Transmission" value={vehicle.transmission} />
-                <InfoRow label="Drivetrain" value={vehicle.drivetrain} />
-                <InfoRow label="Body Type" value={vehicle.body_type} />
-              </View>
-            </SectionCard>
-
-            {/* ── Odometer / Mileage History ─────────────────── */}
-            <SectionCard title="Odometer History">
-              <View style={styles.mileageHeader}>
-                <View>
-                  <Text style={styles.mileageCurrent}>
-                    {fmtMileage(vehicle.current_mileage)}
-                  </Text>
-                  <Text style={styles.mileageSubtext}>
-                    Annual avg: {calcAnnualMileage(mileageLogs)}
-                  </Text>
-                </View>
+            <View style={styles.tabBar}>
+              {DETAIL_TABS.map((tab) => (
                 <Pressable
-                  accessibilityRole="button"
-                  style={({ pressed }) => [styles.logMileageBtn, pressed && styles.pressed]}
-                  onPress={() => {
-                    setNewMileage(vehicle.current_mileage ? String(vehicle.current_mileage) : '');
-                    setMileageVisible(true);
-                  }}
+                  key={tab.key}
+                  accessibilityRole="tab"
+                  onPress={() => setActiveTab(tab.key)}
+                  style={({ pressed }) => [styles.tabButton, activeTab === tab.key && styles.tabButtonActive, pressed && styles.pressed]}
                 >
-                  <Ionicons name="add-outline" size={16} color={colors.brandAccent} />
-                  <Text style={styles.logMileageBtnText}>Log Reading</Text>
+                  <Text style={[styles.tabText, activeTab === tab.key && styles.tabTextActive]}>{tab.label}</Text>
                 </Pressable>
-              </View>
+              ))}
+            </View>
+
+            {activeTab === 'overview' && (
+              <>
+                {/* ── Overview ───────────────────────────────────── */}
+                <SectionCard title="Vehicle Overview">
+                  <View style={styles.infoGrid}>
+                    <InfoRow label="VIN" value={vehicle.vin ? `***${vehicle.vin.slice(-6)}` : undefined} />
+                    <InfoRow label="Color" value={vehicle.color} />
+                    <InfoRow label="Fuel Type" value={vehicle.fuel_type} />
+                    <InfoRow label="Transmission" value={vehicle.transmission} />
+                    <InfoRow label="Drivetrain" value={vehicle.drivetrain} />
+                    <InfoRow label="Body Type" value={vehicle.body_type} />
+                  </View>
+                </SectionCard>
+
+                {/* ── Odometer / Mileage History ─────────────────── */}
+                <SectionCard title="Odometer History">
+                  <View style={styles.mileageHeader}>
+                    <View>
+                      <Text style={styles.mileageCurrent}>
+                        {fmtMileage(vehicle.current_mileage)}
+                      </Text>
+                      <Text style={styles.mileageSubtext}>
+                        Annual avg: {calcAnnualMileage(mileageLogs)}
+                      </Text>
+                    </View>
+                    <Pressable
+                      accessibilityRole="button"
+                      style={({ pressed }) => [styles.logMileageBtn, pressed && styles.pressed]}
+                      onPress={() => {
+                        setNewMileage(vehicle.current_mileage ? String(vehicle.current_mileage) : '');
+                        setMileageVisible(true);
+                      }}
+                    >
+                      <Ionicons name="add-outline" size={16} color={colors.brandAccent} />
+                      <Text style={styles.logMileageBtnText}>Log Reading</Text>
+                    </Pressable>
+                  </View>
 
-              {mileageLogs.length > 0 && (
-                <View style={styles.mileageList}>
-                  {mileageLogs.slice(0, 6).map((log) => (
-                    <View key={log.log_id || `${log.logged_date}-${log.mileage}`} style={styles.mileageRow}>
-                      <Ionicons name="speedometer-outline" size={14} color={colors.brandAccent} />
-                      <Text style={styles.mileageRowValue}>{log.mileage.toLocaleString()} mi</Text>
-                      <Text style={styles.mileageRowDate}>{fmtDate(log.logged_date)}</Text>
-                      {log.notes ? <Text style={styles.mileageRowNotes} numberOfLines={1}>{log.notes}</Text> : null}
+                  {mileageLogs.length > 0 && (
+                    <View style={styles.mileageList}>
+                      {mileageLogs.slice(0, 6).map((log) => (
+                        <View key={log.log_id || `${log.logged_date}-${log.mileage}`} style={styles.mileageRow}>
+                          <Ionicons name="speedometer-outline" size={14} color={colors.brandAccent} />
+                          <Text style={styles.mileageRowValue}>{log.mileage.toLocaleString()} mi</Text>
+                          <Text style={styles.mileageRowDate}>{fmtDate(log.logged_date)}</Text>
+                          {log.notes ? <Text style={styles.mileageRowNotes} numberOfLines={1}>{log.notes}</Text> : null}
+                        </View>
+                      ))}
                     </View>
-                  ))}
-                </View>
-              )}
-            </SectionCard>
-
-            {/* ── Registration & Inspection ──────────────────── */}
-            <SectionCard title="Registration & Inspection">
-              <View style={styles.infoGrid}>
-                <InfoRow label="License Plate" value={vehicle.license_plate} />
-                <InfoRow label="Registration Expires" value={fmtDate(vehicle.registration_expiry)} />
-                <InfoRow label="Inspection Due" value={fmtDate(vehicle.inspection_due)} />
-              </View>
-            </SectionCard>
-
-            {/* ── Insurance ──────────────────────────────────── */}
-            <SectionCard title="Insurance">
-              <View style={styles.infoGrid}>
-                <InfoRow label="Provider" value={vehicle.insurance_provider} />
-                <InfoRow label="Policy Number" value={vehicle.insurance_policy_number} />
-                <InfoRow label="Coverage Type" value={vehicle.insurance_coverage_type} />
-                <InfoRow label="Policy Expires" value={fmtDate(vehicle.insurance_expiry)} />
-              </View>
-            </SectionCard>
-
-            {/* ── Purchase Info ──────────────────────────────── */}
-            <SectionCard title="Purchase Info">
-              <View style={styles.infoGrid}>
-                <InfoRow label="Purchase Date" value={fmtDate(vehicle.purchase_date)} />
-                <InfoRow
-                  label="Purchase Price"
-                  value={vehicle.purchase_price ? `$${Number(vehicle.purchase_price).toLocaleString()}` : undefined}
-                />
-                <InfoRow label="Dealer / Seller" value={vehicle.dealer_seller_info} />
-                <InfoRow label="Loan Details" value={vehicle.loan_details} />
-              </View>
-            </SectionCard>
-
-            {/* ── Recent Maintenance ─────────────────────────── */}
-            <SectionCard title="Recent Maintenance">
-              {records.length === 0 ? (
-                <Text style={styles.emptyText}>No maintenance records yet.</Text>
-              ) : (
-                records.map((record) => (
-                  <View key={record.record_id} style={styles.maintenanceRow}>
-                    <View style={{ flex: 1 }}>
-                      <Text style={styles.maintenanceTitle}>{record.title}</Text>
-                      <Text style={styles.maintenanceMeta}>{record.type} · {record.date}</Text>
+                  )}
+                </SectionCard>
+
+                {/* ── Registration & Inspection ──────────────────── */}
+                <SectionCard title="Registration & Inspection">
+                  <View style={styles.infoGrid}>
+                    <InfoRow label="License Plate" value={vehicle.license_plate} />
+                    <InfoRow label="Registration Expires" value={fmtDate(vehicle.registration_expiry)} />
+                    <InfoRow label="Inspection Due" value={fmtDate(vehicle.inspection_due)} />
+                    <InfoRow label="Annual Fee" value={vehicle.registration_fee_annual ? fmtMoney(Number(vehicle.registration_fee_annual)) : undefined} />
+                  </View>
+                </SectionCard>
+
+                {/* ── Insurance ──────────────────────────────────── */}
+                <SectionCard title="Insurance">
+                  <View style={styles.infoGrid}>
+                    <InfoRow label="Provider" value={vehicle.insurance_provider} />
+                    <InfoRow label="Policy Number" value={vehicle.insurance_policy_number} />
+                    <InfoRow label="Coverage Type" value={vehicle.insurance_coverage_type} />
+                    <InfoRow label="Policy Expires" value={fmtDate(vehicle.insurance_expiry)} />
+                    <InfoRow label="Annual Premium" value={vehicle.insurance_premium_annual ? fmtMoney(Number(vehicle.insurance_premium_annual)) : undefined} />
+                  </View>
+                </SectionCard>
+
+                {/* ── Purchase Info ──────────────────────────────── */}
+                <SectionCard title="Purchase Info">
+                  <View style={styles.infoGrid}>
+                    <InfoRow label="Purchase Date" value={fmtDate(vehicle.purchase_date)} />
+                    <InfoRow
+                      label="Purchase Price"
+                      value={vehicle.purchase_price ? `$${Number(vehicle.purchase_price).toLocaleString()}` : undefined}
+                    />
+                    <InfoRow label="Dealer / Seller" value={vehicle.dealer_seller_info} />
+                    <InfoRow label="Loan Details" value={vehicle.loan_details} />
+                  </View>
+                </SectionCard>
+
+                {/* ── Market Value ───────────────────────────────── */}
+                <SectionCard title="Market Value">
+                  <View style={styles.statGrid}>
+                    <View style={styles.statBox}>
+                      <Text style={styles.statValue}>{fmtMoney(vehicle.current_market_value)}</Text>
+                      <Text style={styles.statLabel}>Current Value</Text>
+                    </View>
+                    <View style={styles.statBox}>
+                      <Text style={styles.statValue}>
+                        {valuation && vehicle.purchase_price ? fmtMoney(valuation.total_depreciation) : '—'}
+                      </Text>
+                      <Text style={styles.statLabel}>Depreciation</Text>
                     </View>
-                    <Text style={styles.maintenanceCost}>
-                      {record.cost ? `$${record.cost.toFixed(2)}` : '—'}
+                    <View style={styles.statBox}>
+                      <Text style={styles.statValue}>
+                        {valuation && vehicle.purchase_price ? `${valuation.depreciation_percentage}%` : '—'}
+                      </Text>
+                      <Text style={styles.statLabel}>Of Purchase</Text>
+                    </View>
+                  </View>
+                  {valuation && valuation.depreciation_chart.length > 1 ? (
+                    <ValueChart points={valuation.depreciation_chart} />
+                  ) : (
+                    <Text style={styles.emptyText}>
+                      {canValue
+                        ? 'Update the valuation now and then to chart how the value changes over time.'
+                        : 'Valuation tracking is available on paid plans.'}
                     </Text>
+                  )}
+                  {valuation && valuation.valuations.length > 0 && (
+                    <View style={styles.infoGrid}>
+                      {(() => {
+                        const latest = valuation.valuations[valuation.valuations.length - 1];
+                        return (
+                          <>
+                            <InfoRow label="Trade-In" value={fmtMoney(latest.trade_in_value)} />
+                            <InfoRow label="Dealer Retail" value={fmtMoney(latest.dealer_retail_value)} />
+                            <InfoRow
+                              label="Valued"
+                              value={`${fmtDate(latest.valuation_date)} · ${latest.mileage_at_valuation.toLocaleString()} mi`}
+                            />
+                            <InfoRow
+                              label="Source"
+                              value={`${latest.data_source} (${Math.round(latest.confidence_level * 100)}% confidence)`}
+                            />
+                          </>
+                        );
+                      })()}
+                    </View>
+                  )}
+                  {canValue && (
+                    <>
+                      <View style={styles.chipRow}>
+                        {CONDITION_GRADES.map((grade) => (
+                          <Pressable
+                            key={grade}
+                            accessibilityRole="button"
+                            style={({ pressed }) => [
+                              styles.tabButton,
+                              valuationCondition === grade && styles.tabButtonActive,
+                              pressed && styles.pressed,
+                            ]}
+                            onPress={() => setValuationCondition(grade)}
+                          >
+                            <Text style={[styles.tabText, valuationCondition === grade && styles.tabTextActive]}>
+                              {grade.charAt(0).toUpperCase() + grade.slice(1)}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      <Pressable
+                        accessibilityRole="button"
+                        disabled={valuing}
+                        style={({ pressed }) => [styles.primaryButton, valuing && styles.buttonDisabled, pressed && styles.pressed]}
+                        onPress={handleRefreshValuation}
+                      >
+                        {valuing ? (
+                          <ActivityIndicator color={colors.background} />
+                        ) : (
+                          <>
+                            <Ionicons name="trending-down-outline" size={16} color={colors.background} />
+                            <Text style={styles.primaryButtonText}>Update Valuation</Text>
+                          </>
+                        )}
+                      </Pressable>
+                    </>
+                  )}
+                </SectionCard>
+
+                {/* ── Recent Maintenance ─────────────────────────── */}
+                <SectionCard title="Recent Maintenance">
+                  {records.length === 0 ? (
+                    <Text style={styles.emptyText}>No maintenance records yet.</Text>
+                  ) : (
+                    records.map((record) => (
+                      <View key={record.record_id} style={styles.maintenanceRow}>
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.maintenanceTitle}>{record.title}</Text>
+                          <Text style={styles.maintenanceMeta}>{record.type} · {record.date}</Text>
+                        </View>
+                        <Text style={styles.maintenanceCost}>
+                          {record.cost ? `$${record.cost.toFixed(2)}` : '—'}
+                        </Text>
+                      </View>
+                    ))
+                  )}
+                </SectionCard>
+              </>
+            )}
+
+            {activeTab === 'fuel' && (
+              <>
+                {fuelKinds.map((kind) => {
+                  const stats = fuelReport[kind];
+                  if (!stats) return null;
+                  return (
+                    <SectionCard key={kind} title={kind === 'charge' ? 'Charging Efficiency' : 'Fuel Economy'}>
+                      <View style={styles.statGrid}>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{formatEconomy(stats.average_economy, kind, fuelPrefs)}</Text>
+                          <Text style={styles.statLabel}>Average</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{formatEconomy(stats.latest_economy, kind, fuelPrefs)}</Text>
+                          <Text style={styles.statLabel}>Last {kind === 'charge' ? 'Charge' : 'Tank'}</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>
+                            {stats.cost_per_mile !== undefined ? fmtMoney(stats.cost_per_mile, true) : '—'}
+                          </Text>
+                          <Text style={styles.statLabel}>Per Mile</Text>
+                        </View>
+                      </View>
+                      {stats.anomaly ? (
+                        <View style={styles.warningBanner}>
+                          <Ionicons name="warning-outline" size={16} color={colors.warning} />
+                          <Text style={styles.warningText}>{stats.anomaly.message}</Text>
+                        </View>
+                      ) : null}
+                      {stats.segments.length > 1 ? (
+                        <ValueChart
+                          points={stats.segments.map((s) => ({ date: s.end_date, value: s.economy, flagged: s.anomaly }))}
+                        />
+                      ) : (
+                        <Text style={styles.emptyText}>
+                          Economy is worked out between full {kind === 'charge' ? 'charges' : 'fill-ups'}; log a couple more to see the trend.
+                        </Text>
+                      )}
+                      <View style={styles.infoGrid}>
+                        <InfoRow label="Best / Worst" value={`${formatEconomy(stats.best_economy, kind, fuelPrefs)} / ${formatEconomy(stats.worst_economy, kind, fuelPrefs)}`} />
+                        <InfoRow label="Total Spent" value={fmtMoney(stats.total_cost, true)} />
+                        {stats.by_month.length > 0 && (
+                          <InfoRow label="This Month" value={fmtMoney(stats.by_month.find((m) => m.month === new Date().toISOString().slice(0, 7))?.cost ?? 0, true)} />
+                        )}
+                      </View>
+                    </SectionCard>
+                  );
+                })}
+
+                {/* ── Fill-Ups ───────────────────────────────────── */}
+                <SectionCard title={fuelKinds[0] === 'charge' ? 'Charging Sessions' : 'Fill-Ups'}>
+                  <View style={styles.heroActions}>
+                    {fuelKinds.map((kind, i) => (
+                      <Pressable
+                        key={kind}
+                        accessibilityRole="button"
+                        style={({ pressed }) => [i === 0 ? styles.primaryButton : styles.secondaryButton, pressed && styles.pressed]}
+                        onPress={() => openFuelForm(kind)}
+                      >
+                        <Ionicons
+                          name={kind === 'charge' ? 'flash-outline' : 'water-outline'}
+                          size={16}
+                          color={i === 0 ? colors.background : colors.textPrimary}
+                        />
+                        <Text style={i === 0 ? styles.primaryButtonText : styles.secondaryButtonText}>
+                          {kind === 'charge' ? 'Log Charge' : 'Log Fill-Up'}
+                        </Text>
+                      </Pressable>
+                    ))}
                   </View>
-                ))
-              )}
-            </SectionCard>
+                  {fuelEntries.length === 0 ? (
+                    <Text style={styles.emptyText}>
+                      Log each {fuelKinds[0] === 'charge' ? 'charging session' : 'fill-up'} with the odometer reading to track economy and running costs.
+                    </Text>
+                  ) : (
+                    <>
+                      {(showAllFuel ? fuelEntries : fuelEntries.slice(0, FUEL_PREVIEW_ROWS)).map((entry) => (
+                        <View key={entry.fuel_log_id} style={styles.mileageRow}>
+                          <Ionicons
+                            name={entry.kind === 'charge' ? 'flash-outline' : 'water-outline'}
+                            size={14}
+                            color={colors.brandAccent}
+                          />
+                          <Text style={styles.mileageRowValue}>
+                            {Number(entry.volume).toFixed(entry.volume_unit === 'kwh' ? 1 : 2)} {entry.volume_unit}
+                          </Text>
+                          <Text style={styles.mileageRowDate}>{fmtDate(entry.filled_date)}</Text>
+                          <Text style={styles.mileageRowNotes} numberOfLines={1}>
+                            {entry.odometer.toLocaleString()} mi · {fmtMoney(Number(entry.total_cost), true)}
+                            {entry.is_full ? '' : ' · partial'}
+                            {entry.station ? ` · ${entry.station}` : ''}
+                          </Text>
+                          <Pressable
+                            accessibilityRole="button"
+                            accessibilityLabel="Delete fill-up"
+                            onPress={() => handleDeleteFuel(entry)}
+                            style={({ pressed }) => [pressed && styles.pressed]}
+                          >
+                            <Ionicons name="close" size={16} color={colors.textSecondary} />
+                          </Pressable>
+                        </View>
+                      ))}
+                      {fuelEntries.length > FUEL_PREVIEW_ROWS && (
+                        <Pressable
+                          accessibilityRole="button"
+                          onPress={() => setShowAllFuel((v) => !v)}
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                        >
+                          <Text style={styles.secondaryButtonText}>
+                            {showAllFuel ? 'Show less' : `Show all ${fuelEntries.length} entries`}
+                          </Text>
+                        </Pressable>
+                      )}
+                    </>
+                  )}
+                </SectionCard>
+              </>
+            )}
+
+            {activeTab === 'financing' && (
+              <>
+                {lease && (
+                  <>
+                    {/* ── Lease Summary ──────────────────────────────── */}
+                    <SectionCard title={lease.account.lender_name ? `Lease · ${lease.account.lender_name}` : 'Lease'}>
+                      <View style={styles.statGrid}>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{fmtMoney(lease.report.details.monthly_payment, true)}</Text>
+                          <Text style={styles.statLabel}>Monthly</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{lease.report.months_remaining}</Text>
+                          <Text style={styles.statLabel}>Months Left</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{fmtMoney(lease.report.details.buyout_value)}</Text>
+                          <Text style={styles.statLabel}>Buyout</Text>
+                        </View>
+                      </View>
+                      <View style={styles.infoGrid}>
+                        <InfoRow label="Lease Ends" value={fmtDate(lease.report.details.end_date)} />
+                        <InfoRow label="Residual Value" value={fmtMoney(lease.report.details.residual_value)} />
+                        <InfoRow
+                          label={lease.report.market_value_source === 'vehicle' ? 'Market Value' : 'Market Value (est. at residual)'}
+                          value={fmtMoney(lease.report.details.market_value)}
+                        />
+                        <InfoRow
+                          label="Equity"
+                          value={`${lease.report.details.equity < 0 ? '-' : ''}${fmtMoney(Math.abs(lease.report.details.equity))}`}
+                        />
+                      </View>
+                      <View style={styles.heroActions}>
+                        <Pressable
+                          accessibilityRole="button"
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                          onPress={() => openLeaseForm(lease.account)}
+                        >
+                          <Ionicons name="pencil-outline" size={16} color={colors.textPrimary} />
+                          <Text style={styles.secondaryButtonText}>Edit Terms</Text>
+                        </Pressable>
+                        <Pressable
+                          accessibilityRole="button"
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                          onPress={handleRemoveLease}
+                        >
+                          <Ionicons name="trash-outline" size={16} color={colors.danger} />
+                          <Text style={styles.secondaryButtonText}>Remove</Text>
+                        </Pressable>
+                      </View>
+                    </SectionCard>
+
+                    {/* ── Lease Mileage ──────────────────────────────── */}
+                    {lease.report.allowance_total > 0 && (
+                      <SectionCard title="Lease Mileage">
+                        {lease.report.warning ? (
+                          <View style={styles.warningBanner}>
+                            <Ionicons name="warning-outline" size={16} color={colors.warning} />
+                            <Text style={styles.warningText}>{lease.report.warning}</Text>
+                          </View>
+                        ) : null}
+                        <View style={styles.mileageHeader}>
+                          <Text style={styles.mileageSubtext}>
+                            {lease.report.miles_driven.toLocaleString()} of {lease.report.allowance_total.toLocaleString()} mi used
+                          </Text>
+                          <Text style={[styles.mileageSubtext, lease.report.pace === 'over' && { color: colors.warning }]}>
+                            {PACE_LABEL[lease.report.pace]}
+                          </Text>
+                        </View>
+                        <View style={styles.progressTrack}>
+                          <View
+                            style={[
+                              styles.progressBar,
+                              lease.report.pace === 'over' && { backgroundColor: colors.warning },
+                              { width: `${Math.min(100, (lease.report.miles_driven / lease.report.allowance_total) * 100)}%` },
+                            ]}
+                          />
+                          <View
+                            style={[
+                              styles.progressMarker,
+                              { left: `${Math.min(100, (lease.report.miles_allowed_to_date / lease.report.allowance_total) * 100)}%` },
+                            ]}
+                          />
+                        </View>
+                        <View style={styles.infoGrid}>
+                          <InfoRow label="Allowed So Far" value={fmtMileage(lease.report.miles_allowed_to_date)} />
+                          <InfoRow label="Projected at Turn-in" value={fmtMileage(lease.report.projected_end_mileage)} />
+                          <InfoRow
+                            label={lease.report.projected_overage_miles > 0 ? 'Projected Overage' : 'Projected Miles to Spare'}
+                            value={fmtMileage(Math.abs(lease.report.projected_overage_miles))}
+                          />
+                          <InfoRow label="Overage Cost" value={fmtMoney(lease.report.details.projected_overage_cost, true)} />
+                          {lease.report.monthly_miles_budget !== undefined && (
+                            <InfoRow label="Monthly Miles to Stay Within" value={fmtMileage(lease.report.monthly_miles_budget)} />
+                          )}
+                        </View>
+                      </SectionCard>
+                    )}
+
+                    {/* ── Lease vs Buy ───────────────────────────────── */}
+                    <SectionCard title="At Lease End: Lease Again or Buy?">
+                      <View style={styles.statGrid}>
+                        {(['lease', 'buy'] as const).map((option) => {
+                          const side = lease.report.lease_vs_buy[option];
+                          const recommended = lease.report.lease_vs_buy.recommendation === option;
+                          return (
+                            <View key={option} style={[styles.statBox, recommended && styles.statBoxRecommended]}>
+                              <Text style={styles.statLabel}>{option === 'lease' ? 'New lease' : 'Buy out'}</Text>
+                              <Text style={styles.statValue}>{fmtMoney(side.monthly_payment)}/mo</Text>
+                              <Text style={styles.statLabel}>3 yrs: {fmtMoney(side.total_cost_3_years)}</Text>
+                              <Text style={styles.statLabel}>Equity after: {fmtMoney(side.equity_at_end)}</Text>
+                            </View>
+                          );
+                        })}
+                      </View>
+                      <Text style={styles.emptyText}>
+                        {lease.report.lease_vs_buy.recommendation === 'buy'
+                          ? `Buying out looks about ${fmtMoney(lease.report.lease_vs_buy.savings)} cheaper over three years once the car's remaining value is counted${lease.report.lease_vs_buy.break_even_months > 0 ? `, pulling ahead after ${lease.report.lease_vs_buy.break_even_months} month${lease.report.lease_vs_buy.break_even_months === 1 ? '' : 's'}` : ''}.`
+                          : `Leasing again looks about ${fmtMoney(lease.report.lease_vs_buy.savings)} cheaper over three years.`}
+                        {' '}Assumes the buyout is financed over 36 months at the lease's rate.
+                      </Text>
+                    </SectionCard>
+                  </>
+                )}
+
+                {loan && (
+                  <>
+                    {/* ── Loan Summary ───────────────────────────────── */}
+                    <SectionCard title={loan.account.lender_name ? `Loan · ${loan.account.lender_name}` : 'Loan'}>
+                      <View style={styles.statGrid}>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{fmtMoney(loan.position.details.current_balance, true)}</Text>
+                          <Text style={styles.statLabel}>Balance</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{fmtMoney(loan.position.details.monthly_payment, true)}</Text>
+                          <Text style={styles.statLabel}>Monthly</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{(loan.position.details.interest_rate * 100).toFixed(2)}%</Text>
+                          <Text style={styles.statLabel}>APR</Text>
+                        </View>
+                      </View>
+                      <View style={styles.progressTrack}>
+                        <View
+                          style={[
+                            styles.progressBar,
+                            {
+                              width: `${Math.min(100, loan.position.details.principal > 0
+                                ? (1 - loan.position.details.current_balance / loan.position.details.principal) * 100
+                                : 0)}%`,
+                            },
+                          ]}
+                        />
+                      </View>
+                      <View style={styles.infoGrid}>
+                        <InfoRow label="Amount Financed" value={fmtMoney(loan.position.details.principal, true)} />
+                        <InfoRow label="Paid So Far" value={`${fmtMoney(loan.position.details.total_paid, true)} (${loan.position.details.payments_made} payments)`} />
+                        <InfoRow label="Next Payment Due" value={loan.account.status === 'paid_off' ? 'Paid off' : fmtDate(loan.position.next_due_date)} />
+                        <InfoRow label="Payments Remaining" value={String(loan.position.details.payments_remaining)} />
+                        <InfoRow label="Projected Payoff" value={fmtDate(loan.position.details.payoff_date)} />
+                        <InfoRow label="Total Interest" value={fmtMoney(loan.position.details.total_interest, true)} />
+                      </View>
+                      <View style={styles.heroActions}>
+                        {loan.account.status !== 'paid_off' && (
+                          <Pressable
+                            accessibilityRole="button"
+                            style={({ pressed }) => [styles.primaryButton, pressed && styles.pressed]}
+                            onPress={() => {
+                              setPaymentAmount(String(loan.position.details.monthly_payment));
+                              setPaymentVisible(true);
+                            }}
+                          >
+                            <Ionicons name="add-outline" size={16} color={colors.background} />
+                            <Text style={styles.primaryButtonText}>Record Payment</Text>
+                          </Pressable>
+                        )}
+                        <Pressable
+                          accessibilityRole="button"
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                          onPress={() => openLoanForm(loan.account)}
+                        >
+                          <Ionicons name="pencil-outline" size={16} color={colors.textPrimary} />
+                          <Text style={styles.secondaryButtonText}>Edit Terms</Text>
+                        </Pressable>
+                        <Pressable
+                          accessibilityRole="button"
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                          onPress={handleRemoveLoan}
+                        >
+                          <Ionicons name="trash-outline" size={16} color={colors.danger} />
+                          <Text style={styles.secondaryButtonText}>Remove</Text>
+                        </Pressable>
+                      </View>
+                    </SectionCard>
+
+                    {/* ── Pay Off Early ──────────────────────────────── */}
+                    {loan.payoff.months_remaining > 0 && (
+                      <SectionCard title="Pay Off Early">
+                        <Text style={styles.emptyText}>
+                          At {fmtMoney(loan.payoff.current_monthly_payment, true)}/mo you'll pay {fmtMoney(loan.payoff.total_interest_remaining, true)} more
+                          interest over {loan.payoff.months_remaining} months.
+                        </Text>
+                        {loan.payoff.early_payoff_scenarios.map((scenario) => (
+                          <View key={scenario.extra_monthly} style={styles.scenarioRow}>
+                            <Text style={styles.scenarioExtra}>+{fmtMoney(scenario.extra_monthly)}/mo</Text>
+                            <Text style={styles.scenarioMeta}>
+                              {loan.payoff.months_remaining - scenario.new_payoff_months} months sooner
+                            </Text>
+                            <Text style={styles.scenarioSaved}>Save {fmtMoney(scenario.total_saved, true)}</Text>
+                          </View>
+                        ))}
+                      </SectionCard>
+                    )}
+
+                    {/* ── Payments ───────────────────────────────────── */}
+                    <SectionCard title="Payments">
+                      {loan.position.payments.length === 0 ? (
+                        <Text style={styles.emptyText}>No payments recorded yet. The balance updates as you record them.</Text>
+                      ) : (
+                        [...loan.position.payments].reverse().map((payment) => (
+                          <View key={payment.payment_id} style={styles.mileageRow}>
+                            <Ionicons name="cash-outline" size={14} color={colors.brandAccent} />
+                            <Text style={styles.mileageRowValue}>{fmtMoney(payment.amount, true)}</Text>
+                            <Text style={styles.mileageRowDate}>{fmtDate(payment.payment_date)}</Text>
+                            <Text style={styles.mileageRowNotes} numberOfLines={1}>
+                              {fmtMoney(payment.principal, true)} principal · {fmtMoney(payment.interest, true)} interest
+                            </Text>
+                            <Pressable
+                              accessibilityRole="button"
+                              accessibilityLabel="Delete payment"
+                              onPress={() => handleDeletePayment(payment.payment_id)}
+                              style={({ pressed }) => [pressed && styles.pressed]}
+                            >
+                              <Ionicons name="close" size={16} color={colors.textSecondary} />
+                            </Pressable>
+                          </View>
+                        ))
+                      )}
+                    </SectionCard>
+
+                    {/* ── Amortization Schedule ──────────────────────── */}
+                    <SectionCard title="Amortization Schedule">
+                      <View style={styles.scheduleRow}>
+                        <Text style={[styles.scheduleCell, styles.scheduleHead, { flex: 0.5 }]}>#</Text>
+                        <Text style={[styles.scheduleCell, styles.scheduleHead]}>Date</Text>
+                        <Text style={[styles.scheduleCell, styles.scheduleHead]}>Principal</Text>
+                        <Text style={[styles.scheduleCell, styles.scheduleHead]}>Interest</Text>
+                        <Text style={[styles.scheduleCell, styles.scheduleHead]}>Balance</Text>
+                      </View>
+                      {(showFullSchedule ? loan.schedule : loan.schedule.slice(0, SCHEDULE_PREVIEW_ROWS)).map((row) => {
+                        const paid = row.payment_number <= loan.position.details.payments_made;
+                        return (
+                          <View key={row.payment_number} style={styles.scheduleRow}>
+                            <Text style={[styles.scheduleCell, paid && styles.schedulePaid, { flex: 0.5 }]}>{row.payment_number}</Text>
+                            <Text style={[styles.scheduleCell, paid && styles.schedulePaid]}>{row.date}</Text>
+                            <Text style={[styles.scheduleCell, paid && styles.schedulePaid]}>{fmtMoney(row.principal, true)}</Text>
+                            <Text style={[styles.scheduleCell, paid && styles.schedulePaid]}>{fmtMoney(row.interest, true)}</Text>
+                            <Text style={[styles.scheduleCell, paid && styles.schedulePaid]}>{fmtMoney(row.balance, true)}</Text>
+                          </View>
+                        );
+                      })}
+                      {loan.schedule.length > SCHEDULE_PREVIEW_ROWS && (
+                        <Pressable
+                          accessibilityRole="button"
+                          onPress={() => setShowFullSchedule((v) => !v)}
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                        >
+                          <Text style={styles.secondaryButtonText}>
+                            {showFullSchedule ? 'Show less' : `Show full schedule (${loan.schedule.length} payments)`}
+                          </Text>
+                        </Pressable>
+                      )}
+                    </SectionCard>
+                  </>
+                )}
+
+                {!loan && !lease && (
+                  <SectionCard title="Financing">
+                    <Text style={styles.emptyText}>
+                      Add your loan to track the balance and payoff options, or your lease to track mileage, buyout and equity.
+                    </Text>
+                    {vehicle.loan_details ? <InfoRow label="Loan Notes" value={vehicle.loan_details} /> : null}
+                    <View style={styles.heroActions}>
+                      <Pressable
+                        accessibilityRole="button"
+                        style={({ pressed }) => [styles.primaryButton, pressed && styles.pressed]}
+                        onPress={() => openLoanForm()}
+                      >
+                        <Ionicons name="add-outline" size={16} color={colors.background} />
+                        <Text style={styles.primaryButtonText}>Add Loan</Text>
+                      </Pressable>
+                      <Pressable
+                        accessibilityRole="button"
+                        style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                        onPress={() => openLeaseForm()}
+                      >
+                        <Ionicons name="add-outline" size={16} color={colors.textPrimary} />
+                        <Text style={styles.secondaryButtonText}>Add Lease</Text>
+                      </Pressable>
+                    </View>
+                  </SectionCard>
+                )}
+              </>
+            )}
+
+            {activeTab === 'costs' && (
+              <>
+                {/* ── Total Cost of Ownership ────────────────────── */}
+                <SectionCard title="Total Cost of Ownership">
+                  {!costs ? (
+                    <Text style={styles.emptyText}>Ownership costs could not be loaded.</Text>
+                  ) : (
+                    <>
+                      <View style={styles.statGrid}>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{fmtMoney(costs.lifetime_cost)}</Text>
+                          <Text style={styles.statLabel}>Lifetime</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>{fmtMoney(costs.annual_cost)}</Text>
+                          <Text style={styles.statLabel}>Per Year</Text>
+                        </View>
+                        <View style={styles.statBox}>
+                          <Text style={styles.statValue}>
+                            {costs.per_mile_cost !== undefined ? fmtMoney(costs.per_mile_cost, true) : '—'}
+                          </Text>
+                          <Text style={styles.statLabel}>Per Mile</Text>
+                        </View>
+                      </View>
+                      <Text style={styles.mileageSubtext}>
+                        Since {fmtDate(costs.owned_since)} · {fmtMoney(costs.monthly_cost)}/month
+                        {costs.miles_driven !== undefined ? ` · ${costs.miles_driven.toLocaleString()} mi driven` : ''}
+                      </Text>
+                      {costs.lines.length === 0 ? (
+                        <Text style={styles.emptyText}>No costs recorded yet.</Text>
+                      ) : (
+                        costs.lines.map((line) => (
+                          <View key={line.category} style={styles.costLine}>
+                            <View style={styles.costLineHeader}>
+                              <Text style={styles.maintenanceTitle}>{line.label}</Text>
+                              <Text style={styles.maintenanceCost}>{fmtMoney(line.total)}</Text>
+                            </View>
+                            <View style={styles.progressTrack}>
+                              <View style={[styles.progressBar, { width: `${Math.max(line.share * 100, 1)}%` }]} />
+                            </View>
+                            <Text style={styles.maintenanceMeta}>
+                              {fmtMoney(line.annual)}/yr
+                              {line.per_mile !== undefined ? ` · ${fmtMoney(line.per_mile, true)}/mi` : ''}
+                              {` · ${Math.round(line.share * 100)}%`}
+                            </Text>
+                          </View>
+                        ))
+                      )}
+                      {costs.missing.length > 0 && (
+                        <Text style={styles.emptyText}>
+                          Not included yet: {costs.missing.map((c) => COST_HINTS[c]).join(', ')}.
+                        </Text>
+                      )}
+                      <View style={styles.heroActions}>
+                        <Pressable
+                          accessibilityRole="button"
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                          onPress={handlePrintCosts}
+                        >
+                          <Ionicons name="print-outline" size={16} color={colors.textPrimary} />
+                          <Text style={styles.secondaryButtonText}>Print Report</Text>
+                        </Pressable>
+                      </View>
+                    </>
+                  )}
+                </SectionCard>
+              </>
+            )}
           </>
         )}
       </ScrollView>
@@ -539,12 +1564,14 @@ export default function VehicleDetailScreen() {
             <FormField label="License Plate" value={editPlate} onChangeText={setEditPlate} placeholder="e.g. ABC-1234" />
             <FormField label="Registration Expiry (YYYY-MM-DD)" value={editRegExpiry} onChangeText={setEditRegExpiry} placeholder="2025-12-31" />
             <FormField label="Inspection Due (YYYY-MM-DD)" value={editInspectionDue} onChangeText={setEditInspectionDue} placeholder="2025-06-30" />
+            <FormField label="Annual Registration Fee ($)" value={editRegFee} onChangeText={setEditRegFee} keyboardType="decimal-pad" placeholder="120" />
 
             <Text style={styles.modalSection}>Insurance</Text>
             <FormField label="Provider" value={editInsProvider} onChangeText={setEditInsProvider} placeholder="e.g. State Farm" />
             <FormField label="Policy Number" value={editInsPolicyNum} onChangeText={setEditInsPolicyNum} placeholder="POL-123456" />
             <FormField label="Coverage Type" value={editInsCoverage} onChangeText={setEditInsCoverage} placeholder="e.g. Full Coverage" />
             <FormField label="Policy Expiry (YYYY-MM-DD)" value={editInsExpiry} onChangeText={setEditInsExpiry} placeholder="2025-12-31" />
+            <FormField label="Annual Premium ($)" value={editInsPremium} onChangeText={setEditInsPremium} keyboardType="decimal-pad" placeholder="1400" />
 
             <Text style={styles.modalSection}>Purchase Info</Text>
             <FormField label="Purchase Date (YYYY-MM-DD)" value={editPurchaseDate} onChangeText={setEditPurchaseDate} placeholder="2022-03-15" />
@@ -615,6 +1642,233 @@ export default function VehicleDetailScreen() {
         </View>
       </Modal>
 
+      {/* ═══════════════════════════════════════════════════════
+          LOAN TERMS MODAL
+      ═══════════════════════════════════════════════════════ */}
+      <Modal visible={loanVisible} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalRoot}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{loan ? 'Edit Loan Terms' : 'Add Loan'}</Text>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setLoanVisible(false)}
+              style={({ pressed }) => [styles.modalCloseBtn, pressed && styles.pressed]}
+            >
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.modalScroll} contentContainerStyle={styles.modalContent} keyboardShouldPersistTaps="handled">
+            <FormField label="Lender" value={loanLender} onChangeText={setLoanLender} placeholder="e.g. Chase Auto" />
+            <FormField label="Amount Financed ($)" value={loanAmount} onChangeText={changeLoanTerm(setLoanAmount)} keyboardType="decimal-pad" placeholder="25000" />
+            <FormField label="APR (%)" value={loanApr} onChangeText={changeLoanTerm(setLoanApr)} keyboardType="decimal-pad" placeholder="5.49" />
+            <FormField label="Term (months)" value={loanTerm} onChangeText={changeLoanTerm(setLoanTerm)} keyboardType="numeric" placeholder="60" />
+            <FormField label="Start Date (YYYY-MM-DD)" value={loanStart} onChangeText={setLoanStart} placeholder="2025-01-15" />
+            <FormField
+              label="Monthly Payment ($, optional)"
+              value={loanPayment}
+              onChangeText={(value) => {
+                setLoanPayment(value);
+                setLoanPaymentEdited(true);
+              }}
+              keyboardType="decimal-pad"
+              placeholder="Calculated from the terms"
+            />
+            <FormField label="Down Payment ($, optional)" value={loanDown} onChangeText={setLoanDown} keyboardType="decimal-pad" placeholder="3000" />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+              onPress={() => setLoanVisible(false)}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.primaryButton, { flex: 1 }, savingLoan && styles.buttonDisabled, pressed && styles.pressed]}
+              disabled={savingLoan}
+              onPress={handleSaveLoan}
+            >
+              {savingLoan ? <ActivityIndicator color={colors.background} /> : <Text style={styles.primaryButtonText}>Save Loan</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
+      {/* ═══════════════════════════════════════════════════════
+          LEASE TERMS MODAL
+      ═══════════════════════════════════════════════════════ */}
+      <Modal visible={leaseVisible} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalRoot}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{lease ? 'Edit Lease Terms' : 'Add Lease'}</Text>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setLeaseVisible(false)}
+              style={({ pressed }) => [styles.modalCloseBtn, pressed && styles.pressed]}
+            >
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.modalScroll} contentContainerStyle={styles.modalContent} keyboardShouldPersistTaps="handled">
+            <Text style={styles.modalSection}>Payments</Text>
+            <FormField label="Leasing Company" value={leaseCompany} onChangeText={setLeaseCompany} placeholder="e.g. Toyota Financial" />
+            <FormField label="Monthly Payment ($)" value={leasePayment} onChangeText={setLeasePayment} keyboardType="decimal-pad" placeholder="389" />
+            <FormField label="Term (months)" value={leaseTerm} onChangeText={setLeaseTerm} keyboardType="numeric" placeholder="36" />
+            <FormField label="Start Date (YYYY-MM-DD)" value={leaseStart} onChangeText={setLeaseStart} placeholder="2025-01-15" />
+            <FormField label="Due at Signing ($, optional)" value={leaseDueAtSigning} onChangeText={setLeaseDueAtSigning} keyboardType="decimal-pad" placeholder="2500" />
+
+            <Text style={styles.modalSection}>Buyout</Text>
+            <FormField label="Residual Value ($)" value={leaseResidual} onChangeText={setLeaseResidual} keyboardType="decimal-pad" placeholder="21000" />
+            <FormField label="Money Factor (optional)" value={leaseMoneyFactor} onChangeText={setLeaseMoneyFactor} keyboardType="decimal-pad" placeholder="0.00125" />
+
+            <Text style={styles.modalSection}>Mileage</Text>
+            <FormField label="Miles Allowed per Year" value={leaseMiles} onChangeText={setLeaseMiles} keyboardType="numeric" placeholder="12000" />
+            <FormField label="Overage Charge ($/mi)" value={leaseOverage} onChangeText={setLeaseOverage} keyboardType="decimal-pad" placeholder="0.25" />
+            <FormField label="Odometer at Delivery (mi)" value={leaseStartMileage} onChangeText={setLeaseStartMileage} keyboardType="numeric" placeholder="12" />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+              onPress={() => setLeaseVisible(false)}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.primaryButton, { flex: 1 }, savingLease && styles.buttonDisabled, pressed && styles.pressed]}
+              disabled={savingLease}
+              onPress={handleSaveLease}
+            >
+              {savingLease ? <ActivityIndicator color={colors.background} /> : <Text style={styles.primaryButtonText}>Save Lease</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
+      {/* ═══════════════════════════════════════════════════════
+          RECORD PAYMENT MODAL
+      ═══════════════════════════════════════════════════════ */}
+      <Modal visible={paymentVisible} animationType="slide" presentationStyle="formSheet">
+        <View style={styles.modalRoot}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Record Loan Payment</Text>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setPaymentVisible(false)}
+              style={({ pressed }) => [styles.modalCloseBtn, pressed && styles.pressed]}
+            >
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <View style={styles.modalContent}>
+            <FormField label="Amount ($)" value={paymentAmount} onChangeText={setPaymentAmount} keyboardType="decimal-pad" placeholder="477.41" />
+            <FormField label="Date (YYYY-MM-DD)" value={paymentDate} onChangeText={setPaymentDate} placeholder="2025-06-01" />
+            <FormField label="Notes (optional)" value={paymentNotes} onChangeText={setPaymentNotes} placeholder="e.g. Extra toward principal" />
+          </View>
+
+          <View style={styles.modalFooter}>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+              onPress={() => setPaymentVisible(false)}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.primaryButton, { flex: 1 }, savingPayment && styles.buttonDisabled, pressed && styles.pressed]}
+              disabled={savingPayment}
+              onPress={handleRecordPayment}
+            >
+              {savingPayment ? <ActivityIndicator color={colors.background} /> : <Text style={styles.primaryButtonText}>Save Payment</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
+      {/* ═══════════════════════════════════════════════════════
+          FUEL LOG MODAL
+      ═══════════════════════════════════════════════════════ */}
+      <Modal visible={fuelVisible} animationType="slide" presentationStyle="formSheet">
+        <View style={styles.modalRoot}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{fuelKind === 'charge' ? 'Log Charging Session' : 'Log Fill-Up'}</Text>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setFuelVisible(false)}
+              style={({ pressed }) => [styles.modalCloseBtn, pressed && styles.pressed]}
+            >
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.modalScroll} contentContainerStyle={styles.modalContent} keyboardShouldPersistTaps="handled">
+            <FormField label="Date (YYYY-MM-DD)" value={fuelDate} onChangeText={setFuelDate} placeholder="2025-06-01" />
+            <FormField label="Odometer (mi)" value={fuelOdometer} onChangeText={setFuelOdometer} keyboardType="numeric" placeholder="48250" />
+            <FormField
+              label={fuelKind === 'charge' ? 'Energy Added (kWh)' : fuelPrefs.fuel_unit === 'liters' ? 'Liters' : 'Gallons'}
+              value={fuelVolume}
+              onChangeText={setFuelVolume}
+              keyboardType="decimal-pad"
+              placeholder={fuelKind === 'charge' ? '42.5' : '11.2'}
+            />
+            <FormField
+              label={`Price per ${fuelKind === 'charge' ? 'kWh' : fuelPrefs.fuel_unit === 'liters' ? 'Liter' : 'Gallon'} ($, optional)`}
+              value={fuelPrice}
+              onChangeText={setFuelPrice}
+              keyboardType="decimal-pad"
+              placeholder={fuelKind === 'charge' ? '0.16' : '3.49'}
+            />
+            <FormField label="Total Cost ($, optional)" value={fuelTotal} onChangeText={setFuelTotal} keyboardType="decimal-pad" placeholder="39.09" />
+            <View style={styles.chipRow}>
+              {[true, false].map((full) => (
+                <Pressable
+                  key={String(full)}
+                  accessibilityRole="button"
+                  style={({ pressed }) => [styles.tabButton, fuelFull === full && styles.tabButtonActive, pressed && styles.pressed]}
+                  onPress={() => setFuelFull(full)}
+                >
+                  <Text style={[styles.tabText, fuelFull === full && styles.tabTextActive]}>
+                    {full ? (fuelKind === 'charge' ? 'Charged to usual level' : 'Filled the tank') : 'Partial'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <FormField
+              label={fuelKind === 'charge' ? 'Charger (optional)' : 'Station (optional)'}
+              value={fuelStation}
+              onChangeText={setFuelStation}
+              placeholder={fuelKind === 'charge' ? 'e.g. Home' : 'e.g. Shell on Main St'}
+            />
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+              onPress={() => setFuelVisible(false)}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              style={({ pressed }) => [styles.primaryButton, { flex: 1 }, savingFuel && styles.buttonDisabled, pressed && styles.pressed]}
+              disabled={savingFuel}
+              onPress={handleSaveFuel}
+            >
+              {savingFuel ? <ActivityIndicator color={colors.background} /> : <Text style={styles.primaryButtonText}>Save</Text>}
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
+
       {/* ═══════════════════════════════════════════════════════
           STATUS PICKER MODAL
       ═══════════════════════════════════════════════════════ */}
@@ -693,6 +1947,16 @@ function makeStyles(colors: ReturnType<typeof useTheme>['colors']) {
   },
   badgeText: { fontFamily: fontFamilies.heading, fontSize: typeScale.xs },
 
+  // Tabs
+  tabBar: { flexDirection: 'row', gap: 8 },
+  tabButton: {
+    minHeight: 36, borderRadius: radii.full, borderWidth: 1, borderColor: colors.border,
+    backgroundColor: colors.surface, paddingHorizontal: 16, justifyContent: 'center',
+  },
+  tabButtonActive: { borderColor: colors.brandAccent, backgroundColor: 'rgba(51,214,210,0.14)' },
+  tabText: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+  tabTextActive: { color: colors.brandAccent, fontFamily: fontFamilies.heading },
+
   // Section card
   sectionCard: {
     borderRadius: radii.lg, borderWidth: 1, borderColor: colors.border,
@@ -729,6 +1993,49 @@ function makeStyles(colors: ReturnType<typeof useTheme>['colors']) {
   mileageRowDate: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
   mileageRowNotes: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, flex: 1 },
 
+  // Financing
+  statGrid: { flexDirection: 'row', gap: 8 },
+  statBox: {
+    flex: 1, alignItems: 'center', borderRadius: radii.md, borderWidth: 1, borderColor: colors.border,
+    backgroundColor: colors.surfaceAlt, paddingVertical: 10,
+  },
+  statValue: { color: colors.textPrimary, fontFamily: fontFamilies.heading, fontSize: typeScale.md },
+  statLabel: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
+  progressTrack: { height: 8, borderRadius: radii.full, backgroundColor: colors.surfaceAlt, overflow: 'hidden' },
+  progressBar: { height: '100%', borderRadius: radii.full, backgroundColor: colors.brandAccent },
+  progressMarker: { position: 'absolute', top: 0, bottom: 0, width: 2, marginLeft: -1, backgroundColor: colors.textPrimary },
+  statBoxRecommended: { borderColor: colors.success, backgroundColor: 'rgba(34,197,94,0.10)' },
+  warningBanner: {
+    flexDirection: 'row', alignItems: 'flex-start', gap: 8,
+    borderRadius: radii.md, borderWidth: 1, borderColor: colors.warning,
+    backgroundColor: 'rgba(245,158,11,0.10)', padding: 10,
+  },
+  warningText: { flex: 1, color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+  scenarioRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    paddingVertical: 7, borderBottomWidth: 1, borderBottomColor: colors.border,
+  },
+  scenarioExtra: { color: colors.textPrimary, fontFamily: fontFamilies.heading, fontSize: typeScale.sm, width: 90 },
+  scenarioMeta: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, flex: 1 },
+  scenarioSaved: { color: colors.success, fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+  scheduleRow: { flexDirection: 'row', paddingVertical: 5, borderBottomWidth: 1, borderBottomColor: colors.border },
+  scheduleCell: { flex: 1, color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+  scheduleHead: { color: colors.textSecondary, fontFamily: fontFamilies.heading },
+  schedulePaid: { color: colors.textSecondary, textDecorationLine: 'line-through' },
+
+  // Market value
+  chartBars: { flexDirection: 'row', alignItems: 'flex-end', gap: 4, height: 100 },
+  chartColumn: { flex: 1, height: '100%', justifyContent: 'flex-end' },
+  chartBar: { borderTopLeftRadius: radii.sm, borderTopRightRadius: radii.sm, backgroundColor: colors.brandAccent },
+  chartBarFlagged: { backgroundColor: colors.warning },
+  chartAxis: { flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 },
+  chartAxisText: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+
+  // Ownership costs
+  costLine: { gap: 6, paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: colors.border },
+  costLineHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+
   // Maintenance section
   maintenanceRow: {
     flexDirection: 'row', alignItems: 'center', gap: 10,
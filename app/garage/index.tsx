@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -13,8 +14,14 @@ import GearActionIcon from '../../components/branding/GearActionIcon';
 import GearLogo from '../../components/branding/GearLogo';
 import AppShell from '../../components/layout/AppShell';
 import { useAuth } from '../../contexts/AuthContext';
-import { getUserVehicles } from '../../services/vehicle-service';
-import type { Vehicle, VehicleStatus } from '../../types/vehicle';
+import { getUserVehicles, getVehicleStats } from '../../services/vehicle-service';
+import {
+  getGarageOwnershipCosts,
+  printOwnershipCostReport,
+  renderOwnershipCostReport,
+  type GarageCostComparison,
+} from '../../services/ownership-cost';
+import type { Vehicle, VehicleStats, VehicleStatus } from '../../types/vehicle';
 import { radii } from '../../theme/tokens';
 import { useTheme } from '../../contexts/ThemeContext';
 import { fontFamilies, typeScale } from '../../theme/typography';
@@ -67,14 +74,22 @@ export default function GarageScreen() {
   const { colors } = useTheme();
   const { user } = useAuth();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [stats, setStats] = useState<VehicleStats | null>(null);
+  const [costs, setCosts] = useState<GarageCostComparison | null>(null);
   const [loading, setLoading] = useState(false);
 
   const loadVehicles = useCallback(async () => {
     if (!user?.user_id) return;
     setLoading(true);
     try {
-      const rows = await getUserVehicles(user.user_id);
+      const [rows, totals, comparison] = await Promise.all([
+        getUserVehicles(user.user_id),
+        getVehicleStats(user.user_id).catch(() => null),
+        getGarageOwnershipCosts(user.user_id),
+      ]);
       setVehicles(rows);
+      setStats(totals);
+      setCosts(comparison);
     } catch (error) {
       console.warn('Could not load vehicles:', error);
     } finally {
@@ -92,6 +107,15 @@ export default function GarageScreen() {
     return Math.round(sum / vehicles.length);
   }, [vehicles]);
 
+  async function handlePrintCosts() {
+    if (!costs) return;
+    try {
+      await printOwnershipCostReport(renderOwnershipCostReport(costs));
+    } catch (e: any) {
+      Alert.alert('Could not print report', e?.message || 'Please try again.');
+    }
+  }
+
   const styles = StyleSheet.create({
     scroll: {
       flex: 1,
@@ -255,6 +279,23 @@ export default function GarageScreen() {
     buttonInteraction: {
       opacity: 0.92,
     },
+    costHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: 10,
+    },
+    costValue: {
+      color: colors.textPrimary,
+      fontFamily: fontFamilies.heading,
+      fontSize: typeScale.md,
+      textAlign: 'right',
+    },
+    costBadge: {
+      color: colors.success,
+      fontFamily: fontFamilies.body,
+      fontSize: 11,
+    },
   });
 
   return (
@@ -282,6 +323,12 @@ export default function GarageScreen() {
           <View style={styles.statsRow}>
             <StatTile label="Vehicles" value={String(vehicles.length)} />
             <StatTile label="Average Mileage" value={`${averageMileage.toLocaleString()} mi`} />
+            {stats && stats.total_value > 0 && (
+              <>
+                <StatTile label="Total Value" value={`$${Math.round(stats.total_value).toLocaleString()}`} />
+                <StatTile label="Depreciation" value={`$${Math.round(stats.total_depreciation).toLocaleString()}`} />
+              </>
+            )}
           </View>
         </View>
 
@@ -360,6 +407,46 @@ export default function GarageScreen() {
             ))
           )}
         </View>
+
+        {costs && costs.reports.length > 0 && (
+          <View style={styles.listWrap}>
+            <View style={styles.costHeader}>
+              <Text style={styles.sectionTitle}>Cost of Ownership</Text>
+              <Pressable
+                accessibilityRole="button"
+                style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonInteraction]}
+                onPress={handlePrintCosts}
+              >
+                <Ionicons name="print-outline" size={14} color={colors.textPrimary} />
+                <Text style={styles.secondaryButtonText}>Print Report</Text>
+              </Pressable>
+            </View>
+            {costs.reports.map((report) => (
+              <Pressable
+                key={report.vehicle_id}
+                accessibilityRole="button"
+                style={({ pressed }) => [styles.vehicleCard, pressed && styles.buttonInteraction]}
+                onPress={() => router.push(`/garage/${report.vehicle_id}`)}
+              >
+                <View style={styles.vehicleInfoWrap}>
+                  <Text style={styles.vehicleName}>{report.name}</Text>
+                  <Text style={styles.vehicleMeta}>
+                    ${Math.round(report.lifetime_cost).toLocaleString()} over {report.ownership_years.toFixed(1)} yrs
+                  </Text>
+                  {report.vehicle_id === costs.lowest_per_mile && (
+                    <Text style={styles.costBadge}>Lowest cost per mile</Text>
+                  )}
+                </View>
+                <View>
+                  <Text style={styles.costValue}>${Math.round(report.annual_cost).toLocaleString()}/yr</Text>
+                  <Text style={[styles.vehicleMeta, { textAlign: 'right' }]}>
+                    {report.per_mile_cost !== undefined ? `$${report.per_mile_cost.toFixed(2)}/mi` : '—/mi'}
+                  </Text>
+                </View>
+              </Pressable>
+            ))}
+          </View>
+        )}
       </ScrollView>
     </AppShell>
   );
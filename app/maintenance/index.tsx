@@ -2,9 +2,11 @@ import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
+  Linking,
   Modal,
   Pressable,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
   TextInput,
@@ -19,7 +21,6 @@ import { useAuth } from '../../contexts/AuthContext';
 import {
   getAllUserMaintenanceRecords,
   getServiceReminders,
-  createServiceReminder,
   updateServiceReminderStatus,
   deleteServiceReminder,
   getCostAnalytics,
@@ -29,20 +30,32 @@ import {
   getServiceProviders,
   createServiceProvider,
   deleteServiceProvider,
-  getMaintenanceBudget,
   generateAIMaintenancePlan,
 } from '../../services/maintenance-service';
-import { getUserVehicles } from '../../services/vehicle-service';
+import { syncScheduleReminders, type ScheduleSyncOptions } from '../../services/maintenance-schedule';
+import { getBudgetStatuses } from '../../services/budget-tracker';
+import { coverageRemainingText, getWarrantyReport, type WarrantyReport } from '../../services/warranty-tracker';
+import {
+  disableCalendarFeed,
+  enableCalendarFeed,
+  getCalendarFeed,
+  getVehicleCalendar,
+  shareCalendarFile,
+  type CalendarFeed,
+} from '../../services/calendar-export';
+import { getMileageProjection, getUserVehicles, updateVehicleServiceProfile } from '../../services/vehicle-service';
+import { estimateMileageDate, projectMileage } from '../../services/mileage-projection';
 import type {
   MaintenanceRecord,
   ServiceReminder,
   CostAnalytics,
   InstalledPart,
   ServiceProvider,
-  MaintenanceBudget,
+  BudgetStatus,
   MaintenanceInterval,
+  ServiceProfile,
 } from '../../types/maintenance';
-import type { Vehicle } from '../../types/vehicle';
+import type { MileageProjection, Vehicle } from '../../types/vehicle';
 import { radii } from '../../theme/tokens';
 import { fontFamilies, typeScale } from '../../theme/typography';
 import { useTheme } from '../../contexts/ThemeContext';
@@ -123,10 +136,14 @@ export default function MaintenanceScreen() {
   const [records, setRecords] = useState<MaintenanceRecord[]>([]);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [reminders, setReminders] = useState<ServiceReminder[]>([]);
+  const [projection, setProjection] = useState<MileageProjection | null>(null);
   const [analytics, setAnalytics] = useState<CostAnalytics | null>(null);
   const [parts, setParts] = useState<InstalledPart[]>([]);
   const [shops, setShops] = useState<ServiceProvider[]>([]);
-  const [budget, setBudget] = useState<MaintenanceBudget | null>(null);
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+  const [warranty, setWarranty] = useState<WarrantyReport | null>(null);
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+  const [calendarBusy, setCalendarBusy] = useState(false);
   const [selectedVehicleId, setSelectedVehicleId] = useState<string>('');
   const [aiLoading, setAiLoading] = useState(false);
 
@@ -142,6 +159,7 @@ export default function MaintenanceScreen() {
   const [partInstallDate, setPartInstallDate] = useState(new Date().toISOString().split('T')[0]);
   const [partInstallMileage, setPartInstallMileage] = useState('');
   const [partWarrantyMonths, setPartWarrantyMonths] = useState('');
+  const [partWarrantyMiles, setPartWarrantyMiles] = useState('');
   const [partSaving, setPartSaving] = useState(false);
 
   // Add Shop modal
@@ -164,6 +182,30 @@ export default function MaintenanceScreen() {
     [vehicles, selectedVehicleId]
   );
 
+  // Warranty coverage follows the parts list of the selected vehicle
+  useEffect(() => {
+    if (!user?.user_id || !selectedVehicle) { setWarranty(null); return; }
+    let cancelled = false;
+    getWarrantyReport(selectedVehicle, user.user_id).then((report) => {
+      if (!cancelled) setWarranty(report);
+    });
+    return () => { cancelled = true; };
+  }, [user?.user_id, selectedVehicle, parts]);
+
+  const coverageByPart = useMemo(
+    () => new Map((warranty?.coverage ?? []).map((c) => [c.part.part_id, c])),
+    [warranty]
+  );
+
+  // Runs the schedule engine, falling back to the stored reminders if sync fails
+  const syncReminders = useCallback(async (vehicle: Vehicle, options?: ScheduleSyncOptions) => {
+    if (!user?.user_id) return [] as ServiceReminder[];
+    const userId = user.user_id;
+    return syncScheduleReminders(vehicle, userId, options)
+      .then((result) => result.reminders)
+      .catch(() => getServiceReminders(vehicle.vehicle_id, userId).catch(() => [] as ServiceReminder[]));
+  }, [user?.user_id]);
+
   const loadData = useCallback(async () => {
     if (!user?.user_id) return;
     setLoading(true);
@@ -177,17 +219,22 @@ export default function MaintenanceScreen() {
       const firstVehicle = vehicleRows[0];
       const vid = selectedVehicleId || firstVehicle?.vehicle_id || '';
       if (!selectedVehicleId && vid) setSelectedVehicleId(vid);
+      const vehicle = vehicleRows.find((v) => v.vehicle_id === vid);
 
-      const [reminderRows, analyticsData, shopRows, budgetData] = await Promise.all([
-        vid ? getServiceReminders(vid, user.user_id).catch(() => [] as ServiceReminder[]) : Promise.resolve([] as ServiceReminder[]),
+      const [reminderRows, projectionData, analyticsData, shopRows, budgetRows, feed] = await Promise.all([
+        vehicle ? syncReminders(vehicle) : Promise.resolve([] as ServiceReminder[]),
+        vehicle ? getMileageProjection(vehicle, user.user_id).catch(() => null) : Promise.resolve(null),
         getCostAnalytics(user.user_id).catch(() => null),
         getServiceProviders(user.user_id).catch(() => [] as ServiceProvider[]),
-        getMaintenanceBudget(user.user_id).catch(() => null),
+        getBudgetStatuses(user.user_id),
+        getCalendarFeed(user.user_id),
       ]);
       setReminders(reminderRows);
+      setProjection(projectionData);
       setAnalytics(analyticsData);
       setShops(shopRows);
-      setBudget(budgetData);
+      setBudgetStatuses(budgetRows);
+      setCalendarFeed(feed);
 
       if (vid) {
         const partRows = await getInstalledParts(vid).catch(() => [] as InstalledPart[]);
@@ -198,23 +245,26 @@ export default function MaintenanceScreen() {
     } finally {
       setLoading(false);
     }
-  }, [user?.user_id, selectedVehicleId]);
+  }, [user?.user_id, selectedVehicleId, syncReminders]);
 
   useEffect(() => { loadData(); }, [loadData]);
 
   const loadVehicleData = useCallback(async (vid: string) => {
-    if (!user?.user_id || !vid) return;
+    const vehicle = vehicles.find((v) => v.vehicle_id === vid);
+    if (!user?.user_id || !vehicle) return;
     try {
-      const [reminderRows, partRows] = await Promise.all([
-        getServiceReminders(vid, user.user_id).catch(() => [] as ServiceReminder[]),
+      const [reminderRows, projectionData, partRows] = await Promise.all([
+        syncReminders(vehicle),
+        getMileageProjection(vehicle, user.user_id).catch(() => null),
         getInstalledParts(vid).catch(() => [] as InstalledPart[]),
       ]);
       setReminders(reminderRows);
+      setProjection(projectionData);
       setParts(partRows);
     } catch (e) {
       console.warn('loadVehicleData error:', e);
     }
-  }, [user?.user_id]);
+  }, [user?.user_id, vehicles, syncReminders]);
 
   const handleVehicleSelect = useCallback((vid: string) => {
     setSelectedVehicleId(vid);
@@ -243,26 +293,65 @@ export default function MaintenanceScreen() {
         },
         openAiKey
       );
-      for (const interval of intervals.slice(0, 10)) {
-        await createServiceReminder(selectedVehicle.vehicle_id, user.user_id, {
-          service_type: interval.service_type,
-          title: interval.service_type.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase()),
-          description: interval.description,
-          interval_miles: interval.recurring_interval_miles,
-          interval_months: interval.recurring_interval_months,
-          priority: interval.severity === 'critical' ? 'high' : interval.severity === 'important' ? 'medium' : 'low',
-          status: 'upcoming',
-          notification_sent: false,
-        }).catch(() => null);
-      }
-      await loadVehicleData(selectedVehicle.vehicle_id);
-      Alert.alert('AI Schedule Generated', `Created ${Math.min(intervals.length, 10)} maintenance reminders.`);
+      const result = await syncScheduleReminders(selectedVehicle, user.user_id, { schedule: intervals });
+      setReminders(result.reminders);
+      Alert.alert(
+        'AI Schedule Generated',
+        `Added ${result.created} and updated ${result.updated} reminders from ${intervals.length} scheduled services.`
+      );
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to generate AI schedule.');
     } finally {
       setAiLoading(false);
     }
-  }, [selectedVehicle, user?.user_id, loadVehicleData]);
+  }, [selectedVehicle, user?.user_id]);
+
+  // ---------------------------------------------------------------------------
+  // Calendar
+  // ---------------------------------------------------------------------------
+
+  const handleExportCalendar = useCallback(async () => {
+    if (!selectedVehicle || !user?.user_id) return;
+    setCalendarBusy(true);
+    try {
+      const ics = await getVehicleCalendar(selectedVehicle.vehicle_id, user.user_id);
+      const slug = `${selectedVehicle.year}-${selectedVehicle.make}-${selectedVehicle.model}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      await shareCalendarFile(ics, `${slug}-service.ics`);
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to export calendar.');
+    } finally {
+      setCalendarBusy(false);
+    }
+  }, [selectedVehicle, user?.user_id]);
+
+  const handleToggleCalendarFeed = useCallback(async () => {
+    if (!user?.user_id) return;
+    setCalendarBusy(true);
+    try {
+      if (calendarFeed) {
+        await disableCalendarFeed(user.user_id);
+        setCalendarFeed(null);
+      } else {
+        setCalendarFeed(await enableCalendarFeed(user.user_id));
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to update calendar subscription.');
+    } finally {
+      setCalendarBusy(false);
+    }
+  }, [calendarFeed, user?.user_id]);
+
+  const handleProfileChange = useCallback(async (profile: ServiceProfile) => {
+    if (!selectedVehicle || !user?.user_id || selectedVehicle.service_profile === profile) return;
+    try {
+      await updateVehicleServiceProfile(selectedVehicle.vehicle_id, user.user_id, profile);
+      const updated = { ...selectedVehicle, service_profile: profile };
+      setVehicles((prev) => prev.map((v) => (v.vehicle_id === updated.vehicle_id ? updated : v)));
+      setReminders(await syncReminders(updated));
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Failed to update service profile.');
+    }
+  }, [selectedVehicle, user?.user_id, syncReminders]);
 
   // ---------------------------------------------------------------------------
   // Add Part
@@ -284,19 +373,20 @@ export default function MaintenanceScreen() {
         install_date: partInstallDate,
         install_mileage: partInstallMileage ? parseInt(partInstallMileage, 10) : undefined,
         warranty_months: partWarrantyMonths ? parseInt(partWarrantyMonths, 10) : undefined,
+        warranty_miles: partWarrantyMiles ? parseInt(partWarrantyMiles, 10) : undefined,
       });
       const updated = await getInstalledParts(selectedVehicleId);
       setParts(updated);
       setShowAddPart(false);
       setPartName(''); setPartBrand(''); setPartNumber('');
       setPartCategory('other'); setPartInstallDate(new Date().toISOString().split('T')[0]);
-      setPartInstallMileage(''); setPartWarrantyMonths('');
+      setPartInstallMileage(''); setPartWarrantyMonths(''); setPartWarrantyMiles('');
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Failed to save part.');
     } finally {
       setPartSaving(false);
     }
-  }, [selectedVehicleId, partName, partBrand, partNumber, partCategory, partInstallDate, partInstallMileage, partWarrantyMonths]);
+  }, [selectedVehicleId, partName, partBrand, partNumber, partCategory, partInstallDate, partInstallMileage, partWarrantyMonths, partWarrantyMiles]);
 
   // ---------------------------------------------------------------------------
   // Add Shop
@@ -334,9 +424,20 @@ export default function MaintenanceScreen() {
   // Derived data
   // ---------------------------------------------------------------------------
 
+  // Odometer projected to today, so mileage-based reminders age between log entries
+  const estimatedMileage = useMemo(
+    () => (projection && projectMileage(projection, new Date())) ?? selectedVehicle?.current_mileage,
+    [projection, selectedVehicle]
+  );
+
+  const mileageEta = useCallback((dueMileage: number) => {
+    const eta = projection && estimateMileageDate(projection, dueMileage);
+    return eta ? ` (≈ ${formatDate(eta)})` : '';
+  }, [projection]);
+
   const overdueReminders = useMemo(
-    () => reminders.filter((r) => getReminderSeverityColor(r, selectedVehicle?.current_mileage) === SEVERITY_OVERDUE),
-    [reminders, selectedVehicle]
+    () => reminders.filter((r) => getReminderSeverityColor(r, estimatedMileage) === SEVERITY_OVERDUE),
+    [reminders, estimatedMileage]
   );
 
   const upcomingReminders = useMemo(
@@ -409,14 +510,14 @@ export default function MaintenanceScreen() {
           <Text style={styles.emptyText}>No upcoming reminders. Tap AI Schedule to generate one.</Text>
         ) : (
           upcomingReminders.map((r) => {
-            const severityColor = getReminderSeverityColor(r, selectedVehicle?.current_mileage);
+            const severityColor = getReminderSeverityColor(r, estimatedMileage);
             return (
               <View key={r.reminder_id} style={[styles.reminderRow, { borderLeftColor: severityColor }]}>
                 <View style={{ flex: 1 }}>
                   <Text style={styles.reminderTitle}>{r.title}</Text>
                   <Text style={styles.reminderMeta}>
                     {r.due_date ? formatDate(r.due_date) : ''}
-                    {r.due_mileage ? `  •  ${r.due_mileage.toLocaleString()} mi` : ''}
+                    {r.due_mileage ? `  •  ${r.due_mileage.toLocaleString()} mi${mileageEta(r.due_mileage)}` : ''}
                   </Text>
                 </View>
                 <View style={[styles.severityBadge, { backgroundColor: severityColor + '33' }]}>
@@ -479,6 +580,25 @@ export default function MaintenanceScreen() {
         ))}
       </View>
 
+      {selectedVehicle && (
+        <View style={styles.filterRow}>
+          {(['normal', 'severe'] as ServiceProfile[]).map((profile) => {
+            const active = (selectedVehicle.service_profile ?? 'normal') === profile;
+            return (
+              <Pressable
+                key={profile}
+                style={({ pressed }) => [styles.pill, active && styles.pillActive, pressed && styles.buttonInteraction]}
+                onPress={() => handleProfileChange(profile)}
+              >
+                <Text style={[styles.pillText, active && styles.pillTextActive]}>
+                  {profile === 'normal' ? 'Normal Service' : 'Severe Service'}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
       <View style={styles.card}>
         <View style={styles.cardHeader}>
           <Text style={styles.cardTitle}>Service Reminders</Text>
@@ -502,14 +622,14 @@ export default function MaintenanceScreen() {
           <Text style={styles.emptyText}>No reminders for this vehicle.</Text>
         ) : (
           reminders.map((r) => {
-            const severityColor = getReminderSeverityColor(r, selectedVehicle?.current_mileage);
+            const severityColor = getReminderSeverityColor(r, estimatedMileage);
             return (
               <View key={r.reminder_id} style={[styles.reminderRow, { borderLeftColor: severityColor }]}>
                 <View style={{ flex: 1 }}>
                   <Text style={styles.reminderTitle}>{r.title}</Text>
                   <Text style={styles.reminderMeta}>
                     {r.due_date ? `Due ${formatDate(r.due_date)}` : ''}
-                    {r.due_mileage ? `  •  ${r.due_mileage.toLocaleString()} mi` : ''}
+                    {r.due_mileage ? `  •  ${r.due_mileage.toLocaleString()} mi${mileageEta(r.due_mileage)}` : ''}
                     {r.interval_miles ? `  •  Every ${r.interval_miles.toLocaleString()} mi` : ''}
                     {r.interval_months ? `  •  Every ${r.interval_months} mo` : ''}
                   </Text>
@@ -532,6 +652,51 @@ export default function MaintenanceScreen() {
             );
           })
         )}
+        {selectedVehicle && (
+          <Pressable
+            style={({ pressed }) => [styles.linkButton, pressed && styles.buttonInteraction]}
+            onPress={handleExportCalendar}
+            disabled={calendarBusy}
+          >
+            <Text style={styles.linkButtonText}>📅 Export to Calendar (.ics)</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>Calendar Subscription</Text>
+          <Pressable
+            style={({ pressed }) => [styles.addButton, pressed && styles.buttonInteraction]}
+            onPress={handleToggleCalendarFeed}
+            disabled={calendarBusy}
+          >
+            {calendarBusy
+              ? <ActivityIndicator size="small" color={colors.brandAccent} />
+              : <Text style={styles.addButtonText}>{calendarFeed ? 'Turn Off' : 'Turn On'}</Text>}
+          </Pressable>
+        </View>
+        <Text style={styles.reminderMeta}>
+          {calendarFeed
+            ? `Reminders and renewals for all your vehicles stay up to date in your calendar app.${calendarFeed.published_at ? ` Last updated ${formatDate(calendarFeed.published_at)}.` : ''} Anyone with the link can see it; turn it off to revoke.`
+            : 'Subscribe from Apple Calendar, Google Calendar or Outlook and changes appear there automatically.'}
+        </Text>
+        {calendarFeed && (
+          <View style={styles.formRow}>
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, { flex: 1 }, pressed && styles.buttonInteraction]}
+              onPress={() => Linking.openURL(calendarFeed.webcal_url).catch(() => null)}
+            >
+              <Text style={styles.secondaryButtonText}>Subscribe</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, { flex: 1 }, pressed && styles.buttonInteraction]}
+              onPress={() => Share.share({ message: calendarFeed.url, url: calendarFeed.url }).catch(() => null)}
+            >
+              <Text style={styles.secondaryButtonText}>Share Link</Text>
+            </Pressable>
+          </View>
+        )}
       </View>
     </View>
   );
@@ -592,15 +757,92 @@ export default function MaintenanceScreen() {
     </View>
   );
 
+  const renderBudget = (status: BudgetStatus) => {
+    const { budget } = status;
+    const vehicle = budget.vehicle_id ? vehicles.find((v) => v.vehicle_id === budget.vehicle_id) : undefined;
+    const scope = vehicle ? `${vehicle.year} ${vehicle.make} ${vehicle.model}` : budget.vehicle_id ? 'Vehicle' : 'All vehicles';
+    const alerting = status.alert === 'threshold' || status.alert === 'exceeded';
+    const chartMax = Math.max(budget.amount, 1);
+    const first = status.burn_down[0];
+    const last = status.burn_down[status.burn_down.length - 1];
+    const shortDate = (iso: string) =>
+      new Date(`${iso}T00:00:00`).toLocaleDateString('en-US', budget.period === 'monthly' ? { month: 'short', day: 'numeric' } : { month: 'short' });
+
+    return (
+      <View key={budget.budget_id} style={styles.card}>
+        <Text style={styles.cardTitle}>Budget ({budget.period}) · {scope}</Text>
+        <Text style={styles.budgetSub}>
+          {formatCurrency(status.spent)} of {formatCurrency(budget.amount)} · forecast {formatCurrency(status.forecast)}
+        </Text>
+        <View style={styles.budgetTrack}>
+          <View style={[styles.budgetForecastBar, { width: `${Math.min(status.forecast_percent, 100)}%` as any }]} />
+          <View
+            style={[
+              styles.budgetBar,
+              { width: `${Math.min(status.percent_used, 100)}%` as any },
+              alerting ? styles.budgetBarAlert : undefined,
+            ]}
+          />
+        </View>
+
+        {/* Burn-down: budget remaining per day/month, actual then forecast, against an even-spend line */}
+        <View style={styles.burnChart}>
+          {status.burn_down.map((p) => {
+            const remaining = p.actual ?? p.forecast ?? 0;
+            const height = Math.max((Math.max(remaining, 0) / chartMax) * 80, 2);
+            return (
+              <View key={p.date} style={styles.burnColumn}>
+                <View style={[styles.burnIdeal, { bottom: (Math.max(p.ideal, 0) / chartMax) * 80 }]} />
+                <View
+                  style={[
+                    styles.burnBar,
+                    { height },
+                    p.actual === undefined ? styles.burnBarForecast : undefined,
+                    remaining < 0 ? styles.burnBarOver : undefined,
+                  ]}
+                />
+              </View>
+            );
+          })}
+        </View>
+        {first && last && (
+          <View style={styles.burnLabels}>
+            <Text style={styles.barLabel}>{shortDate(first.date)}</Text>
+            <Text style={styles.barLabel}>remaining · forecast · even pace</Text>
+            <Text style={styles.barLabel}>{shortDate(last.date)}</Text>
+          </View>
+        )}
+
+        {status.alert === 'exceeded' && (
+          <Text style={styles.budgetAlert}>
+            ⚠ You are {formatCurrency(status.spent - budget.amount)} over your {budget.period} budget.
+          </Text>
+        )}
+        {status.alert === 'threshold' && (
+          <Text style={styles.budgetAlert}>
+            ⚠ You have used {status.percent_used.toFixed(0)}% of your {budget.period} budget.
+          </Text>
+        )}
+        {status.alert === 'forecast' && (
+          <Text style={styles.budgetWarning}>
+            Upcoming service is expected to bring you to {status.forecast_percent.toFixed(0)}% of this budget by {shortDate(status.period_end)}.
+          </Text>
+        )}
+        {status.upcoming.slice(0, 3).map((u) => (
+          <View key={u.reminder_id} style={styles.budgetItemRow}>
+            <Text style={styles.budgetSub} numberOfLines={1}>{u.title} · {shortDate(u.due_date)}</Text>
+            <Text style={styles.budgetSub}>~{formatCurrency(u.estimated_cost)}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderCosts = () => {
     const a = analytics;
     if (!a) return <ActivityIndicator color={colors.brandAccent} style={{ marginTop: 20 }} />;
     const last6 = a.by_month.slice(-6);
     const maxCatValue = Math.max(...a.by_category.map((c) => c.total), 1);
-    const budgetAmount = budget?.amount || 0;
-    const actualThis = budget?.period === 'monthly' ? a.total_this_month : a.total_this_year;
-    const budgetPercent = budgetAmount > 0 ? Math.min((actualThis / budgetAmount) * 100, 100) : 0;
-    const alertThreshold = budget?.alert_at_percent || 80;
 
     return (
       <View style={styles.tabContent}>
@@ -655,29 +897,8 @@ export default function MaintenanceScreen() {
           )}
         </View>
 
-        {/* Budget widget */}
-        {budget && (
-          <View style={styles.card}>
-            <Text style={styles.cardTitle}>Budget ({budget.period})</Text>
-            <Text style={styles.budgetSub}>
-              {formatCurrency(actualThis)} of {formatCurrency(budgetAmount)}
-            </Text>
-            <View style={styles.budgetTrack}>
-              <View
-                style={[
-                  styles.budgetBar,
-                  { width: `${budgetPercent}%` as any },
-                  budgetPercent >= alertThreshold ? styles.budgetBarAlert : undefined,
-                ]}
-              />
-            </View>
-            {budgetPercent >= alertThreshold && (
-              <Text style={styles.budgetAlert}>
-                ⚠ You have used {budgetPercent.toFixed(0)}% of your {budget.period} budget.
-              </Text>
-            )}
-          </View>
-        )}
+        {/* Budget widgets */}
+        {budgetStatuses.map(renderBudget)}
       </View>
     );
   };
@@ -701,6 +922,29 @@ export default function MaintenanceScreen() {
           </Pressable>
         ))}
       </View>
+      {warranty?.claims.map((claim) => (
+        <View key={`${claim.coverage.part.part_id}-${claim.trigger.date}`} style={[styles.card, styles.claimCard]}>
+          <Text style={styles.cardTitle}>Claim this under warranty</Text>
+          <Text style={styles.claimText}>{claim.message}</Text>
+          {claim.shop_name ? (
+            <View>
+              <Text style={styles.shopName}>{claim.provider?.name ?? claim.shop_name}</Text>
+              {claim.provider?.phone ? <Text style={styles.shopMeta}>📞 {claim.provider.phone}</Text> : null}
+              {claim.provider?.address ? <Text style={styles.shopMeta}>📍 {claim.provider.address}</Text> : null}
+            </View>
+          ) : (
+            <Text style={styles.shopMeta}>The installing shop isn't on record; check your receipt for their warranty terms.</Text>
+          )}
+          {claim.provider?.phone ? (
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonInteraction]}
+              onPress={() => Linking.openURL(`tel:${claim.provider!.phone!.replace(/[^\d+]/g, '')}`).catch(() => null)}
+            >
+              <Text style={styles.secondaryButtonText}>Call {claim.provider.name}</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      ))}
       <View style={styles.card}>
         <View style={styles.cardHeader}>
           <Text style={styles.cardTitle}>Installed Parts</Text>
@@ -725,9 +969,16 @@ export default function MaintenanceScreen() {
                       {p.brand ? `${p.brand}  ` : ''}{p.part_number ? `#${p.part_number}  ` : ''}
                       {formatDate(p.install_date)}{p.install_mileage ? ` · ${p.install_mileage.toLocaleString()} mi` : ''}
                     </Text>
-                    {p.warranty_months ? (
-                      <Text style={styles.partWarranty}>Warranty: {p.warranty_months} months</Text>
-                    ) : null}
+                    {(() => {
+                      const c = coverageByPart.get(p.part_id);
+                      if (!c || c.status === 'none') return null;
+                      if (c.status === 'expired') return <Text style={styles.partWarrantyExpired}>Warranty expired</Text>;
+                      return (
+                        <Text style={[styles.partWarranty, c.status === 'expiring' && styles.partWarrantyExpiring]}>
+                          Warranty: {coverageRemainingText(c)}
+                        </Text>
+                      );
+                    })()}
                   </View>
                   <Pressable
                     style={({ pressed }) => [styles.iconButton, pressed && styles.buttonInteraction]}
@@ -878,9 +1129,15 @@ export default function MaintenanceScreen() {
                   <TextInput style={styles.input} value={partInstallMileage} onChangeText={setPartInstallMileage} keyboardType="numeric" placeholder="45000" placeholderTextColor={colors.textSecondary} />
                 </View>
               </View>
-              <View style={styles.formGroup}>
-                <Text style={styles.label}>Warranty (months)</Text>
-                <TextInput style={styles.input} value={partWarrantyMonths} onChangeText={setPartWarrantyMonths} keyboardType="numeric" placeholder="24" placeholderTextColor={colors.textSecondary} />
+              <View style={styles.formRow}>
+                <View style={[styles.formGroup, { flex: 1 }]}>
+                  <Text style={styles.label}>Warranty (months)</Text>
+                  <TextInput style={styles.input} value={partWarrantyMonths} onChangeText={setPartWarrantyMonths} keyboardType="numeric" placeholder="24" placeholderTextColor={colors.textSecondary} />
+                </View>
+                <View style={[styles.formGroup, { flex: 1 }]}>
+                  <Text style={styles.label}>Warranty (miles)</Text>
+                  <TextInput style={styles.input} value={partWarrantyMiles} onChangeText={setPartWarrantyMiles} keyboardType="numeric" placeholder="24000" placeholderTextColor={colors.textSecondary} />
+                </View>
               </View>
             </ScrollView>
             <View style={styles.modalActions}>
@@ -1052,6 +1309,10 @@ function makeStyles(colors: ReturnType<typeof useTheme>['colors']) {
   partName: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
   partMeta: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
   partWarranty: { color: colors.success, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
+  partWarrantyExpiring: { color: colors.warning },
+  partWarrantyExpired: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
+  claimCard: { borderColor: colors.warning },
+  claimText: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
   shopCard: { flexDirection: 'row', alignItems: 'flex-start', gap: 10, paddingVertical: 10, borderTopWidth: 1, borderTopColor: colors.border },
   shopHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, flexWrap: 'wrap' },
   shopName: { color: colors.textPrimary, fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
@@ -1076,6 +1337,16 @@ function makeStyles(colors: ReturnType<typeof useTheme>['colors']) {
   budgetBar: { height: '100%', backgroundColor: colors.success, borderRadius: radii.full },
   budgetBarAlert: { backgroundColor: colors.danger },
   budgetAlert: { color: colors.danger, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+  budgetWarning: { color: colors.warning, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+  budgetForecastBar: { position: 'absolute', left: 0, top: 0, bottom: 0, backgroundColor: colors.warning, opacity: 0.35, borderRadius: radii.full },
+  budgetItemRow: { flexDirection: 'row', justifyContent: 'space-between', gap: 8 },
+  burnChart: { flexDirection: 'row', alignItems: 'flex-end', gap: 2, height: 88, paddingTop: 8 },
+  burnColumn: { flex: 1, height: '100%', justifyContent: 'flex-end' },
+  burnBar: { backgroundColor: colors.success, borderTopLeftRadius: 2, borderTopRightRadius: 2 },
+  burnBarForecast: { backgroundColor: colors.warning, opacity: 0.5 },
+  burnBarOver: { backgroundColor: colors.danger },
+  burnIdeal: { position: 'absolute', left: 0, right: 0, height: 2, backgroundColor: colors.textSecondary, opacity: 0.5 },
+  burnLabels: { flexDirection: 'row', justifyContent: 'space-between' },
   // Modal
   modalOverlay: { flex: 1, backgroundColor: colors.overlay, justifyContent: 'center', alignItems: 'center', padding: 16 },
   modalContent: { width: '100%', maxWidth: 500, backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border, borderRadius: radii.xl, padding: 20, gap: 14, maxHeight: '80%' },
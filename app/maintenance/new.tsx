@@ -13,7 +13,7 @@ import {
   View,
 } from 'react-native';
 import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import GearActionIcon from '../../components/branding/GearActionIcon';
 import AppShell from '../../components/layout/AppShell';
@@ -24,6 +24,13 @@ import {
   getServiceProviders,
 } from '../../services/maintenance-service';
 import { getUserVehicles } from '../../services/vehicle-service';
+import {
+  attachReceipt,
+  createReceiptParts,
+  scanReceipt,
+  type InstalledPartDraft,
+  type ReceiptProposal,
+} from '../../services/receipt-ingestion';
 import { supabase } from '../../lib/supabase';
 import type { MaintenanceTemplate, MaintenanceType, ServiceProvider } from '../../types/maintenance';
 import type { Vehicle } from '../../types/vehicle';
@@ -67,17 +74,21 @@ const TEMPLATES: LocalTemplate[] = [
 export default function MaintenanceNewScreen() {
   const { colors } = useTheme();
   const { user } = useAuth();
+  // Optional pre-fill, e.g. from a guided diagnostic flow outcome
+  const prefill = useLocalSearchParams<{ vehicleId?: string; type?: MaintenanceType; title?: string; description?: string }>();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [shops, setShops] = useState<ServiceProvider[]>([]);
   const [vehiclesLoading, setVehiclesLoading] = useState(false);
   const [saving, setSaving] = useState(false);
 
   const [vehicleId, setVehicleId] = useState('');
-  const [type, setType] = useState<MaintenanceType>('routine');
-  const [title, setTitle] = useState('');
+  const [type, setType] = useState<MaintenanceType>(
+    TYPES.some((t) => t.value === prefill.type) ? prefill.type! : 'routine'
+  );
+  const [title, setTitle] = useState(prefill.title ?? '');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [mileage, setMileage] = useState('');
-  const [description, setDescription] = useState('');
+  const [description, setDescription] = useState(prefill.description ?? '');
   const [partsCost, setPartsCost] = useState('');
   const [laborCost, setLaborCost] = useState('');
   const [tax, setTax] = useState('');
@@ -89,6 +100,12 @@ export default function MaintenanceNewScreen() {
   const [nextServiceMileage, setNextServiceMileage] = useState('');
   const [selectedShopId, setSelectedShopId] = useState<string>('');
 
+  // Receipt scan: the source image, what was read from it, and which parts to log
+  const [receipt, setReceipt] = useState<{ uri: string; fileName?: string } | null>(null);
+  const [receiptProposal, setReceiptProposal] = useState<ReceiptProposal | null>(null);
+  const [receiptParts, setReceiptParts] = useState<(InstalledPartDraft & { include: boolean })[]>([]);
+  const [scanningReceipt, setScanningReceipt] = useState(false);
+
   // Date picker & template modal state
   const [activeDatePicker, setActiveDatePicker] = useState<'date' | 'nextDate' | null>(null);
   const [showTemplateModal, setShowTemplateModal] = useState(false);
@@ -106,11 +123,12 @@ export default function MaintenanceNewScreen() {
       .then(([vehicleRows, shopRows]) => {
         setVehicles(vehicleRows);
         setShops(shopRows);
-        if (vehicleRows[0]) setVehicleId(vehicleRows[0].vehicle_id);
+        const initial = vehicleRows.find((v) => v.vehicle_id === prefill.vehicleId) ?? vehicleRows[0];
+        if (initial) setVehicleId(initial.vehicle_id);
       })
       .catch((e) => console.warn('Could not load data:', e))
       .finally(() => setVehiclesLoading(false));
-  }, [user?.user_id]);
+  }, [user?.user_id, prefill.vehicleId]);
 
   const applyTemplate = (tpl: LocalTemplate) => {
     setTitle(tpl.title);
@@ -159,6 +177,58 @@ export default function MaintenanceNewScreen() {
     setPhotoUris((prev) => [...prev, ...result.assets.map((a) => a.uri)]);
   };
 
+  const applyReceiptProposal = (proposal: ReceiptProposal) => {
+    const { record } = proposal;
+    setType(record.type);
+    setTitle(record.title);
+    setDate(record.date);
+    setMileage(record.mileage ? String(record.mileage) : '');
+    setDescription(record.description ?? '');
+    setPartsCost(record.parts_cost ? record.parts_cost.toFixed(2) : '');
+    setLaborCost(record.labor_cost ? record.labor_cost.toFixed(2) : '');
+    const taxAndFees = proposal.tax + proposal.fees;
+    setTax(taxAndFees > 0 ? taxAndFees.toFixed(2) : '');
+    setInlineParts(record.parts_replaced ?? []);
+    const knownShop = record.shop_name
+      ? shops.find((s) => s.name.trim().toLowerCase() === record.shop_name!.trim().toLowerCase())
+      : undefined;
+    setSelectedShopId(knownShop?.provider_id ?? '');
+    setReceiptParts(proposal.parts.map((part) => ({ ...part, include: true })));
+    setReceiptProposal(proposal);
+  };
+
+  /** Photograph or pick a receipt, read it, and fill the form from it for review. */
+  const handleScanReceipt = async (mode: 'camera' | 'library') => {
+    const vehicle = vehicles.find((v) => v.vehicle_id === vehicleId);
+    if (!vehicle) { Alert.alert('Missing vehicle', 'Choose a vehicle first.'); return; }
+
+    const pickFn = mode === 'camera' ? ImagePicker.launchCameraAsync : ImagePicker.launchImageLibraryAsync;
+    const result = await pickFn({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+      base64: true,
+    });
+    const asset = result.canceled ? undefined : result.assets?.[0];
+    if (!asset?.base64) return;
+
+    setReceipt({ uri: asset.uri, fileName: asset.fileName ?? undefined });
+    setScanningReceipt(true);
+    try {
+      const mimeType = (asset.mimeType as 'image/jpeg' | 'image/png' | 'image/webp') || 'image/jpeg';
+      applyReceiptProposal(await scanReceipt(asset.base64, mimeType, vehicle));
+    } catch (error: any) {
+      Alert.alert('Could not read receipt', error?.message || 'Fill in the details manually; the receipt will still be attached.');
+    } finally {
+      setScanningReceipt(false);
+    }
+  };
+
+  const clearReceipt = () => {
+    setReceipt(null);
+    setReceiptProposal(null);
+    setReceiptParts([]);
+  };
+
   const uploadPhotos = async (): Promise<string[]> => {
     if (photoUris.length === 0) return [];
     setUploadingPhotos(true);
@@ -190,7 +260,8 @@ export default function MaintenanceNewScreen() {
     try {
       const uploadedUrls = await uploadPhotos();
       const selectedShop = shops.find((s) => s.provider_id === selectedShopId);
-      await createMaintenanceRecord(vehicleId, user.user_id, {
+      const scanned = receiptProposal?.record;
+      const record = await createMaintenanceRecord(vehicleId, user.user_id, {
         type,
         title: title.trim(),
         date,
@@ -199,13 +270,28 @@ export default function MaintenanceNewScreen() {
         labor_cost: laborCost ? parseFloat(laborCost) : undefined,
         parts_cost: partsCost ? parseFloat(partsCost) : undefined,
         description: description.trim() || undefined,
-        shop_name: selectedShop?.name,
-        shop_location: selectedShop?.address,
+        shop_name: selectedShop?.name ?? scanned?.shop_name,
+        shop_location: selectedShop?.address ?? scanned?.shop_location,
         parts_replaced: inlineParts.filter(Boolean),
         photos: uploadedUrls,
         next_service_date: nextServiceDate || undefined,
         next_service_mileage: nextServiceMileage ? parseInt(nextServiceMileage, 10) : undefined,
       });
+      const accepted = receiptParts.filter((p) => p.include).map(({ include: _include, ...part }) => part);
+      if (accepted.length > 0) {
+        try {
+          await createReceiptParts(record, accepted);
+        } catch {
+          Alert.alert('Parts not added', 'The record was saved, but the parts from the receipt could not be added. You can add them from the vehicle\'s parts list.');
+        }
+      }
+      if (receipt) {
+        try {
+          await attachReceipt(user.user_id, record, receipt);
+        } catch {
+          Alert.alert('Receipt not attached', 'The record was saved, but the receipt could not be uploaded. You can add it from the record later.');
+        }
+      }
       router.replace('/maintenance');
     } catch (error: any) {
       Alert.alert('Unable to save', error?.message || 'Please try again.');
@@ -248,6 +334,9 @@ export default function MaintenanceNewScreen() {
     photoImage: { width: 72, height: 72 },
     photoRemove: { position: 'absolute', top: 2, right: 2, backgroundColor: 'rgba(0,0,0,0.6)', borderRadius: 10, width: 18, height: 18, alignItems: 'center', justifyContent: 'center' },
     photoRemoveText: { color: '#fff', fontSize: 10 },
+    receiptRow: { flexDirection: 'row', gap: 12, alignItems: 'flex-start' },
+    receiptInfo: { flex: 1, gap: 4 },
+    receiptWarning: { color: colors.warning, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
     addPhotoButton: { minHeight: 72, minWidth: 72, borderWidth: 1, borderColor: colors.border, borderRadius: radii.md, backgroundColor: colors.surfaceAlt, justifyContent: 'center', alignItems: 'center' },
     addPhotoButtonText: { color: colors.brandAccent, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
     actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, flexWrap: 'wrap', marginTop: 8 },
@@ -310,6 +399,48 @@ export default function MaintenanceNewScreen() {
             </ScrollView>
           </View>
 
+          {/* Receipt scan */}
+          <View style={styles.group}>
+            <Text style={styles.label}>Scan a Receipt</Text>
+            <View style={styles.chipRow}>
+              {Platform.OS !== 'web' && (
+                <Pressable accessibilityRole="button" disabled={scanningReceipt} onPress={() => handleScanReceipt('camera')} style={({ pressed }) => [styles.chip, pressed && styles.buttonInteraction]}>
+                  <Text style={styles.chipText}>📷 Take Photo</Text>
+                </Pressable>
+              )}
+              <Pressable accessibilityRole="button" disabled={scanningReceipt} onPress={() => handleScanReceipt('library')} style={({ pressed }) => [styles.chip, pressed && styles.buttonInteraction]}>
+                <Text style={styles.chipText}>🧾 Choose Image</Text>
+              </Pressable>
+            </View>
+            {receipt && (
+              <View style={styles.receiptRow}>
+                <View style={styles.photoThumb}>
+                  <Image source={{ uri: receipt.uri }} style={styles.photoImage} />
+                  {!scanningReceipt && (
+                    <Pressable style={styles.photoRemove} onPress={clearReceipt}>
+                      <Text style={styles.photoRemoveText}>x</Text>
+                    </Pressable>
+                  )}
+                </View>
+                <View style={styles.receiptInfo}>
+                  {scanningReceipt ? (
+                    <View style={styles.saveRow}>
+                      <ActivityIndicator size="small" color={colors.brandAccent} />
+                      <Text style={styles.label}>Reading receipt…</Text>
+                    </View>
+                  ) : (
+                    <Text style={styles.label}>
+                      {receiptProposal ? 'Filled in from this receipt. Review before saving; it will be attached to the record.' : 'This receipt will be attached to the record.'}
+                    </Text>
+                  )}
+                  {receiptProposal?.warnings.map((w) => (
+                    <Text key={w} style={styles.receiptWarning}>⚠ {w}</Text>
+                  ))}
+                </View>
+              </View>
+            )}
+          </View>
+
           {/* Vehicle */}
           <View style={styles.group}>
             <Text style={styles.label}>Vehicle *</Text>
@@ -400,7 +531,7 @@ export default function MaintenanceNewScreen() {
               <TextInput style={styles.input} value={laborCost} onChangeText={setLaborCost} keyboardType="decimal-pad" placeholder="0.00" placeholderTextColor={colors.textSecondary} />
             </View>
             <View style={[styles.group, styles.column]}>
-              <Text style={styles.label}>Tax</Text>
+              <Text style={styles.label}>Tax & Fees</Text>
               <TextInput style={styles.input} value={tax} onChangeText={setTax} keyboardType="decimal-pad" placeholder="0.00" placeholderTextColor={colors.textSecondary} />
             </View>
           </View>
@@ -433,6 +564,26 @@ export default function MaintenanceNewScreen() {
               </Pressable>
             </View>
           ))}
+          {receiptParts.length > 0 && (
+            <View style={styles.group}>
+              <Text style={styles.label}>From receipt — tap to choose which go into your parts list</Text>
+              <View style={styles.chipRow}>
+                {receiptParts.map((part, i) => (
+                  <Pressable
+                    key={`${part.part_name}-${i}`}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: part.include }}
+                    onPress={() => setReceiptParts((prev) => prev.map((p, idx) => (idx === i ? { ...p, include: !p.include } : p)))}
+                    style={({ pressed }) => [styles.chip, part.include && styles.chipActive, pressed && styles.buttonInteraction]}
+                  >
+                    <Text style={[styles.chipText, part.include && styles.chipTextActive]}>
+                      {part.include ? '✓ ' : ''}{part.part_name}{part.category !== 'other' ? ` · ${part.category.replace(/_/g, ' ')}` : ''}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
           <View style={styles.inlinePartRow}>
             <TextInput style={[styles.input, { flex: 1 }]} value={newPartName} onChangeText={setNewPartName} placeholder="Add part name" placeholderTextColor={colors.textSecondary} />
             <Pressable style={({ pressed }) => [styles.addPartButton, pressed && styles.buttonInteraction]} onPress={() => { if (newPartName.trim()) { setInlineParts((prev) => [...prev, newPartName.trim()]); setNewPartName(''); } }}>
@@ -18,10 +18,12 @@ import AppShell from '../components/layout/AppShell';
 import GearActionIcon from '../components/branding/GearActionIcon';
 import GearLogo from '../components/branding/GearLogo';
 import { useAuth } from '../contexts/AuthContext';
+import { useNotifications } from '../contexts/NotificationContext';
 import { updateUserProfile, updateUserPreferences, deleteUserAccount } from '../services/auth-service';
 import { getUserVehicles } from '../services/vehicle-service';
 import { getMaintenanceRecords } from '../services/maintenance-service';
 import { uploadFile, STORAGE_BUCKETS } from '../services/storage-service';
+import { requestNotificationPermission } from '../services/notification-service';
 import { SubscriptionTiers } from '../types/user';
 import type { UserPreferences } from '../types/user';
 import type { Vehicle } from '../types/vehicle';
@@ -52,6 +54,7 @@ const DEFAULT_PREFS: UserPreferences = {
   accent_color: '#33D6D2',
   maintenance_reminders: true,
   recall_alerts: true,
+  expiry_alerts: true,
   chat_notifications: false,
   cost_alerts: false,
   email_notifications: true,
@@ -190,6 +193,7 @@ export default function SettingsScreen() {
     dealer: '#F59E0B',
   };
   const { user, signOut } = useAuth();
+  const { resync: resyncNotifications } = useNotifications();
 
   const [activeTab, setActiveTab] = useState<Tab>('account');
   const [prefs, setPrefs]         = useState<UserPreferences>({ ...DEFAULT_PREFS, ...user?.preferences });
@@ -223,7 +227,12 @@ export default function SettingsScreen() {
     setSaving(true);
     try {
       await updateUserPreferences(user.user_id, prefs);
-      Alert.alert('Saved', 'Preferences updated.');
+      const granted = prefs.push_notifications ? await requestNotificationPermission() : true;
+      await resyncNotifications(prefs);
+      Alert.alert(
+        'Saved',
+        granted ? 'Preferences updated.' : 'Preferences updated. Allow notifications in system settings to receive push alerts.'
+      );
     } catch (e: any) {
       Alert.alert('Error', e?.message || 'Could not save preferences.');
     } finally {
@@ -488,16 +497,19 @@ export default function SettingsScreen() {
           <ToggleRow label="Recall Alerts" sublabel="Safety and recall notices"
             value={prefs.recall_alerts ?? true}
             onValueChange={(v) => setPref('recall_alerts', v)} />
+          <ToggleRow label="Renewal Reminders" sublabel="Registration, inspection and insurance expiry"
+            value={prefs.expiry_alerts ?? true}
+            onValueChange={(v) => setPref('expiry_alerts', v)} />
           <ToggleRow label="Chat Notifications" sublabel="AI assistant reply alerts"
             value={prefs.chat_notifications ?? false}
             onValueChange={(v) => setPref('chat_notifications', v)} />
-          <ToggleRow label="Cost Alerts" sublabel="High-cost maintenance warnings"
+          <ToggleRow label="Cost Alerts" sublabel="Budget threshold and forecast warnings"
             value={prefs.cost_alerts ?? false}
             onValueChange={(v) => setPref('cost_alerts', v)} />
           <ToggleRow label="Email Notifications"
             value={prefs.email_notifications ?? true}
             onValueChange={(v) => setPref('email_notifications', v)} />
-          <ToggleRow label="Push Notifications"
+          <ToggleRow label="Push Notifications" sublabel="Device alerts for reminders, renewals, recalls and budgets"
             value={prefs.push_notifications ?? false}
             onValueChange={(v) => setPref('push_notifications', v)} />
         </SectionCard>
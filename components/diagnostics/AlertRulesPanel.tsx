@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import { radii } from '../../theme/tokens';
+import { useTheme } from '../../contexts/ThemeContext';
+import { fontFamilies, typeScale } from '../../theme/typography';
+import { describeAlertRule } from '../../services/obd-alert-rules';
+import { getParameterMeta } from '../../services/obd-pids';
+import type { OBDAlertEvent, OBDAlertRule } from '../../types/diagnostic';
+
+interface Props {
+  rules: OBDAlertRule[];
+  alerts: OBDAlertEvent[]; // Fired this session, newest first
+  onSave: (rules: OBDAlertRule[]) => Promise<void>;
+}
+
+export default function AlertRulesPanel({ rules, alerts, onSave }: Props) {
+  const { colors } = useTheme();
+  const [draft, setDraft] = useState<OBDAlertRule[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const current = draft ?? rules;
+
+  const severityColor: Record<OBDAlertRule['severity'], string> = {
+    critical: '#DC2626',
+    high: colors.danger,
+    medium: colors.warning,
+    low: colors.textSecondary,
+  };
+
+  function update(ruleId: string, changes: Partial<OBDAlertRule>) {
+    setDraft(current.map((r) => (r.rule_id === ruleId ? { ...r, ...changes } : r)));
+  }
+
+  function updateNumber(ruleId: string, field: 'threshold' | 'duration_s', text: string) {
+    const value = Number(text);
+    if (text.trim() !== '' && Number.isFinite(value)) update(ruleId, { [field]: value });
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await onSave(draft);
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const styles = StyleSheet.create({
+    container: { gap: 10 },
+    alert: {
+      backgroundColor: 'rgba(239,68,68,0.1)',
+      borderWidth: 1,
+      borderColor: 'rgba(239,68,68,0.35)',
+      borderRadius: radii.md,
+      padding: 10,
+      gap: 2,
+    },
+    alertTitle: { color: colors.danger, fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    alertText: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    rule: {
+      backgroundColor: colors.surfaceAlt,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: radii.md,
+      padding: 12,
+      gap: 6,
+    },
+    ruleHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    ruleName: { flex: 1, color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+    ruleDesc: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    fields: { flexDirection: 'row', gap: 8 },
+    field: { flex: 1, gap: 2 },
+    fieldLabel: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: 11 },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: radii.sm,
+      paddingHorizontal: 8,
+      paddingVertical: 6,
+      color: colors.textPrimary,
+      fontFamily: fontFamilies.body,
+      fontSize: typeScale.sm,
+    },
+    saveBtn: { backgroundColor: colors.brandAccent, borderRadius: radii.md, minHeight: 40, alignItems: 'center', justifyContent: 'center' },
+    saveBtnText: { color: '#000', fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+  });
+
+  return (
+    <View style={styles.container}>
+      {alerts.slice(0, 3).map((a) => (
+        <View key={`${a.rule_id}-${a.triggered_at}`} style={styles.alert}>
+          <Text style={styles.alertTitle}>⚠ {a.rule_name}</Text>
+          <Text style={styles.alertText}>
+            {a.message} · {new Date(a.triggered_at).toLocaleTimeString()}
+          </Text>
+        </View>
+      ))}
+
+      {current.map((rule) => {
+        const unit = getParameterMeta(rule.parameter)?.unit ?? '';
+        return (
+          <View key={rule.rule_id} style={styles.rule}>
+            <View style={styles.ruleHeader}>
+              <Text style={[styles.ruleName, { color: rule.enabled ? colors.textPrimary : colors.textSecondary }]}>
+                {rule.name}
+              </Text>
+              <Text style={[styles.ruleDesc, { color: severityColor[rule.severity] }]}>{rule.severity}</Text>
+              <Switch value={rule.enabled} onValueChange={(enabled) => update(rule.rule_id, { enabled })} />
+            </View>
+            <Text style={styles.ruleDesc}>
+              {describeAlertRule(rule, unit)} · logs {rule.code}
+            </Text>
+            <View style={styles.fields}>
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>
+                  {rule.comparator === 'outside' ? `Band ± (${unit})` : `Threshold (${unit})`}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  defaultValue={String(rule.threshold)}
+                  keyboardType="decimal-pad"
+                  onChangeText={(t) => updateNumber(rule.rule_id, 'threshold', t)}
+                />
+              </View>
+              <View style={styles.field}>
+                <Text style={styles.fieldLabel}>For (seconds)</Text>
+                <TextInput
+                  style={styles.input}
+                  defaultValue={String(rule.duration_s)}
+                  keyboardType="number-pad"
+                  onChangeText={(t) => updateNumber(rule.rule_id, 'duration_s', t)}
+                />
+              </View>
+            </View>
+          </View>
+        );
+      })}
+
+      {draft && (
+        <Pressable style={({ pressed }) => [styles.saveBtn, pressed && { opacity: 0.85 }]} onPress={handleSave} disabled={saving}>
+          {saving ? <ActivityIndicator color="#000" size="small" /> : <Text style={styles.saveBtnText}>Save Rules for This Vehicle</Text>}
+        </Pressable>
+      )}
+    </View>
+  );
+}
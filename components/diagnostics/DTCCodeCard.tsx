@@ -4,7 +4,8 @@ import GearActionIcon from '../branding/GearActionIcon';
 import { radii } from '../../theme/tokens';
 import { useTheme } from '../../contexts/ThemeContext';
 import { fontFamilies, typeScale } from '../../theme/typography';
-import type { DiagnosticCode, DTCAnalysis } from '../../types/diagnostic';
+import { getParameterMeta, getPIDDefinition } from '../../services/obd-pids';
+import type { DiagnosticCode, DTCAnalysis, FreezeFrameData, FuelTrimAnalysis } from '../../types/diagnostic';
 
 interface Props {
   code: DiagnosticCode;
@@ -13,6 +14,30 @@ interface Props {
   analysis?: DTCAnalysis | null;
 }
 
+const FREEZE_FRAME_META_KEYS = ['frame_number', 'dtc', 'captured_at', 'parameters'];
+
+/** Label/value cells for a freeze frame, using the PID registry for names and units. */
+function freezeFrameCells(ff: FreezeFrameData): { key: string; label: string; value: string }[] {
+  if (ff.parameters?.length) {
+    return ff.parameters.map((p) => ({
+      key: p.key ?? p.pid,
+      label: p.name,
+      value: `${p.value.toFixed(getParameterMeta(p)?.decimals ?? 0)} ${p.unit}`.trim(),
+    }));
+  }
+  // Rows saved before Mode 02 decoding only hold key → value pairs
+  return Object.entries(ff)
+    .filter(([k, v]) => v != null && typeof v !== 'object' && !FREEZE_FRAME_META_KEYS.includes(k))
+    .map(([k, v]) => {
+      const def = getPIDDefinition(k);
+      return {
+        key: k,
+        label: def?.name ?? k.replace(/_/g, ' '),
+        value: def ? `${v} ${def.unit}` : String(v),
+      };
+    });
+}
+
 function formatDate(iso: string): string {
   try {
     return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
@@ -36,6 +61,7 @@ export default function DTCCodeCard({ code, onAnalyze, onResolve, analysis: prop
     pending: colors.warning,
     resolved: colors.success,
     false_positive: colors.textSecondary,
+    alert: colors.warning,
   };
 
   const styles = StyleSheet.create({
@@ -109,6 +135,8 @@ export default function DTCCodeCard({ code, onAnalyze, onResolve, analysis: prop
   }
 
   const accent = severityColor[code.severity];
+  const trimAnalysis: FuelTrimAnalysis | undefined = code.metadata?.fuel_trim_analysis;
+  const likelihoodColor = { high: colors.danger, medium: colors.warning, low: colors.success };
 
   return (
     <View style={[styles.card, { borderLeftColor: accent }]}>
@@ -123,6 +151,11 @@ export default function DTCCodeCard({ code, onAnalyze, onResolve, analysis: prop
             <View style={[styles.badge, { borderColor: statusColor[code.status] }]}>
               <Text style={[styles.badgeText, { color: statusColor[code.status] }]}>{code.status}</Text>
             </View>
+            {code.metadata?.permanent && code.status !== 'resolved' && (
+              <View style={[styles.badge, { borderColor: colors.textSecondary }]}>
+                <Text style={[styles.badgeText, { color: colors.textSecondary }]}>permanent</Text>
+              </View>
+            )}
           </View>
         </View>
         <Text style={styles.chevron}>{expanded ? '▲' : '▼'}</Text>
@@ -134,26 +167,68 @@ export default function DTCCodeCard({ code, onAnalyze, onResolve, analysis: prop
         {code.code_type === 'P' ? 'Powertrain' : code.code_type === 'C' ? 'Chassis' : code.code_type === 'B' ? 'Body' : 'Network'}
         {code.detected_at ? ` · Detected ${formatDate(code.detected_at)}` : ''}
         {code.mileage_at_detection ? ` · ${code.mileage_at_detection.toLocaleString()} mi` : ''}
+        {code.estimated_repair_cost_min != null && code.estimated_repair_cost_max != null
+          ? ` · Est. $${code.estimated_repair_cost_min}–$${code.estimated_repair_cost_max}`
+          : ''}
       </Text>
 
       {/* Expanded detail */}
       {expanded && (
         <View style={styles.expandedBody}>
           {/* Freeze frame */}
-          {code.freeze_frame_data && Object.keys(code.freeze_frame_data).length > 0 && (
+          {code.freeze_frame_data && freezeFrameCells(code.freeze_frame_data).length > 0 && (
             <View style={styles.section}>
-              <Text style={styles.sectionLabel}>Freeze Frame</Text>
+              <Text style={styles.sectionLabel}>
+                Freeze Frame{code.freeze_frame_data.frame_number != null ? ` #${code.freeze_frame_data.frame_number}` : ''} · Conditions When Set
+              </Text>
               <View style={styles.ffGrid}>
-                {Object.entries(code.freeze_frame_data).filter(([, v]) => v != null).map(([k, v]) => (
-                  <View key={k} style={styles.ffCell}>
-                    <Text style={styles.ffKey}>{k.replace(/_/g, ' ')}</Text>
-                    <Text style={styles.ffVal}>{String(v)}</Text>
+                {freezeFrameCells(code.freeze_frame_data).map((cell) => (
+                  <View key={cell.key} style={styles.ffCell}>
+                    <Text style={styles.ffKey}>{cell.label}</Text>
+                    <Text style={styles.ffVal}>{cell.value}</Text>
                   </View>
                 ))}
               </View>
             </View>
           )}
 
+          {/* Fuel trim analysis from a recorded session */}
+          {trimAnalysis && (
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>Fuel Trim Analysis · {formatDate(trimAnalysis.analyzed_at)}</Text>
+              {trimAnalysis.bands.length > 0 && (
+                <View style={styles.ffGrid}>
+                  {trimAnalysis.bands.map((b) => (
+                    <View key={b.label} style={styles.ffCell}>
+                      <Text style={styles.ffKey}>{b.label.replace('_', ' ')}</Text>
+                      <Text style={styles.ffVal}>{b.total_trim > 0 ? '+' : ''}{b.total_trim}%</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {trimAnalysis.insufficient_data && <Text style={styles.aiText}>{trimAnalysis.insufficient_data}</Text>}
+              {trimAnalysis.findings.map((f) => (
+                <View key={f.condition} style={styles.causeRow}>
+                  <View style={[styles.likelihoodDot, { backgroundColor: likelihoodColor[f.confidence] }]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.causeName}>{f.title} · {f.confidence} confidence</Text>
+                    {f.evidence.map((e) => (
+                      <Text key={e} style={styles.causeExp}>• {e}</Text>
+                    ))}
+                  </View>
+                </View>
+              ))}
+              {(code.recommended_actions?.length ?? 0) > 0 && (
+                <View style={styles.subsection}>
+                  <Text style={styles.subLabel}>Recommended Checks</Text>
+                  {code.recommended_actions!.map((a) => (
+                    <Text key={a} style={styles.causeExp}>• {a}</Text>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
           {/* AI Analysis */}
           {analysis ? (
             <View style={styles.section}>
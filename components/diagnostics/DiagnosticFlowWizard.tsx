@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { radii } from '../../theme/tokens';
+import { useTheme } from '../../contexts/ThemeContext';
+import { fontFamilies, typeScale } from '../../theme/typography';
+import { walkDiagnosticFlow } from '../../services/diagnostic-flows';
+import type { DiagnosticFlowAnswer, DiagnosticFlowOutcome, SymptomCheck } from '../../types/diagnostic';
+
+interface Props {
+  check: SymptomCheck;
+  onProgress?: (answers: DiagnosticFlowAnswer[], outcome?: DiagnosticFlowOutcome) => void;
+  onLogMaintenance?: (outcome: DiagnosticFlowOutcome) => void;
+}
+
+export default function DiagnosticFlowWizard({ check, onProgress, onLogMaintenance }: Props) {
+  const { colors } = useTheme();
+  const [answers, setAnswers] = useState<DiagnosticFlowAnswer[]>(check.flow_answers ?? []);
+  const position = useMemo(
+    () => walkDiagnosticFlow(check.flowchart_steps, answers, check.symptom_text),
+    [check.flowchart_steps, check.symptom_text, answers]
+  );
+
+  const urgencyColor: Record<DiagnosticFlowOutcome['urgency'], string> = {
+    low: colors.success,
+    medium: colors.warning,
+    high: '#F97316',
+    critical: colors.danger,
+  };
+
+  function commit(next: DiagnosticFlowAnswer[]) {
+    setAnswers(next);
+    onProgress?.(next, walkDiagnosticFlow(check.flowchart_steps, next, check.symptom_text).outcome);
+  }
+
+  function answer(value: DiagnosticFlowAnswer['answer']) {
+    if (!position.step) return;
+    commit([...answers, { step: position.step.step, answer: value, answered_at: new Date().toISOString() }]);
+  }
+
+  const styles = StyleSheet.create({
+    container: { gap: 10 },
+    trail: { gap: 4 },
+    trailItem: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    card: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: radii.md,
+      padding: 12,
+      gap: 8,
+    },
+    stepLabel: { color: colors.brandAccent, fontFamily: fontFamilies.heading, fontSize: typeScale.xs },
+    instruction: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm, lineHeight: 20 },
+    question: { color: colors.textPrimary, fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    buttons: { flexDirection: 'row', gap: 8 },
+    answerBtn: { flex: 1, borderWidth: 1, borderRadius: radii.md, minHeight: 40, alignItems: 'center', justifyContent: 'center' },
+    answerText: { fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    outcomeTitle: { fontFamily: fontFamilies.heading, fontSize: typeScale.md },
+    meta: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    primaryBtn: { backgroundColor: colors.brandAccent, borderRadius: radii.md, minHeight: 40, alignItems: 'center', justifyContent: 'center' },
+    primaryText: { color: '#000', fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    linkRow: { flexDirection: 'row', gap: 16 },
+    link: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, textDecorationLine: 'underline' },
+  });
+
+  return (
+    <View style={styles.container}>
+      {position.path.length > 0 && (
+        <View style={styles.trail}>
+          {position.path.map((s, i) => (
+            <Text key={s.step} style={styles.trailItem}>
+              {i + 1}. {s.check || s.instruction} — {answers[i]?.answer === 'yes' ? 'Yes' : 'No'}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {position.step && (
+        <View style={styles.card}>
+          <Text style={styles.stepLabel}>STEP {position.path.length + 1}</Text>
+          <Text style={styles.instruction}>{position.step.instruction}</Text>
+          {position.step.check && <Text style={styles.question}>{position.step.check}</Text>}
+          <View style={styles.buttons}>
+            <Pressable
+              style={({ pressed }) => [styles.answerBtn, { borderColor: colors.success }, pressed && { opacity: 0.7 }]}
+              onPress={() => answer('yes')}
+            >
+              <Text style={[styles.answerText, { color: colors.success }]}>Yes</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.answerBtn, { borderColor: colors.warning }, pressed && { opacity: 0.7 }]}
+              onPress={() => answer('no')}
+            >
+              <Text style={[styles.answerText, { color: colors.warning }]}>No</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+
+      {position.outcome && (
+        <View style={[styles.card, { borderColor: urgencyColor[position.outcome.urgency] }]}>
+          <Text style={[styles.outcomeTitle, { color: urgencyColor[position.outcome.urgency] }]}>
+            {position.outcome.title}
+          </Text>
+          <Text style={styles.instruction}>{position.outcome.action}</Text>
+          <Text style={styles.meta}>
+            {position.outcome.urgency.toUpperCase()} · {position.outcome.diy ? 'DIY-friendly' : 'Shop recommended'}
+          </Text>
+          {position.outcome.maintenance && onLogMaintenance && (
+            <Pressable
+              style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.85 }]}
+              onPress={() => onLogMaintenance(position.outcome!)}
+            >
+              <Text style={styles.primaryText}>Log {position.outcome.maintenance.title}</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
+      {answers.length > 0 && (
+        <View style={styles.linkRow}>
+          <Pressable onPress={() => commit(answers.slice(0, position.path.length - 1))}>
+            <Text style={styles.link}>Back</Text>
+          </Pressable>
+          <Pressable onPress={() => commit([])}>
+            <Text style={styles.link}>Start over</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -3,43 +3,23 @@ import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
 import { radii } from '../../theme/tokens';
 import { useTheme } from '../../contexts/ThemeContext';
 import { fontFamilies, typeScale } from '../../theme/typography';
-import type { LiveOBDData, OBDSessionState } from '../../types/diagnostic';
+import { getParameterMeta } from '../../services/obd-pids';
+import type { OBDParameter, OBDSessionState } from '../../types/diagnostic';
 
 interface Props {
   sessionState: OBDSessionState;
-  data?: LiveOBDData;
+  parameters?: OBDParameter[];
+  /** Rendering a recorded sample: skip the adapter connection states. */
+  playback?: boolean;
 }
 
-interface PIDEntry {
-  key: keyof LiveOBDData;
-  label: string;
-  unit: string;
-  decimals?: number;
-  warnHigh?: number;
-  warnLow?: number;
-}
-
-const PID_ENTRIES: PIDEntry[] = [
-  { key: 'rpm', label: 'Engine RPM', unit: 'rpm', warnHigh: 4000 },
-  { key: 'vehicle_speed', label: 'Speed', unit: 'km/h' },
-  { key: 'coolant_temp', label: 'Coolant Temp', unit: '°C', warnHigh: 105, warnLow: 60 },
-  { key: 'intake_air_temp', label: 'Intake Air', unit: '°C', warnHigh: 50 },
-  { key: 'throttle_position', label: 'Throttle', unit: '%' },
-  { key: 'engine_load', label: 'Engine Load', unit: '%', warnHigh: 90 },
-  { key: 'fuel_trim_short', label: 'Fuel Trim (S)', unit: '%', warnHigh: 10, warnLow: -10, decimals: 1 },
-  { key: 'fuel_trim_long', label: 'Fuel Trim (L)', unit: '%', warnHigh: 10, warnLow: -10, decimals: 1 },
-  { key: 'o2_voltage_bank1', label: 'O₂ Voltage B1', unit: 'V', decimals: 3 },
-  { key: 'maf_rate', label: 'MAF Rate', unit: 'g/s', decimals: 2 },
-  { key: 'timing_advance', label: 'Timing Advance', unit: '°' },
-  { key: 'battery_voltage', label: 'Battery', unit: 'V', decimals: 1, warnLow: 12.5 },
-];
-
-export default function LiveDataGrid({ sessionState, data }: Props) {
+export default function LiveDataGrid({ sessionState, parameters, playback }: Props) {
   const { colors } = useTheme();
 
-  function pidColor(entry: PIDEntry, value: number): string {
-    if (entry.warnHigh !== undefined && value >= entry.warnHigh) return colors.danger;
-    if (entry.warnLow !== undefined && value <= entry.warnLow) return colors.warning;
+  function pidColor(param: OBDParameter): string {
+    const meta = getParameterMeta(param);
+    if (meta?.warn_high !== undefined && param.value >= meta.warn_high) return colors.danger;
+    if (meta?.warn_low !== undefined && param.value <= meta.warn_low) return colors.warning;
     return colors.success;
   }
 
@@ -98,7 +78,7 @@ export default function LiveDataGrid({ sessionState, data }: Props) {
     },
   });
 
-  if (sessionState.status === 'scanning' || sessionState.status === 'connecting') {
+  if (!playback && (sessionState.status === 'scanning' || sessionState.status === 'connecting')) {
     return (
       <View style={styles.centeredState}>
         <ActivityIndicator color={colors.brandAccent} />
@@ -109,7 +89,7 @@ export default function LiveDataGrid({ sessionState, data }: Props) {
     );
   }
 
-  if (sessionState.status === 'error') {
+  if (!playback && sessionState.status === 'error') {
     return (
       <View style={styles.centeredState}>
         <Text style={styles.errorText}>⚠ {sessionState.error_message || 'Connection failed'}</Text>
@@ -117,7 +97,7 @@ export default function LiveDataGrid({ sessionState, data }: Props) {
     );
   }
 
-  if (sessionState.status !== 'connected' || !data) {
+  if ((!playback && sessionState.status !== 'connected') || !parameters) {
     return (
       <View style={styles.centeredState}>
         <Text style={styles.stateText}>No live data — connect an OBD-II adapter to begin.</Text>
@@ -125,22 +105,25 @@ export default function LiveDataGrid({ sessionState, data }: Props) {
     );
   }
 
+  if (parameters.length === 0) {
+    return (
+      <View style={styles.centeredState}>
+        <Text style={styles.stateText}>The vehicle did not report any supported live parameters.</Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.grid}>
-      {PID_ENTRIES.map((entry) => {
-        const raw = data[entry.key];
-        const value = typeof raw === 'number' ? raw : 0;
-        const color = pidColor(entry, value);
-        return (
-          <View key={entry.key} style={styles.cell}>
-            <Text style={styles.cellLabel}>{entry.label}</Text>
-            <Text style={[styles.cellValue, { color }]}>
-              {formatVal(value, entry.decimals ?? 0)}
-              <Text style={styles.cellUnit}> {entry.unit}</Text>
-            </Text>
-          </View>
-        );
-      })}
+      {parameters.map((param) => (
+        <View key={param.pid} style={styles.cell}>
+          <Text style={styles.cellLabel} numberOfLines={1}>{param.name}</Text>
+          <Text style={[styles.cellValue, { color: pidColor(param) }]}>
+            {formatVal(param.value, getParameterMeta(param)?.decimals ?? 0)}
+            <Text style={styles.cellUnit}> {param.unit}</Text>
+          </Text>
+        </View>
+      ))}
     </View>
   );
 }
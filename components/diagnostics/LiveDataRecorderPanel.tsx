@@ -0,0 +1,327 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, Share, StyleSheet, Text, TextInput, View } from 'react-native';
+import { radii } from '../../theme/tokens';
+import { useTheme } from '../../contexts/ThemeContext';
+import { fontFamilies, typeScale } from '../../theme/typography';
+import {
+  createRecordingPlayer,
+  deleteLocalRecording,
+  getActiveRecording,
+  getCloudRecordings,
+  listLocalRecordings,
+  loadRecording,
+  recordingFilename,
+  recordingToCSV,
+  recordingToJSON,
+  RecordingPlayer,
+  startRecording,
+  stopRecording,
+  uploadRecording,
+} from '../../services/live-data-recorder';
+import type {
+  LiveDataRecording,
+  LiveDataRecordingSummary,
+  OBDParameter,
+  PlaybackState,
+} from '../../types/diagnostic';
+
+interface Props {
+  vehicleId: string;
+  userId?: string;
+  obdConnected: boolean;
+  /** Recording and export are a Mechanic-tier feature. */
+  canRecord: boolean;
+  /** Receives each played-back sample, or undefined when playback closes. */
+  onPlaybackFrame: (params: OBDParameter[] | undefined) => void;
+  /** Run the fuel trim analyzer on the open recording. */
+  onAnalyze?: (recording: LiveDataRecording) => Promise<void>;
+}
+
+const SEEK_STEP_MS = 5000;
+
+function formatDuration(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export default function LiveDataRecorderPanel({ vehicleId, userId, obdConnected, canRecord, onPlaybackFrame, onAnalyze }: Props) {
+  const { colors } = useTheme();
+  const [name, setName] = useState('');
+  const [recording, setRecording] = useState<LiveDataRecording | null>(getActiveRecording());
+  const [elapsed, setElapsed] = useState(0);
+  const [recordings, setRecordings] = useState<LiveDataRecordingSummary[]>([]);
+  const [loaded, setLoaded] = useState<LiveDataRecording | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [barWidth, setBarWidth] = useState(0);
+  const playerRef = useRef<RecordingPlayer | null>(null);
+
+  const loadList = useCallback(async () => {
+    const [local, cloud] = await Promise.all([listLocalRecordings(), getCloudRecordings(vehicleId)]);
+    setRecordings([...local.filter((r) => !r.vehicle_id || r.vehicle_id === vehicleId), ...cloud]);
+  }, [vehicleId]);
+
+  useEffect(() => { void loadList(); }, [loadList]);
+
+  // Tick the elapsed counter while recording
+  useEffect(() => {
+    if (!recording) return;
+    const id = setInterval(() => setElapsed(Date.now() - new Date(recording.started_at).getTime()), 1000);
+    return () => clearInterval(id);
+  }, [recording]);
+
+  const closePlayback = useCallback(() => {
+    playerRef.current?.dispose();
+    playerRef.current = null;
+    setLoaded(null);
+    setPlayback(null);
+    onPlaybackFrame(undefined);
+  }, [onPlaybackFrame]);
+
+  useEffect(() => () => playerRef.current?.dispose(), []);
+
+  async function handleRecordToggle() {
+    if (recording) {
+      try {
+        await stopRecording();
+      } catch (err: any) {
+        // Keep the capture open so it can still be exported or uploaded
+        Alert.alert('Could not save recording', err?.message || 'Export or upload it before closing.');
+        setLoaded(recording);
+        playerRef.current = createRecordingPlayer(recording, (params) => onPlaybackFrame(params), setPlayback);
+        playerRef.current.seek(0);
+      }
+      setRecording(null);
+      setName('');
+      await loadList();
+      return;
+    }
+    try {
+      closePlayback();
+      setElapsed(0);
+      setRecording(startRecording(name, { vehicleId, userId }));
+    } catch (err: any) {
+      Alert.alert('Recording failed', err?.message || 'Please try again.');
+    }
+  }
+
+  async function handleOpen(summary: LiveDataRecordingSummary) {
+    setBusy(summary.recording_id);
+    try {
+      const rec = await loadRecording(summary);
+      if (!rec) return;
+      closePlayback();
+      setLoaded(rec);
+      playerRef.current = createRecordingPlayer(rec, (params) => onPlaybackFrame(params), setPlayback);
+      playerRef.current.seek(0);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleExport(format: 'csv' | 'json') {
+    if (!loaded) return;
+    const content = format === 'csv' ? recordingToCSV(loaded) : recordingToJSON(loaded);
+    const filename = recordingFilename(loaded, format);
+    try {
+      if (Platform.OS === 'web') {
+        const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url; a.download = filename; a.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: filename, message: content });
+      }
+    } catch (err: any) {
+      Alert.alert('Export failed', err?.message || 'Please try again.');
+    }
+  }
+
+  async function handleAnalyze() {
+    if (!loaded || !onAnalyze) return;
+    setBusy('analyze');
+    try {
+      await onAnalyze(loaded);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleUpload() {
+    if (!loaded || !userId) return;
+    setBusy('upload');
+    try {
+      const saved = await uploadRecording(loaded, userId);
+      if (!saved) {
+        Alert.alert('Upload failed', 'The recording is still saved on this device.');
+        return;
+      }
+      await deleteLocalRecording(loaded.recording_id);
+      setLoaded(saved);
+      await loadList();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleDelete(summary: LiveDataRecordingSummary) {
+    if (loaded?.recording_id === summary.recording_id) closePlayback();
+    await deleteLocalRecording(summary.recording_id);
+    await loadList();
+  }
+
+  const styles = StyleSheet.create({
+    container: { gap: 12 },
+    input: {
+      backgroundColor: colors.surfaceAlt,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: radii.md,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.textPrimary,
+      fontFamily: fontFamilies.body,
+      fontSize: typeScale.sm,
+    },
+    recordBtn: { backgroundColor: colors.brandAccent, borderRadius: radii.md, minHeight: 42, alignItems: 'center', justifyContent: 'center' },
+    recordBtnActive: { backgroundColor: colors.danger },
+    recordBtnText: { color: '#000', fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    hint: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    row: {
+      backgroundColor: colors.surfaceAlt,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: radii.md,
+      padding: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    rowActive: { borderColor: colors.brandAccent },
+    rowTitle: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+    rowMeta: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
+    linkText: { color: colors.brandAccent, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    player: { gap: 8 },
+    track: { height: 8, borderRadius: 4, backgroundColor: colors.border, overflow: 'hidden' },
+    trackFill: { height: 8, backgroundColor: colors.brandAccent },
+    controls: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 8 },
+    controlBtn: { borderWidth: 1, borderColor: colors.border, borderRadius: radii.md, paddingHorizontal: 12, paddingVertical: 8 },
+    controlText: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+    time: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    actions: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  });
+
+  if (!canRecord) {
+    return (
+      <Text style={styles.hint}>
+        Recording, playback and CSV/JSON export of live data are available on the Mechanic plan.
+      </Text>
+    );
+  }
+
+  const progress = playback && playback.duration_ms > 0 ? playback.position_ms / playback.duration_ms : 0;
+
+  return (
+    <View style={styles.container}>
+      {/* Record controls */}
+      {!recording && (
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Session name, e.g. Highway test drive"
+          placeholderTextColor={colors.textSecondary}
+        />
+      )}
+      <Pressable
+        style={({ pressed }) => [styles.recordBtn, recording && styles.recordBtnActive, pressed && { opacity: 0.85 }]}
+        onPress={handleRecordToggle}
+        disabled={!obdConnected && !recording}
+      >
+        <Text style={[styles.recordBtnText, recording && { color: '#fff' }]}>
+          {recording ? `■ Stop Recording · ${formatDuration(elapsed)}` : '● Start Recording'}
+        </Text>
+      </Pressable>
+      {!obdConnected && !recording && (
+        <Text style={styles.hint}>Connect an adapter to record. Saved sessions can be played back any time.</Text>
+      )}
+
+      {/* Playback */}
+      {loaded && playback && (
+        <View style={styles.player}>
+          <Text style={styles.rowTitle}>▶ {loaded.name}</Text>
+          <Pressable
+            onLayout={(e) => setBarWidth(e.nativeEvent.layout.width)}
+            onPress={(e) => barWidth > 0 && playerRef.current?.seek((e.nativeEvent.locationX / barWidth) * playback.duration_ms)}
+          >
+            <View style={styles.track}>
+              <View style={[styles.trackFill, { width: `${Math.round(progress * 100)}%` as any }]} />
+            </View>
+          </Pressable>
+          <View style={styles.controls}>
+            <Pressable style={styles.controlBtn} onPress={() => playerRef.current?.seek(playback.position_ms - SEEK_STEP_MS)}>
+              <Text style={styles.controlText}>−5s</Text>
+            </Pressable>
+            <Pressable
+              style={styles.controlBtn}
+              onPress={() => (playback.playing ? playerRef.current?.pause() : playerRef.current?.play())}
+            >
+              <Text style={styles.controlText}>{playback.playing ? 'Pause' : 'Play'}</Text>
+            </Pressable>
+            <Pressable style={styles.controlBtn} onPress={() => playerRef.current?.seek(playback.position_ms + SEEK_STEP_MS)}>
+              <Text style={styles.controlText}>+5s</Text>
+            </Pressable>
+            <Text style={styles.time}>
+              {formatDuration(playback.position_ms)} / {formatDuration(playback.duration_ms)}
+            </Text>
+          </View>
+          <View style={styles.actions}>
+            <Pressable style={styles.controlBtn} onPress={() => handleExport('csv')}>
+              <Text style={styles.controlText}>Export CSV</Text>
+            </Pressable>
+            <Pressable style={styles.controlBtn} onPress={() => handleExport('json')}>
+              <Text style={styles.controlText}>Export JSON</Text>
+            </Pressable>
+            {onAnalyze && (
+              <Pressable style={styles.controlBtn} onPress={handleAnalyze} disabled={busy === 'analyze'}>
+                {busy === 'analyze' ? <ActivityIndicator size="small" color={colors.brandAccent} /> : <Text style={styles.controlText}>Analyze Fuel Trims</Text>}
+              </Pressable>
+            )}
+            {loaded.storage === 'local' && userId && (
+              <Pressable style={styles.controlBtn} onPress={handleUpload} disabled={busy === 'upload'}>
+                {busy === 'upload' ? <ActivityIndicator size="small" color={colors.brandAccent} /> : <Text style={styles.controlText}>Save to Cloud</Text>}
+              </Pressable>
+            )}
+            <Pressable style={styles.controlBtn} onPress={closePlayback}>
+              <Text style={styles.controlText}>Back to Live</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+
+      {/* Saved sessions */}
+      {recordings.map((r) => (
+        <Pressable
+          key={r.recording_id}
+          style={({ pressed }) => [styles.row, loaded?.recording_id === r.recording_id && styles.rowActive, pressed && { opacity: 0.85 }]}
+          onPress={() => handleOpen(r)}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{r.name}</Text>
+            <Text style={styles.rowMeta}>
+              {new Date(r.started_at).toLocaleString()} · {formatDuration(r.duration_ms)} · {r.sample_count} samples · {r.storage === 'cloud' ? 'Cloud' : 'On device'}
+            </Text>
+          </View>
+          {busy === r.recording_id ? (
+            <ActivityIndicator size="small" color={colors.brandAccent} />
+          ) : r.storage === 'local' ? (
+            <Pressable onPress={() => handleDelete(r)}>
+              <Text style={[styles.linkText, { color: colors.danger }]}>Delete</Text>
+            </Pressable>
+          ) : null}
+        </Pressable>
+      ))}
+    </View>
+  );
+}
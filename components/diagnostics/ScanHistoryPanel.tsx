@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { radii } from '../../theme/tokens';
+import { useTheme } from '../../contexts/ThemeContext';
+import { fontFamilies, typeScale } from '../../theme/typography';
+import { diffDiagnosticScans } from '../../services/scan-diff';
+import type { DiagnosticScan, FreezeFrameChange } from '../../types/diagnostic';
+
+interface Props {
+  scans: DiagnosticScan[]; // Newest first
+  loading?: boolean;
+  obdConnected: boolean;
+  onRunScan: () => Promise<void>;
+}
+
+function formatDateTime(iso: string): string {
+  try {
+    return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+  } catch {
+    return iso;
+  }
+}
+
+function formatChange(change: FreezeFrameChange): string {
+  const fmt = (v?: number) => (v == null ? '—' : `${Number(v.toFixed(2))}`);
+  return `${fmt(change.previous)} → ${fmt(change.current)}${change.unit ? ` ${change.unit}` : ''}`;
+}
+
+export default function ScanHistoryPanel({ scans, loading, obdConnected, onRunScan }: Props) {
+  const { colors } = useTheme();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const selectedIndex = Math.max(0, scans.findIndex((s) => s.scan_id === selectedId));
+  const selected = scans[selectedIndex];
+  const diff = useMemo(
+    () => (selected ? diffDiagnosticScans(selected, scans[selectedIndex + 1]) : null),
+    [selected, scans, selectedIndex]
+  );
+
+  async function handleRun() {
+    setRunning(true);
+    try {
+      await onRunScan();
+      setSelectedId(null);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  const styles = StyleSheet.create({
+    container: { gap: 16 },
+    section: { gap: 8 },
+    sectionTitle: { color: colors.textPrimary, fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    centeredState: { minHeight: 100, justifyContent: 'center', alignItems: 'center', gap: 8 },
+    stateText: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.sm, textAlign: 'center' },
+    runBtn: { backgroundColor: colors.brandAccent, borderRadius: radii.md, minHeight: 42, alignItems: 'center', justifyContent: 'center' },
+    runBtnText: { color: '#000', fontFamily: fontFamilies.heading, fontSize: typeScale.sm },
+    scanRow: {
+      backgroundColor: colors.surfaceAlt,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: radii.md,
+      padding: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    scanRowActive: { borderColor: colors.brandAccent },
+    scanDate: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+    scanMeta: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, marginTop: 2 },
+    scanCount: { color: colors.textPrimary, fontFamily: fontFamilies.heading, fontSize: typeScale.md },
+    diffCard: { backgroundColor: colors.surfaceAlt, borderWidth: 1, borderColor: colors.border, borderRadius: radii.md, padding: 12, gap: 10 },
+    diffGroup: { gap: 4 },
+    diffLabel: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs, textTransform: 'uppercase', letterSpacing: 0.6 },
+    diffLine: { color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm },
+    diffCode: { fontFamily: fontFamilies.heading },
+  });
+
+  return (
+    <View style={styles.container}>
+      {obdConnected ? (
+        <Pressable style={({ pressed }) => [styles.runBtn, pressed && { opacity: 0.85 }]} onPress={handleRun} disabled={running}>
+          {running ? <ActivityIndicator color="#000" size="small" /> : <Text style={styles.runBtnText}>Run Full Scan</Text>}
+        </Pressable>
+      ) : (
+        <Text style={styles.stateText}>Connect an OBD-II adapter from the Live Data tab to run a scan.</Text>
+      )}
+
+      {loading ? (
+        <View style={styles.centeredState}>
+          <ActivityIndicator color={colors.brandAccent} />
+        </View>
+      ) : scans.length === 0 ? (
+        <View style={styles.centeredState}>
+          <Text style={styles.stateText}>No scans yet for this vehicle.</Text>
+        </View>
+      ) : (
+        <>
+          {diff && selected && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                {diff.previous_scan_id ? 'Changes Since Previous Scan' : 'First Scan'}
+              </Text>
+              <View style={styles.diffCard}>
+                <View style={styles.diffGroup}>
+                  <Text style={[styles.diffLabel, { color: colors.danger }]}>New codes</Text>
+                  {diff.new_codes.length === 0 ? (
+                    <Text style={styles.stateText}>None</Text>
+                  ) : (
+                    diff.new_codes.map((c) => (
+                      <Text key={c.code} style={styles.diffLine}>
+                        <Text style={styles.diffCode}>{c.code}</Text> · {c.description}
+                      </Text>
+                    ))
+                  )}
+                </View>
+                {diff.previous_scan_id && (
+                  <View style={styles.diffGroup}>
+                    <Text style={[styles.diffLabel, { color: colors.success }]}>Cleared codes</Text>
+                    {diff.cleared_codes.length === 0 ? (
+                      <Text style={styles.stateText}>None</Text>
+                    ) : (
+                      diff.cleared_codes.map((c) => (
+                        <Text key={c.code} style={styles.diffLine}>
+                          <Text style={styles.diffCode}>{c.code}</Text> · {c.description}
+                        </Text>
+                      ))
+                    )}
+                  </View>
+                )}
+                {diff.freeze_frame_changes.length > 0 && (
+                  <View style={styles.diffGroup}>
+                    <Text style={styles.diffLabel}>Freeze frame changes</Text>
+                    {diff.freeze_frame_changes.map((ch) => (
+                      <Text key={`${ch.code}-${ch.key}`} style={styles.diffLine}>
+                        <Text style={styles.diffCode}>{ch.code}</Text> {ch.label}: {formatChange(ch)}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Scan History</Text>
+            {scans.map((scan) => (
+              <Pressable
+                key={scan.scan_id}
+                style={({ pressed }) => [styles.scanRow, scan === selected && styles.scanRowActive, pressed && { opacity: 0.85 }]}
+                onPress={() => setSelectedId(scan.scan_id)}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.scanDate}>{formatDateTime(scan.scan_date)}</Text>
+                  <Text style={styles.scanMeta}>
+                    {scan.mileage ? `${scan.mileage.toLocaleString()} mi · ` : ''}
+                    {scan.adapter_info?.adapter_name || 'OBD-II'} · {scan.duration_seconds}s
+                  </Text>
+                </View>
+                <Text style={[styles.scanCount, { color: scan.codes_found.length > 0 ? colors.warning : colors.success }]}>
+                  {scan.codes_found.length}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
@@ -9,22 +9,25 @@ import {
   View,
 } from 'react-native';
 import GearActionIcon from '../branding/GearActionIcon';
+import DiagnosticFlowWizard from './DiagnosticFlowWizard';
 import { radii } from '../../theme/tokens';
 import { useTheme } from '../../contexts/ThemeContext';
 import { fontFamilies, typeScale } from '../../theme/typography';
-import type { SymptomCheck } from '../../types/diagnostic';
+import { DIAGNOSTIC_FLOWS } from '../../services/diagnostic-flows';
+import type { DiagnosticFlowAnswer, DiagnosticFlowOutcome, SymptomCheck } from '../../types/diagnostic';
 
 interface Props {
   onSubmit: (symptomText: string) => Promise<SymptomCheck | null>;
+  onFlowProgress?: (check: SymptomCheck, answers: DiagnosticFlowAnswer[], outcome?: DiagnosticFlowOutcome) => void;
+  onLogMaintenance?: (outcome: DiagnosticFlowOutcome) => void;
   history?: SymptomCheck[];
 }
 
-export default function SymptomCheckerPanel({ onSubmit, history = [] }: Props) {
+export default function SymptomCheckerPanel({ onSubmit, onFlowProgress, onLogMaintenance, history = [] }: Props) {
   const { colors } = useTheme();
   const [text, setText] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SymptomCheck | null>(null);
-  const [expandedStep, setExpandedStep] = useState<number | null>(null);
 
   const urgencyColor: Record<string, string> = {
     low: colors.success,
@@ -40,18 +43,23 @@ export default function SymptomCheckerPanel({ onSubmit, history = [] }: Props) {
     'Heater not blowing hot air after warm-up',
   ];
 
-  async function handleSubmit() {
-    if (!text.trim()) return;
+  async function handleSubmit(symptom = text) {
+    if (!symptom.trim()) return;
     setLoading(true);
     setResult(null);
     try {
-      const res = await onSubmit(text.trim());
+      const res = await onSubmit(symptom.trim());
       setResult(res);
     } finally {
       setLoading(false);
     }
   }
 
+  function startGuidedFlow(flow: (typeof DIAGNOSTIC_FLOWS)[number]) {
+    setText(flow.summary);
+    void handleSubmit(flow.summary);
+  }
+
   const styles = StyleSheet.create({
     container: { gap: 12 },
     heading: {
@@ -123,15 +131,8 @@ export default function SymptomCheckerPanel({ onSubmit, history = [] }: Props) {
     codePill: { backgroundColor: colors.accentTint, borderWidth: 1, borderColor: colors.brandAccent, borderRadius: radii.full, paddingHorizontal: 10, paddingVertical: 4 },
     codePillText: { color: colors.brandAccent, fontFamily: fontFamilies.heading, fontSize: typeScale.xs },
     bulletItem: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.sm, lineHeight: 20 },
-    flowStep: { backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border, borderRadius: radii.sm, padding: 10, gap: 6 },
-    flowStepHeader: { flexDirection: 'row', alignItems: 'flex-start', gap: 10 },
-    stepNum: { width: 22, height: 22, borderRadius: 11, backgroundColor: colors.brandAccent, alignItems: 'center', justifyContent: 'center', flexShrink: 0 },
-    stepNumText: { color: '#000', fontFamily: fontFamilies.heading, fontSize: 11 },
-    flowInstruction: { flex: 1, color: colors.textPrimary, fontFamily: fontFamilies.body, fontSize: typeScale.sm, lineHeight: 18 },
-    flowDetail: { paddingLeft: 32, gap: 4 },
-    flowCheck: { color: colors.textSecondary, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
-    flowYes: { color: colors.success, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
-    flowNo: { color: colors.warning, fontFamily: fontFamilies.body, fontSize: typeScale.xs },
+    guidedChip: { borderColor: colors.brandAccent, backgroundColor: colors.accentTint },
+    guidedChipText: { color: colors.brandAccent },
   });
 
   return (
@@ -154,6 +155,21 @@ export default function SymptomCheckerPanel({ onSubmit, history = [] }: Props) {
         ))}
       </ScrollView>
 
+      {/* Curated troubleshooting trees */}
+      <Text style={styles.sectionLabel}>Guided Troubleshooting</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow} contentContainerStyle={styles.chipContent}>
+        {DIAGNOSTIC_FLOWS.map((flow) => (
+          <Pressable
+            key={flow.flow_id}
+            style={({ pressed }) => [styles.chip, styles.guidedChip, pressed && { opacity: 0.7 }]}
+            onPress={() => startGuidedFlow(flow)}
+            disabled={loading}
+          >
+            <Text style={[styles.chipText, styles.guidedChipText]}>{flow.title}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
       {/* Input */}
       <TextInput
         style={styles.input}
@@ -168,7 +184,7 @@ export default function SymptomCheckerPanel({ onSubmit, history = [] }: Props) {
 
       <Pressable
         style={({ pressed }) => [styles.submitBtn, loading && styles.submitDisabled, pressed && { opacity: 0.85 }]}
-        onPress={handleSubmit}
+        onPress={() => handleSubmit()}
         disabled={loading || !text.trim()}
       >
         {loading ? (
@@ -218,28 +234,13 @@ export default function SymptomCheckerPanel({ onSubmit, history = [] }: Props) {
 
           {result.flowchart_steps.length > 0 && (
             <View style={styles.section}>
-              <Text style={styles.sectionLabel}>Diagnostic Flowchart</Text>
-              {result.flowchart_steps.map((step) => (
-                <Pressable
-                  key={step.step}
-                  style={styles.flowStep}
-                  onPress={() => setExpandedStep(expandedStep === step.step ? null : step.step)}
-                >
-                  <View style={styles.flowStepHeader}>
-                    <View style={styles.stepNum}>
-                      <Text style={styles.stepNumText}>{step.step}</Text>
-                    </View>
-                    <Text style={styles.flowInstruction}>{step.instruction}</Text>
-                  </View>
-                  {expandedStep === step.step && step.check && (
-                    <View style={styles.flowDetail}>
-                      {step.check && <Text style={styles.flowCheck}>✓ Check: {step.check}</Text>}
-                      {step.if_yes && <Text style={styles.flowYes}>→ If yes: {step.if_yes}</Text>}
-                      {step.if_no && <Text style={styles.flowNo}>→ If no: {step.if_no}</Text>}
-                    </View>
-                  )}
-                </Pressable>
-              ))}
+              <Text style={styles.sectionLabel}>{result.flow_id ? 'Guided Troubleshooting' : 'Diagnostic Flowchart'}</Text>
+              <DiagnosticFlowWizard
+                key={result.check_id}
+                check={result}
+                onProgress={(answers, outcome) => onFlowProgress?.(result, answers, outcome)}
+                onLogMaintenance={onLogMaintenance}
+              />
             </View>
           )}
 
@@ -0,0 +1,93 @@
+/**
+ * Gear AI CoPilot - Notification Context
+ *
+ * Keeps device-local notifications in step with the signed-in user's data:
+ * re-plans on sign-in and whenever the app returns to the foreground, and
+ * routes notification taps and snooze actions. The same resync republishes
+ * the user's calendar feed, if they subscribe to one.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, ReactNode } from 'react';
+import { AppState, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { useAuth } from './AuthContext';
+import {
+  configureNotifications,
+  handleNotificationResponse,
+  syncNotifications,
+} from '../services/notification-service';
+import { publishCalendarFeed } from '../services/calendar-export';
+import type { UserPreferences } from '../types/user';
+
+interface NotificationContextType {
+  /** Re-plans notifications; pass preferences that were just saved but aren't on the loaded profile yet. */
+  resync: (prefs?: UserPreferences) => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const prefsRef = useRef<UserPreferences>({});
+  const userId = user?.user_id;
+
+  useEffect(() => {
+    prefsRef.current = user?.preferences ?? {};
+  }, [user?.preferences]);
+
+  const resync = useCallback(async (prefs?: UserPreferences) => {
+    if (!userId) return;
+    if (prefs) prefsRef.current = prefs;
+    await Promise.all([syncNotifications(userId, prefsRef.current), publishCalendarFeed(userId)]);
+  }, [userId]);
+
+  useEffect(() => {
+    configureNotifications();
+    if (Platform.OS === 'web') return;
+
+    // Some platforms also hand the launch response to the listener; act on it once
+    let lastHandled: string | undefined;
+    const route = async (response: Notifications.NotificationResponse) => {
+      const key = `${response.notification.request.identifier}:${response.actionIdentifier}:${response.notification.date}`;
+      if (key === lastHandled) return;
+      lastHandled = key;
+      const target = await handleNotificationResponse(response);
+      if (target) router.push(target as any);
+    };
+
+    // A tap that launched the app from a killed state fires before any listener exists
+    Notifications.getLastNotificationResponseAsync()
+      .then(async (response) => {
+        if (!response) return;
+        await Notifications.clearLastNotificationResponseAsync();
+        await route(response);
+      })
+      .catch((err) => console.warn('[Notifications] cold-start response failed:', err));
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(route);
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    resync();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') resync();
+    });
+    return () => subscription.remove();
+  }, [userId, resync]);
+
+  const value = useMemo<NotificationContextType>(() => ({ resync }), [resync]);
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within NotificationProvider');
+  }
+  return context;
+}
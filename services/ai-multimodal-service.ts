@@ -1,8 +1,8 @@
 /**
  * Gear AI CoPilot - AI Multimodal Service (F2)
  *
- * Photo analysis (GPT-4o vision), document scanning (repair estimate OCR),
- * and audio transcription + engine noise analysis via OpenAI Whisper.
+ * Photo analysis (GPT-4o vision), document scanning (repair estimate and
+ * service receipt OCR), and audio transcription + engine noise analysis via OpenAI Whisper.
  */
 
 import Constants from 'expo-constants';
@@ -215,6 +215,116 @@ function getDocumentFallback(): RepairDocumentAnalysis {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Service Receipt Scanning — extract what was done, when, and what it cost
+// ---------------------------------------------------------------------------
+
+export interface ReceiptLineItem {
+  description: string;
+  kind: 'part' | 'labor' | 'fee';
+  part_number?: string;
+  brand?: string;
+  quantity?: number;
+  labor_hours?: number;
+  amount: number;
+}
+
+export interface ReceiptExtraction {
+  shop_name?: string;
+  shop_location?: string;
+  invoice_number?: string;
+  date?: string; // as printed, ideally YYYY-MM-DD
+  mileage?: number;
+  line_items: ReceiptLineItem[];
+  parts_subtotal?: number;
+  labor_subtotal?: number;
+  tax?: number;
+  total?: number;
+}
+
+/**
+ * Read a photographed service receipt or paid invoice. Unlike
+ * analyzeRepairDocument this doesn't judge prices; it pulls out the fields
+ * needed to log the work.
+ */
+export async function scanServiceReceipt(
+  imageBase64: string,
+  mimeType: 'image/jpeg' | 'image/png' | 'image/webp',
+  vehicleContext?: string
+): Promise<ReceiptExtraction> {
+  const apiKey = getApiKey();
+  if (!apiKey) return getReceiptFallback();
+
+  const vehicleNote = vehicleContext ? `\nVehicle: ${vehicleContext}` : '';
+  const systemPrompt = `You transcribe automotive service receipts and invoices into structured data.${vehicleNote}
+Copy values exactly as printed; use null for anything not on the document. Never estimate prices.
+Always respond with valid JSON only — no markdown, no extra text.`;
+
+  const userPrompt = `Read this service receipt and return a JSON object with exactly these keys:
+{
+  "shop_name": "name or null",
+  "shop_location": "city/address or null",
+  "invoice_number": "string or null",
+  "date": "YYYY-MM-DD or null",
+  "mileage": 45210,
+  "line_items": [
+    {
+      "description": "as printed",
+      "kind": "part|labor|fee",
+      "part_number": "string or null",
+      "brand": "string or null",
+      "quantity": 1,
+      "labor_hours": 1.2,
+      "amount": 49.99
+    }
+  ],
+  "parts_subtotal": 120.5,
+  "labor_subtotal": 180,
+  "tax": 9.64,
+  "total": 310.14
+}
+"mileage" is the odometer reading in (or out), not the distance driven. Shop supplies, disposal and environmental charges are "fee".`;
+
+  try {
+    const res = await fetch(OPENAI_CHAT_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: VISION_MODEL,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image_url',
+                image_url: { url: `data:${mimeType};base64,${imageBase64}`, detail: 'high' },
+              },
+              { type: 'text', text: userPrompt },
+            ],
+          },
+        ],
+        temperature: 0,
+        max_tokens: 1500,
+      }),
+    });
+
+    if (!res.ok) return getReceiptFallback();
+    const json = await res.json();
+    const raw = json.choices?.[0]?.message?.content || '';
+    return JSON.parse(raw) as ReceiptExtraction;
+  } catch {
+    return getReceiptFallback();
+  }
+}
+
+function getReceiptFallback(): ReceiptExtraction {
+  return { line_items: [] };
+}
+
 // ---------------------------------------------------------------------------
 // Audio Analysis — engine noise transcription + diagnosis
 // ---------------------------------------------------------------------------
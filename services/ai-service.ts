@@ -66,7 +66,7 @@ function buildEnhancedVehicleContext(ctx: VehicleFullContext): string {
   if (ctx.trim) out += ` ${ctx.trim}`;
   if (ctx.vin) out += ` (VIN: ${ctx.vin})`;
   if (ctx.current_mileage) out += `\nCurrent Mileage: ${ctx.current_mileage.toLocaleString()} miles`;
-  if (ctx.monthly_mileage_delta) out += `\nMileage this month: +${ctx.monthly_mileage_delta} miles`;
+  if (ctx.monthly_mileage_delta) out += `\nProjected mileage this month: ~${ctx.monthly_mileage_delta} miles`;
 
   if (ctx.recent_maintenance?.length) {
     out += '\n\nRecent Maintenance History:';
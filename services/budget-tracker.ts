@@ -0,0 +1,233 @@
+/**
+ * Gear AI CoPilot - Budget Tracker
+ *
+ * Holds maintenance spending up against each MaintenanceBudget for its
+ * current period (calendar month or year): what has been spent, what the
+ * open service reminders are expected to add before the period closes, and
+ * whether either crosses the budget's alert threshold. Also lays out the
+ * burn-down shown on the Costs tab.
+ */
+
+import { getCostAnalytics, getMaintenanceBudgets, getServiceReminders } from './maintenance-service';
+import { getMileageProjection, getUserVehicles } from './vehicle-service';
+import { estimateMileageDate } from './mileage-projection';
+import { localIsoDate, pad, round2 } from './date-money';
+import type {
+  BudgetAlertLevel,
+  BudgetBurnDownPoint,
+  BudgetForecastItem,
+  BudgetStatus,
+  CostAnalytics,
+  MaintenanceBudget,
+  ServiceReminder,
+} from '../types/maintenance';
+import type { MileageProjection } from '../types/vehicle';
+
+/** Threshold used when a budget row has none. */
+export const DEFAULT_BUDGET_ALERT_PERCENT = 80;
+
+export interface BudgetInputs {
+  /** Cost analytics scoped like the budget (one vehicle, or all of them) */
+  analytics: CostAnalytics;
+  /** Reminders for every vehicle the budget covers; closed ones are ignored */
+  reminders: ServiceReminder[];
+  /** Mileage projections by vehicle_id, for dating mileage-only reminders */
+  projections?: Record<string, MileageProjection>;
+  now?: Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** First and last day (inclusive) of the calendar period containing `now`. */
+export function budgetPeriod(period: MaintenanceBudget['period'], now: Date = new Date()): { start: string; end: string } {
+  const year = now.getFullYear();
+  if (period === 'annual') return { start: `${year}-01-01`, end: `${year}-12-31` };
+  const month = now.getMonth();
+  return { start: localIsoDate(new Date(year, month, 1)), end: localIsoDate(new Date(year, month + 1, 0)) };
+}
+
+/** Midpoint of the reminder's estimated cost range, or undefined when it has none. */
+function reminderCost(reminder: ServiceReminder): number | undefined {
+  const min = Number(reminder.metadata?.estimated_cost_min);
+  const max = Number(reminder.metadata?.estimated_cost_max);
+  const known = [min, max].filter((n) => Number.isFinite(n) && n > 0);
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : undefined;
+}
+
+/**
+ * Open reminders with a cost estimate that fall due by `periodEnd`, soonest
+ * first. Anything already past due is expected today.
+ */
+function upcomingCosts(
+  reminders: ServiceReminder[],
+  projections: Record<string, MileageProjection>,
+  today: string,
+  periodEnd: string
+): BudgetForecastItem[] {
+  const items: BudgetForecastItem[] = [];
+  for (const reminder of reminders) {
+    if (!['upcoming', 'due', 'overdue'].includes(reminder.status)) continue;
+    const cost = reminderCost(reminder);
+    if (cost === undefined) continue;
+
+    const projection = projections[reminder.vehicle_id];
+    const projected = reminder.due_mileage && projection ? estimateMileageDate(projection, reminder.due_mileage) : undefined;
+    let due = [reminder.due_date?.split('T')[0], projected].filter((d): d is string => !!d).sort()[0];
+    // Undated but already flagged by mileage: it's owed now
+    if (!due && reminder.status !== 'upcoming') due = today;
+    if (!due || due > periodEnd) continue;
+
+    items.push({
+      reminder_id: reminder.reminder_id,
+      vehicle_id: reminder.vehicle_id,
+      title: reminder.title,
+      due_date: due < today ? today : due,
+      estimated_cost: round2(cost),
+    });
+  }
+  return items.sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
+
+function alertLevel(budget: MaintenanceBudget, percentUsed: number, forecastPercent: number): BudgetAlertLevel {
+  if (budget.amount <= 0) return 'none';
+  const threshold = budget.alert_at_percent || DEFAULT_BUDGET_ALERT_PERCENT;
+  if (percentUsed >= 100) return 'exceeded';
+  if (percentUsed >= threshold) return 'threshold';
+  if (forecastPercent >= threshold) return 'forecast';
+  return 'none';
+}
+
+/**
+ * Budget remaining per day (monthly) or month (annual): an even-spend ideal
+ * line, the actual balance up to today, and the forecast balance from today
+ * as upcoming reminders come due.
+ */
+function burnDown(
+  budget: MaintenanceBudget,
+  analytics: CostAnalytics,
+  upcoming: BudgetForecastItem[],
+  today: string
+): BudgetBurnDownPoint[] {
+  const year = today.slice(0, 4);
+  const buckets =
+    budget.period === 'monthly'
+      ? analytics.by_day.map((d) => ({ end: d.date, key: d.date, total: d.total }))
+      : Array.from({ length: 12 }, (_, m) => {
+          const key = `${year}-${pad(m + 1)}`;
+          return {
+            end: localIsoDate(new Date(Number(year), m + 1, 0)),
+            key,
+            total: analytics.by_month.find((b) => b.month === key)?.total ?? 0,
+          };
+        });
+  const currentKey = budget.period === 'monthly' ? today : today.slice(0, 7);
+
+  let spent = 0;
+  let expected = 0;
+  return buckets.map((bucket, i) => {
+    const point: BudgetBurnDownPoint = {
+      date: bucket.end,
+      ideal: round2(budget.amount * (1 - (i + 1) / buckets.length)),
+    };
+    if (bucket.key <= currentKey) {
+      spent += bucket.total;
+      point.actual = round2(budget.amount - spent);
+    }
+    if (bucket.key >= currentKey) {
+      expected = upcoming.filter((u) => u.due_date <= bucket.end).reduce((sum, u) => sum + u.estimated_cost, 0);
+      point.forecast = round2(budget.amount - spent - expected);
+    }
+    return point;
+  });
+}
+
+// ============================================================================
+// EVALUATION (pure)
+// ============================================================================
+
+/** Where a budget stands for its current period. */
+export function evaluateBudget(budget: MaintenanceBudget, inputs: BudgetInputs): BudgetStatus {
+  const now = inputs.now ?? new Date();
+  const today = localIsoDate(now);
+  const { start, end } = budgetPeriod(budget.period, now);
+
+  const reminders = budget.vehicle_id
+    ? inputs.reminders.filter((r) => r.vehicle_id === budget.vehicle_id)
+    : inputs.reminders;
+  const upcoming = upcomingCosts(reminders, inputs.projections ?? {}, today, end);
+
+  const spent = budget.period === 'monthly' ? inputs.analytics.total_this_month : inputs.analytics.total_this_year;
+  const forecast = spent + upcoming.reduce((sum, u) => sum + u.estimated_cost, 0);
+  const percent_used = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
+  const forecast_percent = budget.amount > 0 ? (forecast / budget.amount) * 100 : 0;
+
+  return {
+    budget,
+    period_start: start,
+    period_end: end,
+    spent: round2(spent),
+    upcoming,
+    forecast: round2(forecast),
+    percent_used: Math.round(percent_used * 10) / 10,
+    forecast_percent: Math.round(forecast_percent * 10) / 10,
+    alert: alertLevel(budget, percent_used, forecast_percent),
+    burn_down: burnDown(budget, inputs.analytics, upcoming, today),
+  };
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Evaluates every budget the user has set: account-wide budgets against all
+ * active vehicles, vehicle budgets against that vehicle alone.
+ */
+export async function getBudgetStatuses(userId: string, now: Date = new Date()): Promise<BudgetStatus[]> {
+  try {
+    const budgets = await getMaintenanceBudgets(userId);
+    if (budgets.length === 0) return [];
+
+    const vehicles = (await getUserVehicles(userId)).filter((v) => v.status !== 'sold' && v.status !== 'totaled');
+    const covered = budgets.some((b) => !b.vehicle_id)
+      ? vehicles
+      : vehicles.filter((v) => budgets.some((b) => b.vehicle_id === v.vehicle_id));
+
+    const perVehicle = await Promise.all(
+      covered.map(async (v) => {
+        const [reminders, projection] = await Promise.all([
+          getServiceReminders(v.vehicle_id, userId).catch(() => [] as ServiceReminder[]),
+          getMileageProjection(v, userId).catch(() => null),
+        ]);
+        return { vehicleId: v.vehicle_id, reminders, projection };
+      })
+    );
+    const reminders = perVehicle.flatMap((row) => row.reminders);
+    const projections: Record<string, MileageProjection> = {};
+    for (const row of perVehicle) {
+      if (row.projection) projections[row.vehicleId] = row.projection;
+    }
+
+    // One analytics query per scope; several periods can share it
+    const scopes = [...new Set(budgets.map((b) => b.vehicle_id ?? ''))];
+    const analytics = new Map(
+      await Promise.all(
+        scopes.map(async (scope) => [scope, await getCostAnalytics(userId, scope || undefined)] as const)
+      )
+    );
+
+    return budgets.map((budget) =>
+      evaluateBudget(budget, {
+        analytics: analytics.get(budget.vehicle_id ?? '')!,
+        reminders,
+        projections,
+        now,
+      })
+    );
+  } catch (err) {
+    console.warn('[BudgetTracker] getBudgetStatuses failed:', err);
+    return [];
+  }
+}
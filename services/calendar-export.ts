@@ -0,0 +1,344 @@
+/**
+ * Gear AI CoPilot - Calendar Export
+ *
+ * Renders service reminders and registration/inspection/insurance dates as
+ * iCalendar (RFC 5545) all-day events with alarms at the same lead times as
+ * device notifications. Available as a one-off .ics file per vehicle, or as
+ * a per-user feed published to storage under a secret token that calendar
+ * apps can subscribe to; the feed is rewritten whenever the app syncs.
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '../lib/supabase';
+import { getServiceReminders } from './maintenance-service';
+import { getMileageProjection, getUserVehicles } from './vehicle-service';
+import { estimateMileageDate } from './mileage-projection';
+import { DELIVERY_HOUR, NOTIFICATION_STAGES, NotificationVehicle } from './notification-scheduler';
+import { deleteCalendarFeed, uploadCalendarFeed } from './storage-service';
+import type { ServiceReminder } from '../types/maintenance';
+import type { MileageProjection } from '../types/vehicle';
+
+const PRODUCT_ID = '-//Gear AI CoPilot//Service Calendar//EN';
+const UID_DOMAIN = 'gear-ai.app';
+
+/** How often subscribed calendars should re-fetch the feed. */
+const REFRESH_INTERVAL = 'PT6H';
+
+export interface CalendarSources {
+  vehicles: NotificationVehicle[];
+  reminders: ServiceReminder[];
+  /** Mileage projections by vehicle_id, for dating mileage-only reminders */
+  projections?: Record<string, MileageProjection>;
+}
+
+export interface CalendarOptions {
+  name?: string;
+  now?: Date;
+}
+
+export interface CalendarFeed {
+  token: string;
+  /** https URL of the published .ics */
+  url: string;
+  /** Same feed as webcal://, which calendar apps open as a subscription */
+  webcal_url: string;
+  published_at?: string;
+}
+
+// ============================================================================
+// ICALENDAR FORMATTING
+// ============================================================================
+
+interface CalendarEvent {
+  uid: string;
+  date: string; // ISO date
+  summary: string;
+  description: string;
+  categories: string;
+  last_modified?: string;
+  alarm_days: number[];
+}
+
+const EXPIRY_EVENTS: [keyof typeof NOTIFICATION_STAGES, keyof NotificationVehicle, string][] = [
+  ['registration_expiry', 'registration_expiry', 'Registration expires'],
+  ['inspection_due', 'inspection_due', 'Inspection due'],
+  ['insurance_expiry', 'insurance_expiry', 'Insurance expires'],
+];
+
+/** TEXT value escaping (RFC 5545 §3.3.11). */
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const basicDate = (isoDate: string) => isoDate.split('T')[0].replace(/-/g, '');
+
+const utcStamp = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function nextDay(isoDate: string): string {
+  const [y, m, d] = isoDate.split('T')[0].split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+/** Alarm offset from an all-day event's start: `daysBefore` days ahead, at the delivery hour. */
+function alarmTrigger(daysBefore: number): string {
+  const hours = DELIVERY_HOUR - daysBefore * 24;
+  const abs = Math.abs(hours);
+  const days = Math.floor(abs / 24);
+  return `${hours < 0 ? '-' : ''}P${days ? `${days}D` : ''}T${abs % 24}H`;
+}
+
+const utf8Length = (ch: string) => {
+  const code = ch.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/** Folds a content line at 75 octets, continuing with a leading space (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const len = utf8Length(ch);
+    if (octets + len > (out.length === 0 ? 75 : 74)) {
+      out.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += len;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+function renderEvent(event: CalendarEvent, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...(event.last_modified ? [`LAST-MODIFIED:${utcStamp(new Date(event.last_modified))}`] : []),
+    `DTSTART;VALUE=DATE:${basicDate(event.date)}`,
+    `DTEND;VALUE=DATE:${basicDate(nextDay(event.date))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `CATEGORIES:${escapeText(event.categories)}`,
+    'TRANSP:TRANSPARENT',
+    ...event.alarm_days.flatMap((days) => [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:${alarmTrigger(days)}`,
+      'END:VALARM',
+    ]),
+    'END:VEVENT',
+  ];
+}
+
+// ============================================================================
+// CALENDAR (pure)
+// ============================================================================
+
+const vehicleName = (v?: NotificationVehicle) => (v ? v.nickname || `${v.year} ${v.make} ${v.model}` : 'Vehicle');
+
+function reminderEvent(
+  reminder: ServiceReminder,
+  vehicle: NotificationVehicle | undefined,
+  projection: MileageProjection | undefined
+): CalendarEvent | null {
+  if (!['upcoming', 'due', 'overdue'].includes(reminder.status)) return null;
+
+  const projected = reminder.due_mileage && projection ? estimateMileageDate(projection, reminder.due_mileage) : undefined;
+  const date = [reminder.due_date?.split('T')[0], projected].filter((d): d is string => !!d).sort()[0];
+  if (!date) return null;
+
+  const cost = reminder.metadata;
+  const details = [
+    reminder.description,
+    reminder.due_mileage &&
+      `Due at ${reminder.due_mileage.toLocaleString()} mi${date === projected ? ' (date estimated from your driving)' : ''}`,
+    cost?.estimated_cost_min && cost?.estimated_cost_max && `Typical cost $${cost.estimated_cost_min}–$${cost.estimated_cost_max}`,
+    reminder.status === 'overdue' && 'Overdue',
+  ];
+
+  return {
+    uid: `reminder-${reminder.reminder_id}@${UID_DOMAIN}`,
+    date,
+    summary: `${reminder.title} · ${vehicleName(vehicle)}`,
+    description: details.filter(Boolean).join('\n'),
+    categories: 'Vehicle maintenance',
+    last_modified: reminder.updated_at,
+    alarm_days: NOTIFICATION_STAGES.service_reminder,
+  };
+}
+
+function expiryEvents(vehicle: NotificationVehicle): CalendarEvent[] {
+  return EXPIRY_EVENTS.flatMap(([kind, field, label]) => {
+    const date = vehicle[field] as string | undefined;
+    if (!date) return [];
+    return [{
+      // One event per vehicle and kind, so renewing moves it rather than adding another
+      uid: `${kind}-${vehicle.vehicle_id}@${UID_DOMAIN}`,
+      date: date.split('T')[0],
+      summary: `${label} · ${vehicleName(vehicle)}`,
+      description: `${label} on ${date.split('T')[0]}. Update the date in Gear AI after renewing.`,
+      categories: 'Vehicle renewals',
+      alarm_days: NOTIFICATION_STAGES[kind],
+    }];
+  });
+}
+
+/** A complete VCALENDAR with one all-day event per dated reminder and renewal. */
+export function buildCalendar(sources: CalendarSources, options: CalendarOptions = {}): string {
+  const stamp = utcStamp(options.now ?? new Date());
+  const name = options.name ?? 'Gear AI — Vehicle Service';
+  const vehicles = new Map(sources.vehicles.map((v) => [v.vehicle_id, v]));
+
+  const events = [
+    ...sources.reminders.map((r) =>
+      reminderEvent(r, vehicles.get(r.vehicle_id), sources.projections?.[r.vehicle_id])
+    ),
+    ...sources.vehicles.flatMap(expiryEvents),
+  ]
+    .filter((e): e is CalendarEvent => !!e)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap((e) => renderEvent(e, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+async function gatherCalendarSources(userId: string, vehicleId?: string): Promise<CalendarSources> {
+  const vehicles = (await getUserVehicles(userId)).filter(
+    (v) => v.status !== 'sold' && v.status !== 'totaled' && (!vehicleId || v.vehicle_id === vehicleId)
+  );
+  const perVehicle = await Promise.all(
+    vehicles.map(async (v) => {
+      const [reminders, projection] = await Promise.all([
+        getServiceReminders(v.vehicle_id, userId).catch(() => [] as ServiceReminder[]),
+        getMileageProjection(v, userId).catch(() => null),
+      ]);
+      return { vehicleId: v.vehicle_id, reminders, projection };
+    })
+  );
+
+  const projections: Record<string, MileageProjection> = {};
+  for (const row of perVehicle) {
+    if (row.projection) projections[row.vehicleId] = row.projection;
+  }
+  return { vehicles, reminders: perVehicle.flatMap((r) => r.reminders), projections };
+}
+
+/** One vehicle's reminders and renewals as an .ics document. */
+export async function getVehicleCalendar(vehicleId: string, userId: string): Promise<string> {
+  const sources = await gatherCalendarSources(userId, vehicleId);
+  const vehicle = sources.vehicles[0];
+  return buildCalendar(sources, { name: vehicle ? `${vehicleName(vehicle)} — Service` : undefined });
+}
+
+/** Saves an .ics for the user: a browser download on web, the share sheet on device. */
+export async function shareCalendarFile(ics: string, fileName: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, ics, { encoding: FileSystem.EncodingType.UTF8 });
+  if (!(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device.');
+  await Sharing.shareAsync(fileUri, { mimeType: 'text/calendar', UTI: 'public.calendar-event', dialogTitle: 'Add to calendar' });
+}
+
+// ============================================================================
+// SUBSCRIPTION FEED
+// ============================================================================
+
+function toFeed(userId: string, row: { token: string; published_at?: string | null }): CalendarFeed {
+  const { data } = supabase.storage.from('calendar-feeds').getPublicUrl(`${userId}/${row.token}.ics`);
+  return {
+    token: row.token,
+    url: data.publicUrl,
+    webcal_url: data.publicUrl.replace(/^https?:\/\//, 'webcal://'),
+    published_at: row.published_at ?? undefined,
+  };
+}
+
+/** The user's feed, or null if they haven't turned it on. */
+export async function getCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('token, published_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toFeed(userId, data) : null;
+  } catch (err) {
+    console.warn('[CalendarExport] getCalendarFeed failed:', err);
+    return null;
+  }
+}
+
+/** Rewrites the published .ics from current data. No-op when the feed is off. */
+export async function publishCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+  try {
+    const feed = await getCalendarFeed(userId);
+    if (!feed) return null;
+
+    await uploadCalendarFeed(userId, feed.token, buildCalendar(await gatherCalendarSources(userId)));
+    const published_at = new Date().toISOString();
+    await supabase.from('calendar_feeds').update({ published_at }).eq('user_id', userId);
+    return { ...feed, published_at };
+  } catch (err) {
+    console.warn('[CalendarExport] publishCalendarFeed failed:', err);
+    return null;
+  }
+}
+
+/**
+ * Turns the feed on (the database issues the token) and publishes it.
+ * With `rotate`, the old URL stops working and subscribers need the new one.
+ */
+export async function enableCalendarFeed(userId: string, rotate = false): Promise<CalendarFeed> {
+  const existing = await getCalendarFeed(userId);
+  if (existing && !rotate) return (await publishCalendarFeed(userId)) ?? existing;
+  if (existing) await disableCalendarFeed(userId);
+
+  const { error } = await supabase.from('calendar_feeds').insert({ user_id: userId });
+  if (error) throw new Error(`Failed to create calendar feed: ${error.message}`);
+
+  const feed = await publishCalendarFeed(userId);
+  if (!feed) throw new Error('Failed to publish calendar feed');
+  return feed;
+}
+
+/** Deletes the published file and the token; existing subscriptions stop updating. */
+export async function disableCalendarFeed(userId: string): Promise<void> {
+  const feed = await getCalendarFeed(userId);
+  if (!feed) return;
+  await deleteCalendarFeed(userId, feed.token).catch((err) =>
+    console.warn('[CalendarExport] deleting feed file failed:', err)
+  );
+  const { error } = await supabase.from('calendar_feeds').delete().eq('user_id', userId);
+  if (error) throw new Error(`Failed to disable calendar feed: ${error.message}`);
+}
@@ -0,0 +1,37 @@
+/**
+ * Gear AI CoPilot - Date & Money Helpers
+ *
+ * Calendar arithmetic on ISO dates (YYYY-MM-DD) in local time, and cent
+ * rounding, shared by the services that bucket, total or count down by date.
+ * Dates are compared at local noon so a DST shift can't move a day.
+ */
+
+export const DAY_MS = 86_400_000;
+
+export const pad = (n: number) => String(n).padStart(2, '0');
+
+/** The date part of an ISO date or timestamp. */
+export const dateOnly = (iso: string) => iso.split('T')[0];
+
+/** A Date as YYYY-MM-DD from its local parts (toISOString would use UTC). */
+export const localIsoDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Same day of month `months` later, clamped to the month's last day (Jan 31 → Feb 28). */
+export function addMonths(isoDate: string, months: number): string {
+  const [y, m, d] = dateOnly(isoDate).split('-').map(Number);
+  const lastDay = new Date(y, m - 1 + months + 1, 0).getDate();
+  return localIsoDate(new Date(y, m - 1 + months, Math.min(d, lastDay)));
+}
+
+export function daysBetween(fromIso: string, toIso: string): number {
+  return Math.round((new Date(`${toIso}T12:00:00`).getTime() - new Date(`${fromIso}T12:00:00`).getTime()) / DAY_MS);
+}
+
+/** Whole months from `fromIso` until `toIso`, counting a part month as one. */
+export function monthsUntil(fromIso: string, toIso: string): number {
+  let months = 0;
+  while (addMonths(fromIso, months) < toIso) months++;
+  return months;
+}
@@ -0,0 +1,445 @@
+/**
+ * Gear AI CoPilot - Guided Diagnostic Flows
+ *
+ * Curated yes/no troubleshooting trees for common symptoms, and the walker
+ * that replays a user's answers through any flow (curated or AI-generated)
+ * to find the current step or the final outcome.
+ */
+
+import {
+  DiagnosticFlow,
+  DiagnosticFlowAnswer,
+  DiagnosticFlowOutcome,
+  DiagnosticFlowStep,
+} from '../types/diagnostic';
+
+// ============================================================================
+// CURATED FLOWS
+// ============================================================================
+
+const PRO = { diy: false };
+const DIY = { diy: true };
+
+export const DIAGNOSTIC_FLOWS: DiagnosticFlow[] = [
+  {
+    flow_id: 'no_crank',
+    title: 'No crank',
+    summary: 'Engine does not turn over when the key is turned or the start button is pressed.',
+    match: /no.?crank|(won'?t|does(n'?t| not)) (turn over|crank)|clicks?\b.*\b(start|key)|nothing happens.*(key|start)|dead battery/i,
+    steps: [
+      {
+        step: 1,
+        instruction: 'Turn the key to ON (or press start without the brake) and watch the dash.',
+        check: 'Do the dash lights come on at normal brightness?',
+        yes_step: 3,
+        no_step: 2,
+      },
+      {
+        step: 2,
+        instruction: 'Inspect the battery terminals and measure battery voltage with the engine off.',
+        check: 'Are the terminals corroded/loose, or is voltage below 12.2 V?',
+        yes_outcome: {
+          title: 'Discharged battery or poor connection',
+          action: 'Clean and tighten the terminals, then charge or jump the battery. Have the battery load-tested; replace it if it fails.',
+          urgency: 'medium',
+          ...DIY,
+          maintenance: { type: 'repair', title: 'Battery Service', description: 'Cleaned terminals and charged/tested battery after no-crank condition.' },
+        },
+        no_outcome: {
+          title: 'Main power feed fault',
+          action: 'The battery tests good but power is not reaching the car — check the main fuse/fusible link and ground straps, or have the electrical system diagnosed.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'diagnostic', title: 'No-Crank Electrical Diagnosis', description: 'Battery tests good but no power at dash; main feed and grounds to be checked.' },
+        },
+      },
+      {
+        step: 3,
+        instruction: 'Turn the key to START while listening near the engine bay.',
+        check: 'Do you hear a single click or rapid clicking?',
+        yes_step: 4,
+        no_step: 5,
+      },
+      {
+        step: 4,
+        instruction: 'Turn on the headlights and try to start again while watching them.',
+        check: 'Do the headlights dim heavily or go out while cranking?',
+        yes_outcome: {
+          title: 'Weak battery',
+          action: 'The battery cannot supply cranking current. Charge it and have it load-tested; replace it if it fails.',
+          urgency: 'medium',
+          ...DIY,
+          maintenance: { type: 'repair', title: 'Battery Replacement', description: 'Battery failed under cranking load (lights dim, starter clicks).' },
+        },
+        no_outcome: {
+          title: 'Starter motor or solenoid',
+          action: 'Full power is reaching the starter but it is not turning. The starter motor or solenoid likely needs replacement.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Starter Replacement', description: 'Starter clicks with full battery voltage; starter/solenoid failed.' },
+        },
+      },
+      {
+        step: 5,
+        instruction: 'Shift firmly into Park (or press the clutch fully on a manual) and try again, then try Neutral.',
+        check: 'Does the engine crank in Neutral or after re-seating the shifter?',
+        yes_outcome: {
+          title: 'Neutral safety / clutch switch',
+          action: 'The range or clutch switch is not reporting Park/Neutral. Have the switch adjusted or replaced.',
+          urgency: 'medium',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Neutral Safety Switch', description: 'No crank in Park; cranks in Neutral. Range/clutch switch adjustment or replacement.' },
+        },
+        no_step: 6,
+      },
+      {
+        step: 6,
+        instruction: 'Look at the dash for a flashing key/security light while trying to start.',
+        check: 'Is the security or immobilizer light flashing?',
+        yes_outcome: {
+          title: 'Immobilizer not recognizing the key',
+          action: 'Try the spare key and replace the key fob battery. If the spare also fails, the key or immobilizer needs dealer programming.',
+          urgency: 'medium',
+          ...DIY,
+        },
+        no_outcome: {
+          title: 'Starter circuit fault',
+          action: 'No click and no security fault points to the ignition switch, starter relay, or starter wiring. Have the start circuit diagnosed.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'diagnostic', title: 'Starter Circuit Diagnosis', description: 'No crank, no click; ignition switch, starter relay and wiring to be tested.' },
+        },
+      },
+    ],
+  },
+  {
+    flow_id: 'crank_no_start',
+    title: 'Cranks but won\'t start',
+    summary: 'Engine turns over normally but never fires or runs.',
+    match: /cranks?.*(won'?t|doesn'?t|not|no) (start|fire|run)|crank.?no.?start|turns over.*\bbut\b/i,
+    steps: [
+      {
+        step: 1,
+        instruction: 'Check the fuel gauge and, if the car was just filled, the fuel cap and grade.',
+        check: 'Is the tank near empty or the gauge unreliable?',
+        yes_outcome: {
+          title: 'Out of fuel',
+          action: 'Add a few gallons of fuel and crank in 10-second bursts to re-prime the system.',
+          urgency: 'low',
+          ...DIY,
+        },
+        no_step: 2,
+      },
+      {
+        step: 2,
+        instruction: 'Turn the key to ON for two seconds (not start) and listen near the rear seat or fuel filler.',
+        check: 'Do you hear the fuel pump hum briefly?',
+        yes_step: 4,
+        no_step: 3,
+      },
+      {
+        step: 3,
+        instruction: 'Locate the fuel pump fuse and relay in the fuse box (see owner\'s manual) and inspect them.',
+        check: 'Is the fuse blown or the relay clicking without the pump running?',
+        yes_outcome: {
+          title: 'Fuel pump fuse or relay',
+          action: 'Replace the blown fuse or relay. If the new fuse blows again, have the pump circuit checked for a short.',
+          urgency: 'medium',
+          ...DIY,
+          maintenance: { type: 'repair', title: 'Fuel Pump Relay/Fuse', description: 'Crank no-start with no pump prime; replaced fuel pump fuse/relay.' },
+        },
+        no_outcome: {
+          title: 'Failed fuel pump',
+          action: 'The pump is not priming with good fuse and relay. Have fuel pressure tested and the pump replaced if confirmed.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Fuel Pump Replacement', description: 'No fuel pump prime; fuel pressure test and pump replacement.' },
+        },
+      },
+      {
+        step: 4,
+        instruction: 'Watch the dash while cranking.',
+        check: 'Is the security/immobilizer light flashing?',
+        yes_outcome: {
+          title: 'Immobilizer cutting fuel/spark',
+          action: 'Try the spare key and a fresh fob battery. If neither works, the key needs dealer programming.',
+          urgency: 'medium',
+          ...DIY,
+        },
+        no_step: 5,
+      },
+      {
+        step: 5,
+        instruction: 'Scan for trouble codes with an OBD-II reader.',
+        check: 'Are there crank/cam position sensor codes (P0335–P0349)?',
+        yes_outcome: {
+          title: 'Crankshaft or camshaft position sensor',
+          action: 'Without a crank/cam signal the ECU will not fire injectors or coils. Replace the indicated sensor and inspect its wiring.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Position Sensor Replacement', description: 'Crank no-start with crank/cam position sensor code.' },
+        },
+        no_outcome: {
+          title: 'Ignition or compression fault',
+          action: 'Fuel and security check out. Have spark and compression tested — a jumped timing belt/chain is possible on high-mileage engines.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'diagnostic', title: 'No-Start Diagnosis', description: 'Cranks normally with fuel pump prime and no codes; spark and compression test.' },
+        },
+      },
+    ],
+  },
+  {
+    flow_id: 'brake_pulsation',
+    title: 'Brake pulsation',
+    summary: 'Pedal or steering wheel pulses or shakes when braking.',
+    match: /(shak|vibrat|puls|shudder|wobbl)\w*.*brak|brak\w*.*(shak|vibrat|puls|shudder|wobbl)/i,
+    steps: [
+      {
+        step: 1,
+        instruction: 'Brake moderately from highway speed on a straight, empty road.',
+        check: 'Is the pulsing felt mainly through the steering wheel?',
+        yes_step: 2,
+        no_step: 3,
+      },
+      {
+        step: 2,
+        instruction: 'With the car parked and cool, look at the front rotors through the wheels.',
+        check: 'Do you see blue/dark heat spots, grooves, or uneven shiny bands on the rotor face?',
+        yes_outcome: {
+          title: 'Warped or unevenly worn front rotors',
+          action: 'Replace (or machine, if above minimum thickness) the front rotors and install new pads. Torque lug nuts to spec.',
+          urgency: 'medium',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Front Brake Rotors & Pads', description: 'Steering-wheel pulsation under braking; front rotors replaced with new pads.' },
+        },
+        no_step: 4,
+      },
+      {
+        step: 3,
+        instruction: 'Feel for the pulse in the seat or pedal only, then check the rear rotors or drums.',
+        check: 'Is there rust build-up, scoring, or an out-of-round drum at the rear?',
+        yes_outcome: {
+          title: 'Rear rotor/drum runout',
+          action: 'Service or replace the rear rotors/drums and pads/shoes, and check the parking brake adjustment.',
+          urgency: 'medium',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Rear Brake Service', description: 'Pedal/seat pulsation under braking; rear rotors/drums serviced.' },
+        },
+        no_step: 4,
+      },
+      {
+        step: 4,
+        instruction: 'Jack up each front wheel and rock it at 12 and 6 o\'clock, then 3 and 9 o\'clock.',
+        check: 'Is there any play or clunk?',
+        yes_outcome: {
+          title: 'Worn wheel bearing or suspension joint',
+          action: 'Play at the wheel lets the rotor wobble under braking. Have the wheel bearings, ball joints, and tie rods inspected and replaced as needed.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Wheel Bearing / Suspension Repair', description: 'Brake pulsation with play at the wheel; bearing or joint replacement.' },
+        },
+        no_outcome: {
+          title: 'Caliper or pad deposits',
+          action: 'Likely uneven pad material transfer or a sticking caliper slide. Have the calipers serviced and bed in new pads.',
+          urgency: 'medium',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Brake Caliper Service', description: 'Brake pulsation with no visible rotor damage or play; calipers serviced and pads bedded.' },
+        },
+      },
+    ],
+  },
+  {
+    flow_id: 'overheating',
+    title: 'Overheating',
+    summary: 'Temperature gauge climbs high, or steam or coolant smell from the engine bay.',
+    match: /overheat|temp(erature)? (gauge )?(high|climb|rising|red)|running hot|steam from/i,
+    steps: [
+      {
+        step: 1,
+        instruction: 'Let the engine cool fully. Check the coolant reservoir level — never open a hot radiator cap.',
+        check: 'Is the coolant below the MIN mark?',
+        yes_step: 2,
+        no_step: 3,
+      },
+      {
+        step: 2,
+        instruction: 'Look for wet spots, white crust, or drips under the car and around hoses, radiator, and water pump.',
+        check: 'Can you see where coolant is leaking?',
+        yes_outcome: {
+          title: 'External coolant leak',
+          action: 'Repair the leaking hose, radiator, or water pump, then refill and bleed the cooling system. Do not drive while overheating.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Cooling System Leak Repair', description: 'Overheating with low coolant and visible leak.' },
+        },
+        no_outcome: {
+          title: 'Possible internal leak (head gasket)',
+          action: 'Coolant is disappearing without a visible leak. Watch for white exhaust smoke or milky oil, and have a combustion-gas (block) test done.',
+          urgency: 'critical',
+          ...PRO,
+          maintenance: { type: 'diagnostic', title: 'Head Gasket Test', description: 'Coolant loss with no external leak; block/combustion gas test.' },
+        },
+      },
+      {
+        step: 3,
+        instruction: 'Idle the engine with the A/C on and watch the radiator fan(s).',
+        check: 'Do the cooling fans run?',
+        yes_step: 4,
+        no_outcome: {
+          title: 'Cooling fan not running',
+          action: 'Check the fan fuse and relay; if they are good, the fan motor or its control module has failed.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Radiator Fan Repair', description: 'Overheating at idle with fans not running.' },
+        },
+      },
+      {
+        step: 4,
+        instruction: 'After a short warm-up, carefully feel the upper radiator hose.',
+        check: 'Is the upper hose cool while the gauge reads hot?',
+        yes_outcome: {
+          title: 'Stuck thermostat',
+          action: 'Coolant is not reaching the radiator. Replace the thermostat and refill/bleed the system.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Thermostat Replacement', description: 'Overheating with cold upper radiator hose; thermostat stuck closed.' },
+        },
+        no_outcome: {
+          title: 'Restricted radiator or weak water pump',
+          action: 'Flow is reaching the radiator but heat is not being shed. Have the radiator flow and water pump checked; a coolant flush may help.',
+          urgency: 'medium',
+          ...PRO,
+          maintenance: { type: 'routine', title: 'Coolant Flush', description: 'Overheating with fans and thermostat working; flush and radiator/water pump inspection.' },
+        },
+      },
+    ],
+  },
+  {
+    flow_id: 'steering_pull',
+    title: 'Pulls to one side',
+    summary: 'Car drifts or pulls left or right while driving straight.',
+    match: /pull(s|ing)? (to the )?(left|right|one side)|drifts? (left|right)/i,
+    steps: [
+      {
+        step: 1,
+        instruction: 'Check all four tire pressures cold against the door-jamb placard.',
+        check: 'Is any tire more than 3 psi off the others?',
+        yes_outcome: {
+          title: 'Uneven tire pressure',
+          action: 'Set all tires to the placard pressure. If one keeps losing air, have it checked for a puncture.',
+          urgency: 'low',
+          ...DIY,
+        },
+        no_step: 2,
+      },
+      {
+        step: 2,
+        instruction: 'Drive straight and note whether the pull happens only while braking.',
+        check: 'Does it pull only when braking?',
+        yes_outcome: {
+          title: 'Sticking caliper or contaminated pad',
+          action: 'One side is braking harder. Have the calipers and pads inspected and serviced.',
+          urgency: 'high',
+          ...PRO,
+          maintenance: { type: 'repair', title: 'Brake Caliper Service', description: 'Pull to one side under braking only.' },
+        },
+        no_step: 3,
+      },
+      {
+        step: 3,
+        instruction: 'Swap the two front tires side to side and drive again.',
+        check: 'Did the pull switch direction?',
+        yes_outcome: {
+          title: 'Tire conicity',
+          action: 'One tire has an internal defect. Move it to the rear or replace it.',
+          urgency: 'low',
+          ...DIY,
+          maintenance: { type: 'routine', title: 'Tire Rotation', description: 'Tires swapped to correct pull from tire conicity.' },
+        },
+        no_outcome: {
+          title: 'Wheel alignment',
+          action: 'Have a four-wheel alignment done and the steering/suspension checked for worn parts.',
+          urgency: 'medium',
+          ...PRO,
+          maintenance: { type: 'routine', title: 'Wheel Alignment', description: 'Steady pull with tires and brakes ruled out.' },
+        },
+      },
+    ],
+  },
+];
+
+/** Curated flow whose trigger matches the symptom description, if any. */
+export function matchDiagnosticFlow(symptomText: string): DiagnosticFlow | undefined {
+  return DIAGNOSTIC_FLOWS.find((f) => f.match.test(symptomText));
+}
+
+export function getDiagnosticFlow(flowId: string): DiagnosticFlow | undefined {
+  return DIAGNOSTIC_FLOWS.find((f) => f.flow_id === flowId);
+}
+
+// ============================================================================
+// WALKER
+// ============================================================================
+
+export interface FlowPosition {
+  step?: DiagnosticFlowStep; // Step awaiting an answer; absent once an outcome is reached
+  outcome?: DiagnosticFlowOutcome;
+  path: DiagnosticFlowStep[]; // Steps answered so far, in order
+}
+
+/** Outcome for a linear (AI-generated) step that has no explicit branches. */
+function linearOutcome(step: DiagnosticFlowStep, text: string, symptom: string): DiagnosticFlowOutcome {
+  return {
+    title: step.check || step.instruction,
+    action: text,
+    urgency: 'medium',
+    diy: false,
+    maintenance: { type: 'diagnostic', title: `Diagnosis: ${symptom}`.slice(0, 80), description: `${step.instruction} → ${text}` },
+  };
+}
+
+/**
+ * Replay answers through a flow from its first step. Branches only move
+ * forward, so a tree can never loop; an answer that no longer fits the flow
+ * (e.g. stale persisted answers) stops the replay at that step.
+ */
+export function walkDiagnosticFlow(
+  steps: DiagnosticFlowStep[],
+  answers: Pick<DiagnosticFlowAnswer, 'step' | 'answer'>[],
+  symptom = ''
+): FlowPosition {
+  const sorted = [...steps].sort((a, b) => a.step - b.step);
+  const byNumber = new Map(sorted.map((s) => [s.step, s]));
+  const path: DiagnosticFlowStep[] = [];
+  let current = sorted[0];
+
+  for (const { step, answer } of answers) {
+    if (!current || step !== current.step) break;
+    path.push(current);
+
+    const explicitStep = answer === 'yes' ? current.yes_step : current.no_step;
+    const explicitOutcome = answer === 'yes' ? current.yes_outcome : current.no_outcome;
+    const text = answer === 'yes' ? current.if_yes : current.if_no;
+    const following = sorted.find((s) => s.step > current.step);
+
+    if (explicitStep != null && explicitStep > current.step && byNumber.has(explicitStep)) {
+      current = byNumber.get(explicitStep)!;
+    } else if (explicitOutcome) {
+      return { outcome: explicitOutcome, path };
+    } else if (answer === 'yes' && text) {
+      return { outcome: linearOutcome(current, text, symptom), path };
+    } else if (following) {
+      current = following;
+    } else {
+      return {
+        outcome: text
+          ? linearOutcome(current, text, symptom)
+          : { title: 'No fault found', action: 'The checks did not isolate a cause. Have a technician inspect the vehicle with these results.', urgency: 'medium', diy: false },
+        path,
+      };
+    }
+  }
+
+  return { step: current, path };
+}
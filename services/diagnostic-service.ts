@@ -1,7 +1,7 @@
 /**
  * Gear AI CoPilot - Diagnostic Service
  *
- * OBD-II simulation, AI-powered DTC analysis, symptom checker,
+ * OBD-II adapter access (ELM327), AI-powered DTC analysis, symptom checker,
  * vehicle health scoring, and persistent code history via Supabase.
  */
 
@@ -10,14 +10,55 @@ import Constants from 'expo-constants';
 import {
   DTCAnalysis,
   DiagnosticCode,
+  DiagnosticFlowAnswer,
+  DiagnosticFlowOutcome,
+  DiagnosticScan,
+  DiagnosticScanDiff,
+  DTCReadResult,
+  DTCSyncResult,
+  DTCStatusTransition,
   FreezeFrameData,
-  LiveOBDData,
+  OBDConnection,
+  OBDParameter,
   OBDSessionState,
   SymptomCheck,
   VehicleHealthScore,
-  HealthSystemScore,
-  HealthSystem,
+  InspectionReadiness,
+  InstalledPart,
+  LIVE_ALERT_SOURCE,
+  MonitorStatus,
+  RecallAlert,
+  ServiceReminder,
+  Vehicle,
 } from '../types';
+import {
+  ELM327Session,
+  clearDTCs,
+  closeELM327,
+  initializeELM327,
+  readAdapterVoltage,
+  readPID,
+  readPendingDTCs,
+  readPermanentDTCs,
+  readStoredDTCs,
+} from './elm327-protocol';
+import {
+  ADAPTER_VOLTAGE_PID,
+  adapterVoltageParameter,
+  decodePID,
+  discoverSupportedPIDs,
+  formatPID,
+  pollablePIDs,
+  readAllFreezeFrames,
+} from './obd-pids';
+import { OBDTransportFactory, createDemoVehicleTransport } from './obd-transport';
+import { predictInspection, readMonitorStatus } from './obd-readiness';
+import { diffDiagnosticScans } from './scan-diff';
+import { lookupDTC } from './dtc-database';
+import { matchDiagnosticFlow } from './diagnostic-flows';
+import { RepairCostVehicle, estimateDTCRepairCost } from './repair-cost';
+import { computeHealthScore } from './health-score';
+import { getRecallAlerts } from './recall-service';
 
 const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
 const DIAG_MODEL = 'gpt-4.1-mini';
@@ -57,16 +98,20 @@ async function callOpenAI(systemPrompt: string, userMessage: string, maxTokens =
 
 /**
  * Analyze a DTC using AI for plain-English explanation, ranked causes, and
- * DIY vs. shop recommendation. Falls back to local database if no API key.
+ * DIY vs. shop recommendation. The offline DTC database supplies the
+ * definition and the repair cost model the price (together the whole answer
+ * when there is no API key); `vehicle.make` resolves manufacturer-specific
+ * P1xxx codes.
  */
 export async function analyzeDTC(
   vin: string,
   code: string,
   mileage: number,
-  vehicleContext?: string
+  vehicleContext?: string,
+  vehicle?: RepairCostVehicle
 ): Promise<DTCAnalysis> {
-  const localInfo = getCommonDTCInfo(code);
-  const base = getMockDTCAnalysis(code);
+  const definition = lookupDTC(code, vehicle?.make);
+  const base = getMockDTCAnalysis(code, vehicle);
 
   const apiKey = getApiKey();
   if (!apiKey) return base;
@@ -74,7 +119,10 @@ export async function analyzeDTC(
   const vehicleDesc = vehicleContext || (vin ? `Vehicle VIN: ${vin}` : 'Unknown vehicle');
   const systemPrompt = `You are an expert automotive diagnostic technician. Analyze OBD-II trouble codes with precise, vehicle-specific knowledge. Always respond with valid JSON only — no markdown, no extra text.`;
 
-  const userMessage = `Analyze DTC code ${code} for: ${vehicleDesc}, mileage: ${mileage.toLocaleString()} miles.
+  const grounding = definition && definition.source !== 'range'
+    ? `\nDefinition (${definition.source === 'manufacturer' ? `${definition.make} specific` : 'SAE generic'}): ${definition.description}. Known common causes: ${definition.common_causes.join('; ')}. Base your answer on this definition.`
+    : '';
+  const userMessage = `Analyze DTC code ${code} for: ${vehicleDesc}, mileage: ${mileage.toLocaleString()} miles.${grounding}
 Return a JSON object with these exact keys:
 {
   "plain_english": "1-2 sentence plain English explanation of what this code means",
@@ -84,10 +132,7 @@ Return a JSON object with these exact keys:
     { "cause": "Third cause", "likelihood": "low", "explanation": "..." }
   ],
   "diy_vs_shop": "diy" | "shop" | "either",
-  "diy_reasoning": "One sentence explaining the recommendation",
-  "cost_min": 150,
-  "cost_max": 800,
-  "difficulty": "easy" | "moderate" | "difficult" | "professional"
+  "diy_reasoning": "One sentence explaining the recommendation"
 }`;
 
   try {
@@ -96,14 +141,11 @@ Return a JSON object with these exact keys:
       const parsed = JSON.parse(raw.trim());
       return {
         ...base,
-        description: localInfo?.description || base.description,
+        description: base.description,
         ai_plain_english: parsed.plain_english,
         probable_causes_ranked: parsed.probable_causes || [],
         diy_vs_shop: parsed.diy_vs_shop || 'shop',
         diy_vs_shop_reasoning: parsed.diy_reasoning,
-        estimated_cost_min: parsed.cost_min ?? base.estimated_cost_min,
-        estimated_cost_max: parsed.cost_max ?? base.estimated_cost_max,
-        repair_difficulty: parsed.difficulty || base.repair_difficulty,
       };
     }
   } catch (err) {
@@ -114,65 +156,34 @@ Return a JSON object with these exact keys:
 }
 
 /**
- * Get common DTC code information from local database.
+ * Definition, causes and symptoms for a code from the bundled offline database.
+ * Returns null only for malformed codes.
  */
-export function getCommonDTCInfo(code: string): Partial<DTCAnalysis> | null {
-  const commonCodes: Record<string, Partial<DTCAnalysis>> = {
-    P0420: {
-      description: 'Catalyst System Efficiency Below Threshold (Bank 1)',
-      common_causes: ['Faulty catalytic converter', 'Exhaust leak before O2 sensor', 'Faulty downstream O2 sensor', 'Engine misfire causing catalyst damage'],
-      symptoms: ['Check engine light', 'Reduced fuel efficiency', 'Sulfur smell from exhaust'],
-    },
-    P0171: {
-      description: 'System Too Lean (Bank 1)',
-      common_causes: ['Vacuum leak', 'Dirty or faulty MAF sensor', 'Weak fuel pump', 'Clogged fuel filter or injectors'],
-      symptoms: ['Check engine light', 'Rough idle', 'Lack of power', 'Hesitation on acceleration'],
-    },
-    P0300: {
-      description: 'Random/Multiple Cylinder Misfire Detected',
-      common_causes: ['Worn spark plugs', 'Faulty ignition coil', 'Vacuum leak', 'Low compression', 'Bad fuel injector'],
-      symptoms: ['Engine shaking/vibration', 'Poor acceleration', 'Flashing check engine light', 'Rough idle'],
-    },
-    P0128: {
-      description: 'Coolant Temperature Below Thermostat Regulating Temperature',
-      common_causes: ['Stuck-open thermostat', 'Faulty coolant temp sensor', 'Low coolant level'],
-      symptoms: ['Check engine light', 'Heater not working well', 'Poor fuel economy'],
-    },
-    P0442: {
-      description: 'Evaporative Emission Control System Leak Detected (Small Leak)',
-      common_causes: ['Loose or faulty gas cap', 'Cracked EVAP hose', 'Faulty purge valve', 'Faulty vent valve'],
-      symptoms: ['Check engine light', 'Fuel smell from engine bay'],
-    },
-    P0507: {
-      description: 'Idle Control System RPM High',
-      common_causes: ['Vacuum leak', 'Dirty throttle body', 'Faulty IAC valve', 'Faulty MAF sensor'],
-      symptoms: ['High idle RPM (above 1000)', 'Rough idle', 'Check engine light'],
-    },
-    P0401: {
-      description: 'Exhaust Gas Recirculation Flow Insufficient Detected',
-      common_causes: ['Clogged EGR valve or passages', 'Faulty EGR position sensor', 'Vacuum leak in EGR system'],
-      symptoms: ['Check engine light', 'Engine ping/knock under load', 'Rough idle'],
-    },
-  };
-  return commonCodes[code] || null;
+export function getCommonDTCInfo(code: string, make?: string): Partial<DTCAnalysis> | null {
+  const def = lookupDTC(code, make);
+  if (!def) return null;
+  return { code: def.code, description: def.description, common_causes: def.common_causes, symptoms: def.symptoms };
 }
 
-function getMockDTCAnalysis(code: string): DTCAnalysis {
-  const baseInfo = getCommonDTCInfo(code);
-  const prefix = code[0]?.toUpperCase();
-  const isSerious = ['P0300', 'P0301', 'P0302', 'P0303', 'P0304'].includes(code);
+// Misfires can destroy the catalyst; overheating and airbag faults are safety issues
+const HIGH_URGENCY_CODES = /^P0(30\d|31[0-2]|217)|^B00/;
+
+function getMockDTCAnalysis(code: string, vehicle?: RepairCostVehicle): DTCAnalysis {
+  const def = lookupDTC(code, vehicle?.make);
+  const estimate = estimateDTCRepairCost(code, vehicle);
   return {
     code,
-    description: baseInfo?.description || `Diagnostic Trouble Code: ${code}`,
-    urgency: isSerious ? 'high' : 'medium',
-    estimated_cost_min: 150,
-    estimated_cost_max: 1200,
-    labor_cost: 150,
-    parts_cost: 300,
+    description: def?.description || `Diagnostic Trouble Code: ${code}`,
+    urgency: HIGH_URGENCY_CODES.test(code.toUpperCase()) ? 'high' : 'medium',
+    estimated_cost_min: estimate.total_min,
+    estimated_cost_max: estimate.total_max,
+    // Midpoints of the model's ranges
+    labor_cost: Math.round(((estimate.labor_hours_min + estimate.labor_hours_max) / 2) * estimate.labor_rate),
+    parts_cost: Math.round((estimate.parts_cost_min + estimate.parts_cost_max) / 2),
     tech_service_bulletins: [],
-    common_causes: baseInfo?.common_causes || ['Professional diagnosis recommended'],
-    symptoms: baseInfo?.symptoms || ['Check engine light illuminated'],
-    repair_difficulty: prefix === 'P' ? 'moderate' : 'professional',
+    common_causes: def?.common_causes || ['Professional diagnosis recommended'],
+    symptoms: def?.symptoms || ['Check engine light illuminated'],
+    repair_difficulty: estimate.difficulty,
   };
 }
 
@@ -191,6 +202,7 @@ export async function checkSymptoms(
   userId: string
 ): Promise<SymptomCheck> {
   const checkId = `chk-${Date.now()}`;
+  const curated = matchDiagnosticFlow(symptomText);
   const vehicleDesc = `${vehicleContext.year} ${vehicleContext.make} ${vehicleContext.model}${vehicleContext.trim ? ` ${vehicleContext.trim}` : ''}${vehicleContext.mileage ? ` at ${vehicleContext.mileage.toLocaleString()} miles` : ''}`;
 
   const fallback: SymptomCheck = {
@@ -211,11 +223,15 @@ export async function checkSymptoms(
     ],
     checked_at: new Date().toISOString(),
   };
+  if (curated) {
+    fallback.ai_analysis = `${curated.summary} Follow the guided checks below to narrow down the cause.`;
+    fallback.flowchart_steps = curated.steps;
+    fallback.flow_id = curated.flow_id;
+  }
 
   const apiKey = getApiKey();
   if (!apiKey) {
-    await saveSymptomCheck(fallback, userId);
-    return fallback;
+    return saveSymptomCheck(fallback, userId);
   }
 
   const systemPrompt = `You are an expert automotive diagnostic technician with encyclopedic knowledge of common vehicle issues, TSBs, and OBD-II codes. Respond only with valid JSON — no markdown, no extra text.`;
@@ -230,13 +246,14 @@ Provide a comprehensive diagnostic analysis. Return JSON with these exact keys:
   "probable_causes": ["Most likely cause", "Second cause", "Third cause"],
   "suggested_codes": ["P0XXX", "C0XXX"],
   "flowchart_steps": [
-    { "step": 1, "instruction": "First thing to check", "check": "What to look for", "if_yes": "Action if found", "if_no": "Action if not found" },
+    { "step": 1, "instruction": "First thing to check", "check": "Yes/no question about what the owner sees", "if_yes": "Conclusion or action if yes", "if_no": "Conclusion or action if no", "yes_step": 3, "no_step": 2 },
     { "step": 2, "instruction": "...", "check": "...", "if_yes": "...", "if_no": "..." },
     { "step": 3, "instruction": "...", "check": "...", "if_yes": "...", "if_no": "..." }
   ],
   "related_tsb_topics": ["TSB subject area if applicable"],
   "diy_feasibility": "Brief assessment of whether owner can diagnose/fix this"
-}`;
+}
+The flowchart is a yes/no decision tree: "yes_step"/"no_step" (optional) jump to a later step number; when omitted, "yes" ends the flow on "if_yes" and "no" continues to the next step.`;
 
   try {
     const raw = await callOpenAI(systemPrompt, userMessage, 900);
@@ -252,30 +269,31 @@ Provide a comprehensive diagnostic analysis. Return JSON with these exact keys:
         urgency: parsed.urgency || 'medium',
         related_recalls: [],
         related_tsbs: parsed.related_tsb_topics || [],
-        flowchart_steps: (parsed.flowchart_steps || []).map((s: any, i: number) => ({
+        flowchart_steps: curated?.steps ?? (parsed.flowchart_steps || []).map((s: any, i: number) => ({
           step: s.step || i + 1,
           instruction: s.instruction || '',
           check: s.check,
           if_yes: s.if_yes,
           if_no: s.if_no,
+          yes_step: typeof s.yes_step === 'number' ? s.yes_step : undefined,
+          no_step: typeof s.no_step === 'number' ? s.no_step : undefined,
         })),
+        flow_id: curated?.flow_id,
         checked_at: new Date().toISOString(),
       };
-      await saveSymptomCheck(result, userId);
-      return result;
+      return saveSymptomCheck(result, userId);
     }
   } catch (err) {
     console.warn('[DiagnosticService] Symptom check parse failed:', err);
   }
 
-  await saveSymptomCheck(fallback, userId);
-  return fallback;
+  return saveSymptomCheck(fallback, userId);
 }
 
-async function saveSymptomCheck(check: SymptomCheck, userId: string): Promise<void> {
+/** Insert a symptom check, returning it with the stored row's check_id (the local id is kept if the insert fails). */
+async function saveSymptomCheck(check: SymptomCheck, userId: string): Promise<SymptomCheck> {
   try {
-    await supabase.from('symptom_checks').insert({
-      check_id: check.check_id,
+    const { data, error } = await supabase.from('symptom_checks').insert({
       vehicle_id: check.vehicle_id,
       user_id: userId,
       symptom_text: check.symptom_text,
@@ -286,10 +304,31 @@ async function saveSymptomCheck(check: SymptomCheck, userId: string): Promise<vo
       related_recalls: check.related_recalls,
       related_tsbs: check.related_tsbs,
       flowchart_steps: check.flowchart_steps,
+      flow_id: check.flow_id,
       checked_at: check.checked_at,
-    });
+    }).select('check_id').single();
+    if (error) throw error;
+    return { ...check, check_id: data.check_id };
   } catch (err) {
     console.warn('[DiagnosticService] saveSymptomCheck failed:', err);
+    return check;
+  }
+}
+
+/** Persist the user's answers through a symptom check's flowchart, and the outcome once reached. */
+export async function saveDiagnosticFlowProgress(
+  checkId: string,
+  answers: DiagnosticFlowAnswer[],
+  outcome?: DiagnosticFlowOutcome
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('symptom_checks')
+      .update({ flow_answers: answers, flow_outcome: outcome ?? null })
+      .eq('check_id', checkId);
+    if (error) throw error;
+  } catch (err) {
+    console.warn('[DiagnosticService] saveDiagnosticFlowProgress failed:', err);
   }
 }
 
@@ -297,7 +336,10 @@ async function saveSymptomCheck(check: SymptomCheck, userId: string): Promise<vo
 // CODE HISTORY (Supabase persistence)
 // ============================================================================
 
-/** Save a diagnostic code to history. */
+/**
+ * Save a diagnostic code to history. When no freeze frame is passed and an
+ * adapter is connected, the Mode 02 snapshot stored for the code is attached.
+ */
 export async function saveDiagnosticCode(
   vehicleId: string,
   userId: string,
@@ -305,9 +347,11 @@ export async function saveDiagnosticCode(
   description: string,
   severity: DiagnosticCode['severity'] = 'medium',
   mileage?: number,
-  freezeFrame?: FreezeFrameData
+  freezeFrame?: FreezeFrameData,
+  options: Pick<Partial<DiagnosticCode>, 'status' | 'metadata' | 'estimated_repair_cost_min' | 'estimated_repair_cost_max'> = {}
 ): Promise<DiagnosticCode | null> {
   try {
+    const snapshot = freezeFrame ?? (_obdLink ? await readFreezeFrame(code).catch(() => null) : null);
     const { data, error } = await supabase
       .from('diagnostic_codes')
       .insert({
@@ -317,10 +361,13 @@ export async function saveDiagnosticCode(
         code_type: code[0]?.toUpperCase() as DiagnosticCode['code_type'],
         description,
         severity,
-        status: 'active',
+        status: options.status ?? 'active',
         mileage_at_detection: mileage,
-        freeze_frame_data: freezeFrame,
+        freeze_frame_data: snapshot ?? undefined,
         detected_at: new Date().toISOString(),
+        estimated_repair_cost_min: options.estimated_repair_cost_min,
+        estimated_repair_cost_max: options.estimated_repair_cost_max,
+        metadata: options.metadata,
       })
       .select()
       .single();
@@ -332,6 +379,23 @@ export async function saveDiagnosticCode(
   }
 }
 
+/**
+ * Close open live data alerts for a vehicle, or just the one a rule raised.
+ * Returns how many were resolved.
+ */
+export async function resolveLiveAlerts(vehicleId: string, ruleId?: string): Promise<number> {
+  let query = supabase
+    .from('diagnostic_codes')
+    .update({ status: 'resolved', cleared_at: new Date().toISOString() })
+    .eq('vehicle_id', vehicleId)
+    .eq('status', 'alert')
+    .eq('metadata->>source', LIVE_ALERT_SOURCE);
+  if (ruleId) query = query.eq('metadata->>rule_id', ruleId);
+  const { data, error } = await query.select('diagnostic_id');
+  if (error) throw new Error(`Failed to resolve live alerts: ${error.message}`);
+  return data?.length ?? 0;
+}
+
 /** Load all diagnostic codes for a vehicle (history). */
 export async function getDiagnosticHistory(vehicleId: string): Promise<DiagnosticCode[]> {
   try {
@@ -356,6 +420,98 @@ export async function resolveDiagnosticCode(diagnosticId: string): Promise<void>
     .eq('diagnostic_id', diagnosticId);
 }
 
+/**
+ * Status a code should have given what the vehicle reports: stored and permanent
+ * codes are active, pending-only codes are pending, anything else is gone.
+ */
+function statusFromScan(code: string, scan: DTCReadResult): DiagnosticCode['status'] | null {
+  if (scan.stored.includes(code) || scan.permanent.includes(code)) return 'active';
+  if (scan.pending.includes(code)) return 'pending';
+  return null;
+}
+
+export interface DTCSyncOptions {
+  mileage?: number;
+  /** For manufacturer-specific definitions from the offline DTC database and repair estimates. */
+  vehicle?: RepairCostVehicle;
+  /** Description for newly detected codes; defaults to the offline DTC database. */
+  describe?: (code: string) => Promise<string>;
+}
+
+/**
+ * Read stored, pending and permanent DTCs from the adapter and reconcile them
+ * against open history rows: new codes are saved, pending codes that confirm
+ * become active, confirmed codes that drop back become pending, and codes the
+ * vehicle no longer reports in any mode are resolved.
+ */
+export async function syncDiagnosticCodes(
+  vehicleId: string,
+  userId: string,
+  options: DTCSyncOptions = {}
+): Promise<DTCSyncResult> {
+  const scan = await readAllDTCCodes();
+  const history = await getDiagnosticHistory(vehicleId);
+  const transitions: DTCStatusTransition[] = [];
+
+  // History is newest first, so the first open row per code is the current one.
+  // Live alerts carry their own status, so a scan never confirms them as codes.
+  const open = new Map<string, DiagnosticCode>();
+  history
+    .filter((c) => c.status === 'active' || c.status === 'pending')
+    .forEach((c) => {
+      if (!open.has(c.code)) open.set(c.code, c);
+    });
+
+  for (const row of open.values()) {
+    const next = statusFromScan(row.code, scan) ?? 'resolved';
+    const permanent = scan.permanent.includes(row.code);
+    if (next === row.status && permanent === Boolean(row.metadata?.permanent)) continue;
+
+    const { error } = await supabase
+      .from('diagnostic_codes')
+      .update({
+        status: next,
+        cleared_at: next === 'resolved' ? new Date().toISOString() : null,
+        metadata: { ...row.metadata, permanent },
+      })
+      .eq('diagnostic_id', row.diagnostic_id);
+    if (error) {
+      console.warn('[DiagnosticService] syncDiagnosticCodes update failed:', error);
+      continue;
+    }
+    if (next !== row.status) {
+      transitions.push({ code: row.code, diagnostic_id: row.diagnostic_id, from: row.status, to: next });
+    }
+  }
+
+  const detected = Array.from(new Set([...scan.stored, ...scan.permanent, ...scan.pending]));
+  for (const code of detected.filter((c) => !open.has(c))) {
+    const status = statusFromScan(code, scan)!;
+    const description = options.describe
+      ? await options.describe(code)
+      : lookupDTC(code, options.vehicle?.make)?.description ?? `Diagnostic trouble code ${code}`;
+    const estimate = estimateDTCRepairCost(code, options.vehicle);
+    const saved = await saveDiagnosticCode(
+      vehicleId,
+      userId,
+      code,
+      description,
+      'medium',
+      options.mileage,
+      undefined,
+      {
+        status,
+        metadata: { permanent: scan.permanent.includes(code), repair_job: estimate.job },
+        estimated_repair_cost_min: estimate.total_min,
+        estimated_repair_cost_max: estimate.total_max,
+      }
+    );
+    transitions.push({ code, diagnostic_id: saved?.diagnostic_id, from: null, to: status });
+  }
+
+  return { ...scan, transitions };
+}
+
 /** Update a code record with AI analysis results. */
 export async function updateCodeWithAIAnalysis(
   diagnosticId: string,
@@ -374,122 +530,161 @@ export async function updateCodeWithAIAnalysis(
     .eq('diagnostic_id', diagnosticId);
 }
 
+// ============================================================================
+// SCAN HISTORY (Supabase persistence)
+// ============================================================================
+
+/** Persist a completed scan. Returns the stored row, or null on failure. */
+export async function saveDiagnosticScan(scan: Omit<DiagnosticScan, 'scan_id'>): Promise<DiagnosticScan | null> {
+  try {
+    const { data, error } = await supabase
+      .from('diagnostic_scans')
+      .insert(scan)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  } catch (err) {
+    console.warn('[DiagnosticService] saveDiagnosticScan failed:', err);
+    return null;
+  }
+}
+
+/** Scans for a vehicle, newest first. */
+export async function getScanHistory(vehicleId: string, limit = 20): Promise<DiagnosticScan[]> {
+  try {
+    const { data, error } = await supabase
+      .from('diagnostic_scans')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('scan_date', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return data || [];
+  } catch (err) {
+    console.warn('[DiagnosticService] getScanHistory failed:', err);
+    return [];
+  }
+}
+
+/**
+ * Run a full scan on the connected vehicle: reconcile DTC history, close out
+ * stale live alerts, capture each open code's current freeze frame and a live
+ * data snapshot, persist the scan and diff it against the previous one.
+ */
+export async function runDiagnosticScan(
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'current_mileage' | 'make' | 'model' | 'body_type' | 'fuel_type'>,
+  userId: string,
+  options: DTCSyncOptions = {}
+): Promise<{ scan: DiagnosticScan; diff: DiagnosticScanDiff }> {
+  const started = Date.now();
+  const { connection } = requireLink();
+  const [previous] = await getScanHistory(vehicle.vehicle_id, 1);
+
+  const sync = await syncDiagnosticCodes(vehicle.vehicle_id, userId, { mileage: vehicle.current_mileage, vehicle, ...options });
+  // A scan is a fresh look at the vehicle; alerts left open by an earlier monitoring session are closed out
+  await resolveLiveAlerts(vehicle.vehicle_id).catch((err) =>
+    console.warn('[DiagnosticService] resolving live alerts failed:', err)
+  );
+  const openCodes = (await getDiagnosticHistory(vehicle.vehicle_id)).filter(
+    (c) => c.status === 'active' || c.status === 'pending'
+  );
+  const codesFound: DiagnosticCode[] = [];
+  for (const code of openCodes) {
+    const ff = await readFreezeFrame(code.code).catch(() => null);
+    codesFound.push(ff ? { ...code, freeze_frame_data: ff } : code);
+  }
+  const liveData = await readLiveSnapshot().catch(() => undefined);
+
+  const draft: Omit<DiagnosticScan, 'scan_id'> = {
+    vehicle_id: vehicle.vehicle_id,
+    user_id: userId,
+    scan_date: new Date().toISOString(),
+    mileage: vehicle.current_mileage ?? 0,
+    codes_found: codesFound,
+    pending_codes: sync.pending,
+    permanent_codes: sync.permanent,
+    live_data: liveData,
+    adapter_info: connection,
+    duration_seconds: Math.round((Date.now() - started) / 1000),
+  };
+  const scan = (await saveDiagnosticScan(draft)) ?? { ...draft, scan_id: `scan-${vehicle.vehicle_id}-${started}` };
+  return { scan, diff: diffDiagnosticScans(scan, previous) };
+}
+
 // ============================================================================
 // VEHICLE HEALTH SCORE
 // ============================================================================
 
-const SYSTEM_META: Record<HealthSystem, { label: string; weight: number }> = {
-  engine: { label: 'Engine', weight: 0.30 },
-  transmission: { label: 'Transmission', weight: 0.15 },
-  brakes: { label: 'Brakes', weight: 0.15 },
-  suspension: { label: 'Suspension', weight: 0.10 },
-  electrical: { label: 'Electrical', weight: 0.10 },
-  fuel: { label: 'Fuel System', weight: 0.08 },
-  cooling: { label: 'Cooling', weight: 0.07 },
-  exhaust: { label: 'Exhaust', weight: 0.05 },
-};
-
-const CODE_SYSTEM_MAP: Record<string, HealthSystem> = {
-  P: 'engine', C: 'suspension', B: 'electrical', U: 'electrical',
-};
-const CODE_OVERRIDE: Record<string, HealthSystem> = {
-  P04: 'exhaust', P01: 'fuel', P02: 'fuel', P03: 'engine',
-  P07: 'transmission', P08: 'transmission', C0: 'brakes', P05: 'engine',
-};
-
-function codeToSystem(code: string): HealthSystem {
-  const prefix3 = code.slice(0, 3);
-  if (CODE_OVERRIDE[prefix3]) return CODE_OVERRIDE[prefix3];
-  const prefix1 = code[0]?.toUpperCase();
-  return CODE_SYSTEM_MAP[prefix1] || 'engine';
-}
-
-function scoreStatus(score: number): HealthSystemScore['status'] {
-  if (score >= 80) return 'good';
-  if (score >= 60) return 'fair';
-  if (score >= 40) return 'poor';
-  return 'critical';
+export interface HealthScoreContext {
+  scanHistory?: DiagnosticScan[]; // Recent scans, newest first; fetched when omitted
+  recalls?: RecallAlert[]; // Already-loaded recalls; fetched from NHTSA when omitted and make/model are known
+  make?: string;
+  model?: string;
 }
 
 /**
- * Calculate the vehicle health score by aggregating:
- *  - Active DTC codes
- *  - Maintenance record compliance
- *  - Vehicle age + mileage factor
+ * Calculate and persist the vehicle health score. Gathers the evidence —
+ * active/pending codes, scans, service reminders, maintenance records,
+ * installed parts, and open recalls — and hands it to computeHealthScore,
+ * which attributes every deducted point to a reason.
  */
 export async function calculateHealthScore(
   vehicleId: string,
   userId: string,
   currentMileage: number,
-  vehicleYear: number
+  vehicleYear: number,
+  context: HealthScoreContext = {}
 ): Promise<VehicleHealthScore> {
   const now = new Date();
   const healthId = `hlth-${vehicleId}-${Date.now()}`;
 
-  // Fetch active codes
-  const { data: codes } = await supabase
-    .from('diagnostic_codes')
-    .select('code, severity, status')
-    .eq('vehicle_id', vehicleId)
-    .eq('status', 'active');
-
-  // Fetch maintenance records
-  const { data: maintRecords } = await supabase
-    .from('maintenance_records')
-    .select('service_type, service_date, mileage, next_service_mileage')
-    .eq('vehicle_id', vehicleId)
-    .order('service_date', { ascending: false });
-
-  const activeCodes = codes || [];
-
-  // Per-system score degradations
-  const systemDegradation: Record<HealthSystem, number> = {
-    engine: 0, transmission: 0, brakes: 0, suspension: 0,
-    electrical: 0, fuel: 0, cooling: 0, exhaust: 0,
-  };
-
-  for (const c of activeCodes) {
-    const sys = codeToSystem(c.code);
-    const penalty = c.severity === 'critical' ? 25 : c.severity === 'high' ? 15 : c.severity === 'medium' ? 8 : 3;
-    systemDegradation[sys] = Math.min(systemDegradation[sys] + penalty, 60);
-  }
-
-  // Maintenance compliance factor (0–20 point bonus/penalty)
-  const records = maintRecords || [];
-  let maintenanceScore = 85; // base
-  if (records.length === 0) {
-    maintenanceScore = 60;
-  } else {
-    const overdueCount = records.filter((r) => {
-      if (!r.next_service_mileage) return false;
-      return currentMileage > r.next_service_mileage + 500;
-    }).length;
-    maintenanceScore = Math.max(50, 90 - overdueCount * 10);
-  }
-
-  // Vehicle age factor
-  const age = now.getFullYear() - vehicleYear;
-  const ageFactor = Math.max(0, Math.min(15, age * 0.7));
-
-  // Build per-system scores
-  const systems: HealthSystemScore[] = (Object.keys(SYSTEM_META) as HealthSystem[]).map((sys) => {
-    const raw = 100 - systemDegradation[sys] - ageFactor * SYSTEM_META[sys].weight * 5;
-    const score = Math.round(Math.max(0, Math.min(100, raw)));
-    const codesForSystem = activeCodes.filter((c) => codeToSystem(c.code) === sys);
-    const factors: string[] = [];
-    if (codesForSystem.length > 0) {
-      factors.push(`${codesForSystem.length} active code${codesForSystem.length > 1 ? 's' : ''}: ${codesForSystem.map((c) => c.code).join(', ')}`);
-    }
-    if (age > 8 && sys === 'electrical') factors.push('Normal aging for vehicle age');
-    return { system: sys, label: SYSTEM_META[sys].label, score, status: scoreStatus(score), contributing_factors: factors };
+  const [codes, reminders, maintenance, parts, scans, recalls] = await Promise.all([
+    supabase
+      .from('diagnostic_codes')
+      .select('code, description, severity, status, metadata')
+      .eq('vehicle_id', vehicleId)
+      .in('status', ['active', 'pending', 'alert'])
+      .then(({ data }) => data || []),
+    supabase
+      .from('service_reminders')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .then(({ data }) => (data || []) as ServiceReminder[]),
+    supabase
+      .from('maintenance_records')
+      .select('title, date, mileage, next_service_date, next_service_mileage')
+      .eq('vehicle_id', vehicleId)
+      .order('date', { ascending: false })
+      .then(({ data }) => data || []),
+    supabase
+      .from('parts_installed')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .then(({ data }) => (data || []) as InstalledPart[]),
+    context.scanHistory ?? getScanHistory(vehicleId, 10),
+    context.recalls ??
+      (context.make && context.model
+        ? getRecallAlerts(vehicleId, context.make, context.model, vehicleYear).catch((err) => {
+            console.warn('[DiagnosticService] recall lookup for health score failed:', err);
+            return [];
+          })
+        : Promise.resolve([])),
+  ]);
+
+  const result = computeHealthScore({
+    now: now.toISOString(),
+    make: context.make,
+    current_mileage: currentMileage,
+    vehicle_year: vehicleYear,
+    codes,
+    scans,
+    reminders,
+    maintenance,
+    parts,
+    recalls,
   });
 
-  // Weighted overall score
-  const overall = Math.round(
-    systems.reduce((sum, s) => sum + s.score * SYSTEM_META[s.system].weight, 0) *
-    (maintenanceScore / 100)
-  );
-
   // Fetch previous score for trend
   const { data: prevData } = await supabase
     .from('vehicle_health_scores')
@@ -498,16 +693,17 @@ export async function calculateHealthScore(
     .order('calculated_at', { ascending: false })
     .limit(1);
   const prevScore = prevData?.[0]?.overall_score;
+  const overall = result.overall_score;
   const trend: VehicleHealthScore['trend'] =
     prevScore == null ? 'stable' : overall > prevScore + 2 ? 'improving' : overall < prevScore - 2 ? 'declining' : 'stable';
 
   const healthScore: VehicleHealthScore = {
     health_id: healthId,
     vehicle_id: vehicleId,
-    overall_score: Math.max(0, Math.min(100, overall)),
-    systems,
-    active_code_count: activeCodes.length,
-    maintenance_compliance_pct: maintenanceScore,
+    overall_score: overall,
+    systems: result.systems,
+    active_code_count: codes.filter((c) => c.status === 'active').length,
+    maintenance_compliance_pct: result.maintenance_compliance_pct,
     calculated_at: now.toISOString(),
     trend,
     previous_score: prevScore,
@@ -568,88 +764,243 @@ export async function getHealthScoreHistory(vehicleId: string, limit = 30): Prom
 }
 
 // ============================================================================
-// OBD-II SIMULATION
+// OBD-II ADAPTER (ELM327)
 // ============================================================================
 
-let _obdInterval: ReturnType<typeof setInterval> | null = null;
-let _obdCallbacks: Array<(data: LiveOBDData) => void> = [];
+interface OBDLink {
+  session: ELM327Session;
+  connection: OBDConnection;
+  supported_pids: number[];
+  polled_pids: number[];
+  freeze_frames?: FreezeFrameData[]; // Cached between scans, dropped on clear and on each DTC read
+}
+
+interface LiveSubscriber {
+  callback: (params: OBDParameter[]) => void;
+  pids?: number[]; // Narrowed subscription; every pollable PID when omitted
+  wanted?: Set<string>; // `pids` as formatted on decoded parameters
+}
+
+let _obdLink: OBDLink | null = null;
+let _transportFactory: OBDTransportFactory = (adapterId) => createDemoVehicleTransport(adapterId);
+let _obdPolling = false;
+let _obdPollGeneration = 0; // Bumped whenever polling stops, so a sleeping loop knows it is stale
+let _obdSubscribers: LiveSubscriber[] = [];
+
+const LIVE_POLL_INTERVAL_MS = 500;
+
+/**
+ * Register the transport used by connectOBDAdapter (BLE, WiFi, USB or scripted).
+ * Defaults to the in-memory demo vehicle so the app works without hardware.
+ */
+export function setOBDTransportFactory(factory: OBDTransportFactory): void {
+  _transportFactory = factory;
+}
+
+/** Current adapter connection details, or null when disconnected. */
+export function getOBDConnection(): OBDConnection | null {
+  return _obdLink?.connection ?? null;
+}
 
-/** Simulated ELM327 OBD-II connection with realistic live data stream. */
+/** Mode 01 PIDs the connected vehicle reports as supported (empty when disconnected). */
+export function getSupportedPIDs(): number[] {
+  return _obdLink?.supported_pids ?? [];
+}
+
+function requireLink(): OBDLink {
+  if (!_obdLink) throw new Error('OBD-II adapter not connected');
+  return _obdLink;
+}
+
+/** Open the adapter, run the ELM327 init sequence and detect the vehicle protocol. */
 export async function connectOBDAdapter(adapterId?: string): Promise<OBDSessionState> {
-  // Simulate BLE scan + connect delay
-  await new Promise((r) => setTimeout(r, 1800));
-  return {
-    status: 'connected',
-    adapter_id: adapterId || 'ELM327-SIM',
-    adapter_name: 'ELM327 Bluetooth OBD-II (Simulated)',
-    protocol: 'ISO 15765-4 CAN (11-bit, 500 kbps)',
-    connected_at: new Date().toISOString(),
-  };
+  if (_obdLink) await disconnectOBDAdapter();
+  const transport = _transportFactory(adapterId);
+  try {
+    const session = await initializeELM327(transport);
+    const supported = await discoverSupportedPIDs(session);
+    const connectedAt = new Date().toISOString();
+    _obdLink = {
+      session,
+      connection: {
+        adapter_id: transport.adapter_id,
+        adapter_name: transport.adapter_name,
+        connection_type: transport.connection_type,
+        protocol: session.protocol.family,
+        connected_at: connectedAt,
+        is_connected: true,
+      },
+      supported_pids: supported,
+      polled_pids: pollablePIDs(supported),
+    };
+    return {
+      status: 'connected',
+      adapter_id: transport.adapter_id,
+      adapter_name: transport.adapter_name,
+      protocol: session.protocol.label,
+      connected_at: connectedAt,
+    };
+  } catch (err: any) {
+    console.warn('[DiagnosticService] connectOBDAdapter failed:', err);
+    await transport.close().catch(() => undefined);
+    return {
+      status: 'error',
+      adapter_id: transport.adapter_id,
+      adapter_name: transport.adapter_name,
+      error_message: err?.message || 'Could not connect to adapter',
+    };
+  }
 }
 
-/** Start streaming simulated live OBD-II PID data. */
-export function startLiveDataStream(callback: (data: LiveOBDData) => void): () => void {
-  _obdCallbacks.push(callback);
-
-  if (!_obdInterval) {
-    let tick = 0;
-    _obdInterval = setInterval(() => {
-      tick++;
-      const rpm = 800 + Math.sin(tick * 0.1) * 200 + Math.random() * 50;
-      const data: LiveOBDData = {
-        rpm: Math.round(rpm),
-        vehicle_speed: Math.round(Math.max(0, 35 + Math.sin(tick * 0.05) * 35)),
-        coolant_temp: Math.round(90 + Math.sin(tick * 0.02) * 5),
-        intake_air_temp: Math.round(25 + Math.random() * 5),
-        throttle_position: Math.round(15 + Math.sin(tick * 0.08) * 10 + Math.random() * 3),
-        engine_load: Math.round(20 + Math.sin(tick * 0.08) * 15 + Math.random() * 5),
-        fuel_trim_short: parseFloat((Math.random() * 4 - 2).toFixed(1)),
-        fuel_trim_long: parseFloat((Math.random() * 3 - 1.5).toFixed(1)),
-        o2_voltage_bank1: parseFloat((0.45 + Math.sin(tick * 0.2) * 0.4).toFixed(3)),
-        maf_rate: parseFloat((4 + Math.sin(tick * 0.1) * 2).toFixed(2)),
-        timing_advance: Math.round(12 + Math.sin(tick * 0.05) * 4),
-        battery_voltage: parseFloat((13.8 + Math.random() * 0.4).toFixed(1)),
-        timestamp: Date.now(),
-      };
-      _obdCallbacks.forEach((cb) => cb(data));
-    }, 500);
+/** Stop streaming and release the adapter. */
+export async function disconnectOBDAdapter(): Promise<void> {
+  _obdSubscribers = [];
+  _obdPolling = false;
+  _obdPollGeneration++;
+  const link = _obdLink;
+  _obdLink = null;
+  if (link) await closeELM327(link.session);
+}
+
+async function pollLiveData(link: OBDLink, pids: number[]): Promise<OBDParameter[]> {
+  const raw = await Promise.all(pids.map((pid) => readPID(link.session, pid)));
+  const timestamp = Date.now();
+  const params = raw
+    .map((data, i) => (data ? decodePID(pids[i], data, timestamp) : null))
+    .filter((p): p is OBDParameter => p !== null);
+  const voltage = await readAdapterVoltage(link.session);
+  if (voltage != null) params.push(adapterVoltageParameter(voltage, timestamp));
+  return params;
+}
+
+/** One-shot read of every pollable PID plus adapter voltage. */
+export async function readLiveSnapshot(): Promise<OBDParameter[]> {
+  const link = requireLink();
+  return pollLiveData(link, link.polled_pids);
+}
+
+async function runLivePollLoop(generation: number, link: OBDLink): Promise<void> {
+  // A stop followed by a restart inside one sleep starts a new loop; this one must then bow out
+  const current = () => generation === _obdPollGeneration && _obdLink === link;
+  while (current()) {
+    const started = Date.now();
+    try {
+      // Poll the union of what subscribers asked for, then hand each only its own PIDs
+      const pids = _obdSubscribers.some((s) => !s.pids)
+        ? link.polled_pids
+        : link.polled_pids.filter((pid) => _obdSubscribers.some((s) => s.pids!.includes(pid)));
+      const params = await pollLiveData(link, pids);
+      if (!current()) break;
+      _obdSubscribers.forEach(({ callback, wanted }) =>
+        callback(wanted ? params.filter((p) => p.pid === ADAPTER_VOLTAGE_PID || wanted.has(p.pid)) : params)
+      );
+    } catch (err) {
+      console.warn('[DiagnosticService] live data poll failed:', err);
+    }
+    const wait = Math.max(0, LIVE_POLL_INTERVAL_MS - (Date.now() - started));
+    await new Promise((r) => setTimeout(r, wait));
+  }
+  if (generation === _obdPollGeneration) _obdPolling = false;
+}
+
+/**
+ * Start polling the Mode 01 PIDs the vehicle reports as supported (optionally
+ * narrowed to `pids` for this callback only; other subscribers still get
+ * everything they asked for). Returns an unsubscribe function.
+ */
+export function startLiveDataStream(
+  callback: (params: OBDParameter[]) => void,
+  pids?: number[]
+): () => void {
+  const subscriber: LiveSubscriber = pids
+    ? { callback, pids, wanted: new Set(pids.map((pid) => formatPID(pid))) }
+    : { callback };
+  _obdSubscribers.push(subscriber);
+
+  if (!_obdPolling && _obdLink) {
+    _obdPolling = true;
+    void runLivePollLoop(++_obdPollGeneration, _obdLink);
   }
 
   return () => {
-    _obdCallbacks = _obdCallbacks.filter((cb) => cb !== callback);
-    if (_obdCallbacks.length === 0 && _obdInterval) {
-      clearInterval(_obdInterval);
-      _obdInterval = null;
+    _obdSubscribers = _obdSubscribers.filter((s) => s !== subscriber);
+    if (_obdSubscribers.length === 0) {
+      _obdPolling = false;
+      _obdPollGeneration++;
     }
   };
 }
 
-/** Simulate reading DTCs from connected adapter (Mode 03). */
+/** Read confirmed DTCs from the connected adapter (Mode 03). */
 export async function readDTCCodes(_adapterId?: string): Promise<string[]> {
-  await new Promise((r) => setTimeout(r, 1200));
-  // Returns sample codes for simulation
-  return ['P0420', 'P0171'];
+  return readStoredDTCs(requireLink().session);
+}
+
+/** Read pending DTCs from the connected adapter (Mode 07). */
+export async function readPendingCodes(): Promise<string[]> {
+  return readPendingDTCs(requireLink().session);
+}
+
+/** Read permanent DTCs from the connected adapter (Mode 0A). Pre-2010 vehicles report none. */
+export async function readPermanentCodes(): Promise<string[]> {
+  return readPermanentDTCs(requireLink().session);
 }
 
-/** Simulate reading freeze frame data for a specific code. */
-export async function readFreezeFrame(code: string): Promise<FreezeFrameData> {
-  await new Promise((r) => setTimeout(r, 800));
+/**
+ * Stored, pending and permanent DTCs in one pass. A new code may have set a new
+ * freeze frame, so the cached frames are dropped and re-read on next use.
+ */
+export async function readAllDTCCodes(): Promise<DTCReadResult> {
+  const link = requireLink();
+  const { session } = link;
+  link.freeze_frames = undefined;
   return {
-    rpm: 1450 + Math.round(Math.random() * 200),
-    vehicle_speed: 45,
-    engine_load: 38,
-    coolant_temp: 87,
-    fuel_trim_short: -2.3,
-    fuel_trim_long: 1.6,
-    intake_pressure: 98,
-    timing_advance: 14,
-    throttle_position: 22,
+    stored: await readStoredDTCs(session),
+    pending: await readPendingDTCs(session),
+    permanent: await readPermanentDTCs(session),
   };
 }
 
-/** Simulate clearing DTCs (Mode 04). */
-export async function clearDTCCodes(_adapterId?: string): Promise<boolean> {
-  await new Promise((r) => setTimeout(r, 1000));
-  return true;
+/** Readiness monitor status since codes were last cleared (Mode 01 PID 01). */
+export async function readReadinessMonitors(): Promise<MonitorStatus> {
+  return readMonitorStatus(requireLink().session);
 }
 
+/**
+ * Read readiness monitors, predict the emissions inspection result and store it
+ * on the vehicle so the warning against `inspection_due` survives disconnects.
+ */
+export async function checkInspectionReadiness(
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'user_id' | 'year' | 'current_mileage'>
+): Promise<InspectionReadiness> {
+  const status = await readReadinessMonitors();
+  const readiness = predictInspection(status, vehicle.year, { mileage: vehicle.current_mileage });
+  const { error } = await supabase
+    .from('vehicles')
+    .update({ inspection_readiness: readiness, updated_at: new Date().toISOString() })
+    .eq('vehicle_id', vehicle.vehicle_id)
+    .eq('user_id', vehicle.user_id);
+  if (error) console.warn('[DiagnosticService] checkInspectionReadiness save failed:', error);
+  return readiness;
+}
+
+/** Every freeze frame stored on the vehicle (Mode 02), each tagged with the DTC that set it. */
+export async function readFreezeFrames(): Promise<FreezeFrameData[]> {
+  const link = requireLink();
+  if (!link.freeze_frames) link.freeze_frames = await readAllFreezeFrames(link.session);
+  return link.freeze_frames;
+}
+
+/** The freeze frame stored for a specific code, or null when the vehicle kept none for it. */
+export async function readFreezeFrame(code: string): Promise<FreezeFrameData | null> {
+  const frames = await readFreezeFrames();
+  return frames.find((f) => f.dtc === code.toUpperCase()) ?? null;
+}
+
+/** Clear DTCs and freeze frames on the vehicle (Mode 04). */
+export async function clearDTCCodes(_adapterId?: string): Promise<boolean> {
+  const link = requireLink();
+  const cleared = await clearDTCs(link.session);
+  if (cleared) link.freeze_frames = undefined;
+  return cleared;
+}
@@ -0,0 +1,661 @@
+/**
+ * Gear AI CoPilot - Offline DTC Database
+ *
+ * Generic SAE J2012 definitions for P0xxx/P2xxx/C0xxx/B0xxx/U0xxx codes,
+ * make-specific P1xxx tables, and causes/symptoms by code family. Shipped
+ * with the app so lookups work without a network or an OpenAI key.
+ */
+
+import type { DTCDefinition } from '../types/diagnostic';
+
+const DTC_PATTERN = /^[PCBU][0-3][0-9A-F]{3}$/;
+
+// ============================================================================
+// GENERIC DEFINITIONS
+// ============================================================================
+
+const GENERIC: Record<string, string> = {};
+
+/** Add `count` consecutive codes, e.g. family('P', 301, 9, (i) => `Cylinder ${i + 1} Misfire Detected`). */
+function family(letter: string, first: number, count: number, describe: (i: number) => string) {
+  for (let i = 0; i < count; i++) GENERIC[`${letter}0${String(first + i).padStart(3, '0')}`] = describe(i);
+}
+/** Standard five-code sensor block: malfunction, range/performance, low, high, intermittent. */
+function sensorBlock(first: number, name: string) {
+  const suffix = ['Circuit Malfunction', 'Circuit Range/Performance Problem', 'Circuit Low Input', 'Circuit High Input', 'Circuit Intermittent'];
+  family('P', first, 5, (i) => `${name} ${suffix[i]}`);
+}
+/** Standard five-code solenoid block used by transmission outputs. */
+function solenoidBlock(first: number, name: string) {
+  const suffix = ['Malfunction', 'Performance or Stuck Off', 'Stuck On', 'Electrical', 'Intermittent'];
+  family('P', first, 5, (i) => `${name} ${suffix[i]}`);
+}
+
+// --- P00xx / P01xx / P02xx: fuel and air metering -------------------------
+
+['Bank 1', 'Bank 2'].forEach((bank, b) => {
+  family('P', 10 + b * 10, 6, (i) => {
+    const cam = i < 3 ? '"A"' : '"B"';
+    return [
+      `${cam} Camshaft Position Actuator Circuit (${bank})`,
+      `${cam} Camshaft Position - Timing Over-Advanced or System Performance (${bank})`,
+      `${cam} Camshaft Position - Timing Over-Retarded (${bank})`,
+    ][i % 3];
+  });
+});
+family('P', 16, 4, (i) => `Crankshaft Position - Camshaft Position Correlation (Bank ${i < 2 ? 1 : 2} Sensor ${i % 2 ? 'B' : 'A'})`);
+
+const O2_POSITIONS: Array<[number, string]> = [
+  [30, 'Bank 1 Sensor 1'], [36, 'Bank 1 Sensor 2'], [42, 'Bank 1 Sensor 3'],
+  [50, 'Bank 2 Sensor 1'], [56, 'Bank 2 Sensor 2'], [62, 'Bank 2 Sensor 3'],
+];
+O2_POSITIONS.forEach(([first, pos]) =>
+  family('P', first, 3, (i) => `HO2S Heater Control Circuit${['', ' Low', ' High'][i]} (${pos})`)
+);
+Object.assign(GENERIC, {
+  P0068: 'MAP/MAF - Throttle Position Correlation',
+  P0069: 'Manifold Absolute Pressure - Barometric Pressure Correlation',
+  P0087: 'Fuel Rail/System Pressure - Too Low',
+  P0088: 'Fuel Rail/System Pressure - Too High',
+  P0089: 'Fuel Pressure Regulator 1 Performance',
+});
+
+sensorBlock(100, 'Mass or Volume Air Flow');
+sensorBlock(105, 'Manifold Absolute Pressure/Barometric Pressure');
+sensorBlock(110, 'Intake Air Temperature');
+sensorBlock(115, 'Engine Coolant Temperature');
+sensorBlock(120, 'Throttle/Pedal Position Sensor/Switch A');
+Object.assign(GENERIC, {
+  P0125: 'Insufficient Coolant Temperature for Closed Loop Fuel Control',
+  P0126: 'Insufficient Coolant Temperature for Stable Operation',
+  P0128: 'Coolant Thermostat (Coolant Temperature Below Thermostat Regulating Temperature)',
+});
+
+const O2_FAULTS = ['Circuit Malfunction', 'Circuit Low Voltage', 'Circuit High Voltage', 'Circuit Slow Response', 'Circuit No Activity Detected', 'Heater Circuit Malfunction'];
+[
+  [130, 'Bank 1 Sensor 1'], [136, 'Bank 1 Sensor 2'], [142, 'Bank 1 Sensor 3'],
+  [150, 'Bank 2 Sensor 1'], [156, 'Bank 2 Sensor 2'], [162, 'Bank 2 Sensor 3'],
+].forEach(([first, pos]) => family('P', first as number, 6, (i) => `O2 Sensor ${O2_FAULTS[i]} (${pos})`));
+
+Object.assign(GENERIC, {
+  P0170: 'Fuel Trim Malfunction (Bank 1)',
+  P0171: 'System Too Lean (Bank 1)',
+  P0172: 'System Too Rich (Bank 1)',
+  P0173: 'Fuel Trim Malfunction (Bank 2)',
+  P0174: 'System Too Lean (Bank 2)',
+  P0175: 'System Too Rich (Bank 2)',
+});
+sensorBlock(180, 'Fuel Temperature Sensor A');
+sensorBlock(185, 'Fuel Temperature Sensor B');
+sensorBlock(190, 'Fuel Rail Pressure Sensor');
+sensorBlock(195, 'Engine Oil Temperature Sensor');
+
+GENERIC.P0200 = 'Injector Circuit Malfunction';
+family('P', 201, 12, (i) => `Injector Circuit Malfunction - Cylinder ${i + 1}`);
+Object.assign(GENERIC, {
+  P0217: 'Engine Overtemperature Condition',
+  P0218: 'Transmission Over Temperature Condition',
+  P0219: 'Engine Overspeed Condition',
+});
+sensorBlock(220, 'Throttle/Pedal Position Sensor/Switch B');
+sensorBlock(225, 'Throttle/Pedal Position Sensor/Switch C');
+Object.assign(GENERIC, {
+  P0230: 'Fuel Pump Primary Circuit Malfunction',
+  P0234: 'Turbo/Supercharger Engine Overboost Condition',
+  P0299: 'Turbo/Supercharger Underboost',
+});
+for (let cyl = 1; cyl <= 12; cyl++) {
+  const first = 261 + (cyl - 1) * 3;
+  GENERIC[`P0${first}`] = `Cylinder ${cyl} Injector Circuit Low`;
+  GENERIC[`P0${first + 1}`] = `Cylinder ${cyl} Injector Circuit High`;
+  GENERIC[`P0${first + 2}`] = `Cylinder ${cyl} Contribution/Balance Fault`;
+}
+
+// --- P03xx: ignition system or misfire ------------------------------------
+
+GENERIC.P0300 = 'Random/Multiple Cylinder Misfire Detected';
+family('P', 301, 12, (i) => `Cylinder ${i + 1} Misfire Detected`);
+sensorBlock(325, 'Knock Sensor 1 (Bank 1 or Single Sensor)');
+sensorBlock(330, 'Knock Sensor 2 (Bank 2)');
+sensorBlock(335, 'Crankshaft Position Sensor A');
+sensorBlock(340, 'Camshaft Position Sensor A (Bank 1 or Single Sensor)');
+GENERIC.P0350 = 'Ignition Coil Primary/Secondary Circuit Malfunction';
+'ABCDEFGHIJKL'.split('').forEach((coil, i) => {
+  GENERIC[`P0${351 + i}`] = `Ignition Coil ${coil} Primary/Secondary Circuit Malfunction`;
+});
+sensorBlock(365, 'Camshaft Position Sensor B (Bank 1)');
+sensorBlock(390, 'Camshaft Position Sensor B (Bank 2)');
+
+// --- P04xx: auxiliary emission controls -----------------------------------
+
+Object.assign(GENERIC, {
+  P0400: 'Exhaust Gas Recirculation Flow Malfunction',
+  P0401: 'Exhaust Gas Recirculation Flow Insufficient Detected',
+  P0402: 'Exhaust Gas Recirculation Flow Excessive Detected',
+  P0403: 'Exhaust Gas Recirculation Circuit Malfunction',
+  P0404: 'Exhaust Gas Recirculation Circuit Range/Performance',
+  P0405: 'Exhaust Gas Recirculation Sensor A Circuit Low',
+  P0406: 'Exhaust Gas Recirculation Sensor A Circuit High',
+  P0407: 'Exhaust Gas Recirculation Sensor B Circuit Low',
+  P0408: 'Exhaust Gas Recirculation Sensor B Circuit High',
+  P0410: 'Secondary Air Injection System Malfunction',
+  P0411: 'Secondary Air Injection System Incorrect Flow Detected',
+  P0412: 'Secondary Air Injection System Switching Valve A Circuit Malfunction',
+  P0413: 'Secondary Air Injection System Switching Valve A Circuit Open',
+  P0414: 'Secondary Air Injection System Switching Valve A Circuit Shorted',
+  P0415: 'Secondary Air Injection System Switching Valve B Circuit Malfunction',
+  P0416: 'Secondary Air Injection System Switching Valve B Circuit Open',
+  P0417: 'Secondary Air Injection System Switching Valve B Circuit Shorted',
+  P0418: 'Secondary Air Injection System Relay A Circuit Malfunction',
+  P0419: 'Secondary Air Injection System Relay B Circuit Malfunction',
+});
+['Bank 1', 'Bank 2'].forEach((bank, b) =>
+  family('P', 420 + b * 10, 5, (i) => [
+    `Catalyst System Efficiency Below Threshold (${bank})`,
+    `Warm Up Catalyst Efficiency Below Threshold (${bank})`,
+    `Main Catalyst Efficiency Below Threshold (${bank})`,
+    `Heated Catalyst Efficiency Below Threshold (${bank})`,
+    `Heated Catalyst Temperature Below Threshold (${bank})`,
+  ][i])
+);
+Object.assign(GENERIC, {
+  P0440: 'Evaporative Emission Control System Malfunction',
+  P0441: 'Evaporative Emission Control System Incorrect Purge Flow',
+  P0442: 'Evaporative Emission Control System Leak Detected (Small Leak)',
+  P0443: 'Evaporative Emission Control System Purge Control Valve Circuit Malfunction',
+  P0444: 'Evaporative Emission Control System Purge Control Valve Circuit Open',
+  P0445: 'Evaporative Emission Control System Purge Control Valve Circuit Shorted',
+  P0446: 'Evaporative Emission Control System Vent Control Circuit Malfunction',
+  P0447: 'Evaporative Emission Control System Vent Control Circuit Open',
+  P0448: 'Evaporative Emission Control System Vent Control Circuit Shorted',
+  P0449: 'Evaporative Emission Control System Vent Valve/Solenoid Circuit Malfunction',
+  P0450: 'Evaporative Emission Control System Pressure Sensor Malfunction',
+  P0451: 'Evaporative Emission Control System Pressure Sensor Range/Performance',
+  P0452: 'Evaporative Emission Control System Pressure Sensor Low Input',
+  P0453: 'Evaporative Emission Control System Pressure Sensor High Input',
+  P0454: 'Evaporative Emission Control System Pressure Sensor Intermittent',
+  P0455: 'Evaporative Emission Control System Leak Detected (Gross Leak)',
+  P0456: 'Evaporative Emission Control System Leak Detected (Very Small Leak)',
+  P0457: 'Evaporative Emission Control System Leak Detected (Fuel Cap Loose/Off)',
+});
+sensorBlock(460, 'Fuel Level Sensor');
+family('P', 480, 3, (i) => `Cooling Fan ${i + 1} Control Circuit Malfunction`);
+
+// --- P05xx: vehicle speed, idle control and auxiliary inputs --------------
+
+Object.assign(GENERIC, {
+  P0500: 'Vehicle Speed Sensor Malfunction',
+  P0501: 'Vehicle Speed Sensor Range/Performance',
+  P0502: 'Vehicle Speed Sensor Circuit Low Input',
+  P0503: 'Vehicle Speed Sensor Intermittent/Erratic/High',
+  P0505: 'Idle Control System Malfunction',
+  P0506: 'Idle Control System RPM Lower Than Expected',
+  P0507: 'Idle Control System RPM Higher Than Expected',
+});
+sensorBlock(520, 'Engine Oil Pressure Sensor/Switch');
+sensorBlock(530, 'A/C Refrigerant Pressure Sensor');
+Object.assign(GENERIC, {
+  P0560: 'System Voltage Malfunction',
+  P0561: 'System Voltage Unstable',
+  P0562: 'System Voltage Low',
+  P0563: 'System Voltage High',
+  P0571: 'Cruise Control/Brake Switch A Circuit Malfunction',
+});
+
+// --- P06xx: computer and output circuits ----------------------------------
+
+Object.assign(GENERIC, {
+  P0600: 'Serial Communication Link Malfunction',
+  P0601: 'Internal Control Module Memory Check Sum Error',
+  P0602: 'Control Module Programming Error',
+  P0603: 'Internal Control Module Keep Alive Memory (KAM) Error',
+  P0604: 'Internal Control Module Random Access Memory (RAM) Error',
+  P0605: 'Internal Control Module Read Only Memory (ROM) Error',
+  P0606: 'PCM Processor Fault',
+  P0620: 'Generator Control Circuit Malfunction',
+  P0621: 'Generator Lamp "L" Control Circuit Malfunction',
+  P0622: 'Generator Field "F" Control Circuit Malfunction',
+});
+
+// --- P07xx / P08xx: transmission -------------------------------------------
+
+GENERIC.P0700 = 'Transmission Control System Malfunction';
+sensorBlock(705, 'Transmission Range Sensor (PRNDL Input)');
+sensorBlock(710, 'Transmission Fluid Temperature Sensor');
+['Input/Turbine Speed Sensor', 'Output Speed Sensor'].forEach((name, n) =>
+  family('P', 715 + n * 5, 4, (i) => `${name} Circuit ${['Malfunction', 'Range/Performance', 'No Signal', 'Intermittent'][i]}`)
+);
+GENERIC.P0730 = 'Incorrect Gear Ratio';
+family('P', 731, 6, (i) => (i === 5 ? 'Reverse Incorrect Ratio' : `Gear ${i + 1} Incorrect Ratio`));
+solenoidBlock(740, 'Torque Converter Clutch Circuit');
+solenoidBlock(745, 'Pressure Control Solenoid');
+'ABCDE'.split('').forEach((s, n) => solenoidBlock(750 + n * 5, `Shift Solenoid ${s}`));
+GENERIC.P0850 = 'Park/Neutral Switch Input Circuit';
+
+// --- P0Axx: hybrid propulsion ----------------------------------------------
+
+Object.assign(GENERIC, {
+  P0A7F: 'Hybrid Battery Pack Deterioration',
+  P0A80: 'Replace Hybrid Battery Pack',
+  P0AA6: 'Hybrid Battery Voltage System Isolation Fault',
+});
+
+// --- P2xxx: SAE-controlled extension ----------------------------------------
+
+Object.assign(GENERIC, {
+  P2002: 'Diesel Particulate Filter Efficiency Below Threshold (Bank 1)',
+  P2004: 'Intake Manifold Runner Control Stuck Open (Bank 1)',
+  P2008: 'Intake Manifold Runner Control Circuit/Open (Bank 1)',
+  P2096: 'Post Catalyst Fuel Trim System Too Lean (Bank 1)',
+  P2097: 'Post Catalyst Fuel Trim System Too Rich (Bank 1)',
+  P2098: 'Post Catalyst Fuel Trim System Too Lean (Bank 2)',
+  P2099: 'Post Catalyst Fuel Trim System Too Rich (Bank 2)',
+  P2101: 'Throttle Actuator Control Motor Circuit Range/Performance',
+  P2111: 'Throttle Actuator Control System - Stuck Open',
+  P2112: 'Throttle Actuator Control System - Stuck Closed',
+  P2119: 'Throttle Actuator Control Throttle Body Range/Performance',
+  P2122: 'Throttle/Pedal Position Sensor/Switch D Circuit Low Input',
+  P2123: 'Throttle/Pedal Position Sensor/Switch D Circuit High Input',
+  P2127: 'Throttle/Pedal Position Sensor/Switch E Circuit Low Input',
+  P2128: 'Throttle/Pedal Position Sensor/Switch E Circuit High Input',
+  P2135: 'Throttle/Pedal Position Sensor/Switch A/B Voltage Correlation',
+  P2138: 'Throttle/Pedal Position Sensor/Switch D/E Voltage Correlation',
+  P2187: 'System Too Lean at Idle (Bank 1)',
+  P2188: 'System Too Rich at Idle (Bank 1)',
+  P2189: 'System Too Lean at Idle (Bank 2)',
+  P2190: 'System Too Rich at Idle (Bank 2)',
+  P2191: 'System Too Lean at Higher Load (Bank 1)',
+  P2192: 'System Too Rich at Higher Load (Bank 1)',
+  P2195: 'O2 Sensor Signal Stuck Lean (Bank 1 Sensor 1)',
+  P2196: 'O2 Sensor Signal Stuck Rich (Bank 1 Sensor 1)',
+  P2197: 'O2 Sensor Signal Stuck Lean (Bank 2 Sensor 1)',
+  P2198: 'O2 Sensor Signal Stuck Rich (Bank 2 Sensor 1)',
+  P2227: 'Barometric Pressure Circuit Range/Performance',
+  P2228: 'Barometric Pressure Circuit Low',
+  P2229: 'Barometric Pressure Circuit High',
+  P2270: 'O2 Sensor Signal Stuck Lean (Bank 1 Sensor 2)',
+  P2271: 'O2 Sensor Signal Stuck Rich (Bank 1 Sensor 2)',
+  P2272: 'O2 Sensor Signal Stuck Lean (Bank 2 Sensor 2)',
+  P2273: 'O2 Sensor Signal Stuck Rich (Bank 2 Sensor 2)',
+  P2440: 'Secondary Air Injection System Switching Valve Stuck Open (Bank 1)',
+  P2441: 'Secondary Air Injection System Switching Valve Stuck Closed (Bank 1)',
+  P2463: 'Diesel Particulate Filter Restriction - Soot Accumulation',
+  P242F: 'Diesel Particulate Filter Restriction - Ash Accumulation',
+  P20EE: 'SCR NOx Catalyst Efficiency Below Threshold (Bank 1)',
+  P2610: 'ECM/PCM Internal Engine Off Timer Performance',
+  P2A00: 'O2 Sensor Circuit Range/Performance (Bank 1 Sensor 1)',
+});
+
+// --- C0xxx / B0xxx / U0xxx -------------------------------------------------
+
+Object.assign(GENERIC, {
+  C0035: 'Left Front Wheel Speed Sensor Circuit',
+  C0040: 'Right Front Wheel Speed Sensor Circuit',
+  C0045: 'Left Rear Wheel Speed Sensor Circuit',
+  C0050: 'Right Rear Wheel Speed Sensor Circuit',
+  C0110: 'Pump Motor Circuit',
+  C0121: 'Valve Relay Circuit',
+  C0161: 'ABS/TCS Brake Switch Circuit',
+  C0196: 'Yaw Rate Sensor Circuit',
+  C0265: 'EBCM Motor Relay Circuit',
+
+  B0001: 'Driver Frontal Stage 1 Deployment Control',
+  B0002: 'Driver Frontal Stage 2 Deployment Control',
+  B0010: 'Passenger Frontal Stage 1 Deployment Control',
+  B0011: 'Passenger Frontal Stage 2 Deployment Control',
+  B0020: 'Left Side Airbag Deployment Control',
+  B0028: 'Right Side Airbag Deployment Control',
+  B0100: 'Electronic Frontal Sensor 1',
+
+  U0001: 'High Speed CAN Communication Bus',
+  U0073: 'Control Module Communication Bus A Off',
+  U0100: 'Lost Communication With ECM/PCM A',
+  U0101: 'Lost Communication With TCM',
+  U0102: 'Lost Communication With Transfer Case Control Module',
+  U0121: 'Lost Communication With Anti-Lock Brake System (ABS) Control Module',
+  U0131: 'Lost Communication With Power Steering Control Module',
+  U0140: 'Lost Communication With Body Control Module',
+  U0151: 'Lost Communication With Restraints Control Module',
+  U0155: 'Lost Communication With Instrument Panel Cluster (IPC) Control Module',
+  U0164: 'Lost Communication With HVAC Control Module',
+  U0184: 'Lost Communication With Radio',
+  U0401: 'Invalid Data Received From ECM/PCM A',
+  U0402: 'Invalid Data Received From TCM',
+  U0415: 'Invalid Data Received From Anti-Lock Brake System (ABS) Control Module',
+});
+
+// ============================================================================
+// MANUFACTURER-SPECIFIC DEFINITIONS
+// ============================================================================
+
+const MANUFACTURER: Record<string, Record<string, string>> = {
+  Ford: {
+    P1000: 'OBD-II Monitor Testing Not Complete',
+    P1131: 'Lack of HO2S11 Switch - Sensor Indicates Lean (Bank 1)',
+    P1151: 'Lack of HO2S21 Switch - Sensor Indicates Lean (Bank 2)',
+    P1233: 'Fuel Pump Driver Module Disabled or Offline',
+    P1260: 'Theft Detected - Vehicle Immobilized',
+    P1450: 'Unable to Bleed Up Fuel Tank Vacuum',
+    P1506: 'Idle Air Control Overspeed Error',
+    P1507: 'Idle Air Control Underspeed Error',
+  },
+  GM: {
+    P1101: 'Intake Airflow System Performance',
+    P1133: 'HO2S Insufficient Switching (Bank 1 Sensor 1)',
+    P1174: 'Fuel Trim Cylinder Balance (Bank 1)',
+    P1345: 'Crankshaft Position - Camshaft Position Correlation',
+    P1416: 'Secondary Air Injection Switching Valve A Circuit (Bank 1)',
+    P1516: 'Throttle Actuator Control Module Throttle Actuator Position Performance',
+    P1626: 'Theft Deterrent Fuel Enable Signal Not Received',
+  },
+  Toyota: {
+    P1130: 'Air/Fuel Sensor Circuit Range/Performance (Bank 1 Sensor 1)',
+    P1135: 'Air/Fuel Sensor Heater Circuit (Bank 1 Sensor 1)',
+    P1349: 'VVT System Malfunction (Bank 1)',
+    P1604: 'Startability Malfunction',
+    P1656: 'Oil Control Valve Circuit Malfunction (Bank 1)',
+  },
+  Honda: {
+    P1259: 'VTEC System Malfunction',
+    P1361: 'TDC Sensor Intermittent Interruption',
+    P1399: 'Random Cylinder Misfire Detected',
+    P1456: 'EVAP Emission Control System Leak Detected (Fuel Tank System)',
+    P1457: 'EVAP Emission Control System Leak Detected (Canister System)',
+    P1491: 'EGR Valve Lift Insufficient Detected',
+  },
+  Nissan: {
+    P1148: 'Closed Loop Control (Bank 1)',
+    P1320: 'Ignition Signal - Primary',
+    P1610: 'NATS Lock Mode Detected',
+    P1706: 'Park/Neutral Position Switch',
+  },
+  Chrysler: {
+    P1281: 'Engine Is Cold Too Long',
+    P1391: 'Intermittent Loss of CMP or CKP',
+    P1494: 'Leak Detection Pump Switch or Mechanical Fault',
+    P1682: 'Charging System Voltage Too Low',
+  },
+  Volkswagen: {
+    P1136: 'Long Term Fuel Trim Additive, Air, Bank 1 - System Too Lean',
+    P1296: 'Cooling System Malfunction',
+  },
+  Hyundai: {
+    P1326: 'Knock Sensor Detecting System (KSDS) Detected Engine Knock',
+  },
+};
+
+/** Brands that share a parent's code tables. */
+const MAKE_ALIASES: Record<string, string> = {
+  ford: 'Ford', lincoln: 'Ford', mercury: 'Ford',
+  chevrolet: 'GM', chevy: 'GM', gmc: 'GM', buick: 'GM', cadillac: 'GM', pontiac: 'GM', saturn: 'GM', oldsmobile: 'GM', gm: 'GM',
+  toyota: 'Toyota', lexus: 'Toyota', scion: 'Toyota',
+  honda: 'Honda', acura: 'Honda',
+  nissan: 'Nissan', infiniti: 'Nissan',
+  chrysler: 'Chrysler', dodge: 'Chrysler', jeep: 'Chrysler', ram: 'Chrysler', plymouth: 'Chrysler',
+  volkswagen: 'Volkswagen', vw: 'Volkswagen', audi: 'Volkswagen',
+  hyundai: 'Hyundai', kia: 'Hyundai', genesis: 'Hyundai',
+};
+
+/** Parent group whose code tables apply to `make` (e.g. "Lexus" → "Toyota"), if known. */
+export function makeGroup(make?: string): string | undefined {
+  return make ? MAKE_ALIASES[make.trim().toLowerCase()] : undefined;
+}
+
+// ============================================================================
+// SUBSYSTEMS, CAUSES & SYMPTOMS
+// ============================================================================
+
+/** SAE J2012 subsystem for a code's third character (P codes) or letter. */
+function subsystemOf(code: string): string {
+  switch (code[0]) {
+    case 'C': return 'Chassis';
+    case 'B': return 'Body';
+    case 'U': return 'Network Communication';
+  }
+  switch (code[2]) {
+    case '0':
+    case '1':
+    case '2': return 'Fuel and Air Metering';
+    case '3': return 'Ignition System or Misfire';
+    case '4': return 'Auxiliary Emission Controls';
+    case '5': return 'Vehicle Speed, Idle Control and Auxiliary Inputs';
+    case '6': return 'Computer and Output Circuits';
+    case '7':
+    case '8':
+    case '9': return 'Transmission';
+    case 'A': return 'Hybrid Propulsion';
+    default: return 'Powertrain';
+  }
+}
+
+/** P1xxx, P30xx–P33xx and C1/B1/U1 (and C2/B2/U2) ranges are assigned by each manufacturer. */
+function isManufacturerRange(code: string): boolean {
+  if (code[1] === '1') return true;
+  if (code[0] === 'P') return code[1] === '3' && '0123'.includes(code[2]);
+  return code[1] === '2';
+}
+
+interface CodeDetails {
+  match: RegExp; // Against the code
+  when?: RegExp; // Against the description, to split a family
+  common_causes: string[];
+  symptoms: string[];
+}
+
+// First match wins, so specific codes come before their families
+const DETAILS: CodeDetails[] = [
+  {
+    match: /^P0420|^P0430|^P04[23][1-4]/,
+    common_causes: ['Faulty catalytic converter', 'Exhaust leak before O2 sensor', 'Faulty downstream O2 sensor', 'Engine misfire causing catalyst damage'],
+    symptoms: ['Check engine light', 'Reduced fuel efficiency', 'Sulfur smell from exhaust'],
+  },
+  {
+    match: /^P0128|^P012[56]/,
+    common_causes: ['Stuck-open thermostat', 'Faulty coolant temp sensor', 'Low coolant level'],
+    symptoms: ['Check engine light', 'Heater not working well', 'Poor fuel economy'],
+  },
+  {
+    match: /^P0217/,
+    common_causes: ['Low coolant level or leak', 'Failed thermostat', 'Failed water pump', 'Cooling fan not operating', 'Head gasket failure'],
+    symptoms: ['Temperature gauge in the red', 'Steam from engine bay', 'Reduced power (limp mode)'],
+  },
+  {
+    match: /^P017[0-5]|^P2(18[7-9]|19[0-2])/,
+    when: /Lean/,
+    common_causes: ['Vacuum leak', 'Dirty or faulty MAF sensor', 'Weak fuel pump', 'Clogged fuel filter or injectors'],
+    symptoms: ['Check engine light', 'Rough idle', 'Lack of power', 'Hesitation on acceleration'],
+  },
+  {
+    match: /^P017[0-5]|^P2(18[7-9]|19[0-2])/,
+    when: /Rich/,
+    common_causes: ['Leaking fuel injector', 'High fuel pressure / faulty regulator', 'Faulty MAF or coolant temp sensor', 'Restricted air filter'],
+    symptoms: ['Check engine light', 'Black smoke', 'Fuel smell', 'Poor fuel economy'],
+  },
+  {
+    match: /^P0(30\d|31[0-2])|^P1399/,
+    common_causes: ['Worn spark plugs', 'Faulty ignition coil', 'Vacuum leak', 'Low compression', 'Bad fuel injector'],
+    symptoms: ['Engine shaking/vibration', 'Poor acceleration', 'Flashing check engine light', 'Rough idle'],
+  },
+  {
+    match: /^P0(35\d|36[0-2])/,
+    common_causes: ['Failed ignition coil', 'Damaged coil connector or wiring', 'Worn spark plug overloading the coil'],
+    symptoms: ['Misfire on the affected cylinder', 'Rough idle', 'Check engine light'],
+  },
+  {
+    match: /^P03(2[5-9]|3[0-4])/,
+    common_causes: ['Faulty knock sensor', 'Damaged sensor wiring', 'Actual detonation from low-octane fuel or carbon buildup'],
+    symptoms: ['Check engine light', 'Reduced power from retarded timing', 'Pinging under load'],
+  },
+  {
+    match: /^P03(3[5-9]|4\d|6[5-9]|9[0-4])|^P00(1[6-9])|^P1345|^P1391/,
+    common_causes: ['Faulty crankshaft or camshaft position sensor', 'Stretched timing chain or jumped belt', 'Damaged reluctor wheel', 'Wiring or connector fault'],
+    symptoms: ['Crank-no-start or stalling', 'Intermittent misfire', 'Check engine light'],
+  },
+  {
+    match: /^P00(1[0-5]|2[0-5])|^P1349|^P1656|^P1259/,
+    common_causes: ['Low or dirty engine oil', 'Faulty oil control (VVT) solenoid', 'Worn timing chain or cam phaser'],
+    symptoms: ['Rough idle', 'Rattle on start-up', 'Reduced power and fuel economy'],
+  },
+  {
+    match: /^P01(3\d|4[0-7]|5\d|6[0-7])|^P00([3-5]\d|6[0-4])|^P2(19[5-8]|27[0-3])|^P2A00|^P113[05]|^P1133/,
+    common_causes: ['Aged or contaminated O2 sensor', 'Failed sensor heater', 'Exhaust leak near the sensor', 'Wiring chafed on exhaust'],
+    symptoms: ['Check engine light', 'Reduced fuel economy', 'Failed emissions test'],
+  },
+  {
+    match: /^P010[0-4]|^P1101/,
+    common_causes: ['Dirty or failed MAF sensor', 'Air leak after the MAF', 'Clogged air filter', 'Wiring or connector fault'],
+    symptoms: ['Hesitation or stalling', 'Poor fuel economy', 'Check engine light'],
+  },
+  {
+    match: /^P0(20\d|21[0-2]|2[6-9]\d)/,
+    common_causes: ['Clogged or leaking injector', 'Open or shorted injector winding', 'Injector wiring or driver fault'],
+    symptoms: ['Misfire', 'Rough idle', 'Fuel smell', 'Check engine light'],
+  },
+  {
+    match: /^P04[45]\d|^P145[67]|^P1450|^P1494/,
+    common_causes: ['Loose or faulty gas cap', 'Cracked EVAP hose', 'Faulty purge valve', 'Faulty vent valve'],
+    symptoms: ['Check engine light', 'Fuel smell from engine bay'],
+  },
+  {
+    match: /^P040\d|^P1491/,
+    common_causes: ['Clogged EGR valve or passages', 'Faulty EGR position sensor', 'Vacuum leak in EGR system'],
+    symptoms: ['Check engine light', 'Engine ping/knock under load', 'Rough idle'],
+  },
+  {
+    match: /^P050[5-7]|^P150[67]/,
+    common_causes: ['Vacuum leak', 'Dirty throttle body', 'Faulty IAC valve', 'Faulty MAF sensor'],
+    symptoms: ['Idle speed too high or too low', 'Rough idle', 'Check engine light'],
+  },
+  {
+    match: /^P056[0-3]|^P062[0-2]|^P1682/,
+    common_causes: ['Failing alternator or voltage regulator', 'Weak battery', 'Corroded battery terminals or grounds', 'Loose drive belt'],
+    symptoms: ['Battery warning light', 'Dim lights', 'Hard starting'],
+  },
+  {
+    match: /^P0(08[7-9]|19\d|23[0-4]|299)|^P1233/,
+    common_causes: ['Weak fuel pump', 'Clogged fuel filter', 'Faulty fuel pressure regulator or sensor', 'Turbo or boost leak (boost codes)'],
+    symptoms: ['Lack of power under load', 'Hard starting', 'Stalling'],
+  },
+  {
+    match: /^P2(00[2]|463|42F)|^P20EE/,
+    common_causes: ['Excessive short-trip driving', 'Failed regeneration', 'Faulty DPF pressure or NOx sensor', 'Low or poor-quality DEF'],
+    symptoms: ['Reduced power (limp mode)', 'DPF or emissions warning light', 'Increased fuel consumption'],
+  },
+  {
+    match: /^P2(10\d|11\d|12\d|13[5-8])|^P012\d|^P02(2\d)|^P1516/,
+    common_causes: ['Dirty electronic throttle body', 'Faulty throttle or pedal position sensor', 'Wiring or connector fault'],
+    symptoms: ['Reduced power (limp mode)', 'Poor throttle response', 'Stalling'],
+  },
+  {
+    match: /^P0[78]/,
+    common_causes: ['Low or degraded transmission fluid', 'Faulty shift or TCC solenoid', 'Failed speed or range sensor', 'Internal transmission wear'],
+    symptoms: ['Harsh or delayed shifts', 'Transmission slipping', 'Stuck in one gear (limp mode)'],
+  },
+  {
+    match: /^P0A/,
+    common_causes: ['Aged hybrid battery modules', 'Battery cooling fan or duct blocked', 'High-voltage isolation fault'],
+    symptoms: ['Hybrid system warning', 'Reduced electric assist', 'Poor fuel economy'],
+  },
+  {
+    match: /^P06/,
+    common_causes: ['Internal control module fault', 'Poor module power or ground', 'Corrupted or outdated software'],
+    symptoms: ['Check engine light', 'Intermittent drivability issues', 'No communication with scan tool'],
+  },
+  {
+    match: /^C00[3-5]|^C0245/,
+    common_causes: ['Faulty wheel speed sensor', 'Damaged sensor wiring', 'Debris on or damaged tone ring', 'Excessive wheel bearing play'],
+    symptoms: ['ABS and traction control lights on', 'ABS inactive'],
+  },
+  {
+    match: /^C/,
+    common_causes: ['Faulty ABS/stability control component', 'Wiring or connector fault', 'Low brake fluid'],
+    symptoms: ['ABS or stability control warning light'],
+  },
+  {
+    match: /^B00/,
+    common_causes: ['Faulty clock spring or airbag connector', 'Failed airbag module or sensor', 'Seat wiring disturbed'],
+    symptoms: ['Airbag (SRS) warning light', 'Airbag may not deploy in a crash'],
+  },
+  {
+    match: /^U/,
+    common_causes: ['Module lost power or ground', 'CAN bus wiring fault', 'Low battery voltage during cranking', 'Failed control module'],
+    symptoms: ['Multiple warning lights', 'Inoperative gauges or features', 'No-start in some cases'],
+  },
+];
+
+const DEFAULT_DETAILS = {
+  common_causes: ['Professional diagnosis recommended'],
+  symptoms: ['Check engine light illuminated'],
+};
+
+function detailsFor(code: string, description: string) {
+  return DETAILS.find((d) => d.match.test(code) && (!d.when || d.when.test(description))) ?? DEFAULT_DETAILS;
+}
+
+// ============================================================================
+// LOOKUP & SEARCH
+// ============================================================================
+
+export function isValidDTC(code: string): boolean {
+  return DTC_PATTERN.test(code.trim().toUpperCase());
+}
+
+/**
+ * Definition for a code. Manufacturer ranges are resolved against `make`'s
+ * tables; codes with no stored definition still get their SAE subsystem
+ * (`source: 'range'`). Returns null only for malformed codes.
+ */
+export function lookupDTC(code: string, make?: string): DTCDefinition | null {
+  const normalized = code.trim().toUpperCase();
+  if (!DTC_PATTERN.test(normalized)) return null;
+
+  const manufacturerSpecific = isManufacturerRange(normalized);
+  const group = makeGroup(make);
+  const makeDescription = manufacturerSpecific && group ? MANUFACTURER[group]?.[normalized] : undefined;
+  const genericDescription = manufacturerSpecific ? undefined : GENERIC[normalized];
+  const subsystem = subsystemOf(normalized);
+
+  const description =
+    makeDescription ??
+    genericDescription ??
+    (manufacturerSpecific
+      ? `${group ?? 'Manufacturer'}-specific ${subsystem} code`
+      : `${subsystem} code (generic definition not in the offline database)`);
+  return {
+    code: normalized,
+    description,
+    subsystem,
+    manufacturer_specific: manufacturerSpecific,
+    make: makeDescription ? group : undefined,
+    source: makeDescription ? 'manufacturer' : genericDescription ? 'generic' : 'range',
+    // Make-specific families only apply when the make's table defined the code
+    ...(manufacturerSpecific && !makeDescription ? DEFAULT_DETAILS : detailsFor(normalized, description)),
+  };
+}
+
+/**
+ * Keyword search over code numbers and descriptions, e.g. "lean bank 2" or
+ * "P03 coil". Every word must match. Make-specific codes are included when `make` is given.
+ */
+export function searchDTCs(query: string, options: { make?: string; limit?: number } = {}): DTCDefinition[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  const group = makeGroup(options.make);
+  const codes = [...Object.keys(GENERIC), ...Object.keys((group && MANUFACTURER[group]) || {})];
+
+  // Code-like terms ("p03", "u0100") match the code prefix; other words match the description
+  const isCodeTerm = (t: string) => /^[pcbu][0-3]/.test(t);
+  return codes
+    .filter((code) => {
+      const description = ((group && MANUFACTURER[group]?.[code]) || GENERIC[code]).toLowerCase();
+      return terms.every((t) => (isCodeTerm(t) ? code.toLowerCase().startsWith(t) : description.includes(t)));
+    })
+    .sort((a, b) => Number(b.toLowerCase() === terms[0]) - Number(a.toLowerCase() === terms[0]) || a.localeCompare(b))
+    .slice(0, options.limit ?? 25)
+    .map((code) => lookupDTC(code, options.make)!);
+}
+
+/** Number of bundled definitions, for display. */
+export function getDTCDatabaseSize(): number {
+  return Object.keys(GENERIC).length + Object.values(MANUFACTURER).reduce((n, t) => n + Object.keys(t).length, 0);
+}
@@ -0,0 +1,216 @@
+/**
+ * Gear AI CoPilot - DTC → Vehicle System Mapping
+ *
+ * Maps a trouble code to the HealthSystem it affects using SAE J2012 code
+ * ranges (down to the individual sensor block where the subsystem digit is
+ * too coarse — P0115 is cooling, P0130 is exhaust, P0504 is brakes), with
+ * per-manufacturer tables for P1xxx/P3xxx codes.
+ */
+
+import type { HealthSystem } from '../types/diagnostic';
+import { isValidDTC, makeGroup } from './dtc-database';
+
+/** Inclusive code range; codes compare as strings, which orders hex digits correctly. */
+type SystemRange = [from: string, to: string, system: HealthSystem];
+
+const inRange = (code: string, [from, to]: SystemRange) => code >= from && code <= to;
+
+// ============================================================================
+// SAE GENERIC RANGES (first match wins — narrow blocks before the subsystem default)
+// ============================================================================
+
+const GENERIC_RANGES: SystemRange[] = [
+  // P00xx–P02xx fuel and air metering
+  ['P0000', 'P0029', 'engine'], // Cam timing / VVT, intake valve control
+  ['P0030', 'P0064', 'exhaust'], // O2 sensor heaters
+  ['P0087', 'P0095', 'fuel'], // Fuel rail/system pressure
+  ['P0096', 'P0099', 'fuel'], // IAT sensor 2
+  ['P0115', 'P0119', 'cooling'], // Engine coolant temperature sensor
+  ['P0125', 'P0128', 'cooling'], // Coolant temp for closed loop, thermostat
+  ['P0130', 'P0167', 'exhaust'], // O2 sensors
+  ['P0195', 'P0199', 'engine'], // Engine oil temperature
+  ['P0217', 'P0217', 'cooling'], // Engine overtemperature
+  ['P0218', 'P0218', 'transmission'], // Transmission fluid overtemperature
+  ['P0219', 'P0219', 'engine'], // Engine overspeed
+  ['P0234', 'P0260', 'engine'], // Turbo/supercharger
+  ['P0000', 'P02FF', 'fuel'],
+
+  // P03xx ignition and misfire
+  ['P0300', 'P03FF', 'engine'],
+
+  // P04xx auxiliary emission controls
+  ['P0440', 'P0469', 'fuel'], // EVAP, fuel level sensor
+  ['P0480', 'P0485', 'cooling'], // Cooling fan
+  ['P0495', 'P0495', 'cooling'], // Fan speed high
+  ['P0496', 'P0499', 'fuel'], // EVAP flow/vent
+  ['P0400', 'P04FF', 'exhaust'], // EGR, secondary air, catalyst, exhaust pressure
+
+  // P05xx vehicle speed, idle control and auxiliary inputs
+  ['P0500', 'P0503', 'transmission'], // Vehicle speed sensor
+  ['P0504', 'P0504', 'brakes'], // Brake switch A/B correlation
+  ['P0512', 'P0519', 'electrical'], // Starter request, immobilizer, battery sensor
+  ['P0520', 'P0524', 'engine'], // Oil pressure
+  ['P0530', 'P0534', 'cooling'], // A/C refrigerant pressure
+  ['P0544', 'P0549', 'exhaust'], // Exhaust gas temperature
+  ['P0550', 'P0554', 'suspension'], // Power steering pressure
+  ['P0555', 'P0555', 'brakes'], // Brake booster pressure
+  ['P0560', 'P0564', 'electrical'], // System voltage
+  ['P0571', 'P0573', 'brakes'], // Brake switch
+  ['P0565', 'P0596', 'electrical'], // Cruise control
+  ['P0597', 'P0599', 'cooling'], // Thermostat heater
+  ['P0500', 'P05FF', 'engine'], // Idle control
+
+  // P06xx computer and output circuits
+  ['P0627', 'P0629', 'fuel'], // Fuel pump control
+  ['P0600', 'P06FF', 'electrical'],
+
+  // P07xx–P09xx transmission
+  ['P0700', 'P09FF', 'transmission'],
+
+  // P0Axx–P0Cxx hybrid/EV propulsion
+  ['P0A00', 'P0CFF', 'electrical'],
+
+  // P2xxx SAE-controlled extensions
+  ['P2004', 'P2029', 'engine'], // Intake manifold runner control
+  ['P2070', 'P2079', 'engine'], // Intake manifold tuning valve
+  ['P2096', 'P2099', 'fuel'], // Post-catalyst fuel trim
+  ['P2000', 'P2099', 'exhaust'], // NOx trap, EGT, O2 sensor signal offsets
+  ['P2187', 'P2194', 'fuel'], // Lean/rich at idle and off idle
+  ['P2195', 'P2199', 'exhaust'], // O2 sensor signal stuck
+  ['P2100', 'P21FF', 'fuel'], // Throttle actuator control
+  ['P2200', 'P2225', 'exhaust'], // NOx / PM sensors
+  ['P2231', 'P2275', 'exhaust'], // O2 sensor signal circuits
+  ['P2200', 'P22FF', 'fuel'], // Barometric pressure, injection control pressure
+  ['P2300', 'P23FF', 'engine'], // Ignition coils
+  ['P2400', 'P2424', 'fuel'], // EVAP
+  ['P2400', 'P24FF', 'exhaust'], // EGR cooling, secondary air, DPF
+  ['P2540', 'P2549', 'fuel'], // Low pressure fuel system
+  ['P2556', 'P2560', 'cooling'], // Coolant level
+  ['P2500', 'P25FF', 'electrical'], // Generator, ECM power, ignition switch
+  ['P2600', 'P2603', 'cooling'], // Coolant pump
+  ['P2635', 'P2636', 'fuel'], // Fuel pump flow
+  ['P2600', 'P26FF', 'electrical'],
+  ['P2700', 'P28FF', 'transmission'],
+  ['P2A00', 'P2AFF', 'exhaust'], // O2 sensor circuit range
+
+  ['P3400', 'P34FF', 'engine'], // Cylinder deactivation
+
+  // Chassis
+  ['C0000', 'C02FF', 'brakes'], // ABS / traction control
+  ['C0300', 'C03FF', 'transmission'], // Driveline, transfer case
+  ['C0400', 'C0FFF', 'suspension'], // Steering and suspension
+
+  // Network — modules whose loss takes out a specific system
+  ['U0101', 'U0102', 'transmission'], // Lost communication with TCM / transfer case
+  ['U0121', 'U0126', 'brakes'], // ABS, steering angle sensor
+  ['U0131', 'U0131', 'suspension'], // Power steering
+];
+
+/** Manufacturer-controlled P1xxx (and P30xx–P33xx) follow the SAE subsystem digit unless a make table says otherwise. */
+const SUBSYSTEM_DIGIT: Record<string, HealthSystem> = {
+  '0': 'fuel', '1': 'fuel', '2': 'fuel', '3': 'engine', '4': 'exhaust',
+  '5': 'engine', '6': 'electrical', '7': 'transmission', '8': 'transmission', '9': 'transmission',
+};
+
+// ============================================================================
+// MANUFACTURER OVERRIDES (keyed by dtc-database make group)
+// ============================================================================
+
+const MAKE_RANGES: Record<string, SystemRange[]> = {
+  Ford: [
+    ['P1000', 'P1000', 'engine'], // OBD monitor testing not complete
+    ['P1131', 'P1152', 'exhaust'], // Lack of HO2S switch
+    ['P1233', 'P1237', 'fuel'], // Fuel pump driver module
+    ['P1260', 'P1260', 'electrical'], // PATS theft detected
+    ['P1285', 'P1299', 'cooling'], // Cylinder head overtemperature
+    ['P1400', 'P1409', 'exhaust'], // DPFE / EGR
+    ['P1443', 'P1460', 'fuel'], // EVAP purge and vent
+    ['P1500', 'P1500', 'transmission'], // Vehicle speed sensor
+    ['P1572', 'P1572', 'brakes'], // Brake pedal switch
+    ['P1639', 'P1639', 'electrical'], // VID block
+  ],
+  GM: [
+    ['P1101', 'P1101', 'fuel'], // Intake airflow system performance
+    ['P1133', 'P1134', 'exhaust'], // HO2S insufficient switching
+    ['P1345', 'P1345', 'engine'], // Crank/cam position correlation
+    ['P1380', 'P1381', 'engine'], // Misfire detected, rough road data unusable
+    ['P1574', 'P1574', 'brakes'], // Stoplamp switch
+    ['P1626', 'P1631', 'electrical'], // Theft deterrent
+    ['P1870', 'P1870', 'transmission'], // Transmission component slipping
+  ],
+  Toyota: [
+    ['P1100', 'P1100', 'fuel'], // Barometric pressure sensor
+    ['P1120', 'P1129', 'fuel'], // Accelerator pedal / throttle control motor
+    ['P1130', 'P1139', 'exhaust'], // A/F sensor and heater
+    ['P1300', 'P1315', 'engine'], // Igniter
+    ['P1346', 'P1349', 'engine'], // VVT system
+    ['P1400', 'P1415', 'exhaust'], // EGR, secondary air
+    ['P1500', 'P1500', 'electrical'], // Starter signal
+    ['P1600', 'P1600', 'electrical'], // ECM battery supply
+    ['P1656', 'P1656', 'engine'], // Oil control valve
+    ['P1780', 'P1780', 'transmission'], // Park/neutral position switch
+  ],
+  Honda: [
+    ['P1259', 'P1259', 'engine'], // VTEC system
+    ['P1298', 'P1298', 'electrical'], // Electrical load detector
+    ['P1361', 'P1382', 'engine'], // TDC / CYP sensors
+    ['P1456', 'P1457', 'fuel'], // EVAP leak
+    ['P1705', 'P17FF', 'transmission'],
+  ],
+  Nissan: [
+    ['P1148', 'P1168', 'fuel'], // Closed loop control
+    ['P1217', 'P1217', 'cooling'], // Engine overtemperature
+    ['P1273', 'P1286', 'exhaust'], // A/F sensor
+    ['P1610', 'P1615', 'electrical'], // NATS immobilizer
+    ['P1700', 'P17FF', 'transmission'], // CVT
+  ],
+  Chrysler: [
+    ['P1281', 'P1281', 'cooling'], // Engine cold too long
+    ['P1282', 'P1282', 'fuel'], // Fuel pump relay
+    ['P1391', 'P1391', 'engine'], // Intermittent loss of CMP/CKP
+    ['P1494', 'P1495', 'fuel'], // Leak detection pump
+    ['P1684', 'P1684', 'electrical'], // Battery disconnected
+    ['P1740', 'P17FF', 'transmission'],
+  ],
+  Volkswagen: [
+    ['P1128', 'P1129', 'fuel'], // Long term fuel trim
+    ['P1136', 'P1141', 'fuel'],
+    ['P1176', 'P1176', 'exhaust'], // O2 correction behind catalyst
+    ['P1296', 'P1296', 'cooling'], // Cooling system malfunction
+    ['P1386', 'P1386', 'electrical'], // Internal control module
+    ['P3000', 'P33FF', 'engine'],
+  ],
+  Hyundai: [
+    ['P1166', 'P1167', 'exhaust'], // Linear O2 sensor
+    ['P1326', 'P1326', 'engine'], // Knock sensor detection system (rod bearing)
+    ['P1529', 'P1529', 'transmission'], // TCM MIL request
+    ['P1690', 'P1699', 'electrical'], // Immobilizer
+  ],
+};
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * The HealthSystem a code affects. Make-specific tables take precedence, then
+ * SAE ranges; manufacturer-controlled codes with no entry fall back to their
+ * subsystem digit. Unknown or malformed codes map to the engine.
+ */
+export function codeToSystem(code: string, make?: string): HealthSystem {
+  const normalized = code.trim().toUpperCase();
+  if (!isValidDTC(normalized)) return 'engine';
+
+  const group = makeGroup(make);
+  const makeMatch = group ? MAKE_RANGES[group]?.find((r) => inRange(normalized, r)) : undefined;
+  if (makeMatch) return makeMatch[2];
+
+  const generic = GENERIC_RANGES.find((r) => inRange(normalized, r));
+  if (generic) return generic[2];
+
+  switch (normalized[0]) {
+    case 'P': return SUBSYSTEM_DIGIT[normalized[2]] ?? 'engine';
+    case 'C': return normalized[1] === '0' ? 'suspension' : 'brakes'; // Manufacturer C1/C2 codes are mostly ABS
+    default: return 'electrical'; // Body and network
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Gear AI CoPilot - ELM327 Protocol Layer
+ *
+ * AT command initialization, protocol detection, OBD-II request building,
+ * response parsing and ISO 15765-2 (ISO-TP) multi-frame reassembly on top
+ * of a pluggable OBDTransport.
+ */
+
+import type { OBDConnection } from '../types/diagnostic';
+import type { OBDTransport } from './obd-transport';
+
+// ============================================================================
+// PROTOCOLS
+// ============================================================================
+
+export interface ELM327ProtocolInfo {
+  number: string; // ELM327 protocol number (ATDPN), e.g. "6"
+  label: string;
+  family: OBDConnection['protocol'];
+  is_can: boolean;
+  header_bytes: number; // Header length when headers are on (ATH1)
+}
+
+export const ELM327_PROTOCOLS: Record<string, ELM327ProtocolInfo> = {
+  '1': { number: '1', label: 'SAE J1850 PWM (41.6 kbaud)', family: 'J1850PWM', is_can: false, header_bytes: 3 },
+  '2': { number: '2', label: 'SAE J1850 VPW (10.4 kbaud)', family: 'J1850VPW', is_can: false, header_bytes: 3 },
+  '3': { number: '3', label: 'ISO 9141-2 (5 baud init)', family: 'ISO9141', is_can: false, header_bytes: 3 },
+  '4': { number: '4', label: 'ISO 14230-4 KWP (5 baud init)', family: 'KWP2000', is_can: false, header_bytes: 3 },
+  '5': { number: '5', label: 'ISO 14230-4 KWP (fast init)', family: 'KWP2000', is_can: false, header_bytes: 3 },
+  '6': { number: '6', label: 'ISO 15765-4 CAN (11-bit, 500 kbps)', family: 'CAN', is_can: true, header_bytes: 1 },
+  '7': { number: '7', label: 'ISO 15765-4 CAN (29-bit, 500 kbps)', family: 'CAN', is_can: true, header_bytes: 4 },
+  '8': { number: '8', label: 'ISO 15765-4 CAN (11-bit, 250 kbps)', family: 'CAN', is_can: true, header_bytes: 1 },
+  '9': { number: '9', label: 'ISO 15765-4 CAN (29-bit, 250 kbps)', family: 'CAN', is_can: true, header_bytes: 4 },
+  A: { number: 'A', label: 'SAE J1939 CAN (29-bit, 250 kbps)', family: 'CAN', is_can: true, header_bytes: 4 },
+};
+
+/** OBD-II service modes implemented by the command layer. */
+export const OBD_MODES = {
+  CURRENT_DATA: 0x01,
+  FREEZE_FRAME: 0x02,
+  STORED_DTCS: 0x03,
+  CLEAR_DTCS: 0x04,
+  PENDING_DTCS: 0x07,
+  VEHICLE_INFO: 0x09,
+  PERMANENT_DTCS: 0x0a,
+} as const;
+
+const INIT_TIMEOUT_MS = 5000;
+const SEARCH_TIMEOUT_MS = 10000;
+const COMMAND_TIMEOUT_MS = 2000;
+
+/** Responses that mean the adapter or bus failed, rather than "no data". */
+const ELM_ERRORS = [
+  'UNABLE TO CONNECT',
+  'BUS INIT: ...ERROR',
+  'BUS ERROR',
+  'CAN ERROR',
+  'DATA ERROR',
+  'FB ERROR',
+  'BUFFER FULL',
+  'LV RESET',
+  'ACT ALERT',
+  'STOPPED',
+  '<RX ERROR',
+];
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+export interface ELM327Session {
+  transport: OBDTransport;
+  protocol: ELM327ProtocolInfo;
+  elm_version?: string;
+  headers_on: boolean;
+  /** Tail of the command queue; the adapter can only process one command at a time. */
+  queue: Promise<unknown>;
+}
+
+/** One response message from one ECU, with ISO-TP framing removed. */
+export interface OBDMessage {
+  ecu: string; // Response header (e.g. "7E8"), or "ECU" when headers are off
+  data: number[]; // Starts with the response service byte (mode + 0x40)
+}
+
+interface RawFrame {
+  ecu: string;
+  bytes: number[];
+}
+
+/** Run a command through the session queue so concurrent callers never interleave on the wire. */
+export function sendCommand(
+  session: ELM327Session,
+  command: string,
+  timeoutMs = COMMAND_TIMEOUT_MS
+): Promise<string> {
+  const run = session.queue.then(() => session.transport.send(command, timeoutMs));
+  session.queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Reset and configure the adapter, then let it auto-detect the vehicle protocol.
+ * Sequence: ATZ, ATE0, ATL0, ATS1, ATH0, ATSP0, 0100 (triggers the search), ATDPN,
+ * and ATH1 on CAN so ISO-TP frames can be reassembled per ECU.
+ */
+export async function initializeELM327(transport: OBDTransport): Promise<ELM327Session> {
+  if (!transport.isOpen()) await transport.open();
+
+  const session: ELM327Session = {
+    transport,
+    protocol: ELM327_PROTOCOLS['6'],
+    headers_on: false,
+    queue: Promise.resolve(),
+  };
+
+  const reset = await sendCommand(session, 'ATZ', INIT_TIMEOUT_MS);
+  const version = cleanResponse(reset).find((l) => l.startsWith('ELM327'));
+  session.elm_version = version;
+
+  for (const cmd of ['ATE0', 'ATL0', 'ATS1', 'ATH0', 'ATSP0']) {
+    const lines = cleanResponse(await sendCommand(session, cmd));
+    if (!lines.includes('OK')) throw new Error(`Adapter rejected ${cmd}: ${lines.join(' ') || 'no response'}`);
+  }
+
+  // The first OBD request makes the ELM327 search protocols until an ECU answers.
+  const search = cleanResponse(await sendCommand(session, buildOBDRequest(OBD_MODES.CURRENT_DATA, 0x00), SEARCH_TIMEOUT_MS));
+  assertNoELMError(search);
+  if (search.length === 0 || search.includes('NO DATA')) {
+    throw new Error('Vehicle did not respond — check that the ignition is on');
+  }
+
+  const dpn = cleanResponse(await sendCommand(session, 'ATDPN'))[0] || '';
+  const protocol = ELM327_PROTOCOLS[dpn.replace(/^A/, '')];
+  if (!protocol) throw new Error(`Unsupported protocol reported by adapter: ${dpn || 'none'}`);
+  session.protocol = protocol;
+
+  if (protocol.is_can) {
+    // Headers let responses be split per ECU; without them parsing falls back to headerless frames
+    session.headers_on = cleanResponse(await sendCommand(session, 'ATH1')).includes('OK');
+  }
+
+  return session;
+}
+
+/** Release the adapter. Errors are swallowed — the link may already be gone. */
+export async function closeELM327(session: ELM327Session): Promise<void> {
+  try {
+    await session.queue;
+    await session.transport.close();
+  } catch (err) {
+    console.warn('[ELM327] close failed:', err);
+  }
+}
+
+/** Read the adapter's battery voltage sense pin (ATRV). */
+export async function readAdapterVoltage(session: ELM327Session): Promise<number | null> {
+  const line = cleanResponse(await sendCommand(session, 'ATRV'))[0];
+  const volts = line ? parseFloat(line.replace(/V$/i, '')) : NaN;
+  return Number.isFinite(volts) ? volts : null;
+}
+
+// ============================================================================
+// REQUESTS & RESPONSES
+// ============================================================================
+
+/** Build an OBD-II request string, e.g. (0x01, 0x0C) → "010C". */
+export function buildOBDRequest(mode: number, ...params: number[]): string {
+  return [mode, ...params].map((b) => (b & 0xff).toString(16).toUpperCase().padStart(2, '0')).join('');
+}
+
+/** Split raw adapter output into meaningful lines, dropping prompts, echoes and status chatter. */
+export function cleanResponse(raw: string): string[] {
+  return raw
+    .replace(/>/g, '')
+    .split(/[\r\n]+/)
+    .map((l) => l.trim().toUpperCase())
+    .filter((l) => l.length > 0 && l !== 'SEARCHING...')
+    .filter((l) => !l.startsWith('BUS INIT') || l.endsWith('ERROR'));
+}
+
+function assertNoELMError(lines: string[]): void {
+  const err = lines.find((l) => ELM_ERRORS.some((e) => l.startsWith(e)));
+  if (err) throw new Error(`ELM327 error: ${err}`);
+  if (lines.length === 1 && lines[0] === '?') throw new Error('ELM327 did not understand the command');
+}
+
+function parseHexBytes(tokens: string[]): number[] | null {
+  const bytes = tokens.map((t) => parseInt(t, 16));
+  return tokens.every((t) => /^[0-9A-F]{1,2}$/.test(t)) ? bytes : null;
+}
+
+/** Parse cleaned lines into frames, splitting off the CAN header when headers are on. */
+export function parseFrames(lines: string[], session: Pick<ELM327Session, 'protocol' | 'headers_on'>): RawFrame[] {
+  const frames: RawFrame[] = [];
+  for (const line of lines) {
+    if (line === 'NO DATA' || line === 'OK') continue;
+    const tokens = line.includes(' ') ? line.split(/\s+/) : line.match(/.{1,2}/g) || [];
+    if (session.headers_on && session.protocol.is_can) {
+      const headerLen = session.protocol.header_bytes;
+      const header = tokens.slice(0, headerLen).join('');
+      const bytes = parseHexBytes(tokens.slice(headerLen));
+      if (bytes) frames.push({ ecu: header, bytes });
+    } else {
+      const bytes = parseHexBytes(tokens);
+      if (bytes) frames.push({ ecu: 'ECU', bytes });
+    }
+  }
+  return frames;
+}
+
+/**
+ * Reassemble ISO 15765-2 frames into complete messages per ECU.
+ * Single frames (PCI 0x0N) pass straight through; a first frame (0x1N NN)
+ * opens a buffer that consecutive frames (0x2N) fill in sequence order.
+ */
+export function reassembleISOTP(frames: RawFrame[]): OBDMessage[] {
+  const messages: OBDMessage[] = [];
+  const open = new Map<string, { length: number; data: number[]; nextSeq: number }>();
+
+  for (const { ecu, bytes } of frames) {
+    const pci = bytes[0] >> 4;
+    if (pci === 0x0) {
+      const length = bytes[0] & 0x0f;
+      messages.push({ ecu, data: bytes.slice(1, 1 + length) });
+    } else if (pci === 0x1) {
+      const length = ((bytes[0] & 0x0f) << 8) | bytes[1];
+      open.set(ecu, { length, data: bytes.slice(2), nextSeq: 1 });
+    } else if (pci === 0x2) {
+      const buf = open.get(ecu);
+      const seq = bytes[0] & 0x0f;
+      if (!buf || seq !== buf.nextSeq) {
+        console.warn(`[ELM327] Out-of-order consecutive frame from ${ecu}, dropping message`);
+        open.delete(ecu);
+        continue;
+      }
+      buf.data.push(...bytes.slice(1));
+      buf.nextSeq = (buf.nextSeq + 1) & 0x0f;
+      if (buf.data.length >= buf.length) {
+        messages.push({ ecu, data: buf.data.slice(0, buf.length) });
+        open.delete(ecu);
+      }
+    }
+  }
+
+  open.forEach((_buf, ecu) => console.warn(`[ELM327] Incomplete multi-frame response from ${ecu}`));
+  return messages;
+}
+
+/**
+ * Send an OBD-II request and return the positive responses, one per ECU message.
+ * "NO DATA" yields an empty array; negative responses (0x7F) are dropped.
+ */
+export async function sendOBDRequest(
+  session: ELM327Session,
+  mode: number,
+  ...params: number[]
+): Promise<OBDMessage[]> {
+  const lines = cleanResponse(await sendCommand(session, buildOBDRequest(mode, ...params)));
+  assertNoELMError(lines);
+
+  const frames = parseFrames(lines, session);
+  const messages = session.headers_on && session.protocol.is_can
+    ? reassembleISOTP(frames)
+    : frames.map((f) => ({ ecu: f.ecu, data: f.bytes }));
+
+  return messages.filter((m) => m.data[0] === mode + 0x40);
+}
+
+// ============================================================================
+// MODE HELPERS
+// ============================================================================
+
+/** Mode 01: read one PID and return the data bytes (after mode and PID) from the first ECU that answers. */
+export async function readPID(session: ELM327Session, pid: number): Promise<number[] | null> {
+  const messages = await sendOBDRequest(session, OBD_MODES.CURRENT_DATA, pid);
+  const hit = messages.find((m) => m.data[1] === pid);
+  return hit ? hit.data.slice(2) : null;
+}
+
+/**
+ * Mode 02: read one PID from a stored freeze frame. Responses echo the PID and
+ * frame number before the data bytes, which are returned on their own.
+ */
+export async function readFreezeFramePID(session: ELM327Session, pid: number, frame = 0): Promise<number[] | null> {
+  const messages = await sendOBDRequest(session, OBD_MODES.FREEZE_FRAME, pid, frame);
+  const hit = messages.find((m) => m.data[1] === pid && m.data[2] === frame);
+  return hit ? hit.data.slice(3) : null;
+}
+
+/** Mode 02 PID 02: the DTC that caused a freeze frame to be stored, or null if the frame is empty. */
+export async function readFreezeFrameDTC(session: ELM327Session, frame = 0): Promise<string | null> {
+  const data = await readFreezeFramePID(session, 0x02, frame);
+  if (!data || data.length < 2 || (data[0] === 0 && data[1] === 0)) return null;
+  return decodeDTC(data[0], data[1]);
+}
+
+/** Decode a two-byte DTC, e.g. [0x04, 0x20] → "P0420". */
+export function decodeDTC(a: number, b: number): string {
+  const letter = 'PCBU'[a >> 6];
+  const digit = (a >> 4) & 0x03;
+  const rest = (((a & 0x0f) << 8) | b).toString(16).toUpperCase().padStart(3, '0');
+  return `${letter}${digit}${rest}`;
+}
+
+/**
+ * Extract DTCs from Mode 03/07/0A responses. CAN responses carry a count byte
+ * after the service byte; legacy protocols send three code pairs per frame padded with 0000.
+ */
+export function parseDTCMessages(messages: OBDMessage[], isCan: boolean): string[] {
+  const codes = new Set<string>();
+  for (const m of messages) {
+    const payload = isCan ? m.data.slice(2, 2 + m.data[1] * 2) : m.data.slice(1);
+    for (let i = 0; i + 1 < payload.length; i += 2) {
+      if (payload[i] === 0 && payload[i + 1] === 0) continue;
+      codes.add(decodeDTC(payload[i], payload[i + 1]));
+    }
+  }
+  return Array.from(codes);
+}
+
+async function readDTCsForMode(session: ELM327Session, mode: number): Promise<string[]> {
+  const messages = await sendOBDRequest(session, mode);
+  return parseDTCMessages(messages, session.protocol.is_can);
+}
+
+/** Mode 03: confirmed (stored) DTCs. */
+export function readStoredDTCs(session: ELM327Session): Promise<string[]> {
+  return readDTCsForMode(session, OBD_MODES.STORED_DTCS);
+}
+
+/** Mode 07: pending DTCs from the current or last drive cycle. */
+export function readPendingDTCs(session: ELM327Session): Promise<string[]> {
+  return readDTCsForMode(session, OBD_MODES.PENDING_DTCS);
+}
+
+/** Mode 0A: permanent DTCs that survive a Mode 04 clear. */
+export function readPermanentDTCs(session: ELM327Session): Promise<string[]> {
+  return readDTCsForMode(session, OBD_MODES.PERMANENT_DTCS);
+}
+
+/** Mode 04: clear DTCs and freeze frames. Returns true when an ECU acknowledged. */
+export async function clearDTCs(session: ELM327Session): Promise<boolean> {
+  const messages = await sendOBDRequest(session, OBD_MODES.CLEAR_DTCS);
+  return messages.length > 0;
+}
@@ -0,0 +1,393 @@
+/**
+ * Gear AI CoPilot - Financing Service
+ *
+ * Loan and lease accounts on financial_accounts, and the payments recorded
+ * against loans. Loan balances are recomputed by replaying payments with simple daily
+ * interest, the way most auto loans accrue; the amortization schedule and
+ * payoff scenarios use the usual fixed monthly-rate model. Lease mileage
+ * and buyout math is in lease-tracker.
+ */
+
+import { supabase } from '../lib/supabase';
+import { addMonths, dateOnly, daysBetween, localIsoDate, round2 } from './date-money';
+import type {
+  AmortizationSchedule,
+  FinancialAccount,
+  FinancialFormData,
+  LoanDetails,
+  LoanPayment,
+  PayoffAnalysis,
+} from '../types/financial';
+
+/** Extra monthly amounts compared in the payoff analysis. */
+export const EXTRA_PAYMENT_SCENARIOS = [50, 100, 250, 500];
+
+/** A payment that can never cover the interest would loop forever; stop here. */
+const MAX_SCHEDULE_MONTHS = 360;
+
+/** Balances under this are rounding left over from cent-rounded payments. */
+const PAID_OFF_BALANCE = 0.01;
+
+export interface AppliedLoanPayment extends LoanPayment {
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface LoanPosition {
+  details: LoanDetails;
+  /** Recorded payments, oldest first, split into interest and principal */
+  payments: AppliedLoanPayment[];
+  /** Next scheduled due date and its payment number, if the loan isn't paid off */
+  next_due_date?: string;
+  next_payment_number?: number;
+}
+
+export interface LoanOverview {
+  account: FinancialAccount;
+  position: LoanPosition;
+  /** The original schedule for the full term */
+  schedule: AmortizationSchedule[];
+  payoff: PayoffAnalysis;
+}
+
+// ============================================================================
+// AMORTIZATION (pure)
+// ============================================================================
+
+/** Fixed monthly payment that retires `principal` over `termMonths` at `apr` (decimal). */
+export function monthlyPayment(principal: number, apr: number, termMonths: number): number {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const rate = apr / 12;
+  if (rate === 0) return round2(principal / termMonths);
+  return round2((principal * rate) / (1 - Math.pow(1 + rate, -termMonths)));
+}
+
+/**
+ * Payment-by-payment schedule from `balance`. Payment n falls n months after
+ * the loan's `startDate`; pass `firstPaymentNumber` to schedule a balance
+ * part-way through. Runs until the balance is gone, so an extra monthly
+ * amount shortens it; the last payment is whatever clears the balance.
+ */
+export function buildAmortizationSchedule(
+  balance: number,
+  apr: number,
+  payment: number,
+  startDate: string,
+  options: { extraMonthly?: number; firstPaymentNumber?: number } = {}
+): AmortizationSchedule[] {
+  const rows: AmortizationSchedule[] = [];
+  const rate = apr / 12;
+  const first = options.firstPaymentNumber ?? 1;
+  let remaining = round2(balance);
+  let cumulativeInterest = 0;
+  let cumulativePrincipal = 0;
+
+  for (let n = first; remaining > PAID_OFF_BALANCE && n < first + MAX_SCHEDULE_MONTHS; n++) {
+    const interest = round2(remaining * rate);
+    let amount = round2(payment + (options.extraMonthly ?? 0));
+    // Fold cent-level leftovers into the final payment rather than adding another
+    if (amount - interest >= remaining - 1) amount = round2(remaining + interest);
+    const principal = round2(amount - interest);
+    if (principal <= 0) break;
+
+    remaining = round2(remaining - principal);
+    cumulativeInterest = round2(cumulativeInterest + interest);
+    cumulativePrincipal = round2(cumulativePrincipal + principal);
+    rows.push({
+      payment_number: n,
+      date: addMonths(startDate, n),
+      payment: amount,
+      principal,
+      interest,
+      balance: Math.max(remaining, 0),
+      cumulative_interest: cumulativeInterest,
+      cumulative_principal: cumulativePrincipal,
+    });
+  }
+  return rows;
+}
+
+const loanTerms = (account: FinancialAccount) => {
+  const principal = Number(account.principal_amount) || 0;
+  const apr = Number(account.interest_rate) || 0;
+  const term = account.term_months || 0;
+  const payment = Number(account.monthly_payment) || monthlyPayment(principal, apr, term);
+  return { principal, apr, term, payment };
+};
+
+/**
+ * Replays recorded payments against the loan: each pays the interest accrued
+ * daily since the previous one (or since the loan started), the rest comes
+ * off principal. Payments remaining and the payoff date project the regular
+ * payment forward from the resulting balance.
+ */
+export function applyLoanPayments(
+  account: FinancialAccount,
+  payments: LoanPayment[],
+  asOf: Date = new Date()
+): LoanPosition {
+  const { principal, apr, term, payment } = loanTerms(account);
+  const start = dateOnly(account.start_date);
+  const today = localIsoDate(asOf);
+
+  let balance = principal;
+  let lastDate = start;
+  let interestPaid = 0;
+  const applied: AppliedLoanPayment[] = [];
+  for (const p of [...payments].sort((a, b) => a.payment_date.localeCompare(b.payment_date))) {
+    const date = dateOnly(p.payment_date);
+    const amount = Number(p.amount);
+    const accrued = round2(balance * apr * (Math.max(daysBetween(lastDate, date), 0) / 365));
+    const interest = Math.min(accrued, amount);
+    const toPrincipal = round2(Math.min(amount - interest, balance));
+    balance = round2(balance - toPrincipal);
+    interestPaid = round2(interestPaid + interest);
+    lastDate = date > lastDate ? date : lastDate;
+    applied.push({ ...p, amount, interest, principal: toPrincipal, balance });
+  }
+  const totalPaid = round2(applied.reduce((sum, p) => sum + p.amount, 0));
+
+  // Next due date: the first scheduled date after the latest payment and today
+  let dueIndex = 1;
+  const after = lastDate > today ? lastDate : today;
+  while (addMonths(start, dueIndex) <= after && dueIndex < MAX_SCHEDULE_MONTHS) dueIndex++;
+  const paidOff = balance <= PAID_OFF_BALANCE;
+  const nextDue = paidOff ? undefined : addMonths(start, dueIndex);
+
+  const projection = paidOff ? [] : buildAmortizationSchedule(balance, apr, payment, start, { firstPaymentNumber: dueIndex });
+  const remainingInterest = projection.length > 0 ? projection[projection.length - 1].cumulative_interest : 0;
+
+  return {
+    details: {
+      principal,
+      interest_rate: apr,
+      term_months: term,
+      start_date: start,
+      monthly_payment: payment,
+      total_interest: round2(interestPaid + remainingInterest),
+      total_paid: totalPaid,
+      current_balance: Math.max(balance, 0),
+      payments_made: applied.length,
+      payments_remaining: projection.length,
+      payoff_date: projection.length > 0 ? projection[projection.length - 1].date : lastDate,
+    },
+    payments: applied,
+    next_due_date: nextDue,
+    next_payment_number: paidOff ? undefined : dueIndex,
+  };
+}
+
+/**
+ * Months and interest left at the current payment, and what each extra
+ * monthly amount would save. A prepayment penalty, if the lender charges
+ * one, comes off total_saved.
+ */
+export function analyzePayoff(
+  balance: number,
+  apr: number,
+  payment: number,
+  options: { startDate?: string; firstPaymentNumber?: number; extras?: number[]; prepaymentPenalty?: number } = {}
+): PayoffAnalysis {
+  const startDate = options.startDate ?? localIsoDate(new Date());
+  const { firstPaymentNumber } = options;
+  const interestOf = (rows: AmortizationSchedule[]) => (rows.length > 0 ? rows[rows.length - 1].cumulative_interest : 0);
+  const base = buildAmortizationSchedule(balance, apr, payment, startDate, { firstPaymentNumber });
+  const baseInterest = interestOf(base);
+
+  return {
+    current_balance: round2(balance),
+    current_monthly_payment: payment,
+    interest_rate: apr,
+    months_remaining: base.length,
+    total_interest_remaining: baseInterest,
+    early_payoff_scenarios: (options.extras ?? EXTRA_PAYMENT_SCENARIOS).map((extra) => {
+      const rows = buildAmortizationSchedule(balance, apr, payment, startDate, { extraMonthly: extra, firstPaymentNumber });
+      const interestSaved = round2(baseInterest - interestOf(rows));
+      return {
+        extra_monthly: extra,
+        new_payoff_months: rows.length,
+        interest_saved: interestSaved,
+        total_saved: round2(interestSaved - (options.prepaymentPenalty ?? 0)),
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// FINANCIAL ACCOUNTS CRUD
+// ============================================================================
+
+export async function getFinancialAccounts(vehicleId: string): Promise<FinancialAccount[]> {
+  try {
+    const { data, error } = await supabase
+      .from('financial_accounts')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('start_date', { ascending: false });
+    if (error) throw new Error(`Failed to fetch financial accounts: ${error.message}`);
+    return data || [];
+  } catch (error: any) {
+    console.error('Error in getFinancialAccounts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fields that follow from the terms: the scheduled end date, and a loan's
+ * payment unless given. Callers editing terms should omit a payment that was
+ * only carried over from the old terms, so it's recalculated here.
+ */
+function termFields(form: FinancialFormData): Partial<FinancialAccount> {
+  if (!form.term_months) return { ...form };
+  const end_date = addMonths(form.start_date, form.term_months);
+  if (form.type !== 'loan' || !form.principal_amount) return { ...form, end_date };
+  return {
+    ...form,
+    monthly_payment: form.monthly_payment || monthlyPayment(form.principal_amount, form.interest_rate ?? 0, form.term_months),
+    end_date,
+    payoff_date: end_date,
+  };
+}
+
+/** Creates an account; a loan starts with its full principal outstanding. */
+export async function createFinancialAccount(vehicleId: string, form: FinancialFormData): Promise<FinancialAccount> {
+  try {
+    const row: Partial<FinancialAccount> = { ...termFields(form), vehicle_id: vehicleId, status: 'active' };
+    if (form.type === 'loan') {
+      row.current_balance = form.principal_amount;
+      row.total_paid = 0;
+    }
+
+    const { data, error } = await supabase.from('financial_accounts').insert(row).select().single();
+    if (error) throw new Error(`Failed to create financial account: ${error.message}`);
+    return data;
+  } catch (error: any) {
+    console.error('Error in createFinancialAccount:', error);
+    throw error;
+  }
+}
+
+export async function updateFinancialAccount(
+  accountId: string,
+  updates: Partial<Omit<FinancialAccount, 'account_id' | 'vehicle_id' | 'created_at'>>
+): Promise<FinancialAccount> {
+  try {
+    const { data, error } = await supabase
+      .from('financial_accounts')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to update financial account: ${error.message}`);
+    return data;
+  } catch (error: any) {
+    console.error('Error in updateFinancialAccount:', error);
+    throw error;
+  }
+}
+
+export async function deleteFinancialAccount(accountId: string): Promise<void> {
+  try {
+    const { error } = await supabase.from('financial_accounts').delete().eq('account_id', accountId);
+    if (error) throw new Error(`Failed to delete financial account: ${error.message}`);
+  } catch (error: any) {
+    console.error('Error in deleteFinancialAccount:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// LOAN PAYMENTS
+// ============================================================================
+
+export async function getLoanPayments(accountId: string): Promise<LoanPayment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('loan_payments')
+      .select('*')
+      .eq('account_id', accountId)
+      .order('payment_date', { ascending: true });
+    if (error) throw new Error(`Failed to fetch loan payments: ${error.message}`);
+    return data || [];
+  } catch (error: any) {
+    console.error('Error in getLoanPayments:', error);
+    throw error;
+  }
+}
+
+/** Writes the replayed balance back to the account, marking it paid off once cleared. */
+async function syncLoanBalance(account: FinancialAccount): Promise<FinancialAccount> {
+  const { details } = applyLoanPayments(account, await getLoanPayments(account.account_id));
+  const paidOff = details.current_balance <= PAID_OFF_BALANCE;
+  return updateFinancialAccount(account.account_id, {
+    current_balance: details.current_balance,
+    total_paid: details.total_paid,
+    payoff_date: details.payoff_date,
+    status: paidOff ? 'paid_off' : account.status === 'paid_off' ? 'active' : account.status,
+  });
+}
+
+/** Changes a loan's terms and replays its payments against them. */
+export async function updateLoanAccount(account: FinancialAccount, form: FinancialFormData): Promise<FinancialAccount> {
+  try {
+    return await syncLoanBalance(await updateFinancialAccount(account.account_id, termFields(form)));
+  } catch (error: any) {
+    console.error('Error in updateLoanAccount:', error);
+    throw error;
+  }
+}
+
+export async function updateLeaseAccount(account: FinancialAccount, form: FinancialFormData): Promise<FinancialAccount> {
+  return updateFinancialAccount(account.account_id, termFields(form));
+}
+
+export async function recordLoanPayment(
+  userId: string,
+  account: FinancialAccount,
+  payment: { payment_date: string; amount: number; notes?: string }
+): Promise<FinancialAccount> {
+  try {
+    const { error } = await supabase
+      .from('loan_payments')
+      .insert({ ...payment, account_id: account.account_id, user_id: userId });
+    if (error) throw new Error(`Failed to record payment: ${error.message}`);
+    return await syncLoanBalance(account);
+  } catch (error: any) {
+    console.error('Error in recordLoanPayment:', error);
+    throw error;
+  }
+}
+
+export async function deleteLoanPayment(paymentId: string, account: FinancialAccount): Promise<FinancialAccount> {
+  try {
+    const { error } = await supabase.from('loan_payments').delete().eq('payment_id', paymentId);
+    if (error) throw new Error(`Failed to delete payment: ${error.message}`);
+    return await syncLoanBalance(account);
+  } catch (error: any) {
+    console.error('Error in deleteLoanPayment:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// OVERVIEW
+// ============================================================================
+
+/** Position, full-term schedule and payoff options for one loan account. */
+export async function getLoanOverview(account: FinancialAccount, now: Date = new Date()): Promise<LoanOverview> {
+  const payments = await getLoanPayments(account.account_id);
+  const position = applyLoanPayments(account, payments, now);
+  const { principal, apr, payment } = loanTerms(account);
+
+  return {
+    account,
+    position,
+    schedule: buildAmortizationSchedule(principal, apr, payment, account.start_date),
+    payoff: analyzePayoff(position.details.current_balance, apr, payment, {
+      startDate: account.start_date,
+      firstPaymentNumber: position.next_payment_number,
+      prepaymentPenalty: Number(account.metadata?.prepayment_penalty) || 0,
+    }),
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Gear AI CoPilot - Fuel Economy
+ *
+ * Works out MPG (or miles per kWh) from the fuel log using the full-to-full
+ * method: miles between two full fills over everything pumped in between,
+ * so partial fills count toward the next full one instead of skewing it.
+ * Flags a sudden drop against the recent norm, which often means a
+ * mechanical problem before any warning light comes on.
+ */
+
+import { getFuelLogs } from './fuel-service';
+import { round2 } from './date-money';
+import type {
+  FuelEconomyAnomaly,
+  FuelEconomySegment,
+  FuelEconomyStats,
+  FuelEntryKind,
+  FuelLogEntry,
+  FuelVolumeUnit,
+} from '../types/fuel';
+import type { UserPreferences } from '../types/user';
+import type { Vehicle } from '../types/vehicle';
+
+/** A segment this far below the baseline counts as a drop. */
+const ANOMALY_DROP = 0.15;
+
+/** Segments the baseline (median) is taken over, and how many it needs. */
+const BASELINE_SEGMENTS = 5;
+const MIN_BASELINE_SEGMENTS = 3;
+
+/** Segments shorter than this are too noisy to judge. */
+const MIN_SEGMENT_MILES = 50;
+
+const LITERS_PER_GALLON = 3.78541;
+const KM_PER_MILE = 1.609344;
+
+export interface FuelEconomyReport {
+  fuel?: FuelEconomyStats;
+  charge?: FuelEconomyStats;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Volume in gallons (fuel) or kWh (charging). */
+function baseVolume(volume: number, unit: FuelVolumeUnit): number {
+  return unit === 'l' ? volume / LITERS_PER_GALLON : volume;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Which kinds of entry a vehicle takes, the first being the default. */
+export function fuelKindsFor(fuelType?: string): FuelEntryKind[] {
+  if (/plug-?in/i.test(fuelType ?? '')) return ['fuel', 'charge'];
+  if (/electric|\bev\b|battery/i.test(fuelType ?? '')) return ['charge'];
+  return ['fuel'];
+}
+
+/**
+ * Economy in the user's units: mpg or L/100km for fuel, kWh/100mi or
+ * kWh/100km for charging.
+ */
+export function formatEconomy(
+  economy: number | undefined,
+  kind: FuelEntryKind,
+  prefs: Pick<UserPreferences, 'fuel_unit' | 'distance_unit'> = {}
+): string {
+  if (!economy) return '—';
+  const km = prefs.distance_unit === 'kilometers';
+  if (kind === 'charge') {
+    const per100mi = 100 / economy;
+    return km ? `${round1(per100mi / KM_PER_MILE)} kWh/100km` : `${round1(per100mi)} kWh/100mi`;
+  }
+  if (prefs.fuel_unit === 'liters') return `${round1((100 * LITERS_PER_GALLON) / (economy * KM_PER_MILE))} L/100km`;
+  return `${round1(economy)} mpg`;
+}
+
+// ============================================================================
+// ECONOMY (pure)
+// ============================================================================
+
+/**
+ * Full-to-full segments for one kind of entry. Entries before the first
+ * full fill have no starting point and are left out; a trailing run of
+ * partials waits for the next full fill.
+ */
+export function buildEconomySegments(entries: FuelLogEntry[], kind: FuelEntryKind): FuelEconomySegment[] {
+  const sorted = entries
+    .filter((e) => e.kind === kind)
+    .sort((a, b) => a.odometer - b.odometer || a.filled_date.localeCompare(b.filled_date));
+
+  const segments: FuelEconomySegment[] = [];
+  let start: FuelLogEntry | undefined;
+  let pending: FuelLogEntry[] = [];
+
+  for (const entry of sorted) {
+    if (!start) {
+      if (entry.is_full) start = entry;
+      continue;
+    }
+    pending.push(entry);
+    if (!entry.is_full) continue;
+
+    const miles = entry.odometer - start.odometer;
+    const volume = pending.reduce((sum, e) => sum + baseVolume(Number(e.volume), e.volume_unit), 0);
+    if (miles > 0 && volume > 0) {
+      segments.push({
+        kind,
+        start_date: start.filled_date,
+        end_date: entry.filled_date,
+        start_odometer: start.odometer,
+        end_odometer: entry.odometer,
+        miles,
+        volume: round2(volume),
+        cost: round2(pending.reduce((sum, e) => sum + Number(e.total_cost || 0), 0)),
+        economy: round2(miles / volume),
+        entry_ids: pending.map((e) => e.fuel_log_id),
+      });
+    }
+    start = entry;
+    pending = [];
+  }
+
+  // Mark each segment that fell well below the median of the ones before it
+  for (let i = 0; i < segments.length; i++) {
+    const prior = segments.slice(0, i).filter((s) => s.miles >= MIN_SEGMENT_MILES).slice(-BASELINE_SEGMENTS);
+    if (prior.length < MIN_BASELINE_SEGMENTS || segments[i].miles < MIN_SEGMENT_MILES) continue;
+    segments[i].anomaly = segments[i].economy < median(prior.map((s) => s.economy)) * (1 - ANOMALY_DROP);
+  }
+  return segments;
+}
+
+function anomalyFor(segments: FuelEconomySegment[], kind: FuelEntryKind): FuelEconomyAnomaly | undefined {
+  const latest = segments[segments.length - 1];
+  if (!latest?.anomaly) return undefined;
+
+  const prior = segments
+    .slice(0, -1)
+    .filter((s) => s.miles >= MIN_SEGMENT_MILES)
+    .slice(-BASELINE_SEGMENTS);
+  const baseline = round2(median(prior.map((s) => s.economy)));
+  const drop = Math.round((1 - latest.economy / baseline) * 100);
+  const unit = kind === 'charge' ? 'mi/kWh' : 'mpg';
+  const causes =
+    kind === 'charge'
+      ? 'Cold weather, tire pressure, a dragging brake or a battery or charging fault'
+      : 'Low tire pressure, a dragging brake, a failing O2 sensor or thermostat, or a misfire';
+
+  return {
+    end_date: latest.end_date,
+    economy: latest.economy,
+    baseline,
+    drop_percent: drop,
+    message: `Economy dropped ${drop}% on the last ${kind === 'charge' ? 'charge' : 'tank'} (${round1(latest.economy)} vs ${round1(baseline)} ${unit} usual). ${causes} can cause this; check tire pressures and scan for trouble codes.`,
+  };
+}
+
+/** Economy, cost and monthly spend for one kind of entry. */
+export function buildFuelEconomyStats(entries: FuelLogEntry[], kind: FuelEntryKind): FuelEconomyStats {
+  const ofKind = entries.filter((e) => e.kind === kind);
+  const segments = buildEconomySegments(ofKind, kind);
+  const miles = segments.reduce((sum, s) => sum + s.miles, 0);
+  const segmentVolume = segments.reduce((sum, s) => sum + s.volume, 0);
+  const segmentCost = segments.reduce((sum, s) => sum + s.cost, 0);
+  const economies = segments.map((s) => s.economy);
+
+  const monthMap = new Map<string, { cost: number; volume: number }>();
+  for (const e of ofKind) {
+    const month = e.filled_date.slice(0, 7);
+    const current = monthMap.get(month) ?? { cost: 0, volume: 0 };
+    monthMap.set(month, {
+      cost: current.cost + Number(e.total_cost || 0),
+      volume: current.volume + baseVolume(Number(e.volume), e.volume_unit),
+    });
+  }
+
+  return {
+    kind,
+    segments,
+    average_economy: segmentVolume > 0 ? round2(miles / segmentVolume) : undefined,
+    latest_economy: economies[economies.length - 1],
+    best_economy: economies.length ? Math.max(...economies) : undefined,
+    worst_economy: economies.length ? Math.min(...economies) : undefined,
+    cost_per_mile: miles > 0 && segmentCost > 0 ? round2(segmentCost / miles) : undefined,
+    total_cost: round2(ofKind.reduce((sum, e) => sum + Number(e.total_cost || 0), 0)),
+    total_volume: round2(ofKind.reduce((sum, e) => sum + baseVolume(Number(e.volume), e.volume_unit), 0)),
+    by_month: [...monthMap.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, v]) => ({ month, cost: round2(v.cost), volume: round2(v.volume) })),
+    anomaly: anomalyFor(segments, kind),
+  };
+}
+
+/** Stats for each kind the vehicle has entries for (both, for a plug-in hybrid). */
+export function buildFuelEconomyReport(entries: FuelLogEntry[]): FuelEconomyReport {
+  const report: FuelEconomyReport = {};
+  if (entries.some((e) => e.kind === 'fuel')) report.fuel = buildFuelEconomyStats(entries, 'fuel');
+  if (entries.some((e) => e.kind === 'charge')) report.charge = buildFuelEconomyStats(entries, 'charge');
+  return report;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/** Fuel log and economy for a vehicle. */
+export async function getFuelEconomy(
+  vehicle: Pick<Vehicle, 'vehicle_id'>
+): Promise<{ entries: FuelLogEntry[]; report: FuelEconomyReport }> {
+  try {
+    const entries = await getFuelLogs(vehicle.vehicle_id);
+    return { entries, report: buildFuelEconomyReport(entries) };
+  } catch (err) {
+    console.warn('[FuelEconomy] getFuelEconomy failed:', err);
+    return { entries: [], report: {} };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Gear AI CoPilot - Fuel Service
+ *
+ * CRUD for fill-ups and charging sessions. Each entry's odometer reading is
+ * also added to the vehicle's mileage log, so fill-ups keep the mileage
+ * projection current.
+ */
+
+import { supabase } from '../lib/supabase';
+import { addMileageLog, deleteMileageLog } from './vehicle-service';
+import { round2 } from './date-money';
+import type { FuelLogEntry, FuelLogFormData } from '../types/fuel';
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Get a vehicle's fill-ups and charging sessions, newest first
+ */
+export async function getFuelLogs(vehicleId: string): Promise<FuelLogEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('fuel_logs')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('odometer', { ascending: false });
+
+    if (error) throw new Error(`Failed to fetch fuel logs: ${error.message}`);
+    return data || [];
+  } catch (error: any) {
+    console.error('Error in getFuelLogs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Log a fill-up or charging session and its odometer reading
+ */
+export async function addFuelLog(userId: string, vehicleId: string, form: FuelLogFormData): Promise<FuelLogEntry> {
+  try {
+    const total = form.total_cost ?? (form.price_per_unit ? form.volume * form.price_per_unit : 0);
+    const price = form.price_per_unit ?? (total > 0 ? total / form.volume : undefined);
+    const label = form.kind === 'charge' ? 'Charging session' : 'Fill-up';
+
+    const mileageLog = await addMileageLog(
+      vehicleId,
+      userId,
+      form.odometer,
+      form.filled_date,
+      form.station ? `${label} at ${form.station}` : label,
+      { onlyRaise: true }
+    );
+
+    const { data, error } = await supabase
+      .from('fuel_logs')
+      .insert({
+        ...form,
+        vehicle_id: vehicleId,
+        user_id: userId,
+        total_cost: round2(total),
+        price_per_unit: price !== undefined ? round3(price) : null,
+        mileage_log_id: mileageLog.log_id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Don't leave the odometer reading behind without the entry that added it
+      if (mileageLog.log_id) {
+        await deleteMileageLog(mileageLog.log_id, userId).catch((cleanupError) =>
+          console.warn('[FuelService] removing orphaned mileage log failed:', cleanupError)
+        );
+      }
+      throw new Error(`Failed to save fuel log: ${error.message}`);
+    }
+
+    console.log('✅ Fuel log added:', vehicleId, form.kind, form.volume);
+    return data;
+  } catch (error: any) {
+    console.error('Error in addFuelLog:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a fuel log entry along with the odometer reading it added
+ */
+export async function deleteFuelLog(entry: FuelLogEntry): Promise<void> {
+  try {
+    const { error } = await supabase.from('fuel_logs').delete().eq('fuel_log_id', entry.fuel_log_id);
+    if (error) throw new Error(`Failed to delete fuel log: ${error.message}`);
+
+    if (entry.mileage_log_id) await deleteMileageLog(entry.mileage_log_id, entry.user_id);
+  } catch (error: any) {
+    console.error('Error in deleteFuelLog:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Gear AI CoPilot - Fuel Trim & O2 Sensor Analyzer
+ *
+ * Deterministic lean/rich diagnosis from a recorded live-data session. Trims
+ * are grouped by operating range (idle, cruise, high load) and the pattern
+ * across ranges separates a vacuum leak, an under-reporting MAF and a fuel
+ * delivery problem; upstream O2 switching identifies a lazy sensor.
+ */
+
+import { supabase } from '../lib/supabase';
+import type {
+  DiagnosticCode,
+  FuelTrimAnalysis,
+  FuelTrimBand,
+  FuelTrimFinding,
+  LiveDataSample,
+} from '../types/diagnostic';
+
+/** Codes whose history entries the analysis can be attached to. */
+export const FUEL_TRIM_CODES = ['P0171', 'P0172', 'P0174', 'P0175'];
+
+const LEAN_TRIM = 10; // % total trim
+const RICH_TRIM = -10;
+const NORMALIZED_DROP = 5; // % change between ranges that counts as a trend
+const MIN_BAND_SAMPLES = 10;
+const MIN_O2_SAMPLES = 20;
+const O2_SWITCH_VOLTAGE = 0.45;
+const LAZY_SWITCH_RATE = 0.1; // crossings/s; healthy sensors switch several times a second
+const LAZY_O2_RANGE = 0.5; // V peak-to-peak
+
+interface TrimRow {
+  offset_ms: number;
+  stft: number;
+  ltft: number;
+  rpm?: number;
+  load?: number;
+  speed?: number;
+  maf?: number;
+  o2?: number;
+}
+
+function toRows(samples: LiveDataSample[]): TrimRow[] {
+  const rows: TrimRow[] = [];
+  for (const s of samples) {
+    const v = (key: string) => s.parameters.find((p) => p.key === key)?.value;
+    const stft = v('fuel_trim_short');
+    const ltft = v('fuel_trim_long');
+    if (stft == null || ltft == null) continue;
+    rows.push({
+      offset_ms: s.offset_ms,
+      stft,
+      ltft,
+      rpm: v('rpm'),
+      load: v('engine_load'),
+      speed: v('vehicle_speed'),
+      maf: v('maf_rate'),
+      o2: v('o2_voltage_bank1'),
+    });
+  }
+  return rows;
+}
+
+function bandOf(row: TrimRow): FuelTrimBand['label'] | null {
+  if (row.rpm == null) return null;
+  if (row.rpm < 1000 && (row.speed ?? 0) < 5) return 'idle';
+  if (row.rpm >= 3000 || (row.load ?? 0) >= 60) return 'high_load';
+  return 'cruise';
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const pct = (n: number) => `${n > 0 ? '+' : ''}${round1(n)}%`;
+
+function summarizeBand(label: FuelTrimBand['label'], rows: TrimRow[]): FuelTrimBand {
+  const maf = rows.map((r) => r.maf).filter((m): m is number => m != null);
+  const short = mean(rows.map((r) => r.stft));
+  const long = mean(rows.map((r) => r.ltft));
+  return {
+    label,
+    sample_count: rows.length,
+    short_trim: round1(short),
+    long_trim: round1(long),
+    total_trim: round1(short + long),
+    maf_rate: maf.length > 0 ? Math.round(mean(maf) * 100) / 100 : undefined,
+  };
+}
+
+// ============================================================================
+// CLASSIFIERS
+// ============================================================================
+
+function vacuumLeak(idle?: FuelTrimBand, cruise?: FuelTrimBand): FuelTrimFinding | null {
+  if (!idle || !cruise) return null;
+  const drop = idle.total_trim - cruise.total_trim;
+  if (idle.total_trim <= LEAN_TRIM || drop < NORMALIZED_DROP || cruise.total_trim >= LEAN_TRIM) return null;
+  return {
+    condition: 'vacuum_leak',
+    title: 'Vacuum leak',
+    confidence: drop >= 2 * NORMALIZED_DROP ? 'high' : 'medium',
+    evidence: [
+      `Total fuel trim ${pct(idle.total_trim)} at idle (${idle.sample_count} samples)`,
+      `Trim normalizes to ${pct(cruise.total_trim)} at cruise as airflow rises — unmetered air matters less at higher flow`,
+    ],
+    recommended_checks: [
+      'Smoke-test the intake for leaks',
+      'Inspect PCV valve and hoses',
+      'Check intake manifold and throttle body gaskets',
+      'Check brake booster hose',
+    ],
+  };
+}
+
+function mafUnderReporting(
+  idle: FuelTrimBand | undefined,
+  cruise: FuelTrimBand | undefined,
+  high: FuelTrimBand | undefined,
+  displacementL?: number
+): FuelTrimFinding | null {
+  if (!idle || !cruise) return null;
+  const evenlyLean =
+    idle.total_trim > LEAN_TRIM &&
+    cruise.total_trim > LEAN_TRIM &&
+    Math.abs(cruise.total_trim - idle.total_trim) < NORMALIZED_DROP &&
+    (!high || high.total_trim - cruise.total_trim < NORMALIZED_DROP);
+  if (!evenlyLean) return null;
+
+  const evidence = [
+    `Lean by a similar amount at idle (${pct(idle.total_trim)}) and cruise (${pct(cruise.total_trim)}) — a proportional metering error`,
+  ];
+  // Rule of thumb: a warm engine at idle flows roughly 1 g/s per litre of displacement
+  const lowAirflow = displacementL != null && idle.maf_rate != null && idle.maf_rate < 0.8 * displacementL;
+  if (lowAirflow) {
+    evidence.push(`Idle airflow ${idle.maf_rate} g/s is low for a ${displacementL} L engine (expect about ${displacementL} g/s)`);
+  }
+  return {
+    condition: 'maf_under_reporting',
+    title: 'MAF sensor under-reporting airflow',
+    confidence: lowAirflow ? 'high' : 'medium',
+    evidence,
+    recommended_checks: [
+      'Clean the MAF sensor element with MAF cleaner',
+      'Check for air leaks between the MAF and throttle body',
+      'Compare MAF g/s against displacement at idle and 2,500 rpm',
+      'Inspect the air filter and MAF connector',
+    ],
+  };
+}
+
+function fuelDelivery(idle?: FuelTrimBand, cruise?: FuelTrimBand, high?: FuelTrimBand): FuelTrimFinding | null {
+  if (!high) return null;
+  const base = cruise ?? idle;
+  if (!base || high.total_trim <= LEAN_TRIM || high.total_trim - base.total_trim < NORMALIZED_DROP) return null;
+  const rise = high.total_trim - (idle?.total_trim ?? base.total_trim);
+  return {
+    condition: 'fuel_delivery',
+    title: 'Fuel delivery problem',
+    confidence: rise >= 2 * NORMALIZED_DROP && (idle?.total_trim ?? 0) < LEAN_TRIM ? 'high' : 'medium',
+    evidence: [
+      `Total fuel trim rises to ${pct(high.total_trim)} under high load (${high.sample_count} samples)`,
+      `Only ${pct(base.total_trim)} at ${base.label === 'cruise' ? 'cruise' : 'idle'} — the pump or injectors can't keep up as demand rises`,
+    ],
+    recommended_checks: [
+      'Test fuel pressure and volume under load',
+      'Replace the fuel filter if serviceable',
+      'Check fuel pump voltage and ground',
+      'Test injector flow / balance',
+    ],
+  };
+}
+
+function lazyO2(rows: TrimRow[]): { finding: FuelTrimFinding | null; rate?: number; range?: { min: number; max: number } } {
+  // Closed-loop cruise only: idle and wide-open throttle don't exercise the sensor reliably
+  const o2Rows = rows.filter((r) => r.o2 != null && bandOf(r) === 'cruise');
+  if (o2Rows.length < MIN_O2_SAMPLES) return { finding: null };
+
+  let crossings = 0;
+  for (let i = 1; i < o2Rows.length; i++) {
+    if ((o2Rows[i - 1].o2! - O2_SWITCH_VOLTAGE) * (o2Rows[i].o2! - O2_SWITCH_VOLTAGE) < 0) crossings++;
+  }
+  const seconds = (o2Rows[o2Rows.length - 1].offset_ms - o2Rows[0].offset_ms) / 1000;
+  const rate = seconds > 0 ? Math.round((crossings / seconds) * 100) / 100 : 0;
+  const volts = o2Rows.map((r) => r.o2!);
+  const range = { min: Math.min(...volts), max: Math.max(...volts) };
+  const span = range.max - range.min;
+
+  if (rate >= LAZY_SWITCH_RATE && span >= LAZY_O2_RANGE) return { finding: null, rate, range };
+  const evidence = [];
+  if (rate < LAZY_SWITCH_RATE) evidence.push(`Upstream O2 (B1S1) crossed 0.45 V ${rate} times/s at cruise (healthy: several per second)`);
+  if (span < LAZY_O2_RANGE) evidence.push(`Voltage stayed within ${range.min.toFixed(2)}–${range.max.toFixed(2)} V (healthy: about 0.1–0.9 V)`);
+  return {
+    rate,
+    range,
+    finding: {
+      condition: 'o2_sensor_lazy',
+      title: 'Lazy upstream O2 sensor',
+      confidence: rate < LAZY_SWITCH_RATE && span < LAZY_O2_RANGE ? 'high' : 'low',
+      evidence,
+      recommended_checks: [
+        'Snap-throttle test: sensor should swing above 0.8 V and below 0.2 V quickly',
+        'Check the O2 heater circuit and connector',
+        'Look for exhaust leaks ahead of the sensor',
+        'Replace the sensor if it is original and over 100,000 miles',
+      ],
+    },
+  };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Classify a recorded session. Needs short/long trims and RPM; MAF, load,
+ * speed and upstream O2 sharpen the result when present.
+ */
+export function analyzeFuelTrims(
+  samples: LiveDataSample[],
+  options: { displacementL?: number } = {}
+): FuelTrimAnalysis {
+  const rows = toRows(samples);
+  const analysis: FuelTrimAnalysis = {
+    mixture: 'normal',
+    bands: [],
+    findings: [],
+    sample_count: rows.length,
+    analyzed_at: new Date().toISOString(),
+  };
+  if (rows.length === 0) {
+    analysis.insufficient_data = 'The recording has no fuel trim readings.';
+    return analysis;
+  }
+  if (rows.every((r) => r.rpm == null)) {
+    analysis.insufficient_data = 'Engine RPM was not recorded, so trims cannot be split by operating range.';
+    return analysis;
+  }
+
+  const grouped: Record<FuelTrimBand['label'], TrimRow[]> = { idle: [], cruise: [], high_load: [] };
+  rows.forEach((r) => {
+    const band = bandOf(r);
+    if (band) grouped[band].push(r);
+  });
+  analysis.bands = (Object.keys(grouped) as FuelTrimBand['label'][])
+    .filter((label) => grouped[label].length >= MIN_BAND_SAMPLES)
+    .map((label) => summarizeBand(label, grouped[label]));
+
+  const band = (label: FuelTrimBand['label']) => analysis.bands.find((b) => b.label === label);
+  const idle = band('idle');
+  const cruise = band('cruise');
+  const high = band('high_load');
+
+  const totals = analysis.bands.map((b) => b.total_trim);
+  analysis.mixture = totals.some((t) => t > LEAN_TRIM) ? 'lean' : totals.some((t) => t < RICH_TRIM) ? 'rich' : 'normal';
+
+  const o2 = lazyO2(rows);
+  analysis.o2_switch_rate = o2.rate;
+  analysis.o2_range = o2.range;
+
+  const candidates = [
+    vacuumLeak(idle, cruise),
+    mafUnderReporting(idle, cruise, high, options.displacementL),
+    fuelDelivery(idle, cruise, high),
+    o2.finding,
+  ];
+  const rank = { high: 0, medium: 1, low: 2 };
+  analysis.findings = candidates
+    .filter((f): f is FuelTrimFinding => f !== null)
+    .sort((a, b) => rank[a.confidence] - rank[b.confidence]);
+
+  if (analysis.bands.length < 2 && analysis.findings.length === 0) {
+    analysis.insufficient_data = 'Record idle and a steady cruise (and ideally a hard acceleration) to compare trims across operating ranges.';
+  }
+  return analysis;
+}
+
+/** Plain-text summary suitable for DiagnosticCode.ai_analysis. */
+export function fuelTrimAnalysisToText(analysis: FuelTrimAnalysis): string {
+  if (analysis.insufficient_data) return `Fuel trim analysis inconclusive: ${analysis.insufficient_data}`;
+  const mixture = analysis.mixture === 'normal' ? 'Fuel trims are within ±10%.' : `Engine is running ${analysis.mixture}.`;
+  if (analysis.findings.length === 0) {
+    return `${mixture} No vacuum leak, MAF, fuel delivery or O2 sensor pattern was found in the recorded data.`;
+  }
+  const [top, ...rest] = analysis.findings;
+  const parts = [mixture, `Most likely: ${top.title} (${top.confidence} confidence) — ${top.evidence.join('; ')}.`];
+  if (rest.length > 0) parts.push(`Also consider: ${rest.map((f) => `${f.title} (${f.confidence})`).join(', ')}.`);
+  return parts.join(' ');
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Store an analysis on a code's history entry: the summary becomes
+ * `ai_analysis`, the top finding's checks become `recommended_actions`, and
+ * the full result is kept in `metadata.fuel_trim_analysis`.
+ */
+export async function attachFuelTrimAnalysis(code: DiagnosticCode, analysis: FuelTrimAnalysis): Promise<DiagnosticCode | null> {
+  try {
+    const { data, error } = await supabase
+      .from('diagnostic_codes')
+      .update({
+        ai_analysis: fuelTrimAnalysisToText(analysis),
+        recommended_actions: analysis.findings[0]?.recommended_checks ?? code.recommended_actions,
+        metadata: { ...code.metadata, fuel_trim_analysis: analysis },
+      })
+      .eq('diagnostic_id', code.diagnostic_id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  } catch (err) {
+    console.warn('[FuelTrimAnalyzer] attachFuelTrimAnalysis failed:', err);
+    return null;
+  }
+}
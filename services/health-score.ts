@@ -0,0 +1,385 @@
+/**
+ * Gear AI CoPilot - Vehicle Health Scoring Engine
+ *
+ * Pure scoring core behind calculateHealthScore. Each scorer turns one kind
+ * of evidence (DTCs, overdue service, part wear, recalls, live data) into
+ * deductions against a system's 100 points, and every deduction carries the
+ * reason shown in `contributing_factors`. No I/O — inputs are gathered by
+ * diagnostic-service.
+ */
+
+import {
+  DiagnosticCode,
+  HealthDeduction,
+  HealthScoreInputs,
+  HealthSystem,
+  HealthSystemScore,
+} from '../types/diagnostic';
+import type { InstalledPart } from '../types/maintenance';
+import { codeToSystem } from './dtc-systems';
+import { getParameterMeta } from './obd-pids';
+
+export const SYSTEM_META: Record<HealthSystem, { label: string; weight: number }> = {
+  engine: { label: 'Engine', weight: 0.30 },
+  transmission: { label: 'Transmission', weight: 0.15 },
+  brakes: { label: 'Brakes', weight: 0.15 },
+  suspension: { label: 'Suspension', weight: 0.10 },
+  electrical: { label: 'Electrical', weight: 0.10 },
+  fuel: { label: 'Fuel System', weight: 0.08 },
+  cooling: { label: 'Cooling', weight: 0.07 },
+  exhaust: { label: 'Exhaust', weight: 0.05 },
+};
+
+/** A pluggable source of deductions. */
+export interface HealthScorer {
+  name: string;
+  score(inputs: HealthScoreInputs): HealthDeduction[];
+}
+
+export function scoreStatus(score: number): HealthSystemScore['status'] {
+  if (score >= 80) return 'good';
+  if (score >= 60) return 'fair';
+  if (score >= 40) return 'poor';
+  return 'critical';
+}
+
+/** Largest total deduction one system can take, so a single bad system bottoms out at 20. */
+const MAX_SYSTEM_DEDUCTION = 80;
+
+const SEVERITY_POINTS: Record<DiagnosticCode['severity'], number> = { critical: 25, high: 15, medium: 8, low: 3 };
+
+const daysBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / 86_400_000;
+
+// ============================================================================
+// SCORERS
+// ============================================================================
+
+/** Active codes at full severity weight, pending codes at half. */
+export const dtcScorer: HealthScorer = {
+  name: 'dtc',
+  score: ({ codes, make }) =>
+    codes
+      .filter((c) => c.status === 'active' || c.status === 'pending')
+      .map((c) => ({
+        system: codeToSystem(c.code, make),
+        points: c.status === 'pending' ? Math.ceil(SEVERITY_POINTS[c.severity] / 2) : SEVERITY_POINTS[c.severity],
+        source: 'dtc' as const,
+        reason: `${c.code} ${c.description} (${c.status}, ${c.severity})`,
+      })),
+};
+
+/** Scans a code must show up in before it counts as recurring. */
+export const RECURRING_SCAN_COUNT = 2;
+
+/** Codes seen in at least RECURRING_SCAN_COUNT scans, with how many scans each appeared in. */
+export function recurringCodes(scans: HealthScoreInputs['scans']): Map<string, number> {
+  const counts = new Map<string, number>();
+  scans.forEach((scan) => {
+    new Set(scan.codes_found.map((c) => c.code)).forEach((code) => counts.set(code, (counts.get(code) || 0) + 1));
+  });
+  counts.forEach((n, code) => {
+    if (n < RECURRING_SCAN_COUNT) counts.delete(code);
+  });
+  return counts;
+}
+
+/** A code that keeps coming back points at an unresolved fault, not a one-off. */
+export const recurringDtcScorer: HealthScorer = {
+  name: 'recurring_dtc',
+  score: ({ scans, make }) =>
+    Array.from(recurringCodes(scans)).map(([code, count]) => ({
+      system: codeToSystem(code, make),
+      points: Math.min(count, 5),
+      source: 'recurring_dtc' as const,
+      reason: `${code} recurred in ${count} of the last ${scans.length} scans`,
+    })),
+};
+
+const SERVICE_SYSTEMS: Array<[RegExp, HealthSystem]> = [
+  [/brake/i, 'brakes'],
+  [/tire|rotation|alignment|suspension|steering|shock|strut/i, 'suspension'],
+  [/transmission|\bcvt\b|differential|transfer case/i, 'transmission'],
+  [/coolant|radiator|thermostat|water pump/i, 'cooling'],
+  [/battery|electrical|alternator/i, 'electrical'],
+  [/fuel/i, 'fuel'],
+  [/exhaust|catalytic|emission/i, 'exhaust'],
+];
+
+function serviceSystem(name: string): HealthSystem {
+  return SERVICE_SYSTEMS.find(([pattern]) => pattern.test(name))?.[1] ?? 'engine';
+}
+
+const PRIORITY_POINTS = { high: 10, medium: 6, low: 3 };
+
+interface Overdue {
+  miles?: number;
+  months?: number;
+}
+
+/** How far past its mileage and/or date target a service is; null when not yet due. */
+function overdueBy(
+  dueMileage: number | undefined,
+  dueDate: string | undefined,
+  inputs: Pick<HealthScoreInputs, 'current_mileage' | 'now'>
+): Overdue | null {
+  const miles = dueMileage != null && inputs.current_mileage > dueMileage ? inputs.current_mileage - dueMileage : undefined;
+  const days = dueDate ? daysBetween(dueDate, inputs.now) : 0;
+  const months = days > 0 ? days / 30.44 : undefined;
+  return miles == null && months == null ? null : { miles, months };
+}
+
+/** One extra point per 1,000 mi or month overdue, whichever is larger, up to 5. */
+const overduePoints = (o: Overdue | null) =>
+  Math.min(5, Math.floor(Math.max((o?.miles ?? 0) / 1000, o?.months ?? 0)));
+
+function describeOverdue(o: Overdue | null): string {
+  if (!o) return '';
+  if (o.miles != null && (o.months == null || o.miles / 1000 >= o.months)) return ` by ~${Math.round(o.miles).toLocaleString()} mi`;
+  const months = Math.round(o.months ?? 0);
+  return months >= 1 ? ` by ${months} month${months === 1 ? '' : 's'}` : '';
+}
+
+/** Overdue service reminders, plus the latest record of each service whose next-service target has passed. */
+export const maintenanceScorer: HealthScorer = {
+  name: 'maintenance',
+  score: (inputs) => {
+    const deductions: HealthDeduction[] = [];
+    for (const r of inputs.reminders) {
+      if (r.status === 'completed' || r.status === 'dismissed') continue;
+      const over = overdueBy(r.due_mileage, r.due_date, inputs);
+      if (over == null && r.status !== 'overdue') continue;
+      deductions.push({
+        system: serviceSystem(`${r.service_type} ${r.title}`),
+        points: PRIORITY_POINTS[r.priority] + overduePoints(over),
+        source: 'maintenance',
+        reason: `${r.title} overdue${describeOverdue(over)}`,
+      });
+    }
+
+    const covered = new Set(inputs.reminders.map((r) => r.title.toLowerCase()));
+    const latest = new Map<string, HealthScoreInputs['maintenance'][number]>();
+    inputs.maintenance.forEach((m) => {
+      const key = m.title.toLowerCase();
+      const prev = latest.get(key);
+      if (!prev || m.date > prev.date) latest.set(key, m);
+    });
+    latest.forEach((m, key) => {
+      if (covered.has(key)) return;
+      const over = overdueBy(m.next_service_mileage, m.next_service_date, inputs);
+      if (over == null) return;
+      deductions.push({
+        system: serviceSystem(m.title),
+        points: PRIORITY_POINTS.medium + overduePoints(over),
+        source: 'maintenance',
+        reason: `${m.title} overdue${describeOverdue(over)} (last done ${m.date.slice(0, 10)})`,
+      });
+    });
+    return deductions;
+  },
+};
+
+/** Typical service life per part category; the first limit reached applies. */
+const PART_LIFE: Partial<Record<InstalledPart['category'], { system: HealthSystem; miles?: number; months?: number }>> = {
+  oil: { system: 'engine', miles: 7500, months: 12 },
+  air_filter: { system: 'engine', miles: 15000, months: 24 },
+  spark_plug: { system: 'engine', miles: 100000 },
+  belt: { system: 'engine', miles: 90000, months: 84 },
+  brake_pad: { system: 'brakes', miles: 50000, months: 60 },
+  brake_rotor: { system: 'brakes', miles: 70000, months: 84 },
+  brake_fluid: { system: 'brakes', months: 36 },
+  tire: { system: 'suspension', miles: 50000, months: 72 },
+  power_steering_fluid: { system: 'suspension', miles: 75000, months: 60 },
+  battery: { system: 'electrical', months: 48 },
+  coolant: { system: 'cooling', miles: 100000, months: 60 },
+  transmission_fluid: { system: 'transmission', miles: 60000, months: 60 },
+  fuel_filter: { system: 'fuel', miles: 30000, months: 36 },
+};
+
+/** Installed parts at or past their expected life (most recent install per category). */
+export const partAgeScorer: HealthScorer = {
+  name: 'part_age',
+  score: (inputs) => {
+    const latest = new Map<InstalledPart['category'], InstalledPart>();
+    inputs.parts.forEach((p) => {
+      const prev = latest.get(p.category);
+      if (!prev || p.install_date > prev.install_date) latest.set(p.category, p);
+    });
+
+    const deductions: HealthDeduction[] = [];
+    latest.forEach((part, category) => {
+      const life = PART_LIFE[category];
+      if (!life) return;
+      const months = daysBetween(part.install_date, inputs.now) / 30.44;
+      const miles = part.install_mileage != null ? inputs.current_mileage - part.install_mileage : undefined;
+      const usedByMonths = life.months ? months / life.months : 0;
+      const usedByMiles = life.miles && miles != null ? miles / life.miles : 0;
+      const used = Math.max(usedByMonths, usedByMiles);
+      if (used < 0.9) return;
+
+      const basis = usedByMiles >= usedByMonths
+        ? `${Math.round(miles!).toLocaleString()} mi of ~${life.miles!.toLocaleString()}`
+        : `${Math.round(months)} months of ~${life.months}`;
+      deductions.push({
+        system: life.system,
+        points: used < 1 ? 2 : 4 + Math.min(6, Math.round((used - 1) * 10)),
+        source: 'part_age',
+        reason: `${part.part_name} ${used < 1 ? 'nearing end of life' : 'past expected life'} (${basis})`,
+      });
+    });
+    return deductions;
+  },
+};
+
+const RECALL_SYSTEMS: Array<[RegExp, HealthSystem]> = [
+  [/brake/i, 'brakes'],
+  [/steering|suspension|tires|wheels/i, 'suspension'],
+  [/power train|transmission|axle/i, 'transmission'],
+  [/fuel/i, 'fuel'],
+  [/cooling/i, 'cooling'],
+  [/exhaust|emission/i, 'exhaust'],
+  [/electrical|air bags|seat belts|lighting|back over|battery/i, 'electrical'],
+];
+
+const RECALL_POINTS = 10;
+
+/** Open (unacknowledged) safety recalls, by NHTSA component. */
+export const recallScorer: HealthScorer = {
+  name: 'recall',
+  score: ({ recalls }) =>
+    recalls
+      .filter((r) => !r.acknowledged)
+      .map((r) => ({
+        system: RECALL_SYSTEMS.find(([pattern]) => pattern.test(r.component))?.[1] ?? 'engine',
+        points: RECALL_POINTS,
+        source: 'recall' as const,
+        reason: `Open recall ${r.nhtsa_campaign}: ${r.component}`,
+      })),
+};
+
+const PARAMETER_SYSTEMS: Array<[RegExp, HealthSystem]> = [
+  [/coolant|oil_temp/i, 'cooling'],
+  [/voltage|battery/i, 'electrical'],
+  [/fuel/i, 'fuel'],
+  [/^o2_|catalyst/i, 'exhaust'],
+  [/trans/i, 'transmission'],
+];
+
+/**
+ * Live-data anomalies: threshold alerts still open in code history, and
+ * readings outside their normal range in the most recent scan's snapshot.
+ */
+export const liveDataScorer: HealthScorer = {
+  name: 'live_data',
+  score: ({ codes, scans, make }) => {
+    const deductions: HealthDeduction[] = codes
+      .filter((c) => c.status === 'alert')
+      .map((c) => ({
+        system: PARAMETER_SYSTEMS.find(([pattern]) => pattern.test(c.metadata?.parameter ?? ''))?.[1] ?? codeToSystem(c.code, make),
+        points: SEVERITY_POINTS[c.severity],
+        source: 'live_data' as const,
+        reason: `Live alert: ${c.description}`,
+      }));
+
+    const snapshot = scans.find((s) => s.live_data?.length)?.live_data ?? [];
+    snapshot.forEach((p) => {
+      const meta = getParameterMeta(p);
+      const low = meta?.warn_low != null && p.value < meta.warn_low;
+      const high = meta?.warn_high != null && p.value > meta.warn_high;
+      // RPM/load/throttle highs are just how the car was being driven
+      if (!(low || high) || /rpm|load|throttle|speed/.test(p.key ?? '')) return;
+      deductions.push({
+        system: PARAMETER_SYSTEMS.find(([pattern]) => pattern.test(p.key ?? ''))?.[1] ?? 'engine',
+        points: 5,
+        source: 'live_data',
+        reason: `${p.name} ${p.value} ${p.unit} ${low ? `below ${meta!.warn_low}` : `above ${meta!.warn_high}`} at last scan`,
+      });
+    });
+    return deductions;
+  },
+};
+
+/** Normal wear with age, spread by system weight (up to ~22 points on the engine at 20+ years). */
+export const vehicleAgeScorer: HealthScorer = {
+  name: 'vehicle_age',
+  score: ({ now, vehicle_year }) => {
+    const age = new Date(now).getFullYear() - vehicle_year;
+    const ageFactor = Math.max(0, Math.min(15, age * 0.7));
+    return (Object.keys(SYSTEM_META) as HealthSystem[])
+      .map((system) => ({
+        system,
+        points: Math.round(ageFactor * SYSTEM_META[system].weight * 5),
+        source: 'vehicle_age' as const,
+        reason: `Normal wear for a ${age}-year-old vehicle`,
+      }))
+      .filter((d) => d.points > 0);
+  },
+};
+
+export const DEFAULT_HEALTH_SCORERS: HealthScorer[] = [
+  dtcScorer,
+  recurringDtcScorer,
+  maintenanceScorer,
+  partAgeScorer,
+  recallScorer,
+  liveDataScorer,
+  vehicleAgeScorer,
+];
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+export interface HealthScoreResult {
+  overall_score: number;
+  systems: HealthSystemScore[];
+  maintenance_compliance_pct: number;
+}
+
+/** Share of tracked services that aren't overdue (100 when nothing is tracked). */
+function maintenanceCompliance(inputs: HealthScoreInputs, deductions: HealthDeduction[]): number {
+  const tracked = inputs.reminders.filter((r) => r.status !== 'dismissed').length +
+    inputs.maintenance.filter((m) => m.next_service_mileage != null || m.next_service_date).length;
+  if (tracked === 0) return 100;
+  const overdue = deductions.filter((d) => d.source === 'maintenance').length;
+  return Math.round(Math.max(0, 100 * (1 - overdue / tracked)));
+}
+
+/**
+ * Score every system from the given evidence. Deductions per system are capped
+ * at MAX_SYSTEM_DEDUCTION, charged largest first, so the listed factors always
+ * add up to the score; the overall score is the weight-averaged system score.
+ */
+export function computeHealthScore(
+  inputs: HealthScoreInputs,
+  scorers: HealthScorer[] = DEFAULT_HEALTH_SCORERS
+): HealthScoreResult {
+  const deductions = scorers.flatMap((s) => s.score(inputs)).filter((d) => d.points > 0);
+
+  const systems = (Object.keys(SYSTEM_META) as HealthSystem[]).map((system): HealthSystemScore => {
+    const own = deductions.filter((d) => d.system === system).sort((a, b) => b.points - a.points);
+    let remaining = MAX_SYSTEM_DEDUCTION;
+    const charged = own.map((d) => {
+      const points = Math.min(d.points, remaining);
+      remaining -= points;
+      return { ...d, points, uncapped: d.points };
+    });
+    const score = 100 - (MAX_SYSTEM_DEDUCTION - remaining);
+    return {
+      system,
+      label: SYSTEM_META[system].label,
+      score,
+      status: scoreStatus(score),
+      contributing_factors: charged.map(({ points, uncapped, reason }) =>
+        points < uncapped ? `−${points} · ${reason} (capped from −${uncapped})` : `−${points} · ${reason}`
+      ),
+      deductions: charged.map(({ uncapped: _uncapped, ...d }) => d),
+    };
+  });
+
+  const overall = Math.round(systems.reduce((sum, s) => sum + s.score * SYSTEM_META[s.system].weight, 0));
+  return {
+    overall_score: Math.max(0, Math.min(100, overall)),
+    systems,
+    maintenance_compliance_pct: maintenanceCompliance(inputs, deductions),
+  };
+}
@@ -77,10 +77,24 @@ export {
 export {
   analyzeVehiclePhoto,
   analyzeRepairDocument,
+  scanServiceReceipt,
   analyzeEngineNoise,
   transcribeAudio,
 } from './ai-multimodal-service';
 
+export type { ReceiptExtraction, ReceiptLineItem } from './ai-multimodal-service';
+
+// Receipt ingestion (OCR → proposed record + installed parts)
+export {
+  proposeFromReceipt,
+  partCategory,
+  scanReceipt,
+  attachReceipt,
+  createReceiptParts,
+} from './receipt-ingestion';
+
+export type { InstalledPartDraft, ReceiptProposal } from './receipt-ingestion';
+
 // Diagnostics (AI-powered DTC analysis, health score, symptom checker, OBD-II)
 export {
   analyzeDTC,
@@ -90,16 +104,178 @@ export {
   getLatestHealthScore,
   getHealthScoreHistory,
   saveDiagnosticCode,
+  resolveLiveAlerts,
   getDiagnosticHistory,
   resolveDiagnosticCode,
   updateCodeWithAIAnalysis,
+  saveDiagnosticFlowProgress,
   connectOBDAdapter,
+  disconnectOBDAdapter,
+  getOBDConnection,
+  getSupportedPIDs,
+  setOBDTransportFactory,
   startLiveDataStream,
   readDTCCodes,
+  readPendingCodes,
+  readPermanentCodes,
+  readAllDTCCodes,
+  syncDiagnosticCodes,
   readFreezeFrame,
+  readFreezeFrames,
+  readReadinessMonitors,
+  readLiveSnapshot,
+  saveDiagnosticScan,
+  getScanHistory,
+  runDiagnosticScan,
+  checkInspectionReadiness,
   clearDTCCodes,
 } from './diagnostic-service';
 
+export type { DTCSyncOptions, HealthScoreContext } from './diagnostic-service';
+
+// DTC → system mapping and repair cost model
+export { codeToSystem } from './dtc-systems';
+export { estimateDTCRepairCost, isLuxuryMake, vehicleClassFor, VEHICLE_CLASS_FACTORS } from './repair-cost';
+export type { RepairCostVehicle } from './repair-cost';
+
+// Guided diagnostic flows (curated yes/no troubleshooting trees)
+export {
+  DIAGNOSTIC_FLOWS,
+  matchDiagnosticFlow,
+  getDiagnosticFlow,
+  walkDiagnosticFlow,
+} from './diagnostic-flows';
+
+export type { FlowPosition } from './diagnostic-flows';
+
+// Vehicle health scoring (pure per-system scorers)
+export {
+  computeHealthScore,
+  DEFAULT_HEALTH_SCORERS,
+  dtcScorer,
+  recurringDtcScorer,
+  maintenanceScorer,
+  partAgeScorer,
+  recallScorer,
+  liveDataScorer,
+  vehicleAgeScorer,
+} from './health-score';
+
+export type { HealthScorer, HealthScoreResult } from './health-score';
+
+// OBD-II transport & ELM327 command layer
+export {
+  createScriptedTransport,
+  createDemoVehicleTransport,
+} from './obd-transport';
+
+export {
+  ELM327_PROTOCOLS,
+  OBD_MODES,
+  initializeELM327,
+  sendOBDRequest,
+  readPID,
+  readFreezeFramePID,
+  readFreezeFrameDTC,
+  readStoredDTCs,
+  readPendingDTCs,
+  readPermanentDTCs,
+  clearDTCs,
+  decodeDTC,
+  parseDTCMessages,
+  reassembleISOTP,
+} from './elm327-protocol';
+
+export {
+  MODE01_PIDS,
+  getPIDDefinition,
+  getParameterMeta,
+  decodePID,
+  formatPID,
+  parseSupportedPIDs,
+  discoverSupportedPIDs,
+  readFreezeFrameSnapshot,
+  readAllFreezeFrames,
+  pollablePIDs,
+  parametersToLiveData,
+} from './obd-pids';
+
+// Live data recording & playback
+export {
+  MAX_RECORDING_SAMPLES,
+  startRecording,
+  stopRecording,
+  getActiveRecording,
+  listLocalRecordings,
+  saveRecordingLocal,
+  loadLocalRecording,
+  deleteLocalRecording,
+  uploadRecording,
+  getCloudRecordings,
+  getCloudRecording,
+  loadRecording,
+  createRecordingPlayer,
+  recordingToCSV,
+  recordingToJSON,
+  recordingFilename,
+} from './live-data-recorder';
+
+export type { RecordingPlayer } from './live-data-recorder';
+
+export {
+  getDefaultAlertRules,
+  describeAlertRule,
+  createAlertEvaluator,
+  getAlertRules,
+  saveAlertRules,
+  recordAlertEvent,
+  startAlertMonitor,
+} from './obd-alert-rules';
+
+export type { AlertEvaluator } from './obd-alert-rules';
+
+export {
+  isValidDTC,
+  lookupDTC,
+  searchDTCs,
+  getDTCDatabaseSize,
+} from './dtc-database';
+
+export {
+  FUEL_TRIM_CODES,
+  analyzeFuelTrims,
+  fuelTrimAnalysisToText,
+  attachFuelTrimAnalysis,
+} from './fuel-trim-analyzer';
+
+export {
+  diffDiagnosticScans,
+  diffFreezeFrames,
+} from './scan-diff';
+
+export {
+  INSPECTION_WARNING_DAYS,
+  decodeMonitorStatus,
+  readMonitorStatus,
+  allowedIncompleteMonitors,
+  predictInspection,
+  getInspectionWarning,
+} from './obd-readiness';
+
+export type {
+  OBDTransport,
+  OBDTransportFactory,
+  ScriptedReply,
+} from './obd-transport';
+
+export type { PIDDefinition } from './obd-pids';
+
+export type {
+  ELM327Session,
+  ELM327ProtocolInfo,
+  OBDMessage,
+} from './elm327-protocol';
+
 // Recalls & TSBs (NHTSA)
 export {
   checkRecallsByVehicle,
@@ -129,6 +305,11 @@ export {
   canAddVehicle,
   searchVehicleByVIN,
   getMileageLogs,
+  deleteMileageLog,
+  updateVehicleServiceProfile,
+  getMileageProjection,
+  getVehicleStats,
+  updateVehicleMarketValue,
 } from './vehicle-service';
 
 // Maintenance tracking
@@ -146,6 +327,183 @@ export {
   getServiceReminders,
 } from './maintenance-service';
 
+// Mileage projection (odometer log → daily rate, seasonality, date estimates)
+export {
+  buildMileageProjection,
+  projectMileage,
+  estimateMileageDate,
+  monthlyMileage,
+} from './mileage-projection';
+
+export type { ProjectionVehicle } from './mileage-projection';
+
+// Device-local notifications (pure planner + Expo driver)
+export {
+  createNotificationScheduler,
+  createMemoryNotificationDriver,
+  createMemoryLedgerStore,
+  planNotifications,
+  isNotificationEnabled,
+  NOTIFICATION_PREFERENCE,
+  systemClock,
+} from './notification-scheduler';
+
+export type {
+  Clock,
+  NotificationDriver,
+  NotificationLedgerStore,
+  NotificationScheduler,
+  NotificationSources,
+} from './notification-scheduler';
+
+export {
+  configureNotifications,
+  requestNotificationPermission,
+  syncNotifications,
+  handleNotificationResponse,
+  SNOOZE_ACTIONS,
+} from './notification-service';
+
+// Maintenance schedule engine (due calculation + reminder sync)
+export {
+  DEFAULT_MAINTENANCE_SCHEDULE,
+  SCHEDULE_REMINDER_SOURCE,
+  scheduleForProfile,
+  computeSchedule,
+  reminderStatus,
+  odometerAt,
+  syncScheduleReminders,
+} from './maintenance-schedule';
+
+export type { ScheduleInputs, ScheduleSyncOptions, ScheduleSyncResult } from './maintenance-schedule';
+
+// Maintenance budget tracking (spend vs. budget, forecast, alerts)
+export {
+  DEFAULT_BUDGET_ALERT_PERCENT,
+  budgetPeriod,
+  evaluateBudget,
+  getBudgetStatuses,
+} from './budget-tracker';
+
+export type { BudgetInputs } from './budget-tracker';
+
+// Parts warranty tracking (coverage + claim prompts)
+export {
+  warrantyCoverage,
+  coverageRemainingText,
+  buildWarrantyReport,
+  getWarrantyReport,
+} from './warranty-tracker';
+
+export type { WarrantyInputs, WarrantyReport } from './warranty-tracker';
+
+// Vehicle financing (loan accounts, payments, amortization, payoff)
+export {
+  EXTRA_PAYMENT_SCENARIOS,
+  monthlyPayment,
+  buildAmortizationSchedule,
+  applyLoanPayments,
+  analyzePayoff,
+  getFinancialAccounts,
+  createFinancialAccount,
+  updateFinancialAccount,
+  deleteFinancialAccount,
+  getLoanPayments,
+  updateLoanAccount,
+  updateLeaseAccount,
+  recordLoanPayment,
+  deleteLoanPayment,
+  getLoanOverview,
+} from './financing-service';
+
+export type { AppliedLoanPayment, LoanPosition, LoanOverview } from './financing-service';
+
+// Lease tracking (mileage overage, buyout equity, lease vs. buy)
+export {
+  DEFAULT_DEPRECIATION_RATE,
+  moneyFactorToApr,
+  compareLeaseVsBuy,
+  buildLeaseReport,
+  getLeaseReport,
+} from './lease-tracker';
+
+export type { LeaseInputs, LeaseReport, LeasePace } from './lease-tracker';
+
+// Vehicle valuation (snapshots, depreciation model, pluggable price source)
+export {
+  LOCAL_MODEL_SOURCE,
+  vehicleSegment,
+  retentionAtAge,
+  estimateVehicleValue,
+  localDepreciationProvider,
+  setValuationProvider,
+  buildValuationHistory,
+  getValuations,
+  refreshVehicleValuation,
+  getVehicleValuationHistory,
+} from './valuation-service';
+
+export type {
+  VehicleSegment,
+  ValuationVehicle,
+  ValuationInput,
+  ValuationEstimate,
+  ValuationProvider,
+} from './valuation-service';
+
+// Total cost of ownership (per vehicle, garage comparison, printable report)
+export {
+  COST_CATEGORY_LABELS,
+  vehicleName,
+  ownershipStartMileage,
+  buildOwnershipCostReport,
+  compareOwnershipCosts,
+  getOwnershipCostReport,
+  getGarageOwnershipCosts,
+  renderOwnershipCostReport,
+  printOwnershipCostReport,
+} from './ownership-cost';
+
+export type {
+  CostCategory,
+  CostLine,
+  OwnershipVehicle,
+  OwnershipCostInputs,
+  OwnershipCostReport,
+  GarageCostComparison,
+} from './ownership-cost';
+
+// Fuel and charging log (economy, trends, drop detection)
+export {
+  getFuelLogs,
+  addFuelLog,
+  deleteFuelLog,
+} from './fuel-service';
+
+export {
+  fuelKindsFor,
+  formatEconomy,
+  buildEconomySegments,
+  buildFuelEconomyStats,
+  buildFuelEconomyReport,
+  getFuelEconomy,
+} from './fuel-economy';
+
+export type { FuelEconomyReport } from './fuel-economy';
+
+// Calendar export (.ics download + subscription feed)
+export {
+  buildCalendar,
+  getVehicleCalendar,
+  shareCalendarFile,
+  getCalendarFeed,
+  publishCalendarFeed,
+  enableCalendarFeed,
+  disableCalendarFeed,
+} from './calendar-export';
+
+export type { CalendarSources, CalendarOptions, CalendarFeed } from './calendar-export';
+
 // Storage management
 export {
   STORAGE_BUCKETS,
@@ -0,0 +1,253 @@
+/**
+ * Gear AI CoPilot - Lease Tracker
+ *
+ * Projects a lease's end-of-term odometer from the vehicle's mileage log,
+ * prices the overage, weighs the buyout against what the car is worth, and
+ * compares turning it in for another lease with buying it out at lease end.
+ */
+
+import { buildAmortizationSchedule, monthlyPayment } from './financing-service';
+import { projectMileage } from './mileage-projection';
+import { getMileageProjection } from './vehicle-service';
+import { addMonths, dateOnly, daysBetween, localIsoDate, monthsUntil, round2 } from './date-money';
+import type { FinancialAccount, LeaseDetails, LeaseVsBuyAnalysis } from '../types/financial';
+import type { MileageProjection, Vehicle } from '../types/vehicle';
+
+/** Driving more than this share over the prorated allowance counts as over pace. */
+const PACE_TOLERANCE = 0.05;
+
+/** Annual value loss assumed for the lease-vs-buy outlook when nothing better is known. */
+export const DEFAULT_DEPRECIATION_RATE = 0.15;
+
+/** Horizon of the lease-vs-buy comparison, matching LeaseVsBuyAnalysis' 3-year totals. */
+const COMPARISON_MONTHS = 36;
+
+export type LeasePace = 'under' | 'on_track' | 'over';
+
+export interface LeaseInputs {
+  account: FinancialAccount;
+  projection?: MileageProjection | null;
+  current_mileage?: number;
+  /** Vehicle's market value; without one the residual stands in */
+  market_value?: number;
+  /** Annual depreciation for the lease-vs-buy outlook */
+  depreciation_rate?: number;
+  now?: Date;
+}
+
+export interface LeaseReport {
+  details: LeaseDetails;
+  market_value_source: 'vehicle' | 'residual';
+  months_remaining: number;
+  allowance_total: number;
+  miles_driven: number;
+  /** Allowance used up so far if miles were spread evenly across the term */
+  miles_allowed_to_date: number;
+  projected_end_mileage: number;
+  /** Negative when the lease should finish under the allowance */
+  projected_overage_miles: number;
+  pace: LeasePace;
+  /** Monthly miles that keep the rest of the lease within the allowance */
+  monthly_miles_budget?: number;
+  warning?: string;
+  lease_vs_buy: LeaseVsBuyAnalysis;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** APR equivalent of a money factor (× 2400 gives the percentage). */
+export const moneyFactorToApr = (moneyFactor: number) => moneyFactor * 24;
+
+/**
+ * Capitalized cost: the recorded amount, else the one implied by the payment,
+ * which is depreciation (cap cost less residual, over the term) plus the rent
+ * charge (cap cost plus residual, times the money factor).
+ */
+function capitalizedCost(account: FinancialAccount, payment: number, residual: number, term: number): number {
+  const recorded = Number(account.principal_amount) || 0;
+  if (recorded > 0) return recorded;
+  const moneyFactor = Number(account.money_factor) || 0;
+  return (payment + residual / term - residual * moneyFactor) / (1 / term + moneyFactor);
+}
+
+// ============================================================================
+// LEASE VS BUY (pure)
+// ============================================================================
+
+/**
+ * At lease end: sign a similar lease for three more years, or buy the car
+ * for its residual, financed over the same three years. Leasing costs the
+ * overage and disposition fee on turn-in; buying leaves a car worth
+ * something at the end. The break-even month is when buying's net cost
+ * (payments less equity) first drops to leasing's, or 0 if it never does.
+ */
+export function compareLeaseVsBuy(params: {
+  lease_payment: number;
+  residual: number;
+  apr: number;
+  value_at_lease_end: number;
+  depreciation_rate: number;
+  turn_in_costs: number;
+}): LeaseVsBuyAnalysis {
+  const { lease_payment, residual, apr, value_at_lease_end, depreciation_rate, turn_in_costs } = params;
+  const buyPayment = monthlyPayment(residual, apr, COMPARISON_MONTHS);
+  const loan = buildAmortizationSchedule(residual, apr, buyPayment, localIsoDate(new Date()));
+  const valueAt = (months: number) => value_at_lease_end * Math.pow(1 - depreciation_rate, months / 12);
+
+  let breakEven = 0;
+  let paid = 0;
+  for (let m = 1; m <= COMPARISON_MONTHS; m++) {
+    paid += loan[m - 1]?.payment ?? 0;
+    const equity = valueAt(m) - (loan[m - 1]?.balance ?? 0);
+    if (paid - equity <= turn_in_costs + lease_payment * m) {
+      breakEven = m;
+      break;
+    }
+  }
+
+  const leaseTotal = round2(lease_payment * COMPARISON_MONTHS + turn_in_costs);
+  const buyTotal = round2(loan.reduce((sum, row) => sum + row.payment, 0));
+  const buyEquity = round2(valueAt(COMPARISON_MONTHS));
+  const leaseNet = leaseTotal;
+  const buyNet = buyTotal - buyEquity;
+
+  return {
+    lease: { monthly_payment: lease_payment, total_cost_3_years: leaseTotal, equity_at_end: 0 },
+    buy: { monthly_payment: buyPayment, total_cost_3_years: buyTotal, equity_at_end: buyEquity },
+    break_even_months: breakEven,
+    recommendation: buyNet < leaseNet ? 'buy' : 'lease',
+    savings: round2(Math.abs(leaseNet - buyNet)),
+  };
+}
+
+// ============================================================================
+// REPORT (pure)
+// ============================================================================
+
+/**
+ * Mileage, overage and equity for a lease. The end-of-lease odometer comes
+ * from the mileage projection (seasonal pace from the log); with no log it
+ * extrapolates the average pace since delivery.
+ */
+export function buildLeaseReport(inputs: LeaseInputs): LeaseReport {
+  const { account } = inputs;
+  const today = localIsoDate(inputs.now ?? new Date());
+  const start = dateOnly(account.start_date);
+  const term = account.term_months || 36;
+  const end = account.end_date ? dateOnly(account.end_date) : addMonths(start, term);
+  const payment = Number(account.monthly_payment) || 0;
+  const residual = Number(account.residual_value) || 0;
+  const annualAllowance = account.miles_allowed_annual || 0;
+  const overageRate = Number(account.overage_charge_per_mile) || 0;
+  const startMileage = account.start_mileage ?? 0;
+
+  const totalDays = Math.max(daysBetween(start, end), 1);
+  const elapsed = Math.min(Math.max(daysBetween(start, today) / totalDays, 0), 1);
+  const monthsRemaining = today >= end ? 0 : monthsUntil(today < start ? start : today, end);
+
+  const current = Math.max(inputs.current_mileage ?? 0, inputs.projection?.last_reading?.mileage ?? 0, startMileage);
+  const driven = current - startMileage;
+  const allowanceTotal = Math.round((annualAllowance * term) / 12);
+  const allowedToDate = Math.round(allowanceTotal * elapsed);
+
+  let projectedEnd = current;
+  if (today < end) {
+    const projected = inputs.projection ? projectMileage(inputs.projection, `${end}T12:00:00`) : undefined;
+    projectedEnd = Math.round(projected ?? (elapsed > 0 ? startMileage + driven / elapsed : current));
+  }
+  const overMiles = allowanceTotal > 0 ? projectedEnd - startMileage - allowanceTotal : 0;
+  const overageCost = round2(Math.max(overMiles, 0) * overageRate);
+
+  let pace: LeasePace = 'on_track';
+  if (allowanceTotal > 0) {
+    if (overMiles > 0 || driven > allowedToDate * (1 + PACE_TOLERANCE)) pace = 'over';
+    else if (driven < allowedToDate * (1 - PACE_TOLERANCE)) pace = 'under';
+  }
+  const remainingAllowance = allowanceTotal - driven;
+  const monthlyBudget =
+    allowanceTotal > 0 && monthsRemaining > 0 ? Math.max(Math.round(remainingAllowance / monthsRemaining), 0) : undefined;
+
+  let warning: string | undefined;
+  if (pace === 'over' && allowanceTotal > 0) {
+    warning =
+      overMiles > 0
+        ? `At your current pace you'll return the car about ${overMiles.toLocaleString()} mi over the ${allowanceTotal.toLocaleString()} mi allowance` +
+          (overageRate > 0 ? `, roughly $${overageCost.toLocaleString()} at $${overageRate.toFixed(2)}/mi.` : '.')
+        : `You've driven ${driven.toLocaleString()} mi, ahead of the ${allowedToDate.toLocaleString()} mi allowed so far.`;
+    if (monthlyBudget !== undefined) {
+      warning += ` Keeping to ${monthlyBudget.toLocaleString()} mi a month from here stays within it.`;
+    }
+  }
+
+  const hasMarketValue = !!inputs.market_value && inputs.market_value > 0;
+  const marketValue = hasMarketValue ? inputs.market_value! : residual;
+  // Early buyout pays off the residual and the depreciation not yet paid; rent charge and tax aren't owed ahead
+  const monthlyDepreciation = Math.max(capitalizedCost(account, payment, residual, term) - residual, 0) / term;
+  const buyout = round2(residual + monthlyDepreciation * monthsRemaining);
+  const rate = inputs.depreciation_rate ?? DEFAULT_DEPRECIATION_RATE;
+  const apr = account.interest_rate ? Number(account.interest_rate) : moneyFactorToApr(Number(account.money_factor) || 0);
+
+  return {
+    details: {
+      monthly_payment: payment,
+      term_months: term,
+      money_factor: Number(account.money_factor) || 0,
+      residual_value: residual,
+      start_date: start,
+      end_date: end,
+      miles_allowed_annual: annualAllowance,
+      current_mileage: current,
+      overage_charge_per_mile: overageRate,
+      projected_overage_cost: overageCost,
+      buyout_value: buyout,
+      market_value: round2(marketValue),
+      equity: round2(marketValue - buyout),
+    },
+    market_value_source: hasMarketValue ? 'vehicle' : 'residual',
+    months_remaining: monthsRemaining,
+    allowance_total: allowanceTotal,
+    miles_driven: driven,
+    miles_allowed_to_date: allowedToDate,
+    projected_end_mileage: projectedEnd,
+    projected_overage_miles: overMiles,
+    pace,
+    monthly_miles_budget: monthlyBudget,
+    warning,
+    lease_vs_buy: compareLeaseVsBuy({
+      lease_payment: payment,
+      residual,
+      apr,
+      value_at_lease_end: hasMarketValue ? marketValue * Math.pow(1 - rate, monthsRemaining / 12) : residual,
+      depreciation_rate: rate,
+      turn_in_costs: overageCost + (Number(account.metadata?.disposition_fee) || 0),
+    }),
+  };
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/** Lease report for a vehicle, projecting from its mileage log. */
+export async function getLeaseReport(
+  account: FinancialAccount,
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'year' | 'current_mileage' | 'in_service_date' | 'current_market_value'>,
+  userId: string,
+  now: Date = new Date()
+): Promise<LeaseReport | null> {
+  try {
+    const projection = await getMileageProjection(vehicle, userId).catch(() => null);
+    return buildLeaseReport({
+      account,
+      projection,
+      current_mileage: vehicle.current_mileage,
+      market_value: vehicle.current_market_value,
+      now,
+    });
+  } catch (err) {
+    console.warn('[LeaseTracker] getLeaseReport failed:', err);
+    return null;
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Gear AI CoPilot - Live Data Recorder
+ *
+ * Buffers the OBD-II live stream into named recording sessions (test drives,
+ * intermittent-fault captures), stores them on-device or in Supabase, plays
+ * them back through the live-stream callback shape and exports CSV/JSON.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
+import type {
+  LiveDataRecording,
+  LiveDataRecordingSummary,
+  LiveDataSample,
+  OBDParameter,
+  PlaybackState,
+} from '../types/diagnostic';
+import { startLiveDataStream } from './diagnostic-service';
+
+const RECORDING_INDEX_KEY = '@gear_ai_recordings';
+const RECORDING_KEY_PREFIX = '@gear_ai_recording:';
+const RECORDING_DIR = 'recordings/';
+
+/** One hour at the live poll rate; older samples are dropped beyond this. */
+export const MAX_RECORDING_SAMPLES = 7200;
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+interface ActiveRecording {
+  recording: LiveDataRecording;
+  startedAtMs: number;
+  unsubscribe: () => void;
+}
+
+let _active: ActiveRecording | null = null;
+
+/**
+ * Start buffering live data into a new recording. Requires a connected adapter
+ * (the live stream is started if it isn't already running).
+ */
+export function startRecording(name: string, options: { vehicleId?: string; userId?: string; pids?: number[] } = {}): LiveDataRecording {
+  if (_active) throw new Error('A recording is already in progress');
+
+  const startedAtMs = Date.now();
+  const recording: LiveDataRecording = {
+    recording_id: `rec-${startedAtMs}`,
+    name: name.trim() || `Recording ${new Date(startedAtMs).toLocaleString()}`,
+    vehicle_id: options.vehicleId,
+    user_id: options.userId,
+    started_at: new Date(startedAtMs).toISOString(),
+    duration_ms: 0,
+    sample_count: 0,
+    samples: [],
+    storage: 'local',
+  };
+
+  const unsubscribe = startLiveDataStream((parameters) => {
+    if (!_active) return;
+    const sample: LiveDataSample = { offset_ms: Date.now() - startedAtMs, parameters };
+    recording.samples.push(sample);
+    if (recording.samples.length > MAX_RECORDING_SAMPLES) recording.samples.shift();
+    recording.sample_count = recording.samples.length;
+    recording.duration_ms = sample.offset_ms;
+  }, options.pids);
+
+  _active = { recording, startedAtMs, unsubscribe };
+  return recording;
+}
+
+/**
+ * Stop the active recording, save it on-device and return it. Capture stops
+ * even when the save throws, so the caller can still export or upload it.
+ */
+export async function stopRecording(): Promise<LiveDataRecording | null> {
+  if (!_active) return null;
+  const { recording, startedAtMs, unsubscribe } = _active;
+  _active = null;
+  unsubscribe();
+  recording.ended_at = new Date().toISOString();
+  recording.duration_ms = Math.max(recording.duration_ms, Date.now() - startedAtMs);
+  await saveRecordingLocal(recording);
+  return recording;
+}
+
+/** The recording currently being captured, if any. */
+export function getActiveRecording(): LiveDataRecording | null {
+  return _active?.recording ?? null;
+}
+
+function summarize(recording: LiveDataRecording): LiveDataRecordingSummary {
+  const { samples: _samples, ...summary } = recording;
+  return summary;
+}
+
+// ============================================================================
+// LOCAL STORAGE (file system, AsyncStorage index)
+// ============================================================================
+
+// An hour of samples runs to megabytes, past Android's per-entry AsyncStorage
+// limit, so native builds keep each recording in its own file. Web has no
+// file system and no such limit, so it stays in AsyncStorage.
+const useFiles = () => Platform.OS !== 'web' && !!FileSystem.documentDirectory;
+
+function recordingFile(recordingId: string): string {
+  return `${FileSystem.documentDirectory}${RECORDING_DIR}${recordingId}.json`;
+}
+
+/** Recordings saved on this device, newest first. */
+export async function listLocalRecordings(): Promise<LiveDataRecordingSummary[]> {
+  try {
+    const raw = await AsyncStorage.getItem(RECORDING_INDEX_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.warn('[LiveDataRecorder] listLocalRecordings failed:', err);
+    return [];
+  }
+}
+
+/** Save (or overwrite) a recording on this device. */
+export async function saveRecordingLocal(recording: LiveDataRecording): Promise<void> {
+  const index = (await listLocalRecordings()).filter((r) => r.recording_id !== recording.recording_id);
+  if (useFiles()) {
+    const dir = `${FileSystem.documentDirectory}${RECORDING_DIR}`;
+    if (!(await FileSystem.getInfoAsync(dir)).exists) await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    await FileSystem.writeAsStringAsync(recordingFile(recording.recording_id), JSON.stringify(recording));
+  } else {
+    await AsyncStorage.setItem(`${RECORDING_KEY_PREFIX}${recording.recording_id}`, JSON.stringify(recording));
+  }
+  await AsyncStorage.setItem(RECORDING_INDEX_KEY, JSON.stringify([summarize(recording), ...index]));
+}
+
+export async function loadLocalRecording(recordingId: string): Promise<LiveDataRecording | null> {
+  try {
+    if (useFiles()) {
+      const file = recordingFile(recordingId);
+      if ((await FileSystem.getInfoAsync(file)).exists) return JSON.parse(await FileSystem.readAsStringAsync(file));
+    }
+    // Web, and short recordings saved before they moved to files
+    const raw = await AsyncStorage.getItem(`${RECORDING_KEY_PREFIX}${recordingId}`);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    console.warn('[LiveDataRecorder] loadLocalRecording failed:', err);
+    return null;
+  }
+}
+
+export async function deleteLocalRecording(recordingId: string): Promise<void> {
+  const index = (await listLocalRecordings()).filter((r) => r.recording_id !== recordingId);
+  if (useFiles()) await FileSystem.deleteAsync(recordingFile(recordingId), { idempotent: true });
+  await AsyncStorage.removeItem(`${RECORDING_KEY_PREFIX}${recordingId}`);
+  await AsyncStorage.setItem(RECORDING_INDEX_KEY, JSON.stringify(index));
+}
+
+// ============================================================================
+// CLOUD STORAGE (Supabase)
+// ============================================================================
+
+/** Upload a recording to Supabase. Returns the stored row, or null on failure. */
+export async function uploadRecording(recording: LiveDataRecording, userId: string): Promise<LiveDataRecording | null> {
+  try {
+    const { data, error } = await supabase
+      .from('live_data_recordings')
+      .insert({
+        user_id: userId,
+        vehicle_id: recording.vehicle_id,
+        name: recording.name,
+        started_at: recording.started_at,
+        ended_at: recording.ended_at,
+        duration_ms: recording.duration_ms,
+        sample_count: recording.sample_count,
+        samples: recording.samples,
+        notes: recording.notes,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return { ...data, storage: 'cloud' };
+  } catch (err) {
+    console.warn('[LiveDataRecorder] uploadRecording failed:', err);
+    return null;
+  }
+}
+
+/** Cloud recordings for a vehicle (without samples), newest first. */
+export async function getCloudRecordings(vehicleId: string): Promise<LiveDataRecordingSummary[]> {
+  try {
+    const { data, error } = await supabase
+      .from('live_data_recordings')
+      .select('recording_id, name, vehicle_id, user_id, started_at, ended_at, duration_ms, sample_count, notes')
+      .eq('vehicle_id', vehicleId)
+      .order('started_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map((r) => ({ ...r, storage: 'cloud' as const }));
+  } catch (err) {
+    console.warn('[LiveDataRecorder] getCloudRecordings failed:', err);
+    return [];
+  }
+}
+
+export async function getCloudRecording(recordingId: string): Promise<LiveDataRecording | null> {
+  try {
+    const { data, error } = await supabase
+      .from('live_data_recordings')
+      .select('*')
+      .eq('recording_id', recordingId)
+      .single();
+    if (error) throw error;
+    return { ...data, storage: 'cloud' };
+  } catch (err) {
+    console.warn('[LiveDataRecorder] getCloudRecording failed:', err);
+    return null;
+  }
+}
+
+/** Load a recording's samples from wherever it is stored. */
+export function loadRecording(summary: LiveDataRecordingSummary): Promise<LiveDataRecording | null> {
+  return summary.storage === 'cloud' ? getCloudRecording(summary.recording_id) : loadLocalRecording(summary.recording_id);
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+export interface RecordingPlayer {
+  play(speed?: number): void;
+  pause(): void;
+  /** Jump to a position and emit the sample there. */
+  seek(positionMs: number): void;
+  getState(): PlaybackState;
+  dispose(): void;
+}
+
+/** Index of the last sample at or before `positionMs`. */
+function sampleIndexAt(samples: LiveDataSample[], positionMs: number): number {
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (samples[mid].offset_ms <= positionMs) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Replay a recording through the same `(params: OBDParameter[]) => void`
+ * callback startLiveDataStream uses, so live views can render it unchanged.
+ */
+export function createRecordingPlayer(
+  recording: LiveDataRecording,
+  callback: (params: OBDParameter[]) => void,
+  onStateChange?: (state: PlaybackState) => void
+): RecordingPlayer {
+  const samples = recording.samples;
+  const duration = samples.length > 0 ? samples[samples.length - 1].offset_ms : 0;
+  let index = 0;
+  let playing = false;
+  let speed = 1;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const state = (): PlaybackState => ({
+    position_ms: samples[index]?.offset_ms ?? 0,
+    duration_ms: duration,
+    playing,
+    speed,
+  });
+  const emit = () => {
+    if (samples[index]) callback(samples[index].parameters);
+    onStateChange?.(state());
+  };
+  const clear = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+  const scheduleNext = () => {
+    clear();
+    if (!playing) return;
+    if (index >= samples.length - 1) {
+      playing = false;
+      onStateChange?.(state());
+      return;
+    }
+    const wait = (samples[index + 1].offset_ms - samples[index].offset_ms) / speed;
+    timer = setTimeout(() => {
+      index++;
+      emit();
+      scheduleNext();
+    }, Math.max(0, wait));
+  };
+
+  return {
+    play(nextSpeed = speed) {
+      if (samples.length === 0) return;
+      speed = nextSpeed > 0 ? nextSpeed : 1;
+      if (index >= samples.length - 1) index = 0;
+      playing = true;
+      emit();
+      scheduleNext();
+    },
+    pause() {
+      playing = false;
+      clear();
+      onStateChange?.(state());
+    },
+    seek(positionMs: number) {
+      if (samples.length === 0) return;
+      index = sampleIndexAt(samples, Math.max(0, Math.min(duration, positionMs)));
+      emit();
+      scheduleNext();
+    },
+    getState: state,
+    dispose() {
+      playing = false;
+      clear();
+    },
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/** One CSV row per sample, one column per parameter seen anywhere in the recording. */
+export function recordingToCSV(recording: LiveDataRecording): string {
+  const columns = new Map<string, string>();
+  recording.samples.forEach((s) =>
+    s.parameters.forEach((p) => {
+      const id = p.key ?? p.pid;
+      if (!columns.has(id)) columns.set(id, `${p.name} (${p.unit})`);
+    })
+  );
+  const ids = Array.from(columns.keys());
+  const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const startMs = new Date(recording.started_at).getTime();
+
+  const rows = [
+    ['timestamp', 'elapsed_s', ...ids.map((id) => columns.get(id)!)].map(escape).join(','),
+    ...recording.samples.map((s) => {
+      const byId = new Map(s.parameters.map((p) => [p.key ?? p.pid, p.value]));
+      return [
+        new Date(startMs + s.offset_ms).toISOString(),
+        (s.offset_ms / 1000).toFixed(2),
+        ...ids.map((id) => (byId.has(id) ? String(byId.get(id)) : '')),
+      ].join(',');
+    }),
+  ];
+  return rows.join('\n');
+}
+
+export function recordingToJSON(recording: LiveDataRecording): string {
+  return JSON.stringify({ exported_at: new Date().toISOString(), ...recording }, null, 2);
+}
+
+/** File name for an export, e.g. "test-drive-2026-10-19.csv". */
+export function recordingFilename(recording: LiveDataRecording, format: 'csv' | 'json'): string {
+  const slug = recording.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recording';
+  return `${slug}-${recording.started_at.slice(0, 10)}.${format}`;
+}
@@ -0,0 +1,412 @@
+/**
+ * Gear AI CoPilot - Maintenance Schedule Engine
+ *
+ * Resolves a vehicle's maintenance schedule against its service history and
+ * odometer log into next-due dates and mileages, then keeps service_reminders
+ * in step: one open reminder per scheduled service, re-dated as work is
+ * logged and moved between upcoming, due and overdue as time and miles pass.
+ */
+
+import { supabase } from '../lib/supabase';
+import { getMaintenanceRecords, getServiceReminders } from './maintenance-service';
+import { getMileageLogs } from './vehicle-service';
+import { buildMileageProjection, estimateMileageDate, projectMileage } from './mileage-projection';
+import {
+  CommonServiceTypes,
+  MaintenanceInterval,
+  MaintenanceRecord,
+  ScheduledService,
+  ServiceProfile,
+  ServiceReminder,
+} from '../types/maintenance';
+import type { MileageLogEntry, MileageProjection, Vehicle } from '../types/vehicle';
+
+/** metadata.source on reminders the engine owns; hand-made reminders are never re-dated. */
+export const SCHEDULE_REMINDER_SOURCE = 'schedule';
+
+const DUE_SOON_MILES = 500;
+const DUE_SOON_DAYS = 30;
+const DAY_MS = 86_400_000;
+
+// ---------------------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------------------
+
+type CommonServiceKey = keyof typeof CommonServiceTypes;
+
+/**
+ * Services on a typical OEM schedule. Pads, tires and batteries are replaced
+ * on condition, and timing belts depend on the engine, so they stay manual.
+ */
+const SCHEDULED_SERVICES: Partial<Record<CommonServiceKey, MaintenanceInterval['severity']>> = {
+  OIL_CHANGE: 'critical',
+  TIRE_ROTATION: 'recommended',
+  AIR_FILTER: 'recommended',
+  CABIN_FILTER: 'optional',
+  BRAKE_INSPECTION: 'important',
+  COOLANT_FLUSH: 'important',
+  TRANSMISSION_FLUID: 'important',
+  SPARK_PLUGS: 'important',
+  ALIGNMENT: 'optional',
+};
+
+export const DEFAULT_MAINTENANCE_SCHEDULE: MaintenanceInterval[] = (
+  Object.entries(SCHEDULED_SERVICES) as Array<[CommonServiceKey, MaintenanceInterval['severity']]>
+).map(([key, severity]) => {
+  const service = CommonServiceTypes[key];
+  return {
+    service_type: key.toLowerCase(),
+    description: service.name,
+    first_interval_miles: service.typical_interval_miles,
+    first_interval_months: service.typical_interval_months,
+    recurring_interval_miles: service.typical_interval_miles,
+    recurring_interval_months: service.typical_interval_months,
+    estimated_cost_min: service.typical_cost_min,
+    estimated_cost_max: service.typical_cost_max,
+    severity,
+  };
+});
+
+/** Severe-service caps: oil, filters and fluids come round sooner; plugs, coolant and alignment don't change. */
+const SEVERE_INTERVALS: Record<string, { miles: number; months: number }> = {
+  oil_change: { miles: 3000, months: 3 },
+  tire_rotation: { miles: 5000, months: 6 },
+  air_filter: { miles: 7500, months: 6 },
+  cabin_filter: { miles: 7500, months: 6 },
+  brake_inspection: { miles: 6000, months: 6 },
+  transmission_fluid: { miles: 30000, months: 24 },
+};
+
+/** service_type as a stable key, so "Oil Change" from an AI plan and "oil_change" are the same service. */
+export const serviceKey = (serviceType: string) =>
+  serviceType.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/** Caps a positive interval; 0/undefined means the service isn't tracked on that axis. */
+const cap = <T extends number | undefined>(value: T, limit: number): T =>
+  (value ? Math.min(value, limit) : value) as T;
+
+/** The schedule under a service profile. Severe shortens known services and leaves the rest unchanged. */
+export function scheduleForProfile(schedule: MaintenanceInterval[], profile: ServiceProfile): MaintenanceInterval[] {
+  if (profile === 'normal') return schedule;
+  return schedule.map((interval) => {
+    const severe = SEVERE_INTERVALS[serviceKey(interval.service_type)];
+    if (!severe) return interval;
+    return {
+      ...interval,
+      first_interval_miles: cap(interval.first_interval_miles, severe.miles),
+      first_interval_months: cap(interval.first_interval_months, severe.months),
+      recurring_interval_miles: cap(interval.recurring_interval_miles, severe.miles),
+      recurring_interval_months: cap(interval.recurring_interval_months, severe.months),
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// History
+// ---------------------------------------------------------------------------
+
+type ServiceHistoryRecord = Pick<
+  MaintenanceRecord,
+  'title' | 'date' | 'mileage' | 'next_service_date' | 'next_service_mileage' | 'metadata'
+>;
+
+/** Record titles that count as each built-in service. Other service types match on their own words. */
+const SERVICE_MATCHERS: Record<string, { match: RegExp; exclude?: RegExp }> = {
+  oil_change: { match: /\boil\b.*\b(change|service)|\boil (and|&) filter|\blube\b/i },
+  tire_rotation: { match: /\brotat/i },
+  air_filter: { match: /\bair filter|\bengine filter/i, exclude: /\bcabin/i },
+  cabin_filter: { match: /\bcabin (air )?filter|\bpollen filter/i },
+  brake_inspection: { match: /\bbrake/i },
+  coolant_flush: { match: /\b(coolant|antifreeze|radiator)\b.*\b(flush|change|exchange|service)/i },
+  transmission_fluid: { match: /\b(transmission|trans|atf|cvt)\b.*\b(fluid|flush|service|change)/i },
+  spark_plugs: { match: /\bspark plugs?\b|\btune[- ]?up/i },
+  alignment: { match: /\balign/i },
+};
+
+function recordMatches(record: ServiceHistoryRecord, key: string): boolean {
+  // Records logged from a reminder carry the service they satisfied
+  if (record.metadata?.service_type) return serviceKey(String(record.metadata.service_type)) === key;
+
+  const matcher = SERVICE_MATCHERS[key];
+  if (matcher) return matcher.match.test(record.title) && !matcher.exclude?.test(record.title);
+
+  const words = key.split('_').filter((w) => w.length > 2);
+  return words.length > 0 && words.every((w) => new RegExp(`\\b${w}`, 'i').test(record.title));
+}
+
+const toTime = (iso: string) => new Date(iso).getTime();
+
+/** Odometer on a date, interpolated between logged readings; undefined outside the logged range. */
+export function odometerAt(date: string, logs: MileageLogEntry[]): number | undefined {
+  const t = toTime(date);
+  const sorted = [...logs].sort((a, b) => toTime(a.logged_date) - toTime(b.logged_date));
+  for (let i = 0; i < sorted.length; i++) {
+    const at = toTime(sorted[i].logged_date);
+    if (at === t) return sorted[i].mileage;
+    if (at > t) {
+      if (i === 0) return undefined;
+      const prev = sorted[i - 1];
+      const prevAt = toTime(prev.logged_date);
+      return Math.round(prev.mileage + ((sorted[i].mileage - prev.mileage) * (t - prevAt)) / (at - prevAt));
+    }
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Due calculation (pure)
+// ---------------------------------------------------------------------------
+
+export interface ScheduleInputs {
+  records: ServiceHistoryRecord[];
+  mileageLogs: MileageLogEntry[];
+  currentMileage?: number;
+  /** Where first intervals start for services that have never been logged. */
+  inServiceDate: string;
+  /** Projects the odometer to today and dates mileage targets. */
+  projection?: MileageProjection;
+  now?: Date;
+}
+
+const addMonths = (iso: string, months: number) => {
+  const d = new Date(iso);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().split('T')[0];
+};
+
+/** Best odometer estimate for today: the highest reading, projected forward when a projection is available. */
+export function latestMileage(
+  currentMileage: number | undefined,
+  logs: MileageLogEntry[],
+  projection?: MileageProjection,
+  now: Date = new Date()
+): number | undefined {
+  const readings = [currentMileage ?? 0, ...logs.map((l) => l.mileage)];
+  if (projection) readings.push(projectMileage(projection, now) ?? 0);
+  const max = Math.max(...readings);
+  return max > 0 ? max : undefined;
+}
+
+/**
+ * Upcoming/due/overdue for a date and/or mileage target: overdue once either
+ * is passed, due within 30 days or 500 miles.
+ */
+export function reminderStatus(
+  target: Pick<ServiceReminder, 'due_date' | 'due_mileage'>,
+  currentMileage: number | undefined,
+  now: Date = new Date()
+): ScheduledService['status'] {
+  const daysLeft = target.due_date ? (toTime(target.due_date) - now.getTime()) / DAY_MS : undefined;
+  const milesLeft =
+    target.due_mileage != null && currentMileage != null ? target.due_mileage - currentMileage : undefined;
+
+  if ((daysLeft !== undefined && daysLeft < 0) || (milesLeft !== undefined && milesLeft < 0)) return 'overdue';
+  if ((daysLeft !== undefined && daysLeft <= DUE_SOON_DAYS) || (milesLeft !== undefined && milesLeft <= DUE_SOON_MILES)) {
+    return 'due';
+  }
+  return 'upcoming';
+}
+
+/**
+ * Next due date and mileage for every interval. A logged service restarts the
+ * recurring interval (a shop's next_service_* sticker wins); never-logged
+ * services run the first interval from the in-service date at 0 miles.
+ */
+export function computeSchedule(schedule: MaintenanceInterval[], inputs: ScheduleInputs): ScheduledService[] {
+  const now = inputs.now ?? new Date();
+  const odometer = latestMileage(inputs.currentMileage, inputs.mileageLogs, inputs.projection, now);
+  const history = [...inputs.records].sort((a, b) => toTime(b.date) - toTime(a.date));
+
+  return schedule.map((interval) => {
+    const key = serviceKey(interval.service_type);
+    const last = history.find((r) => recordMatches(r, key));
+    const lastMileage = last ? last.mileage ?? odometerAt(last.date, inputs.mileageLogs) : 0;
+
+    const miles = last ? interval.recurring_interval_miles ?? interval.first_interval_miles : interval.first_interval_miles;
+    const months = last ? interval.recurring_interval_months ?? interval.first_interval_months : interval.first_interval_months;
+
+    const due_mileage = last?.next_service_mileage ?? (miles > 0 && lastMileage !== undefined ? lastMileage + miles : undefined);
+    const due_date = last?.next_service_date ?? (months > 0 ? addMonths(last?.date ?? inputs.inServiceDate, months) : undefined);
+
+    return {
+      interval,
+      last_service_date: last?.date,
+      last_service_mileage: last ? lastMileage : undefined,
+      due_date,
+      due_mileage,
+      projected_due_date:
+        due_mileage !== undefined && inputs.projection ? estimateMileageDate(inputs.projection, due_mileage) : undefined,
+      status: reminderStatus({ due_date, due_mileage }, odometer, now),
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reminder sync
+// ---------------------------------------------------------------------------
+
+const PRIORITY: Record<MaintenanceInterval['severity'], ServiceReminder['priority']> = {
+  critical: 'high',
+  important: 'medium',
+  recommended: 'low',
+  optional: 'low',
+};
+
+const OPEN_STATUSES: ServiceReminder['status'][] = ['upcoming', 'due', 'overdue'];
+
+const titleFor = (serviceType: string) =>
+  serviceKey(serviceType).replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+/** Identifies one cycle of a service, so a reminder dismissed for this cycle stays dismissed. */
+const cycleKey = (s: Pick<ServiceReminder, 'due_date' | 'due_mileage'>) => `${s.due_date ?? ''}|${s.due_mileage ?? ''}`;
+
+export type ScheduleVehicle = Pick<
+  Vehicle,
+  'vehicle_id' | 'year' | 'current_mileage' | 'in_service_date' | 'service_profile'
+>;
+
+export interface ScheduleSyncOptions {
+  /** Intervals to add or replace (e.g. an AI plan); stored on their reminders and kept on later syncs. */
+  schedule?: MaintenanceInterval[];
+  /** Overrides the vehicle's saved service_profile. */
+  profile?: ServiceProfile;
+  now?: Date;
+}
+
+export interface ScheduleSyncResult {
+  created: number;
+  updated: number;
+  reminders: ServiceReminder[];
+  projection: MileageProjection;
+}
+
+/**
+ * Brings a vehicle's service_reminders in line with its schedule: creates a
+ * reminder for each scheduled service without an open one, re-dates the
+ * engine's own reminders when history changes, and refreshes the status of
+ * every open reminder. Dismissed or completed reminders block their cycle.
+ */
+export async function syncScheduleReminders(
+  vehicle: ScheduleVehicle,
+  userId: string,
+  options: ScheduleSyncOptions = {}
+): Promise<ScheduleSyncResult> {
+  try {
+    const now = options.now ?? new Date();
+    const profile = options.profile ?? vehicle.service_profile ?? 'normal';
+
+    const [existing, records, mileageLogs] = await Promise.all([
+      getServiceReminders(vehicle.vehicle_id, userId),
+      getMaintenanceRecords(vehicle.vehicle_id, userId),
+      getMileageLogs(vehicle.vehicle_id, userId, 100),
+    ]);
+
+    // Base schedule: defaults, then intervals saved on earlier reminders, then new ones
+    const base = new Map(DEFAULT_MAINTENANCE_SCHEDULE.map((i) => [serviceKey(i.service_type), i]));
+    for (const r of existing) {
+      if (r.metadata?.source === SCHEDULE_REMINDER_SOURCE && r.metadata.interval) {
+        base.set(serviceKey(r.service_type), r.metadata.interval as MaintenanceInterval);
+      }
+    }
+    for (const interval of options.schedule ?? []) base.set(serviceKey(interval.service_type), interval);
+
+    const baseIntervals = [...base.values()];
+    const projection = buildMileageProjection(mileageLogs, vehicle, now);
+    const scheduled = computeSchedule(scheduleForProfile(baseIntervals, profile), {
+      records,
+      mileageLogs,
+      currentMileage: vehicle.current_mileage,
+      inServiceDate: vehicle.in_service_date ?? `${vehicle.year}-01-01`,
+      projection,
+      now,
+    });
+
+    const odometer = latestMileage(vehicle.current_mileage, mileageLogs, projection, now);
+    const timestamp = now.toISOString();
+    const writes: PromiseLike<unknown>[] = [];
+    const handled = new Set<string>();
+    let created = 0;
+    let updated = 0;
+
+    scheduled.forEach((service, index) => {
+      const key = serviceKey(service.interval.service_type);
+      const rows = existing.filter((r) => serviceKey(r.service_type) === key);
+      const open = rows.find((r) => OPEN_STATUSES.includes(r.status));
+
+      // A hand-made reminder for the same service takes precedence over the schedule
+      if (open && open.metadata?.source !== SCHEDULE_REMINDER_SOURCE) return;
+      if (open) handled.add(open.reminder_id);
+      if (!open && rows.some((r) => r.metadata?.source === SCHEDULE_REMINDER_SOURCE && cycleKey(r) === cycleKey(service))) {
+        return;
+      }
+
+      const fields = {
+        service_type: key,
+        title: titleFor(service.interval.service_type),
+        description: service.interval.description,
+        due_date: service.due_date ?? null,
+        due_mileage: service.due_mileage ?? null,
+        interval_miles: service.interval.recurring_interval_miles ?? service.interval.first_interval_miles,
+        interval_months: service.interval.recurring_interval_months ?? service.interval.first_interval_months,
+        priority: PRIORITY[service.interval.severity] ?? 'medium',
+        status: service.status,
+        metadata: {
+          source: SCHEDULE_REMINDER_SOURCE,
+          profile,
+          interval: baseIntervals[index],
+          last_service_date: service.last_service_date ?? null,
+          last_service_mileage: service.last_service_mileage ?? null,
+          estimated_cost_min: service.interval.estimated_cost_min,
+          estimated_cost_max: service.interval.estimated_cost_max,
+        },
+      };
+
+      if (!open) {
+        writes.push(supabase.from('service_reminders').insert({ ...fields, vehicle_id: vehicle.vehicle_id, notification_sent: false }));
+        created++;
+        return;
+      }
+
+      const newCycle = cycleKey(open) !== cycleKey(service);
+      const changed =
+        newCycle ||
+        open.status !== fields.status ||
+        open.priority !== fields.priority ||
+        (open.interval_miles ?? null) !== (fields.interval_miles ?? null) ||
+        (open.interval_months ?? null) !== (fields.interval_months ?? null) ||
+        open.metadata?.profile !== profile ||
+        JSON.stringify(open.metadata?.interval) !== JSON.stringify(fields.metadata.interval);
+      if (!changed) return;
+
+      writes.push(
+        supabase
+          .from('service_reminders')
+          .update({ ...fields, ...(newCycle && { notification_sent: false }), updated_at: timestamp })
+          .eq('reminder_id', open.reminder_id)
+      );
+      updated++;
+    });
+
+    // Everything else still open just moves between upcoming, due and overdue
+    for (const r of existing) {
+      if (handled.has(r.reminder_id) || !OPEN_STATUSES.includes(r.status)) continue;
+      if (!r.due_date && r.due_mileage == null) continue;
+      const status = reminderStatus(r, odometer, now);
+      if (status === r.status) continue;
+      writes.push(
+        supabase.from('service_reminders').update({ status, updated_at: timestamp }).eq('reminder_id', r.reminder_id)
+      );
+      updated++;
+    }
+
+    const results = (await Promise.all(writes)) as Array<{ error: { message: string } | null }>;
+    const failed = results.find((r) => r.error);
+    if (failed?.error) throw new Error(`Failed to sync reminders: ${failed.error.message}`);
+
+    const reminders = created || updated ? await getServiceReminders(vehicle.vehicle_id, userId) : existing;
+    return { created, updated, reminders, projection };
+  } catch (error: any) {
+    console.error('Error in syncScheduleReminders:', error);
+    throw error;
+  }
+}
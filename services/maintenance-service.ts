@@ -564,7 +564,7 @@ Include: oil change, tire rotation, brake inspection, air filter, cabin filter,
 // Cost Analytics
 // ---------------------------------------------------------------------------
 
-export async function getCostAnalytics(userId: string, vehicleId?: string): Promise<CostAnalytics> {
+export async function getCostAnalytics(userId: string, vehicleId?: string, since?: string): Promise<CostAnalytics> {
   try {
     let query = supabase
       .from('maintenance_records')
@@ -574,6 +574,10 @@ export async function getCostAnalytics(userId: string, vehicleId?: string): Prom
     if (vehicleId) {
       query = query.eq('vehicle_id', vehicleId);
     }
+    // Leave out records dated before `since` (YYYY-MM-DD), e.g. from a previous owner
+    if (since) {
+      query = query.gte('date', since);
+    }
 
     const { data, error } = await query;
     if (error) throw new Error(`Failed to fetch records: ${error.message}`);
@@ -584,14 +588,14 @@ export async function getCostAnalytics(userId: string, vehicleId?: string): Prom
     const thisMonth = now.getMonth();
 
     const total_lifetime = records.reduce((sum, r) => sum + (r.cost || 0), 0);
+    // Bucket by the date string: new Date('YYYY-MM-DD') is UTC midnight, the previous day west of UTC
+    const yearKey = String(thisYear);
+    const currentMonthKey = `${thisYear}-${String(thisMonth + 1).padStart(2, '0')}`;
     const total_this_year = records
-      .filter((r) => new Date(r.date).getFullYear() === thisYear)
+      .filter((r) => r.date && r.date.startsWith(yearKey))
       .reduce((sum, r) => sum + (r.cost || 0), 0);
     const total_this_month = records
-      .filter((r) => {
-        const d = new Date(r.date);
-        return d.getFullYear() === thisYear && d.getMonth() === thisMonth;
-      })
+      .filter((r) => r.date && r.date.startsWith(currentMonthKey))
       .reduce((sum, r) => sum + (r.cost || 0), 0);
 
     const mileages = records.map((r) => r.mileage).filter((m): m is number => typeof m === 'number' && m > 0);
@@ -611,13 +615,24 @@ export async function getCostAnalytics(userId: string, vehicleId?: string): Prom
     const by_month: { month: string; total: number }[] = [];
     for (let i = 11; i >= 0; i--) {
       const d = new Date(thisYear, thisMonth - i, 1);
-      const monthKey = d.toISOString().slice(0, 7);
+      const monthKey = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
       const total = records
         .filter((r) => r.date && r.date.startsWith(monthKey))
         .reduce((sum, r) => sum + (r.cost || 0), 0);
       by_month.push({ month: monthKey, total });
     }
 
+    // Days of the current month
+    const by_day: { date: string; total: number }[] = [];
+    const daysInMonth = new Date(thisYear, thisMonth + 1, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dayKey = `${thisYear}-${String(thisMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      const total = records
+        .filter((r) => r.date && r.date.startsWith(dayKey))
+        .reduce((sum, r) => sum + (r.cost || 0), 0);
+      by_day.push({ date: dayKey, total });
+    }
+
     const vehicleMap = new Map<string, { name: string; total: number }>();
     records.forEach((r) => {
       const v = (r as any).vehicles;
@@ -627,7 +642,7 @@ export async function getCostAnalytics(userId: string, vehicleId?: string): Prom
     });
     const by_vehicle = Array.from(vehicleMap.entries()).map(([vehicle_id, v]) => ({ vehicle_id, name: v.name, total: v.total }));
 
-    return { total_lifetime, total_this_year, total_this_month, cost_per_mile, by_category, by_month, by_vehicle };
+    return { total_lifetime, total_this_year, total_this_month, cost_per_mile, by_category, by_month, by_day, by_vehicle };
   } catch (error: any) {
     console.error('Error in getCostAnalytics:', error);
     throw error;
@@ -751,6 +766,21 @@ export async function getMaintenanceBudget(
   }
 }
 
+export async function getMaintenanceBudgets(userId: string): Promise<MaintenanceBudget[]> {
+  try {
+    const { data, error } = await supabase
+      .from('maintenance_budgets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(`Failed to fetch budgets: ${error.message}`);
+    return data || [];
+  } catch (error: any) {
+    console.error('Error in getMaintenanceBudgets:', error);
+    throw error;
+  }
+}
+
 export async function upsertMaintenanceBudget(
   userId: string,
   data: { vehicle_id?: string; period: 'monthly' | 'annual'; amount: number; alert_at_percent: number }
@@ -0,0 +1,211 @@
+/**
+ * Gear AI CoPilot - Mileage Projection
+ *
+ * Models how a vehicle accumulates miles from its odometer log so mileage
+ * targets can be shown as calendar dates. Recent driving counts for more
+ * than old, about a year of history adds a per-month seasonal factor, and
+ * sparse logs are blended with the vehicle's lifetime average (or a national
+ * default). No I/O — logs are fetched by vehicle-service.
+ */
+
+import type { MileageLogEntry, MileageProjection, Vehicle } from '../types/vehicle';
+
+const DAY_MS = 86_400_000;
+const AVG_MONTH_DAYS = 30.44;
+
+/** US average annual miles (FHWA), used when nothing better is known. */
+const DEFAULT_ANNUAL_MILES = 13_500;
+
+/** Days of logged history it takes for the logged rate to outweigh the prior. */
+const PRIOR_WEIGHT_DAYS = 90;
+
+/** A logged segment's influence halves every this many days. */
+const RECENCY_HALF_LIFE_DAYS = 180;
+
+/** Minimum logged span before month-to-month seasonality is estimated. */
+const SEASONAL_MIN_DAYS = 300;
+
+/** Logged days within a calendar month for its seasonal factor to count in full. */
+const SEASONAL_FULL_COVERAGE_DAYS = 45;
+
+const SEASONAL_FACTOR_MIN = 0.5;
+const SEASONAL_FACTOR_MAX = 1.5;
+
+/** Projection horizon; targets further out than this have no date. */
+const MAX_PROJECTION_MONTHS = 600;
+
+const NEUTRAL_SEASONS = () => Array<number>(12).fill(1);
+
+export type ProjectionVehicle = Pick<Vehicle, 'year' | 'current_mileage' | 'in_service_date'>;
+
+interface Reading {
+  t: number;
+  mileage: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const toIsoDate = (t: number) => new Date(t).toISOString().split('T')[0];
+
+/** One reading per day, in date order, dropping any that go backwards (rollbacks and typos). */
+function cleanReadings(logs: MileageLogEntry[]): Reading[] {
+  const byDay = new Map<number, number>();
+  for (const log of logs) {
+    const t = new Date(log.logged_date).getTime();
+    if (Number.isNaN(t) || !(log.mileage >= 0)) continue;
+    byDay.set(t, Math.max(byDay.get(t) ?? 0, log.mileage));
+  }
+
+  const readings: Reading[] = [];
+  for (const [t, mileage] of [...byDay.entries()].sort((a, b) => a[0] - b[0])) {
+    const prev = readings[readings.length - 1];
+    if (!prev || mileage >= prev.mileage) readings.push({ t, mileage });
+  }
+  return readings;
+}
+
+/** Splits [start, end) at calendar-month boundaries (UTC), calling back with each slice's month and length in days. */
+function forEachMonthSlice(start: number, end: number, fn: (month: number, days: number, sliceStart: number) => boolean | void) {
+  let cursor = start;
+  while (cursor < end) {
+    const d = new Date(cursor);
+    const nextMonth = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+    const sliceEnd = Math.min(nextMonth, end);
+    if (fn(d.getUTCMonth(), (sliceEnd - cursor) / DAY_MS, cursor) === false) return;
+    cursor = sliceEnd;
+  }
+}
+
+/** Lifetime average from in-service (or Jan 1 of the model year) to the latest reading. */
+function lifetimeDailyMiles(vehicle: ProjectionVehicle, latest?: Reading): number | undefined {
+  if (!latest || latest.mileage <= 0) return undefined;
+  const start = new Date(vehicle.in_service_date ?? `${vehicle.year}-01-01`).getTime();
+  const days = (latest.t - start) / DAY_MS;
+  return days >= 30 ? latest.mileage / days : undefined;
+}
+
+/** Per-month multipliers from logged segments, shrunk toward 1 where a month is thinly covered. */
+function seasonalFactors(readings: Reading[]): number[] {
+  const miles = Array<number>(12).fill(0);
+  const days = Array<number>(12).fill(0);
+
+  for (let i = 1; i < readings.length; i++) {
+    const { t: start, mileage: from } = readings[i - 1];
+    const { t: end, mileage: to } = readings[i];
+    const perDay = (to - from) / ((end - start) / DAY_MS);
+    forEachMonthSlice(start, end, (month, sliceDays) => {
+      miles[month] += perDay * sliceDays;
+      days[month] += sliceDays;
+    });
+  }
+
+  const overall = miles.reduce((a, b) => a + b, 0) / days.reduce((a, b) => a + b, 0);
+  if (!(overall > 0)) return NEUTRAL_SEASONS();
+
+  const factors = miles.map((m, month) => {
+    if (days[month] === 0) return 1;
+    const raw = m / days[month] / overall;
+    const shrunk = 1 + (raw - 1) * Math.min(1, days[month] / SEASONAL_FULL_COVERAGE_DAYS);
+    return Math.min(SEASONAL_FACTOR_MAX, Math.max(SEASONAL_FACTOR_MIN, shrunk));
+  });
+
+  const mean = factors.reduce((a, b) => a + b, 0) / 12;
+  return factors.map((f) => Math.round((f / mean) * 100) / 100);
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+/**
+ * Fits a projection to a vehicle's odometer log. Segment rates are weighted
+ * toward recent driving and shrunk toward the lifetime (or national) average
+ * in proportion to how little history there is, so two readings a week apart
+ * don't swing the estimate.
+ */
+export function buildMileageProjection(
+  logs: MileageLogEntry[],
+  vehicle: ProjectionVehicle,
+  now: Date = new Date()
+): MileageProjection {
+  const readings = cleanReadings(logs);
+  const lastLogged = readings[readings.length - 1];
+
+  // current_mileage without a newer log was entered directly; treat it as today's reading
+  const last: Reading | undefined =
+    vehicle.current_mileage && (!lastLogged || vehicle.current_mileage > lastLogged.mileage)
+      ? { t: Math.max(now.getTime(), lastLogged?.t ?? 0), mileage: vehicle.current_mileage }
+      : lastLogged;
+
+  const lifetime = lifetimeDailyMiles(vehicle, last);
+  const prior = lifetime ?? DEFAULT_ANNUAL_MILES / 365;
+
+  let weightedMiles = 0;
+  let weightedDays = 0;
+  for (let i = 1; i < readings.length; i++) {
+    const days = (readings[i].t - readings[i - 1].t) / DAY_MS;
+    const age = (now.getTime() - (readings[i].t + readings[i - 1].t) / 2) / DAY_MS;
+    const weight = Math.pow(0.5, Math.max(0, age) / RECENCY_HALF_LIFE_DAYS);
+    weightedMiles += (readings[i].mileage - readings[i - 1].mileage) * weight;
+    weightedDays += days * weight;
+  }
+
+  const span = readings.length > 1 ? (lastLogged.t - readings[0].t) / DAY_MS : 0;
+  const logged = weightedDays > 0 ? weightedMiles / weightedDays : prior;
+  const daily = (span * logged + PRIOR_WEIGHT_DAYS * prior) / (span + PRIOR_WEIGHT_DAYS);
+
+  return {
+    daily_miles: Math.round(daily * 10) / 10,
+    seasonal_factors: span >= SEASONAL_MIN_DAYS ? seasonalFactors(readings) : NEUTRAL_SEASONS(),
+    basis: span >= 14 ? 'logs' : lifetime !== undefined ? 'lifetime' : 'default',
+    confidence: span >= 180 && readings.length >= 4 ? 'high' : span >= 60 ? 'medium' : 'low',
+    last_reading: last && { mileage: last.mileage, date: toIsoDate(last.t) },
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/** Expected odometer on a date; never below the last reading. */
+export function projectMileage(projection: MileageProjection, date: Date | string): number | undefined {
+  const last = projection.last_reading;
+  if (!last) return undefined;
+
+  let miles = last.mileage;
+  forEachMonthSlice(new Date(last.date).getTime(), new Date(date).getTime(), (month, days) => {
+    miles += days * projection.daily_miles * projection.seasonal_factors[month];
+  });
+  return Math.round(miles);
+}
+
+/**
+ * Estimated date the vehicle reaches `targetMileage` (ISO date). Undefined
+ * when the last reading is already past it, or the vehicle isn't being driven.
+ */
+export function estimateMileageDate(projection: MileageProjection, targetMileage: number): string | undefined {
+  const last = projection.last_reading;
+  if (!last || projection.daily_miles <= 0 || targetMileage <= last.mileage) return undefined;
+
+  const start = new Date(last.date).getTime();
+  const horizon = Date.UTC(new Date(start).getUTCFullYear(), new Date(start).getUTCMonth() + MAX_PROJECTION_MONTHS, 1);
+  let remaining = targetMileage - last.mileage;
+  let reached: number | undefined;
+
+  forEachMonthSlice(start, horizon, (month, days, sliceStart) => {
+    const perDay = projection.daily_miles * projection.seasonal_factors[month];
+    if (perDay * days >= remaining) {
+      reached = sliceStart + Math.ceil(remaining / perDay) * DAY_MS;
+      return false;
+    }
+    remaining -= perDay * days;
+  });
+  return reached === undefined ? undefined : toIsoDate(reached);
+}
+
+/** Expected miles in a calendar month (0 = January), seasonally adjusted. */
+export function monthlyMileage(projection: MileageProjection, month: number = new Date().getMonth()): number {
+  return Math.round(projection.daily_miles * projection.seasonal_factors[month] * AVG_MONTH_DAYS);
+}
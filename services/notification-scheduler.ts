@@ -0,0 +1,475 @@
+/**
+ * Gear AI CoPilot - Notification Scheduler
+ *
+ * Decides which device-local notifications should exist — service reminders,
+ * registration/inspection/insurance expiries, newly detected recalls and
+ * maintenance budget alerts —
+ * and reconciles them with what the OS already has scheduled. Platform
+ * delivery and persistence are injected (see notification-service for the
+ * Expo driver), as is the clock, so the whole flow runs in memory.
+ */
+
+import type { RecallAlert } from '../types/diagnostic';
+import type { BudgetStatus, ServiceReminder } from '../types/maintenance';
+import type { NotificationKind, NotificationLedger, PlannedNotification } from '../types/notification';
+import type { UserPreferences } from '../types/user';
+import type { MileageProjection, Vehicle } from '../types/vehicle';
+import { estimateMileageDate } from './mileage-projection';
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+/** Hands notifications to the platform. */
+export interface NotificationDriver {
+  hasPermission(): Promise<boolean>;
+  requestPermission(): Promise<boolean>;
+  schedule(notification: PlannedNotification): Promise<void>;
+  cancel(notificationId: string): Promise<void>;
+}
+
+/** Persists the ledger between app launches. */
+export interface NotificationLedgerStore {
+  load(): Promise<NotificationLedger>;
+  save(ledger: NotificationLedger): Promise<void>;
+}
+
+export type NotificationVehicle = Pick<
+  Vehicle,
+  'vehicle_id' | 'year' | 'make' | 'model' | 'nickname' | 'registration_expiry' | 'inspection_due' | 'insurance_expiry'
+>;
+
+export interface NotificationSources {
+  vehicles: NotificationVehicle[];
+  reminders: ServiceReminder[];
+  /** Recall lists by vehicle_id, acknowledged or not; the first list seen for a vehicle is its baseline */
+  recalls: Record<string, RecallAlert[]>;
+  /** Mileage projections by vehicle_id, for dating mileage-only reminders */
+  projections?: Record<string, MileageProjection>;
+  /** Current-period budget evaluations (see budget-tracker) */
+  budgets?: BudgetStatus[];
+}
+
+export interface NotificationPlan {
+  notifications: PlannedNotification[];
+  known_recalls: string[];
+  recall_baselines: string[];
+}
+
+export const emptyLedger = (): NotificationLedger => ({
+  scheduled: {},
+  delivered: [],
+  snoozed: {},
+  known_recalls: [],
+  recall_baselines: [],
+});
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+/** The toggle that governs each kind; push_notifications gates them all. */
+export const NOTIFICATION_PREFERENCE: Record<NotificationKind, keyof UserPreferences> = {
+  service_reminder: 'maintenance_reminders',
+  registration_expiry: 'expiry_alerts',
+  inspection_due: 'expiry_alerts',
+  insurance_expiry: 'expiry_alerts',
+  recall: 'recall_alerts',
+  budget_alert: 'cost_alerts',
+};
+
+/** Kinds whose toggle defaults to off, so they need an explicit opt-in. */
+const OPT_IN_KINDS: NotificationKind[] = ['budget_alert'];
+
+export function isNotificationEnabled(kind: NotificationKind, prefs: UserPreferences): boolean {
+  const pref = prefs[NOTIFICATION_PREFERENCE[kind]];
+  return prefs.push_notifications === true && (OPT_IN_KINDS.includes(kind) ? pref === true : pref !== false);
+}
+
+// ============================================================================
+// PLANNING (pure)
+// ============================================================================
+
+const DAY_MS = 86_400_000;
+
+/** Local hour date-based notifications go out. */
+export const DELIVERY_HOUR = 9;
+
+/** Delay for notifications that should go out now, so they land after the sync finishes. */
+const ASAP_DELAY_MS = 60_000;
+
+/** A missed stage is sent late only if it was missed by less than this; older ones are already on screen in the app. */
+const CATCH_UP_MS = 3 * DAY_MS;
+
+/** iOS keeps at most 64 pending local notifications per app; leave headroom for snoozes. */
+const MAX_SCHEDULED = 60;
+
+/** Ledger entries kept for delivered notifications. */
+const MAX_DELIVERED = 500;
+
+/** Days before the due date each kind notifies. */
+export const NOTIFICATION_STAGES: Record<Exclude<NotificationKind, 'recall' | 'budget_alert'>, number[]> = {
+  service_reminder: [7, 0],
+  registration_expiry: [30, 7, 0],
+  inspection_due: [30, 7, 0],
+  insurance_expiry: [30, 7, 0],
+};
+
+const EXPIRY_FIELDS: Array<[Exclude<NotificationKind, 'recall' | 'service_reminder' | 'budget_alert'>, keyof NotificationVehicle, string]> = [
+  ['registration_expiry', 'registration_expiry', 'Registration'],
+  ['inspection_due', 'inspection_due', 'Inspection'],
+  ['insurance_expiry', 'insurance_expiry', 'Insurance'],
+];
+
+const vehicleName = (v?: NotificationVehicle) => (v ? v.nickname || `${v.year} ${v.make} ${v.model}` : 'Your vehicle');
+
+/** `daysBefore` days ahead of an ISO date, at the delivery hour in local time. */
+function deliveryTime(isoDate: string, daysBefore: number): Date {
+  const [y, m, d] = isoDate.split('T')[0].split('-').map(Number);
+  return new Date(y, m - 1, d - daysBefore, DELIVERY_HOUR);
+}
+
+function daysUntil(isoDate: string, from: Date): number {
+  const due = deliveryTime(isoDate, 0);
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate(), DELIVERY_HOUR);
+  return Math.round((due.getTime() - start.getTime()) / DAY_MS);
+}
+
+function whenText(days: number): string {
+  if (days > 1) return `in ${days} days`;
+  if (days === 1) return 'tomorrow';
+  if (days === 0) return 'today';
+  return `${-days} day${days === -1 ? '' : 's'} ago`;
+}
+
+interface Stage {
+  id: string;
+  fire_at: Date;
+  build: (fireAt: Date) => Omit<PlannedNotification, 'notification_id' | 'fire_at'>;
+}
+
+/**
+ * Picks when each stage fires: future stages as scheduled, plus the most
+ * recent stage missed in the last few days (sent right away). Snoozes
+ * override both.
+ */
+function resolveStages(stages: Stage[], ledger: NotificationLedger, now: Date): PlannedNotification[] {
+  const delivered = new Set(ledger.delivered);
+  const asap = new Date(now.getTime() + ASAP_DELAY_MS);
+  const missed = stages
+    .filter((s) => s.fire_at <= now && now.getTime() - s.fire_at.getTime() < CATCH_UP_MS)
+    .pop();
+  const out: PlannedNotification[] = [];
+
+  for (const stage of stages) {
+    const snoozedUntil = ledger.snoozed[stage.id] ? new Date(ledger.snoozed[stage.id]) : undefined;
+    let fireAt: Date | undefined;
+    if (snoozedUntil && snoozedUntil > now) fireAt = snoozedUntil;
+    else if (delivered.has(stage.id)) continue;
+    else if (stage.fire_at > now) fireAt = stage.fire_at;
+    else if (stage === missed) fireAt = asap;
+    if (!fireAt) continue;
+
+    out.push({ ...stage.build(fireAt), notification_id: stage.id, fire_at: fireAt.toISOString() });
+  }
+  return out;
+}
+
+function reminderStages(
+  reminder: ServiceReminder,
+  vehicle: NotificationVehicle | undefined,
+  projection: MileageProjection | undefined,
+  now: Date
+): Stage[] {
+  if (!['upcoming', 'due', 'overdue'].includes(reminder.status)) return [];
+
+  const projected = reminder.due_mileage && projection ? estimateMileageDate(projection, reminder.due_mileage) : undefined;
+  const dueDate = [reminder.due_date, projected].filter((d): d is string => !!d).sort()[0];
+  const build = (fireAt: Date) => ({
+    kind: 'service_reminder' as const,
+    vehicle_id: reminder.vehicle_id,
+    route: '/maintenance',
+    title: dueDate
+      ? `${reminder.title} due ${whenText(daysUntil(dueDate, fireAt))}`
+      : `${reminder.title} is ${reminder.status === 'overdue' ? 'overdue' : 'due'}`,
+    body: [vehicleName(vehicle), reminder.due_mileage && `at ${reminder.due_mileage.toLocaleString()} mi`]
+      .filter(Boolean)
+      .join(' · '),
+  });
+
+  // Mileage-only reminder the engine has already marked due: one notification per status
+  if (!dueDate) {
+    if (reminder.status === 'upcoming') return [];
+    return [{ id: `service_reminder:${reminder.reminder_id}:${reminder.status}`, fire_at: now, build }];
+  }
+
+  // Keyed on the stored target, not the projected date, so projection drift doesn't re-send a stage
+  const cycle = `${reminder.due_date ?? ''}|${reminder.due_mileage ?? ''}`;
+  return NOTIFICATION_STAGES.service_reminder.map((days) => ({
+    id: `service_reminder:${reminder.reminder_id}:${cycle}:${days}`,
+    fire_at: deliveryTime(dueDate, days),
+    build,
+  }));
+}
+
+function expiryStages(vehicle: NotificationVehicle): Array<{ kind: NotificationKind; stages: Stage[] }> {
+  return EXPIRY_FIELDS.flatMap(([kind, field, label]) => {
+    const date = vehicle[field] as string | undefined;
+    if (!date) return [];
+    const noun = kind === 'inspection_due' ? 'is due' : 'expires';
+    const past = kind === 'inspection_due' ? 'was due' : 'expired';
+    return [{
+      kind,
+      stages: NOTIFICATION_STAGES[kind].map((days) => ({
+        id: `${kind}:${vehicle.vehicle_id}:${date}:${days}`,
+        fire_at: deliveryTime(date, days),
+        build: (fireAt: Date) => {
+          const left = daysUntil(date, fireAt);
+          return {
+            kind,
+            vehicle_id: vehicle.vehicle_id,
+            route: `/garage/${vehicle.vehicle_id}`,
+            title: `${label} ${left < 0 ? past : noun} ${whenText(left)}`,
+            body: `${vehicleName(vehicle)} · ${label.toLowerCase()} date ${date.split('T')[0]}`,
+          };
+        },
+      })),
+    }];
+  });
+}
+
+const formatDollars = (n: number) => `$${Math.round(n).toLocaleString()}`;
+
+/** One notification per budget, period and alert level, so each escalation is sent once. */
+function budgetStages(status: BudgetStatus, vehicle: NotificationVehicle | undefined, now: Date): Stage[] {
+  if (status.alert === 'none') return [];
+  const { budget } = status;
+  const scope = budget.vehicle_id ? vehicleName(vehicle) : 'All vehicles';
+  const title = {
+    exceeded: `Over your ${budget.period} maintenance budget`,
+    threshold: `${Math.floor(status.percent_used)}% of your ${budget.period} maintenance budget used`,
+    forecast: `Upcoming service may use ${Math.floor(status.forecast_percent)}% of your ${budget.period} budget`,
+  }[status.alert];
+
+  return [{
+    id: `budget_alert:${budget.budget_id}:${status.period_start}:${status.alert}`,
+    fire_at: now,
+    build: () => ({
+      kind: 'budget_alert',
+      vehicle_id: budget.vehicle_id,
+      route: '/maintenance',
+      title,
+      body: `${scope} · ${formatDollars(status.spent)} of ${formatDollars(budget.amount)} spent, ~${formatDollars(status.forecast)} expected by ${status.period_end}`,
+    }),
+  }];
+}
+
+/**
+ * Everything that should be scheduled right now, soonest first. Each
+ * notification kind is skipped when its preference toggle is off.
+ */
+export function planNotifications(
+  sources: NotificationSources,
+  prefs: UserPreferences,
+  ledger: NotificationLedger,
+  now: Date
+): NotificationPlan {
+  const vehicles = new Map(sources.vehicles.map((v) => [v.vehicle_id, v]));
+  const notifications: PlannedNotification[] = [];
+
+  if (isNotificationEnabled('service_reminder', prefs)) {
+    for (const reminder of sources.reminders) {
+      const stages = reminderStages(
+        reminder,
+        vehicles.get(reminder.vehicle_id),
+        sources.projections?.[reminder.vehicle_id],
+        now
+      );
+      notifications.push(...resolveStages(stages, ledger, now));
+    }
+  }
+
+  for (const vehicle of sources.vehicles) {
+    for (const { kind, stages } of expiryStages(vehicle)) {
+      if (isNotificationEnabled(kind, prefs)) notifications.push(...resolveStages(stages, ledger, now));
+    }
+  }
+
+  if (isNotificationEnabled('budget_alert', prefs)) {
+    for (const status of sources.budgets ?? []) {
+      const vehicle = status.budget.vehicle_id ? vehicles.get(status.budget.vehicle_id) : undefined;
+      notifications.push(...resolveStages(budgetStages(status, vehicle, now), ledger, now));
+    }
+  }
+
+  // Recalls: notify once per campaign, and only for campaigns that appear after a vehicle's first look
+  const known = new Set(ledger.known_recalls);
+  const baselines = new Set(ledger.recall_baselines);
+  const recallsOn = isNotificationEnabled('recall', prefs);
+  for (const [vehicleId, recalls] of Object.entries(sources.recalls)) {
+    const firstLook = !baselines.has(vehicleId);
+    for (const recall of recalls) {
+      const key = `${vehicleId}:${recall.nhtsa_campaign}`;
+      const id = `recall:${key}`;
+      const isNew = !known.has(key);
+      known.add(key);
+      if (!recallsOn || recall.acknowledged) continue;
+
+      const snoozedUntil = ledger.snoozed[id];
+      if (!snoozedUntil && (!isNew || firstLook)) continue;
+      notifications.push({
+        notification_id: id,
+        kind: 'recall',
+        vehicle_id: vehicleId,
+        route: '/diagnostics',
+        title: `Safety recall: ${recall.component}`,
+        body: `${vehicleName(vehicles.get(vehicleId))} · ${recall.summary.slice(0, 140)}`,
+        fire_at: snoozedUntil ?? new Date(now.getTime() + ASAP_DELAY_MS).toISOString(),
+      });
+    }
+    baselines.add(vehicleId);
+  }
+
+  notifications.sort((a, b) => a.fire_at.localeCompare(b.fire_at));
+  return {
+    notifications: notifications.slice(0, MAX_SCHEDULED),
+    known_recalls: [...known],
+    recall_baselines: [...baselines],
+  };
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+export interface NotificationSchedulerOptions {
+  driver: NotificationDriver;
+  store: NotificationLedgerStore;
+  clock?: Clock;
+}
+
+export interface NotificationScheduler {
+  /** Reconciles the OS schedule with the plan for these sources; returns what is now scheduled. */
+  sync(sources: NotificationSources, prefs: UserPreferences): Promise<PlannedNotification[]>;
+  /** Brings a notification back after `durationMs`; later syncs keep it until it fires. */
+  snooze(notification: PlannedNotification, durationMs: number): Promise<PlannedNotification>;
+  /** Cancels everything this scheduler put on the device. */
+  clear(): Promise<void>;
+}
+
+export function createNotificationScheduler({
+  driver,
+  store,
+  clock = systemClock,
+}: NotificationSchedulerOptions): NotificationScheduler {
+  async function loadLedger(now: Date): Promise<NotificationLedger> {
+    const ledger = { ...emptyLedger(), ...(await store.load()) };
+
+    // Anything whose time has passed was shown by the OS
+    for (const [id, fireAt] of Object.entries(ledger.scheduled)) {
+      if (new Date(fireAt) > now) continue;
+      ledger.delivered.push(id);
+      delete ledger.scheduled[id];
+    }
+    for (const [id, until] of Object.entries(ledger.snoozed)) {
+      if (new Date(until) <= now) delete ledger.snoozed[id];
+    }
+    ledger.delivered = [...new Set(ledger.delivered)].slice(-MAX_DELIVERED);
+    return ledger;
+  }
+
+  async function cancelAll(ledger: NotificationLedger) {
+    await Promise.all(Object.keys(ledger.scheduled).map((id) => driver.cancel(id)));
+    ledger.scheduled = {};
+  }
+
+  return {
+    async sync(sources, prefs) {
+      const now = clock();
+      const ledger = await loadLedger(now);
+
+      if (!prefs.push_notifications || !(await driver.hasPermission())) {
+        await cancelAll(ledger);
+        await store.save(ledger);
+        return [];
+      }
+
+      const plan = planNotifications(sources, prefs, ledger, now);
+      const planned = new Map(plan.notifications.map((n) => [n.notification_id, n]));
+
+      await Promise.all(
+        Object.entries(ledger.scheduled)
+          .filter(([id, fireAt]) => planned.get(id)?.fire_at !== fireAt)
+          .map(([id]) => driver.cancel(id))
+      );
+      for (const n of plan.notifications) {
+        if (ledger.scheduled[n.notification_id] !== n.fire_at) await driver.schedule(n);
+      }
+
+      await store.save({
+        ...ledger,
+        scheduled: Object.fromEntries(plan.notifications.map((n) => [n.notification_id, n.fire_at])),
+        known_recalls: plan.known_recalls,
+        recall_baselines: plan.recall_baselines,
+      });
+      return plan.notifications;
+    },
+
+    async snooze(notification, durationMs) {
+      const now = clock();
+      const ledger = await loadLedger(now);
+      const until = new Date(now.getTime() + durationMs).toISOString();
+      const snoozed = { ...notification, fire_at: until };
+
+      if (ledger.scheduled[notification.notification_id]) await driver.cancel(notification.notification_id);
+      await driver.schedule(snoozed);
+
+      ledger.delivered = ledger.delivered.filter((id) => id !== notification.notification_id);
+      ledger.snoozed[notification.notification_id] = until;
+      ledger.scheduled[notification.notification_id] = until;
+      await store.save(ledger);
+      return snoozed;
+    },
+
+    async clear() {
+      const ledger = await loadLedger(clock());
+      await cancelAll(ledger);
+      await store.save(ledger);
+    },
+  };
+}
+
+// ============================================================================
+// IN-MEMORY DRIVER AND STORE
+// ============================================================================
+
+export interface MemoryNotificationDriver extends NotificationDriver {
+  /** Currently scheduled notifications by id. */
+  readonly pending: Map<string, PlannedNotification>;
+}
+
+/** A driver that keeps notifications in a map, for running the scheduler off-device. */
+export function createMemoryNotificationDriver(granted = true): MemoryNotificationDriver {
+  const pending = new Map<string, PlannedNotification>();
+  return {
+    pending,
+    hasPermission: async () => granted,
+    requestPermission: async () => granted,
+    schedule: async (n) => {
+      pending.set(n.notification_id, n);
+    },
+    cancel: async (id) => {
+      pending.delete(id);
+    },
+  };
+}
+
+export function createMemoryLedgerStore(initial: NotificationLedger = emptyLedger()): NotificationLedgerStore {
+  let ledger = initial;
+  return {
+    load: async () => JSON.parse(JSON.stringify(ledger)),
+    save: async (next) => {
+      ledger = JSON.parse(JSON.stringify(next));
+    },
+  };
+}
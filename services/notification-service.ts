@@ -0,0 +1,240 @@
+/**
+ * Gear AI CoPilot - Notification Service
+ *
+ * Expo-backed driver and on-device ledger for the notification scheduler,
+ * plus the data gathering that feeds it: vehicles, open service reminders,
+ * mileage projections, recall lists and budget status for the signed-in user.
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { getBudgetStatuses } from './budget-tracker';
+import { getServiceReminders } from './maintenance-service';
+import { getRecallAlerts } from './recall-service';
+import { getMileageProjection, getUserVehicles } from './vehicle-service';
+import {
+  createNotificationScheduler,
+  emptyLedger,
+  isNotificationEnabled,
+  NotificationDriver,
+  NotificationLedgerStore,
+  NotificationScheduler,
+  NotificationSources,
+} from './notification-scheduler';
+import type { RecallAlert } from '../types/diagnostic';
+import type { NotificationKind, PlannedNotification } from '../types/notification';
+import type { UserPreferences } from '../types/user';
+import type { MileageProjection } from '../types/vehicle';
+
+const LEDGER_KEY = 'gearai:notifications:ledger';
+const ANDROID_CHANNEL_ID = 'vehicle-alerts';
+
+/** Category carrying the snooze buttons on every notification. */
+export const NOTIFICATION_CATEGORY = 'gear-vehicle-alert';
+
+/** Snooze actions shown on the notification, by action identifier. */
+export const SNOOZE_ACTIONS: Record<string, { label: string; durationMs: number }> = {
+  snooze_day: { label: 'Snooze 1 day', durationMs: 86_400_000 },
+  snooze_week: { label: 'Snooze 1 week', durationMs: 7 * 86_400_000 },
+};
+
+// ============================================================================
+// EXPO DRIVER AND LEDGER STORE
+// ============================================================================
+
+export function createExpoNotificationDriver(): NotificationDriver {
+  // Local scheduling isn't available on web
+  const supported = Platform.OS !== 'web';
+
+  return {
+    async hasPermission() {
+      if (!supported) return false;
+      const { granted } = await Notifications.getPermissionsAsync();
+      return granted;
+    },
+    async requestPermission() {
+      if (!supported) return false;
+      const { granted } = await Notifications.requestPermissionsAsync();
+      return granted;
+    },
+    async schedule(n) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: n.notification_id,
+        content: {
+          title: n.title,
+          body: n.body,
+          categoryIdentifier: NOTIFICATION_CATEGORY,
+          data: { notification_id: n.notification_id, kind: n.kind, vehicle_id: n.vehicle_id, route: n.route },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(n.fire_at),
+          channelId: ANDROID_CHANNEL_ID,
+        },
+      });
+    },
+    async cancel(notificationId) {
+      await Notifications.cancelScheduledNotificationAsync(notificationId);
+    },
+  };
+}
+
+export function createAsyncStorageLedgerStore(key: string = LEDGER_KEY): NotificationLedgerStore {
+  return {
+    async load() {
+      const raw = await AsyncStorage.getItem(key);
+      return raw ? { ...emptyLedger(), ...JSON.parse(raw) } : emptyLedger();
+    },
+    async save(ledger) {
+      await AsyncStorage.setItem(key, JSON.stringify(ledger));
+    },
+  };
+}
+
+const driver = createExpoNotificationDriver();
+let defaultScheduler: NotificationScheduler | null = null;
+
+function getScheduler(): NotificationScheduler {
+  if (!defaultScheduler) {
+    defaultScheduler = createNotificationScheduler({ driver, store: createAsyncStorageLedgerStore() });
+  }
+  return defaultScheduler;
+}
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+/**
+ * Foreground presentation, the Android channel and the snooze category.
+ * Call once at startup.
+ */
+export async function configureNotifications(): Promise<void> {
+  if (Platform.OS === 'web') return;
+  try {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+        name: 'Vehicle alerts',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    await Notifications.setNotificationCategoryAsync(
+      NOTIFICATION_CATEGORY,
+      Object.entries(SNOOZE_ACTIONS).map(([identifier, action]) => ({
+        identifier,
+        buttonTitle: action.label,
+        options: { opensAppToForeground: false },
+      }))
+    );
+  } catch (err) {
+    console.warn('[Notifications] configureNotifications failed:', err);
+  }
+}
+
+/** Asks the OS for permission; false on web or when the user declines. */
+export async function requestNotificationPermission(): Promise<boolean> {
+  try {
+    return await driver.requestPermission();
+  } catch (err) {
+    console.warn('[Notifications] requestNotificationPermission failed:', err);
+    return false;
+  }
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/** Everything the scheduler needs for a user, skipping fetches for kinds that are switched off. */
+export async function gatherNotificationSources(userId: string, prefs: UserPreferences): Promise<NotificationSources> {
+  const remindersOn = isNotificationEnabled('service_reminder', prefs);
+  const recallsOn = isNotificationEnabled('recall', prefs);
+  const budgetsOn = isNotificationEnabled('budget_alert', prefs);
+
+  const vehicles = (await getUserVehicles(userId)).filter((v) => v.status !== 'sold' && v.status !== 'totaled');
+  const perVehicle = await Promise.all(
+    vehicles.map(async (v) => {
+      const [reminders, recalls, projection] = await Promise.all([
+        remindersOn ? getServiceReminders(v.vehicle_id, userId).catch(() => []) : [],
+        recallsOn ? getRecallAlerts(v.vehicle_id, v.make, v.model, v.year).catch(() => null) : null,
+        remindersOn ? getMileageProjection(v, userId).catch(() => null) : null,
+      ]);
+      return { vehicleId: v.vehicle_id, reminders, recalls, projection };
+    })
+  );
+
+  const recalls: Record<string, RecallAlert[]> = {};
+  const projections: Record<string, MileageProjection> = {};
+  for (const row of perVehicle) {
+    if (row.recalls) recalls[row.vehicleId] = row.recalls;
+    if (row.projection) projections[row.vehicleId] = row.projection;
+  }
+
+  const budgets = budgetsOn ? await getBudgetStatuses(userId) : [];
+
+  return { vehicles, reminders: perVehicle.flatMap((r) => r.reminders), recalls, projections, budgets };
+}
+
+/**
+ * Re-plans the user's device notifications from current data and
+ * preferences. Safe to call often (app foreground, after saving settings).
+ */
+export async function syncNotifications(userId: string, prefs: UserPreferences): Promise<PlannedNotification[]> {
+  try {
+    const scheduler = getScheduler();
+    if (!prefs.push_notifications) {
+      await scheduler.clear();
+      return [];
+    }
+    return await scheduler.sync(await gatherNotificationSources(userId, prefs), prefs);
+  } catch (err) {
+    console.warn('[Notifications] syncNotifications failed:', err);
+    return [];
+  }
+}
+
+/** Rebuilds a PlannedNotification from a delivered notification's content and data. */
+function fromResponse(response: Notifications.NotificationResponse): PlannedNotification | null {
+  const { content, identifier } = response.notification.request;
+  const data = (content.data ?? {}) as Record<string, string>;
+  if (!data.kind) return null;
+  return {
+    notification_id: data.notification_id || identifier,
+    kind: data.kind as NotificationKind,
+    vehicle_id: data.vehicle_id,
+    route: data.route,
+    title: content.title ?? '',
+    body: content.body ?? '',
+    fire_at: new Date(response.notification.date).toISOString(),
+  };
+}
+
+/**
+ * Handles a tap or action button on one of our notifications: snooze
+ * actions reschedule it, anything else returns the route to open.
+ */
+export async function handleNotificationResponse(response: Notifications.NotificationResponse): Promise<string | null> {
+  const notification = fromResponse(response);
+  if (!notification) return null;
+
+  const snooze = SNOOZE_ACTIONS[response.actionIdentifier];
+  if (!snooze) return notification.route || null;
+
+  try {
+    await getScheduler().snooze(notification, snooze.durationMs);
+  } catch (err) {
+    console.warn('[Notifications] snooze failed:', err);
+  }
+  return null;
+}
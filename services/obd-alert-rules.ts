@@ -0,0 +1,321 @@
+/**
+ * Gear AI CoPilot - Live Data Alert Rules
+ *
+ * Threshold rules evaluated against the live OBD-II stream (overheating, low
+ * system voltage, fuel trims out of range). Rules are configurable per
+ * vehicle with default packs by fuel type; fired alerts are written to
+ * diagnostic history as open alerts and resolved once the condition clears.
+ */
+
+import { supabase } from '../lib/supabase';
+import { LIVE_ALERT_SOURCE } from '../types/diagnostic';
+import type { OBDAlertEvent, OBDAlertRule, OBDParameter } from '../types/diagnostic';
+import type { FuelType, Vehicle } from '../types/vehicle';
+import { resolveLiveAlerts, saveDiagnosticCode, startLiveDataStream } from './diagnostic-service';
+
+/** A rule that fired won't fire again for this long, even if the condition flaps. */
+const ALERT_COOLDOWN_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// DEFAULT RULE PACKS
+// ============================================================================
+
+type RuleSpec = Omit<OBDAlertRule, 'rule_id' | 'vehicle_id' | 'enabled'>;
+
+const COOLANT_OVERHEAT: RuleSpec = {
+  name: 'Engine overheating', parameter: 'coolant_temp', comparator: 'above', threshold: 110, duration_s: 10, severity: 'critical', code: 'P0217',
+};
+const LOW_VOLTAGE: RuleSpec = {
+  name: 'Low system voltage', parameter: 'battery_voltage', comparator: 'below', threshold: 12.2, duration_s: 30, severity: 'high', code: 'P0562',
+};
+const HIGH_VOLTAGE: RuleSpec = {
+  name: 'Overcharging', parameter: 'battery_voltage', comparator: 'above', threshold: 15.0, duration_s: 10, severity: 'high', code: 'P0563',
+};
+const LONG_TRIM: RuleSpec = {
+  name: 'Long-term fuel trim out of range', parameter: 'fuel_trim_long', comparator: 'outside', threshold: 10, duration_s: 60, severity: 'medium', code: 'P0170',
+};
+const SHORT_TRIM: RuleSpec = {
+  name: 'Short-term fuel trim out of range', parameter: 'fuel_trim_short', comparator: 'outside', threshold: 10, duration_s: 120, severity: 'low', code: 'P0170',
+};
+
+const RULE_PACKS: Record<FuelType, RuleSpec[]> = {
+  Gasoline: [COOLANT_OVERHEAT, LOW_VOLTAGE, HIGH_VOLTAGE, LONG_TRIM, SHORT_TRIM],
+  'Flex Fuel': [COOLANT_OVERHEAT, LOW_VOLTAGE, HIGH_VOLTAGE, LONG_TRIM, SHORT_TRIM],
+  'Natural Gas': [COOLANT_OVERHEAT, LOW_VOLTAGE, HIGH_VOLTAGE, LONG_TRIM, SHORT_TRIM],
+  Propane: [COOLANT_OVERHEAT, LOW_VOLTAGE, HIGH_VOLTAGE, LONG_TRIM, SHORT_TRIM],
+  Hybrid: [COOLANT_OVERHEAT, LOW_VOLTAGE, HIGH_VOLTAGE, LONG_TRIM, SHORT_TRIM],
+  'Plug-in Hybrid': [COOLANT_OVERHEAT, LOW_VOLTAGE, HIGH_VOLTAGE, LONG_TRIM, SHORT_TRIM],
+  // Diesels run cooler and don't report closed-loop fuel trims
+  Diesel: [{ ...COOLANT_OVERHEAT, threshold: 105 }, LOW_VOLTAGE, HIGH_VOLTAGE],
+  // Only the 12 V auxiliary system is visible over standard OBD-II PIDs
+  Electric: [{ ...LOW_VOLTAGE, threshold: 12.0 }, HIGH_VOLTAGE],
+  Hydrogen: [COOLANT_OVERHEAT, { ...LOW_VOLTAGE, threshold: 12.0 }, HIGH_VOLTAGE],
+};
+
+/**
+ * Default rules for a vehicle's fuel type (free-form VIN decoder values such as
+ * "Gasoline" or "Diesel" match case-insensitively; unknown types get the gasoline pack).
+ */
+export function getDefaultAlertRules(fuelType?: string, vehicleId?: string): OBDAlertRule[] {
+  const match = (Object.keys(RULE_PACKS) as FuelType[]).find(
+    (t) => fuelType && fuelType.toLowerCase().startsWith(t.toLowerCase())
+  );
+  return RULE_PACKS[match ?? 'Gasoline'].map((spec, i) => ({
+    ...spec,
+    rule_id: `default-${spec.parameter}-${spec.comparator}-${i}`,
+    vehicle_id: vehicleId,
+    enabled: true,
+  }));
+}
+
+/** Human-readable condition, e.g. "Coolant above 110 °C for 10 s". */
+export function describeAlertRule(rule: OBDAlertRule, unit = ''): string {
+  const u = unit ? ` ${unit}` : '';
+  const low = rule.threshold_low ?? -rule.threshold;
+  const condition =
+    rule.comparator === 'above' ? `above ${rule.threshold}${u}`
+      : rule.comparator === 'below' ? `below ${rule.threshold}${u}`
+      : `outside ${low}${u} to ${rule.threshold}${u}`;
+  return `${rule.parameter.replace(/_/g, ' ')} ${condition} for ${rule.duration_s} s`;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function violates(rule: OBDAlertRule, value: number): boolean {
+  switch (rule.comparator) {
+    case 'above':
+      return value > rule.threshold;
+    case 'below':
+      return value < rule.threshold;
+    case 'outside':
+      return value > rule.threshold || value < (rule.threshold_low ?? -rule.threshold);
+  }
+}
+
+/** The more extreme of two readings in the direction the rule cares about. */
+function worse(rule: OBDAlertRule, a: number, b: number): number {
+  if (rule.comparator === 'above') return Math.max(a, b);
+  if (rule.comparator === 'below') return Math.min(a, b);
+  return Math.abs(a) >= Math.abs(b) ? a : b;
+}
+
+export interface AlertEvaluator {
+  /** Feed one live sample; returns the rules that fired on it. */
+  evaluate(params: OBDParameter[], now?: number): OBDAlertEvent[];
+  reset(): void;
+}
+
+/**
+ * Stateful evaluator: a rule fires once its condition has held for
+ * `duration_s`, then stays quiet until the condition clears and the cooldown passes.
+ * `onClear` is called when a rule that fired sees its condition clear.
+ */
+export function createAlertEvaluator(rules: OBDAlertRule[], onClear?: (ruleId: string) => void): AlertEvaluator {
+  const since = new Map<string, { start: number; worst: number }>();
+  const firedAt = new Map<string, number>();
+  const latched = new Set<string>();
+
+  return {
+    evaluate(params, now = Date.now()) {
+      const byKey = new Map(params.filter((p) => p.key).map((p) => [p.key!, p]));
+      const events: OBDAlertEvent[] = [];
+
+      for (const rule of rules) {
+        if (!rule.enabled) continue;
+        const param = byKey.get(rule.parameter);
+        if (!param) continue;
+
+        if (!violates(rule, param.value)) {
+          since.delete(rule.rule_id);
+          if (latched.delete(rule.rule_id)) onClear?.(rule.rule_id);
+          continue;
+        }
+
+        const track = since.get(rule.rule_id) ?? { start: now, worst: param.value };
+        track.worst = worse(rule, track.worst, param.value);
+        since.set(rule.rule_id, track);
+
+        if (latched.has(rule.rule_id)) continue;
+        if (now - track.start < rule.duration_s * 1000) continue;
+        if (now - (firedAt.get(rule.rule_id) ?? -Infinity) < ALERT_COOLDOWN_MS) continue;
+
+        latched.add(rule.rule_id);
+        firedAt.set(rule.rule_id, now);
+        events.push({
+          rule_id: rule.rule_id,
+          rule_name: rule.name,
+          vehicle_id: rule.vehicle_id,
+          parameter: rule.parameter,
+          value: track.worst,
+          unit: param.unit,
+          threshold: rule.threshold,
+          severity: rule.severity,
+          code: rule.code,
+          message: `${rule.name}: ${param.name} reached ${Number(track.worst.toFixed(2))} ${param.unit} (${describeAlertRule(rule, param.unit)})`,
+          started_at: new Date(track.start).toISOString(),
+          triggered_at: new Date(now).toISOString(),
+        });
+      }
+      return events;
+    },
+    reset() {
+      since.clear();
+      latched.clear();
+      firedAt.clear();
+    },
+  };
+}
+
+// ============================================================================
+// PER-VEHICLE RULES (Supabase persistence)
+// ============================================================================
+
+// NUMERIC columns come back from PostgREST as strings
+function ruleFromRow(row: any): OBDAlertRule {
+  return {
+    ...row,
+    threshold: Number(row.threshold),
+    threshold_low: row.threshold_low == null ? undefined : Number(row.threshold_low),
+  };
+}
+
+/** Saved rules for a vehicle, or the fuel-type defaults when none have been customized. */
+export async function getAlertRules(vehicle: Pick<Vehicle, 'vehicle_id' | 'fuel_type'>): Promise<OBDAlertRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('obd_alert_rules')
+      .select('*')
+      .eq('vehicle_id', vehicle.vehicle_id)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    if (data && data.length > 0) return data.map(ruleFromRow);
+  } catch (err) {
+    console.warn('[AlertRules] getAlertRules failed:', err);
+  }
+  return getDefaultAlertRules(vehicle.fuel_type, vehicle.vehicle_id);
+}
+
+/**
+ * Replace a vehicle's rule set. Rules already stored keep their IDs (alert
+ * history refers to them); defaults and new rules get stored UUIDs, and only
+ * rules missing from `rules` are deleted, after the rest are saved.
+ */
+export async function saveAlertRules(vehicleId: string, userId: string, rules: OBDAlertRule[]): Promise<OBDAlertRule[]> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('obd_alert_rules')
+    .select('rule_id')
+    .eq('vehicle_id', vehicleId);
+  if (fetchError) throw new Error(`Failed to save alert rules: ${fetchError.message}`);
+
+  const storedIds = new Set((existing || []).map((r) => r.rule_id as string));
+  const toRow = <T extends object>(rule: T) => ({ ...rule, vehicle_id: vehicleId, user_id: userId });
+  const kept = rules.filter((r) => storedIds.has(r.rule_id));
+  const added = rules.filter((r) => !storedIds.has(r.rule_id)).map(({ rule_id: _id, ...rule }) => rule);
+
+  const saved = new Map<string, OBDAlertRule>();
+  if (kept.length > 0) {
+    const { data, error } = await supabase.from('obd_alert_rules').upsert(kept.map(toRow), { onConflict: 'rule_id' }).select();
+    if (error) throw new Error(`Failed to save alert rules: ${error.message}`);
+    (data || []).forEach((row) => saved.set(row.rule_id, ruleFromRow(row)));
+  }
+  let inserted: OBDAlertRule[] = [];
+  if (added.length > 0) {
+    const { data, error } = await supabase
+      .from('obd_alert_rules')
+      .insert(added.map(toRow))
+      .select();
+    if (error) throw new Error(`Failed to save alert rules: ${error.message}`);
+    inserted = (data || []).map(ruleFromRow);
+  }
+
+  const removed = [...storedIds].filter((id) => !rules.some((r) => r.rule_id === id));
+  if (removed.length > 0) {
+    const { error } = await supabase.from('obd_alert_rules').delete().eq('vehicle_id', vehicleId).in('rule_id', removed);
+    if (error) throw new Error(`Failed to save alert rules: ${error.message}`);
+  }
+
+  // Hand back in the order given, new rules in place of their temporary IDs
+  return rules.map((r) => (storedIds.has(r.rule_id) ? saved.get(r.rule_id) ?? r : inserted.shift() ?? r));
+}
+
+// ============================================================================
+// MONITOR
+// ============================================================================
+
+/**
+ * Write a fired alert to diagnostic history under the `alert` status, so it
+ * never counts as an ECU code. While the rule's last alert is still open it
+ * is updated in place rather than adding another row.
+ */
+export async function recordAlertEvent(vehicleId: string, userId: string, event: OBDAlertEvent, mileage?: number): Promise<void> {
+  const metadata = {
+    source: LIVE_ALERT_SOURCE,
+    rule_id: event.rule_id,
+    parameter: event.parameter,
+    value: event.value,
+    threshold: event.threshold,
+    started_at: event.started_at,
+    triggered_at: event.triggered_at,
+  };
+
+  const { data: open, error } = await supabase
+    .from('diagnostic_codes')
+    .select('diagnostic_id, metadata')
+    .eq('vehicle_id', vehicleId)
+    .eq('status', 'alert')
+    .eq('metadata->>rule_id', event.rule_id)
+    .limit(1);
+  if (error) throw new Error(`Failed to record alert: ${error.message}`);
+
+  if (open && open.length > 0) {
+    const previous = open[0].metadata ?? {};
+    const { error: updateError } = await supabase
+      .from('diagnostic_codes')
+      .update({
+        description: event.message,
+        severity: event.severity,
+        metadata: { ...metadata, started_at: previous.started_at ?? event.started_at, occurrences: (previous.occurrences ?? 1) + 1 },
+      })
+      .eq('diagnostic_id', open[0].diagnostic_id);
+    if (updateError) throw new Error(`Failed to record alert: ${updateError.message}`);
+    return;
+  }
+
+  await saveDiagnosticCode(vehicleId, userId, event.code, event.message, event.severity, mileage, undefined, {
+    status: 'alert',
+    metadata: { ...metadata, occurrences: 1 },
+  });
+}
+
+/**
+ * Evaluate rules against the live stream for as long as the returned function
+ * isn't called. Every fired alert is recorded in history and passed to
+ * `onAlert`; its history row is resolved once the condition clears.
+ */
+export function startAlertMonitor(
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'current_mileage'>,
+  userId: string,
+  rules: OBDAlertRule[],
+  onAlert?: (event: OBDAlertEvent) => void
+): () => void {
+  // Writes run one at a time so a clear can't overtake the fire it resolves
+  let writes = Promise.resolve();
+  const enqueue = (label: string, write: () => Promise<unknown>) => {
+    writes = writes.then(write).then(
+      () => undefined,
+      (err) => console.warn(`[AlertRules] ${label} failed:`, err)
+    );
+  };
+
+  const evaluator = createAlertEvaluator(rules, (ruleId) =>
+    enqueue('resolveLiveAlerts', () => resolveLiveAlerts(vehicle.vehicle_id, ruleId))
+  );
+  return startLiveDataStream((params) => {
+    evaluator.evaluate(params).forEach((event) => {
+      onAlert?.(event);
+      enqueue('recordAlertEvent', () => recordAlertEvent(vehicle.vehicle_id, userId, event, vehicle.current_mileage));
+    });
+  });
+}
@@ -0,0 +1,344 @@
+/**
+ * Gear AI CoPilot - OBD-II PID Registry
+ *
+ * SAE J1979 Mode 01 parameter definitions (formulas, units, ranges),
+ * supported-PID bitmask discovery and decoding into OBDParameter values.
+ */
+
+import type { FreezeFrameData, LiveOBDData, OBDParameter } from '../types/diagnostic';
+import {
+  ELM327Session,
+  OBD_MODES,
+  readFreezeFrameDTC,
+  readFreezeFramePID,
+  readPID,
+} from './elm327-protocol';
+
+export interface PIDDefinition {
+  pid: number;
+  key: string; // Stable identifier; matches the LiveOBDData field where one exists
+  name: string; // Short display label
+  description: string; // SAE J1979 name
+  unit: string;
+  bytes: number; // Data bytes consumed by the formula
+  min: number;
+  max: number;
+  decimals: number;
+  warn_low?: number;
+  warn_high?: number;
+  decode: (d: number[]) => number;
+}
+
+type PIDSpec = Omit<PIDDefinition, 'pid' | 'decimals'> & { decimals?: number };
+
+// Formula helpers (A, B, C, D are the data bytes in order)
+const A = (d: number[]) => d[0];
+const AB = (d: number[]) => (d[0] << 8) | d[1];
+const CD = (d: number[]) => (d[2] << 8) | d[3];
+const percent = (d: number[]) => (d[0] * 100) / 255;
+const temp = (d: number[]) => d[0] - 40;
+const trim = (d: number[]) => ((d[0] - 128) * 100) / 128;
+const lambda = (d: number[]) => (2 / 65536) * AB(d);
+const signed16 = (v: number) => (v & 0x8000 ? v - 0x10000 : v);
+
+const pct = (key: string, name: string, description: string): PIDSpec => ({
+  key, name, description, unit: '%', bytes: 1, min: 0, max: 100, decode: percent,
+});
+const fuelTrim = (key: string, name: string, description: string): PIDSpec => ({
+  key, name, description, unit: '%', bytes: 1, min: -100, max: 99.2, decimals: 1, warn_low: -10, warn_high: 10, decode: trim,
+});
+const o2Voltage = (key: string, sensor: string): PIDSpec => ({
+  key, name: `O₂ Voltage ${sensor}`, description: `Oxygen Sensor ${sensor} Voltage`, unit: 'V', bytes: 2, min: 0, max: 1.275, decimals: 3, decode: (d) => A(d) / 200,
+});
+const o2Lambda = (key: string, sensor: string): PIDSpec => ({
+  key, name: `O₂ λ ${sensor}`, description: `Oxygen Sensor ${sensor} Equivalence Ratio (wide range)`, unit: 'λ', bytes: 4, min: 0, max: 2, decimals: 3, decode: lambda,
+});
+const o2Current = (key: string, sensor: string): PIDSpec => ({
+  key, name: `O₂ Current ${sensor}`, description: `Oxygen Sensor ${sensor} Current (wide range)`, unit: 'mA', bytes: 4, min: -128, max: 128, decimals: 2, decode: (d) => CD(d) / 256 - 128,
+});
+const catTemp = (key: string, name: string): PIDSpec => ({
+  key, name, description: `Catalyst Temperature ${name.replace('Cat Temp ', '')}`, unit: '°C', bytes: 2, min: -40, max: 6513.5, warn_high: 900, decode: (d) => AB(d) / 10 - 40,
+});
+
+const SPECS: Record<number, PIDSpec> = {
+  0x04: { ...pct('engine_load', 'Engine Load', 'Calculated Engine Load'), warn_high: 90 },
+  0x05: { key: 'coolant_temp', name: 'Coolant Temp', description: 'Engine Coolant Temperature', unit: '°C', bytes: 1, min: -40, max: 215, warn_low: 60, warn_high: 105, decode: temp },
+  0x06: fuelTrim('fuel_trim_short', 'Fuel Trim (S) B1', 'Short Term Fuel Trim — Bank 1'),
+  0x07: fuelTrim('fuel_trim_long', 'Fuel Trim (L) B1', 'Long Term Fuel Trim — Bank 1'),
+  0x08: fuelTrim('fuel_trim_short_bank2', 'Fuel Trim (S) B2', 'Short Term Fuel Trim — Bank 2'),
+  0x09: fuelTrim('fuel_trim_long_bank2', 'Fuel Trim (L) B2', 'Long Term Fuel Trim — Bank 2'),
+  0x0a: { key: 'fuel_pressure', name: 'Fuel Pressure', description: 'Fuel Pressure (gauge)', unit: 'kPa', bytes: 1, min: 0, max: 765, decode: (d) => A(d) * 3 },
+  0x0b: { key: 'intake_pressure', name: 'Intake MAP', description: 'Intake Manifold Absolute Pressure', unit: 'kPa', bytes: 1, min: 0, max: 255, decode: A },
+  0x0c: { key: 'rpm', name: 'Engine RPM', description: 'Engine Speed', unit: 'rpm', bytes: 2, min: 0, max: 16383.75, warn_high: 4000, decode: (d) => AB(d) / 4 },
+  0x0d: { key: 'vehicle_speed', name: 'Speed', description: 'Vehicle Speed', unit: 'km/h', bytes: 1, min: 0, max: 255, decode: A },
+  0x0e: { key: 'timing_advance', name: 'Timing Advance', description: 'Timing Advance (before TDC)', unit: '°', bytes: 1, min: -64, max: 63.5, decimals: 1, decode: (d) => A(d) / 2 - 64 },
+  0x0f: { key: 'intake_air_temp', name: 'Intake Air', description: 'Intake Air Temperature', unit: '°C', bytes: 1, min: -40, max: 215, warn_high: 50, decode: temp },
+  0x10: { key: 'maf_rate', name: 'MAF Rate', description: 'Mass Air Flow Sensor Air Flow Rate', unit: 'g/s', bytes: 2, min: 0, max: 655.35, decimals: 2, decode: (d) => AB(d) / 100 },
+  0x11: pct('throttle_position', 'Throttle', 'Throttle Position'),
+  0x14: o2Voltage('o2_voltage_bank1', 'B1S1'),
+  0x15: o2Voltage('o2_voltage_b1s2', 'B1S2'),
+  0x16: o2Voltage('o2_voltage_b1s3', 'B1S3'),
+  0x17: o2Voltage('o2_voltage_b1s4', 'B1S4'),
+  0x18: o2Voltage('o2_voltage_bank2', 'B2S1'),
+  0x19: o2Voltage('o2_voltage_b2s2', 'B2S2'),
+  0x1a: o2Voltage('o2_voltage_b2s3', 'B2S3'),
+  0x1b: o2Voltage('o2_voltage_b2s4', 'B2S4'),
+  0x1f: { key: 'run_time', name: 'Run Time', description: 'Run Time Since Engine Start', unit: 's', bytes: 2, min: 0, max: 65535, decode: AB },
+  0x21: { key: 'distance_with_mil', name: 'Dist. w/ MIL', description: 'Distance Traveled with MIL On', unit: 'km', bytes: 2, min: 0, max: 65535, decode: AB },
+  0x22: { key: 'fuel_rail_pressure_rel', name: 'Fuel Rail (rel)', description: 'Fuel Rail Pressure (relative to manifold vacuum)', unit: 'kPa', bytes: 2, min: 0, max: 5177.265, decimals: 1, decode: (d) => AB(d) * 0.079 },
+  0x23: { key: 'fuel_rail_pressure_gauge', name: 'Fuel Rail (gauge)', description: 'Fuel Rail Gauge Pressure (diesel or GDI)', unit: 'kPa', bytes: 2, min: 0, max: 655350, decode: (d) => AB(d) * 10 },
+  0x24: o2Lambda('o2_lambda_b1s1', 'B1S1'),
+  0x25: o2Lambda('o2_lambda_b1s2', 'B1S2'),
+  0x26: o2Lambda('o2_lambda_b1s3', 'B1S3'),
+  0x27: o2Lambda('o2_lambda_b1s4', 'B1S4'),
+  0x28: o2Lambda('o2_lambda_b2s1', 'B2S1'),
+  0x29: o2Lambda('o2_lambda_b2s2', 'B2S2'),
+  0x2a: o2Lambda('o2_lambda_b2s3', 'B2S3'),
+  0x2b: o2Lambda('o2_lambda_b2s4', 'B2S4'),
+  0x2c: pct('commanded_egr', 'Cmd EGR', 'Commanded EGR'),
+  0x2d: { key: 'egr_error', name: 'EGR Error', description: 'EGR Error', unit: '%', bytes: 1, min: -100, max: 99.2, decimals: 1, decode: trim },
+  0x2e: pct('commanded_evap_purge', 'Cmd EVAP Purge', 'Commanded Evaporative Purge'),
+  0x2f: { ...pct('fuel_level', 'Fuel Level', 'Fuel Tank Level Input'), warn_low: 10 },
+  0x30: { key: 'warmups_since_clear', name: 'Warm-ups', description: 'Warm-ups Since Codes Cleared', unit: 'count', bytes: 1, min: 0, max: 255, decode: A },
+  0x31: { key: 'distance_since_clear', name: 'Dist. Since Clear', description: 'Distance Traveled Since Codes Cleared', unit: 'km', bytes: 2, min: 0, max: 65535, decode: AB },
+  0x32: { key: 'evap_vapor_pressure', name: 'EVAP Pressure', description: 'Evap. System Vapor Pressure', unit: 'Pa', bytes: 2, min: -8192, max: 8191.75, decimals: 2, decode: (d) => signed16(AB(d)) / 4 },
+  0x33: { key: 'barometric_pressure', name: 'Baro Pressure', description: 'Absolute Barometric Pressure', unit: 'kPa', bytes: 1, min: 0, max: 255, decode: A },
+  0x34: o2Current('o2_current_b1s1', 'B1S1'),
+  0x35: o2Current('o2_current_b1s2', 'B1S2'),
+  0x36: o2Current('o2_current_b1s3', 'B1S3'),
+  0x37: o2Current('o2_current_b1s4', 'B1S4'),
+  0x38: o2Current('o2_current_b2s1', 'B2S1'),
+  0x39: o2Current('o2_current_b2s2', 'B2S2'),
+  0x3a: o2Current('o2_current_b2s3', 'B2S3'),
+  0x3b: o2Current('o2_current_b2s4', 'B2S4'),
+  0x3c: catTemp('catalyst_temp_b1s1', 'Cat Temp B1S1'),
+  0x3d: catTemp('catalyst_temp_b2s1', 'Cat Temp B2S1'),
+  0x3e: catTemp('catalyst_temp_b1s2', 'Cat Temp B1S2'),
+  0x3f: catTemp('catalyst_temp_b2s2', 'Cat Temp B2S2'),
+  0x42: { key: 'control_module_voltage', name: 'Module Voltage', description: 'Control Module Voltage', unit: 'V', bytes: 2, min: 0, max: 65.535, decimals: 1, warn_low: 12.5, warn_high: 15, decode: (d) => AB(d) / 1000 },
+  0x43: { key: 'absolute_load', name: 'Absolute Load', description: 'Absolute Load Value', unit: '%', bytes: 2, min: 0, max: 25700, decode: (d) => (AB(d) * 100) / 255 },
+  0x44: { key: 'commanded_lambda', name: 'Cmd λ', description: 'Commanded Air-Fuel Equivalence Ratio', unit: 'λ', bytes: 2, min: 0, max: 2, decimals: 3, decode: lambda },
+  0x45: pct('relative_throttle', 'Rel. Throttle', 'Relative Throttle Position'),
+  0x46: { key: 'ambient_air_temp', name: 'Ambient Air', description: 'Ambient Air Temperature', unit: '°C', bytes: 1, min: -40, max: 215, decode: temp },
+  0x47: pct('throttle_position_b', 'Throttle B', 'Absolute Throttle Position B'),
+  0x48: pct('throttle_position_c', 'Throttle C', 'Absolute Throttle Position C'),
+  0x49: pct('accelerator_pedal_d', 'Pedal D', 'Accelerator Pedal Position D'),
+  0x4a: pct('accelerator_pedal_e', 'Pedal E', 'Accelerator Pedal Position E'),
+  0x4b: pct('accelerator_pedal_f', 'Pedal F', 'Accelerator Pedal Position F'),
+  0x4c: pct('commanded_throttle', 'Cmd Throttle', 'Commanded Throttle Actuator'),
+  0x4d: { key: 'time_with_mil', name: 'Time w/ MIL', description: 'Time Run with MIL On', unit: 'min', bytes: 2, min: 0, max: 65535, decode: AB },
+  0x4e: { key: 'time_since_clear', name: 'Time Since Clear', description: 'Time Since Trouble Codes Cleared', unit: 'min', bytes: 2, min: 0, max: 65535, decode: AB },
+  0x52: pct('ethanol_percent', 'Ethanol', 'Ethanol Fuel Percentage'),
+  0x53: { key: 'evap_vapor_pressure_abs', name: 'EVAP Abs', description: 'Absolute Evap System Vapor Pressure', unit: 'kPa', bytes: 2, min: 0, max: 327.675, decimals: 2, decode: (d) => AB(d) / 200 },
+  0x54: { key: 'evap_vapor_pressure_wide', name: 'EVAP Pressure (wide)', description: 'Evap System Vapor Pressure (wide range)', unit: 'Pa', bytes: 2, min: -32768, max: 32767, decode: (d) => signed16(AB(d)) },
+  0x55: fuelTrim('secondary_o2_trim_short_b1', 'Sec. O₂ Trim (S) B1', 'Short Term Secondary O₂ Sensor Trim — Bank 1'),
+  0x56: fuelTrim('secondary_o2_trim_long_b1', 'Sec. O₂ Trim (L) B1', 'Long Term Secondary O₂ Sensor Trim — Bank 1'),
+  0x57: fuelTrim('secondary_o2_trim_short_b2', 'Sec. O₂ Trim (S) B2', 'Short Term Secondary O₂ Sensor Trim — Bank 2'),
+  0x58: fuelTrim('secondary_o2_trim_long_b2', 'Sec. O₂ Trim (L) B2', 'Long Term Secondary O₂ Sensor Trim — Bank 2'),
+  0x59: { key: 'fuel_rail_pressure_abs', name: 'Fuel Rail (abs)', description: 'Fuel Rail Absolute Pressure', unit: 'kPa', bytes: 2, min: 0, max: 655350, decode: (d) => AB(d) * 10 },
+  0x5a: pct('relative_accelerator_pedal', 'Rel. Pedal', 'Relative Accelerator Pedal Position'),
+  0x5b: { ...pct('hybrid_battery_life', 'Hybrid Battery', 'Hybrid Battery Pack Remaining Life'), warn_low: 20 },
+  0x5c: { key: 'oil_temp', name: 'Oil Temp', description: 'Engine Oil Temperature', unit: '°C', bytes: 1, min: -40, max: 210, warn_high: 130, decode: temp },
+  0x5d: { key: 'injection_timing', name: 'Injection Timing', description: 'Fuel Injection Timing', unit: '°', bytes: 2, min: -210, max: 301.992, decimals: 2, decode: (d) => AB(d) / 128 - 210 },
+  0x5e: { key: 'fuel_rate', name: 'Fuel Rate', description: 'Engine Fuel Rate', unit: 'L/h', bytes: 2, min: 0, max: 3212.75, decimals: 2, decode: (d) => AB(d) / 20 },
+  0x61: { key: 'demand_torque', name: 'Demand Torque', description: "Driver's Demand Engine — Percent Torque", unit: '%', bytes: 1, min: -125, max: 130, decode: (d) => A(d) - 125 },
+  0x62: { key: 'actual_torque', name: 'Actual Torque', description: 'Actual Engine — Percent Torque', unit: '%', bytes: 1, min: -125, max: 130, decode: (d) => A(d) - 125 },
+  0x63: { key: 'reference_torque', name: 'Ref. Torque', description: 'Engine Reference Torque', unit: 'Nm', bytes: 2, min: 0, max: 65535, decode: AB },
+};
+
+/** All decodable Mode 01 PIDs, keyed by PID number. */
+export const MODE01_PIDS: Record<number, PIDDefinition> = Object.fromEntries(
+  Object.entries(SPECS).map(([pid, spec]) => [pid, { decimals: 0, ...spec, pid: Number(pid) }])
+);
+
+const PIDS_BY_KEY = new Map(Object.values(MODE01_PIDS).map((def) => [def.key, def]));
+
+/** Battery voltage from the adapter's ATRV pin — not a PID, but always available. */
+export const ADAPTER_VOLTAGE_PID = 'AT RV';
+const ADAPTER_VOLTAGE_DEF = {
+  key: 'battery_voltage',
+  name: 'Battery',
+  description: 'Battery voltage at the OBD-II port',
+  unit: 'V',
+  min: 0,
+  max: 20,
+  decimals: 1,
+  warn_low: 12.5,
+  warn_high: 15,
+};
+
+/** Format a PID the way OBDParameter stores it, e.g. 0x0C → "01 0C". */
+export function formatPID(pid: number, mode = 0x01): string {
+  const h = (n: number) => n.toString(16).toUpperCase().padStart(2, '0');
+  return `${h(mode)} ${h(pid)}`;
+}
+
+/** Look up a definition by PID number, OBDParameter pid string ("01 0C") or key ("rpm"). */
+export function getPIDDefinition(ref: number | string): PIDDefinition | undefined {
+  if (typeof ref === 'number') return MODE01_PIDS[ref];
+  const match = ref.match(/^0[12] ([0-9A-F]{2})$/i);
+  if (match) return MODE01_PIDS[parseInt(match[1], 16)];
+  return PIDS_BY_KEY.get(ref);
+}
+
+/**
+ * Display metadata for a parameter (by PID or by key), including the adapter
+ * voltage pseudo-PID.
+ */
+export function getParameterMeta(param: Pick<OBDParameter, 'pid'> | string): Omit<PIDDefinition, 'pid' | 'bytes' | 'decode'> | undefined {
+  const ref = typeof param === 'string' ? param : param.pid;
+  if (ref === ADAPTER_VOLTAGE_PID || ref === ADAPTER_VOLTAGE_DEF.key) return ADAPTER_VOLTAGE_DEF;
+  return getPIDDefinition(ref);
+}
+
+/** Decode raw data bytes (after mode and PID) into an OBDParameter, or null if unknown or short. */
+export function decodePID(pid: number, data: number[], timestamp = Date.now(), mode = 0x01): OBDParameter | null {
+  const def = MODE01_PIDS[pid];
+  if (!def || data.length < def.bytes) return null;
+  const factor = 10 ** def.decimals;
+  return {
+    pid: formatPID(pid, mode),
+    key: def.key,
+    name: def.name,
+    value: Math.round(def.decode(data) * factor) / factor,
+    unit: def.unit,
+    description: def.description,
+    min: def.min,
+    max: def.max,
+    timestamp,
+  };
+}
+
+export function adapterVoltageParameter(volts: number, timestamp = Date.now()): OBDParameter {
+  return {
+    pid: ADAPTER_VOLTAGE_PID,
+    key: ADAPTER_VOLTAGE_DEF.key,
+    name: ADAPTER_VOLTAGE_DEF.name,
+    value: volts,
+    unit: ADAPTER_VOLTAGE_DEF.unit,
+    description: ADAPTER_VOLTAGE_DEF.description,
+    min: ADAPTER_VOLTAGE_DEF.min,
+    max: ADAPTER_VOLTAGE_DEF.max,
+    timestamp,
+  };
+}
+
+// ============================================================================
+// SUPPORTED PID DISCOVERY
+// ============================================================================
+
+/**
+ * Parse a supported-PID bitmask response (PIDs 00, 20, 40, …). Bit 31 of the
+ * 4-byte mask is PID base+1, bit 0 is base+0x20.
+ */
+export function parseSupportedPIDs(base: number, mask: number[]): number[] {
+  const pids: number[] = [];
+  for (let i = 0; i < 32; i++) {
+    const byte = mask[i >> 3] ?? 0;
+    if (byte & (0x80 >> (i & 7))) pids.push(base + i + 1);
+  }
+  return pids;
+}
+
+/**
+ * Walk the supported-PID chain starting at 0x00 until a range doesn't report its
+ * successor. Returns every supported PID, including the range-query PIDs themselves.
+ * Pass a Mode 02 frame number to discover what a freeze frame holds instead of live data.
+ */
+export async function discoverSupportedPIDs(session: ELM327Session, freezeFrame?: number): Promise<number[]> {
+  const supported: number[] = [];
+  for (let base = 0x00; base <= 0xe0; base += 0x20) {
+    const mask = freezeFrame == null
+      ? await readPID(session, base)
+      : await readFreezeFramePID(session, base, freezeFrame);
+    if (!mask) break;
+    const pids = parseSupportedPIDs(base, mask);
+    supported.push(...pids);
+    if (!pids.includes(base + 0x20)) break;
+  }
+  return supported;
+}
+
+/** Supported PIDs the registry can decode into values, i.e. the ones worth polling. */
+export function pollablePIDs(supported: number[]): number[] {
+  return supported.filter((pid) => pid % 0x20 !== 0 && MODE01_PIDS[pid] != null);
+}
+
+// ============================================================================
+// FREEZE FRAMES (MODE 02)
+// ============================================================================
+
+/** Frames to probe; most ECUs only store frame 0, the rest answer NO DATA. */
+const MAX_FREEZE_FRAMES = 4;
+
+/**
+ * Read one freeze frame: the triggering DTC plus every supported PID decoded
+ * through the registry. Returns null when the frame is empty.
+ */
+export async function readFreezeFrameSnapshot(session: ELM327Session, frame = 0): Promise<FreezeFrameData | null> {
+  const dtc = await readFreezeFrameDTC(session, frame);
+  if (!dtc) return null;
+
+  const pids = pollablePIDs(await discoverSupportedPIDs(session, frame));
+  const timestamp = Date.now();
+  const parameters: OBDParameter[] = [];
+  for (const pid of pids) {
+    const data = await readFreezeFramePID(session, pid, frame);
+    const param = data ? decodePID(pid, data, timestamp, OBD_MODES.FREEZE_FRAME) : null;
+    if (param) parameters.push(param);
+  }
+
+  const values: Record<string, number> = {};
+  parameters.forEach((p) => {
+    if (p.key) values[p.key] = p.value;
+  });
+
+  return {
+    ...values,
+    frame_number: frame,
+    dtc,
+    captured_at: new Date(timestamp).toISOString(),
+    parameters,
+  };
+}
+
+/** Read every stored freeze frame, mapping frame numbers to the DTCs that set them. */
+export async function readAllFreezeFrames(session: ELM327Session): Promise<FreezeFrameData[]> {
+  const frames: FreezeFrameData[] = [];
+  for (let frame = 0; frame < MAX_FREEZE_FRAMES; frame++) {
+    const snapshot = await readFreezeFrameSnapshot(session, frame);
+    if (!snapshot) break;
+    frames.push(snapshot);
+  }
+  return frames;
+}
+
+// ============================================================================
+// LIVE DATA ADAPTER
+// ============================================================================
+
+/**
+ * Collapse a parameter list into the named LiveOBDData shape used by recorders,
+ * rules and analyzers. Parameters the vehicle doesn't report are left
+ * undefined so they show as "—" rather than a reading of 0.
+ */
+export function parametersToLiveData(params: OBDParameter[], timestamp = Date.now()): LiveOBDData {
+  const byKey = new Map(params.map((p) => [p.key || getParameterMeta(p)?.key, p.value]));
+  const v = (key: string) => byKey.get(key);
+  return {
+    rpm: v('rpm'),
+    vehicle_speed: v('vehicle_speed'),
+    coolant_temp: v('coolant_temp'),
+    intake_air_temp: v('intake_air_temp'),
+    throttle_position: v('throttle_position'),
+    engine_load: v('engine_load'),
+    fuel_trim_short: v('fuel_trim_short'),
+    fuel_trim_long: v('fuel_trim_long'),
+    o2_voltage_bank1: v('o2_voltage_bank1'),
+    o2_voltage_bank2: v('o2_voltage_bank2'),
+    maf_rate: v('maf_rate'),
+    timing_advance: v('timing_advance'),
+    battery_voltage: v('battery_voltage') ?? v('control_module_voltage'),
+    timestamp,
+  };
+}
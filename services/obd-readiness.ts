@@ -0,0 +1,139 @@
+/**
+ * Gear AI CoPilot - Readiness Monitors (Emissions I/M)
+ *
+ * Mode 01 PID 01 monitor-status decoding and an OBD-based state inspection
+ * pass/fail prediction following EPA I/M readiness rules.
+ */
+
+import type {
+  InspectionReadiness,
+  MonitorStatus,
+  ReadinessMonitor,
+  ReadinessMonitorId,
+} from '../types/diagnostic';
+import { ELM327Session, readPID } from './elm327-protocol';
+
+/** Warn about incomplete monitors this many days before an inspection is due. */
+export const INSPECTION_WARNING_DAYS = 30;
+
+const MONITOR_NAMES: Record<ReadinessMonitorId, string> = {
+  misfire: 'Misfire',
+  fuel_system: 'Fuel System',
+  components: 'Comprehensive Components',
+  catalyst: 'Catalyst',
+  heated_catalyst: 'Heated Catalyst',
+  evap: 'EVAP System',
+  secondary_air: 'Secondary Air',
+  ac_refrigerant: 'A/C Refrigerant',
+  o2_sensor: 'O₂ Sensor',
+  o2_heater: 'O₂ Sensor Heater',
+  egr_vvt: 'EGR / VVT',
+  nmhc_catalyst: 'NMHC Catalyst',
+  nox_scr: 'NOx / SCR',
+  boost_pressure: 'Boost Pressure',
+  exhaust_gas_sensor: 'Exhaust Gas Sensor',
+  pm_filter: 'PM Filter',
+};
+
+// Byte B bits 0-2 (available) / 4-6 (incomplete)
+const CONTINUOUS: ReadinessMonitorId[] = ['misfire', 'fuel_system', 'components'];
+
+// Byte C (available) / D (incomplete), bit 0 first; null bits are reserved
+const SPARK: (ReadinessMonitorId | null)[] = [
+  'catalyst', 'heated_catalyst', 'evap', 'secondary_air', 'ac_refrigerant', 'o2_sensor', 'o2_heater', 'egr_vvt',
+];
+const COMPRESSION: (ReadinessMonitorId | null)[] = [
+  'nmhc_catalyst', 'nox_scr', null, 'boost_pressure', null, 'exhaust_gas_sensor', 'pm_filter', 'egr_vvt',
+];
+
+const monitor = (id: ReadinessMonitorId, continuous: boolean, complete: boolean): ReadinessMonitor => ({
+  id, name: MONITOR_NAMES[id], continuous, complete,
+});
+
+/** Decode the four data bytes of Mode 01 PID 01. A set "incomplete" bit means the test has not run. */
+export function decodeMonitorStatus(data: number[]): MonitorStatus {
+  if (data.length < 4) throw new Error('Monitor status response too short');
+  const [a, b, c, d] = data;
+  const ignition = b & 0x08 ? 'compression' : 'spark';
+  const monitors: ReadinessMonitor[] = [];
+
+  CONTINUOUS.forEach((id, bit) => {
+    if (b & (1 << bit)) monitors.push(monitor(id, true, !(b & (1 << (bit + 4)))));
+  });
+  (ignition === 'spark' ? SPARK : COMPRESSION).forEach((id, bit) => {
+    if (id && c & (1 << bit)) monitors.push(monitor(id, false, !(d & (1 << bit))));
+  });
+
+  return { mil_on: Boolean(a & 0x80), dtc_count: a & 0x7f, ignition, monitors };
+}
+
+/** Read and decode monitor status since DTCs were last cleared. */
+export async function readMonitorStatus(session: ELM327Session): Promise<MonitorStatus> {
+  const data = await readPID(session, 0x01);
+  if (!data) throw new Error('Vehicle did not report readiness monitor status');
+  return decodeMonitorStatus(data);
+}
+
+/**
+ * EPA I/M allowance: 1996–2000 vehicles may have two incomplete non-continuous
+ * monitors, 2001 and newer only one.
+ */
+export function allowedIncompleteMonitors(modelYear: number): number {
+  return modelYear <= 2000 ? 2 : 1;
+}
+
+/** Predict an OBD-based emissions inspection result from monitor status. */
+export function predictInspection(
+  status: MonitorStatus,
+  modelYear: number,
+  options: { mileage?: number; checkedAt?: Date } = {}
+): InspectionReadiness {
+  const incomplete = status.monitors.filter((m) => !m.continuous && !m.complete).map((m) => m.id);
+  const allowed = allowedIncompleteMonitors(modelYear);
+  const reasons: string[] = [];
+
+  if (status.mil_on) {
+    reasons.push(`Check engine light is on with ${status.dtc_count} stored code${status.dtc_count === 1 ? '' : 's'}`);
+  }
+  if (incomplete.length > allowed) {
+    reasons.push(
+      `${incomplete.length} monitors not ready (${incomplete.map((id) => MONITOR_NAMES[id]).join(', ')}); ` +
+        `${allowed} allowed for a ${modelYear} vehicle`
+    );
+  }
+
+  return {
+    ...status,
+    checked_at: (options.checkedAt ?? new Date()).toISOString(),
+    mileage: options.mileage,
+    prediction: reasons.length === 0 ? 'pass' : 'fail',
+    incomplete,
+    allowed_incomplete: allowed,
+    reasons,
+  };
+}
+
+/**
+ * Warning text when the inspection is due within INSPECTION_WARNING_DAYS (or
+ * overdue) and the last readiness check predicts a failure or has monitors still
+ * running. Null when there is nothing to warn about.
+ */
+export function getInspectionWarning(
+  readiness: InspectionReadiness | undefined,
+  inspectionDue: string | undefined,
+  now: Date = new Date()
+): string | null {
+  if (!readiness || !inspectionDue) return null;
+  const due = new Date(inspectionDue);
+  if (isNaN(due.getTime())) return null;
+
+  const days = Math.ceil((due.getTime() - now.getTime()) / 86_400_000);
+  if (days > INSPECTION_WARNING_DAYS) return null;
+  if (readiness.prediction === 'pass' && readiness.incomplete.length === 0) return null;
+
+  const when = days < 0 ? `was due ${-days} day${days === -1 ? '' : 's'} ago` : days === 0 ? 'is due today' : `is due in ${days} day${days === 1 ? '' : 's'}`;
+  if (readiness.prediction === 'fail') {
+    return `Inspection ${when} and the vehicle would likely fail: ${readiness.reasons.join('; ')}.`;
+  }
+  return `Inspection ${when} and ${readiness.incomplete.length} monitor${readiness.incomplete.length === 1 ? ' is' : 's are'} still incomplete — drive a full cycle before testing.`;
+}
@@ -0,0 +1,264 @@
+/**
+ * Gear AI CoPilot - OBD-II Transport Layer
+ *
+ * Pluggable link between the ELM327 command layer and the physical adapter
+ * (BLE, WiFi, USB), plus a scripted in-memory transport and a demo vehicle
+ * built on it so diagnostics can run without hardware.
+ */
+
+import type { OBDConnection } from '../types/diagnostic';
+
+/**
+ * A half-duplex text link to an ELM327-compatible adapter.
+ * `send` writes one command (the transport appends the carriage return) and
+ * resolves with everything the adapter printed before its `>` prompt.
+ */
+export interface OBDTransport {
+  readonly adapter_id: string;
+  readonly adapter_name: string;
+  readonly connection_type: OBDConnection['connection_type'];
+  open(): Promise<void>;
+  close(): Promise<void>;
+  isOpen(): boolean;
+  send(command: string, timeoutMs?: number): Promise<string>;
+}
+
+export type OBDTransportFactory = (adapterId?: string) => OBDTransport;
+
+/** A canned reply, or a function computing one from the command and how often it has been sent. */
+export type ScriptedReply = string | ((command: string, callCount: number) => string);
+
+export interface ScriptedTransportOptions {
+  adapter_id?: string;
+  adapter_name?: string;
+  connection_type?: OBDConnection['connection_type'];
+  /** Simulated round-trip delay per command. */
+  latencyMs?: number;
+  /** Reply for commands missing from the script. A real ELM327 answers `?`. */
+  fallback?: ScriptedReply;
+}
+
+export interface ScriptedTransport extends OBDTransport {
+  /** Every command sent, normalized, in order. */
+  readonly sent: string[];
+}
+
+function normalizeCommand(command: string): string {
+  return command.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Create an in-memory transport that answers commands from a script keyed by
+ * command text (case and whitespace insensitive).
+ */
+export function createScriptedTransport(
+  script: Record<string, ScriptedReply>,
+  options: ScriptedTransportOptions = {}
+): ScriptedTransport {
+  const normalized = new Map<string, ScriptedReply>();
+  Object.entries(script).forEach(([cmd, reply]) => normalized.set(normalizeCommand(cmd), reply));
+  const callCounts = new Map<string, number>();
+  const sent: string[] = [];
+  let open = false;
+
+  return {
+    adapter_id: options.adapter_id || 'ELM327-SCRIPTED',
+    adapter_name: options.adapter_name || 'ELM327 (Scripted)',
+    connection_type: options.connection_type || 'BLE',
+    sent,
+    async open() {
+      open = true;
+    },
+    async close() {
+      open = false;
+    },
+    isOpen() {
+      return open;
+    },
+    async send(command: string) {
+      if (!open) throw new Error('OBD transport is not open');
+      const cmd = normalizeCommand(command);
+      sent.push(cmd);
+      const count = (callCounts.get(cmd) || 0) + 1;
+      callCounts.set(cmd, count);
+      if (options.latencyMs) await new Promise((r) => setTimeout(r, options.latencyMs));
+      const reply = normalized.get(cmd) ?? options.fallback ?? '?';
+      return typeof reply === 'function' ? reply(cmd, count) : reply;
+    },
+  };
+}
+
+// ============================================================================
+// DEMO VEHICLE
+// ============================================================================
+
+const DEMO_ECU_HEADER = '7E8';
+
+function hex(byte: number): string {
+  return (byte & 0xff).toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Encode a payload as ISO 15765-4 CAN frames the way an ELM327 prints them
+ * with headers on: single frame when it fits, first + consecutive frames otherwise.
+ */
+export function encodeCANFrames(header: string, payload: number[]): string {
+  const pad = (bytes: number[]) => [...bytes, ...Array(Math.max(0, 8 - bytes.length)).fill(0xaa)];
+  const line = (bytes: number[]) => `${header} ${pad(bytes).map(hex).join(' ')}`;
+
+  if (payload.length <= 7) return line([payload.length, ...payload]);
+
+  const lines = [line([0x10 | ((payload.length >> 8) & 0x0f), payload.length & 0xff, ...payload.slice(0, 6)])];
+  let seq = 1;
+  for (let i = 6; i < payload.length; i += 7) {
+    lines.push(line([0x20 | (seq & 0x0f), ...payload.slice(i, i + 7)]));
+    seq++;
+  }
+  return lines.join('\r');
+}
+
+function encodeDTC(code: string): number[] {
+  const system = 'PCBU'.indexOf(code[0]);
+  const value = parseInt(code.slice(1), 16);
+  return [(system << 6) | (value >> 8), value & 0xff];
+}
+
+/** Live PID encoders for the demo vehicle, driven by a tick counter. */
+const DEMO_PIDS: Record<number, (tick: number) => number[]> = {
+  0x04: (t) => [Math.round(((20 + Math.sin(t * 0.08) * 15 + Math.random() * 5) * 255) / 100)],
+  0x05: (t) => [Math.round(90 + Math.sin(t * 0.02) * 5) + 40],
+  0x06: () => [Math.round((Math.random() * 4 - 2) * 1.28 + 128)],
+  0x07: () => [Math.round((Math.random() * 3 - 1.5) * 1.28 + 128)],
+  0x0c: (t) => {
+    const raw = Math.round((800 + Math.sin(t * 0.1) * 200 + Math.random() * 50) * 4);
+    return [raw >> 8, raw & 0xff];
+  },
+  0x0d: (t) => [Math.round(Math.max(0, 35 + Math.sin(t * 0.05) * 35))],
+  0x0e: (t) => [Math.round((12 + Math.sin(t * 0.05) * 4) * 2 + 128)],
+  0x0f: () => [Math.round(25 + Math.random() * 5) + 40],
+  0x10: (t) => {
+    const raw = Math.round((4 + Math.sin(t * 0.1) * 2) * 100);
+    return [raw >> 8, raw & 0xff];
+  },
+  0x11: (t) => [Math.round(((15 + Math.sin(t * 0.08) * 10 + Math.random() * 3) * 255) / 100)],
+  0x14: (t) => [Math.round((0.45 + Math.sin(t * 0.2) * 0.4) * 200), 0xff],
+  0x1f: (t) => [(t >> 8) & 0xff, t & 0xff],
+  0x2f: () => [Math.round((62 * 255) / 100)],
+  0x33: () => [101],
+  0x42: () => {
+    const raw = Math.round((13.8 + Math.random() * 0.4) * 1000);
+    return [raw >> 8, raw & 0xff];
+  },
+  0x46: () => [22 + 40],
+};
+
+/**
+ * Supported-PID bitmask for the range starting at `base`, matching the encoders
+ * above. The last bit flags the next range when any encoder lives beyond it.
+ */
+function demoSupportedMask(base: number, extra: number[] = []): number[] {
+  const pids = [...Object.keys(DEMO_PIDS).map(Number), ...extra];
+  let mask = 0;
+  pids
+    .filter((pid) => pid > base && pid <= base + 0x20)
+    .forEach((pid) => {
+      mask |= 1 << (32 - (pid - base));
+    });
+  if (pids.some((pid) => pid > base + 0x20)) mask |= 1;
+  return [(mask >>> 24) & 0xff, (mask >>> 16) & 0xff, (mask >>> 8) & 0xff, mask & 0xff];
+}
+
+export interface DemoVehicleOptions {
+  storedCodes?: string[];
+  pendingCodes?: string[];
+  permanentCodes?: string[];
+  /** Code that stored freeze frame 0; defaults to the first stored code. */
+  freezeFrameCode?: string;
+  latencyMs?: number;
+}
+
+/**
+ * A scripted transport emulating an ELM327 plugged into a CAN (11-bit, 500 kbps)
+ * vehicle with a single engine ECU. Used when no hardware transport is registered.
+ */
+export function createDemoVehicleTransport(
+  adapterId?: string,
+  options: DemoVehicleOptions = {}
+): ScriptedTransport {
+  let stored = options.storedCodes ?? ['P0420', 'P0171'];
+  let pending = options.pendingCodes ?? ['P0442'];
+  const permanent = options.permanentCodes ?? [...stored];
+  let freezeCode: string | undefined = options.freezeFrameCode ?? stored[0];
+  let monitorsReset = false;
+  let tick = 0;
+
+  // Freeze frame 0: one snapshot of every demo PID, taken when the code set
+  const frozen = new Map<number, number[]>();
+  Object.entries(DEMO_PIDS).forEach(([pid, encode]) => frozen.set(Number(pid), encode(60)));
+
+  const dtcReply = (mode: number, codes: string[]) =>
+    encodeCANFrames(DEMO_ECU_HEADER, [mode + 0x40, codes.length, ...codes.flatMap(encodeDTC)]);
+
+  const script: Record<string, ScriptedReply> = {
+    ATZ: '\r\rELM327 v1.5',
+    ATE0: 'ATE0\rOK',
+    ATL0: 'OK',
+    ATS1: 'OK',
+    ATH0: 'OK',
+    ATH1: 'OK',
+    ATSP0: 'OK',
+    ATDPN: 'A6',
+    ATRV: () => `${(13.8 + Math.random() * 0.4).toFixed(1)}V`,
+    '0100': (_cmd, count) =>
+      `${count === 1 ? 'SEARCHING...\r' : ''}${encodeCANFrames(DEMO_ECU_HEADER, [0x41, 0x00, ...demoSupportedMask(0x00, [0x01])])}`,
+    // Monitor status: spark ignition; catalyst, EVAP, O2 and O2 heater supported.
+    // EVAP hasn't run yet; clearing codes resets every non-continuous monitor.
+    '0101': () =>
+      encodeCANFrames(DEMO_ECU_HEADER, [
+        0x41,
+        0x01,
+        (stored.length > 0 ? 0x80 : 0) | stored.length,
+        0x07,
+        0x65,
+        monitorsReset ? 0x65 : 0x04,
+      ]),
+    '0120': () => encodeCANFrames(DEMO_ECU_HEADER, [0x41, 0x20, ...demoSupportedMask(0x20)]),
+    '0140': () => encodeCANFrames(DEMO_ECU_HEADER, [0x41, 0x40, ...demoSupportedMask(0x40)]),
+    '03': () => dtcReply(0x03, stored),
+    '07': () => dtcReply(0x07, pending),
+    '0A': () => dtcReply(0x0a, permanent),
+    '04': () => {
+      stored = [];
+      pending = [];
+      freezeCode = undefined;
+      monitorsReset = true;
+      return encodeCANFrames(DEMO_ECU_HEADER, [0x44]);
+    },
+  };
+
+  Object.entries(DEMO_PIDS).forEach(([pid, encode]) => {
+    script[`01${hex(Number(pid))}`] = () => {
+      tick++;
+      return encodeCANFrames(DEMO_ECU_HEADER, [0x41, Number(pid), ...encode(tick)]);
+    };
+  });
+
+  // Mode 02 requests carry the frame number; only frame 0 is stored
+  const freezeReply = (pid: number, data: () => number[]) => () =>
+    freezeCode ? encodeCANFrames(DEMO_ECU_HEADER, [0x42, pid, 0x00, ...data()]) : 'NO DATA';
+  script['020200'] = freezeReply(0x02, () => encodeDTC(freezeCode as string));
+  [0x00, 0x20, 0x40].forEach((base) => {
+    script[`02${hex(base)}00`] = freezeReply(base, () => demoSupportedMask(base, [0x02]));
+  });
+  frozen.forEach((data, pid) => {
+    script[`02${hex(pid)}00`] = freezeReply(pid, () => data);
+  });
+
+  return createScriptedTransport(script, {
+    adapter_id: adapterId || 'ELM327-SIM',
+    adapter_name: 'ELM327 Bluetooth OBD-II (Simulated)',
+    connection_type: 'BLE',
+    latencyMs: options.latencyMs ?? 40,
+    fallback: 'NO DATA',
+  });
+}
@@ -0,0 +1,422 @@
+/**
+ * Gear AI CoPilot - Total Cost of Ownership
+ *
+ * Adds up what a vehicle has cost since it was bought or leased:
+ * depreciation, maintenance, loan interest or lease payments, fuel,
+ * insurance and registration. Reports lifetime, annual and per-mile cost
+ * for each vehicle, compares them across the garage, and renders the
+ * result as a printable HTML report.
+ */
+
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import { getCostAnalytics } from './maintenance-service';
+import { getFinancialAccounts, getLoanOverview } from './financing-service';
+import { getFuelLogs } from './fuel-service';
+import { buildLeaseReport } from './lease-tracker';
+import { getMileageLogs, getUserVehicles } from './vehicle-service';
+import { dateOnly, daysBetween, localIsoDate, round2 } from './date-money';
+import type { FinancialAccount, FinancialSummary } from '../types/financial';
+import type { FuelLogEntry } from '../types/fuel';
+import type { MileageLogEntry, Vehicle } from '../types/vehicle';
+
+export type CostCategory =
+  | 'depreciation'
+  | 'lease'
+  | 'interest'
+  | 'maintenance'
+  | 'fuel'
+  | 'insurance'
+  | 'registration';
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  depreciation: 'Depreciation',
+  lease: 'Lease Payments',
+  interest: 'Loan Interest',
+  maintenance: 'Maintenance & Repairs',
+  fuel: 'Fuel & Charging',
+  insurance: 'Insurance',
+  registration: 'Registration',
+};
+
+export type OwnershipVehicle = Pick<
+  Vehicle,
+  | 'vehicle_id'
+  | 'year'
+  | 'make'
+  | 'model'
+  | 'nickname'
+  | 'current_mileage'
+  | 'in_service_date'
+  | 'purchase_date'
+  | 'purchase_price'
+  | 'current_market_value'
+  | 'insurance_premium_annual'
+  | 'registration_fee_annual'
+  | 'created_at'
+>;
+
+export interface OwnershipCostInputs {
+  vehicle: OwnershipVehicle;
+  /** Maintenance spent since ownership (or the lease) began */
+  maintenance_total: number;
+  /** Interest paid so far on the vehicle's loan */
+  interest_paid?: number;
+  loan_balance?: number;
+  /** Active lease: payments and depreciation belong to the lease instead */
+  lease?: FinancialAccount;
+  fuel_total?: number;
+  /** Odometer when ownership began, if known */
+  start_mileage?: number;
+  now?: Date;
+}
+
+export interface CostLine {
+  category: CostCategory;
+  label: string;
+  total: number;
+  annual: number;
+  per_mile?: number;
+  share: number; // 0-1 of lifetime cost
+}
+
+export interface OwnershipCostReport {
+  vehicle_id: string;
+  name: string;
+  owned_since: string;
+  ownership_years: number;
+  miles_driven?: number;
+  lines: CostLine[];
+  /** Categories with nothing recorded, e.g. no insurance premium on file */
+  missing: CostCategory[];
+  lifetime_cost: number;
+  annual_cost: number;
+  monthly_cost: number;
+  per_mile_cost?: number;
+  summary: FinancialSummary;
+}
+
+export interface GarageCostComparison {
+  reports: OwnershipCostReport[];
+  lifetime_cost: number;
+  annual_cost: number;
+  /** vehicle_id of the cheapest to run per mile, and per year */
+  lowest_per_mile?: string;
+  lowest_annual?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Purchases within this many days of first registration count as bought new. */
+const BOUGHT_NEW_DAYS = 60;
+
+export function vehicleName(vehicle: Pick<Vehicle, 'year' | 'make' | 'model' | 'nickname'>): string {
+  const name = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+  return vehicle.nickname ? `${vehicle.nickname} (${name})` : name;
+}
+
+/** When the user's costs start: the purchase, else first registration, else when it was added. */
+function ownershipStart(vehicle: OwnershipVehicle, lease?: FinancialAccount): string {
+  if (lease) return dateOnly(lease.start_date);
+  return dateOnly(vehicle.purchase_date || vehicle.in_service_date || vehicle.created_at);
+}
+
+/**
+ * Odometer when ownership began: the first logged reading on or after that
+ * date, or zero when the car was bought new. Otherwise unknown.
+ */
+export function ownershipStartMileage(
+  vehicle: OwnershipVehicle,
+  logs: MileageLogEntry[],
+  since: string
+): number | undefined {
+  const first = logs
+    .filter((l) => dateOnly(l.logged_date) >= since)
+    .sort((a, b) => a.logged_date.localeCompare(b.logged_date))[0];
+  if (first) return first.mileage;
+  const boughtNew =
+    !vehicle.purchase_date ||
+    (vehicle.in_service_date && daysBetween(dateOnly(vehicle.in_service_date), dateOnly(vehicle.purchase_date)) <= BOUGHT_NEW_DAYS);
+  return boughtNew ? 0 : undefined;
+}
+
+// ============================================================================
+// REPORT (pure)
+// ============================================================================
+
+/**
+ * Lifetime, annual and per-mile cost for one vehicle. Insurance and
+ * registration are prorated from their annual amounts over the time owned.
+ * A leased car's cost is what's been paid on the lease, not depreciation.
+ */
+export function buildOwnershipCostReport(inputs: OwnershipCostInputs): OwnershipCostReport {
+  const { vehicle, lease } = inputs;
+  const now = inputs.now ?? new Date();
+  const today = localIsoDate(now);
+  const since = ownershipStart(vehicle, lease);
+  const years = Math.max(daysBetween(since, today), 30) / 365.25;
+  const months = Math.max(Math.round(years * 12), 1);
+
+  const purchasePrice = Number(vehicle.purchase_price) || 0;
+  const currentValue = Number(vehicle.current_market_value) || 0;
+  const depreciation = !lease && purchasePrice > 0 && currentValue > 0 ? purchasePrice - currentValue : undefined;
+
+  let leasePaid: number | undefined;
+  let leaseEquity: number | undefined;
+  if (lease) {
+    const report = buildLeaseReport({ account: lease, current_mileage: vehicle.current_mileage, market_value: currentValue, now });
+    leasePaid =
+      report.details.monthly_payment * (report.details.term_months - report.months_remaining) +
+      (Number(lease.down_payment) || 0);
+    leaseEquity = report.details.equity;
+  }
+
+  const insurance = vehicle.insurance_premium_annual ? Number(vehicle.insurance_premium_annual) * years : undefined;
+  const registration = vehicle.registration_fee_annual ? Number(vehicle.registration_fee_annual) * years : undefined;
+
+  const amounts: Record<CostCategory, number | undefined> = {
+    depreciation,
+    lease: leasePaid,
+    interest: lease ? undefined : inputs.interest_paid,
+    maintenance: inputs.maintenance_total,
+    fuel: inputs.fuel_total,
+    insurance,
+    registration,
+  };
+  const applicable = (Object.keys(amounts) as CostCategory[]).filter((c) =>
+    lease ? c !== 'depreciation' && c !== 'interest' : c !== 'lease'
+  );
+
+  const miles =
+    inputs.start_mileage !== undefined && vehicle.current_mileage
+      ? Math.max(vehicle.current_mileage - inputs.start_mileage, 0)
+      : undefined;
+  const lifetime = applicable.reduce((sum, c) => sum + (amounts[c] ?? 0), 0);
+
+  const lines: CostLine[] = applicable
+    .filter((c) => amounts[c] !== undefined && amounts[c] !== 0)
+    .map((category) => {
+      const total = amounts[category]!;
+      return {
+        category,
+        label: COST_CATEGORY_LABELS[category],
+        total: round2(total),
+        annual: round2(total / years),
+        per_mile: miles ? round2(total / miles) : undefined,
+        share: lifetime > 0 ? total / lifetime : 0,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  const loanBalance = lease ? undefined : inputs.loan_balance;
+
+  return {
+    vehicle_id: vehicle.vehicle_id,
+    name: vehicleName(vehicle),
+    owned_since: since,
+    ownership_years: round2(years),
+    miles_driven: miles,
+    lines,
+    missing: applicable.filter((c) => !amounts[c] && c !== 'interest'), // No loan means no interest, not a gap
+    lifetime_cost: round2(lifetime),
+    annual_cost: round2(lifetime / years),
+    monthly_cost: round2(lifetime / months),
+    per_mile_cost: miles ? round2(lifetime / miles) : undefined,
+    summary: {
+      vehicle_id: vehicle.vehicle_id,
+      purchase_price: purchasePrice,
+      current_value: currentValue,
+      total_depreciation: round2(depreciation ?? 0),
+      loan_balance: loanBalance,
+      equity: round2(leaseEquity ?? currentValue - (loanBalance ?? 0)),
+      total_maintenance_cost: round2(inputs.maintenance_total),
+      total_ownership_cost: round2(lifetime),
+      monthly_ownership_cost: round2(lifetime / months),
+      ownership_months: months,
+    },
+  };
+}
+
+/** Garage totals and the cheapest vehicles to run, most expensive per year first. */
+export function compareOwnershipCosts(reports: OwnershipCostReport[]): GarageCostComparison {
+  const sorted = [...reports].sort((a, b) => b.annual_cost - a.annual_cost);
+  const perMile = sorted.filter((r) => r.per_mile_cost !== undefined);
+  const lowest = (list: OwnershipCostReport[], key: (r: OwnershipCostReport) => number) =>
+    list.length > 1 ? list.reduce((best, r) => (key(r) < key(best) ? r : best)).vehicle_id : undefined;
+
+  return {
+    reports: sorted,
+    lifetime_cost: round2(sorted.reduce((sum, r) => sum + r.lifetime_cost, 0)),
+    annual_cost: round2(sorted.reduce((sum, r) => sum + r.annual_cost, 0)),
+    lowest_per_mile: lowest(perMile, (r) => r.per_mile_cost!),
+    lowest_annual: lowest(sorted, (r) => r.annual_cost),
+  };
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/** The account that applies now: an active one, else the most recent. */
+function currentAccount(accounts: FinancialAccount[], type: FinancialAccount['type']): FinancialAccount | undefined {
+  const ofType = accounts.filter((a) => a.type === type);
+  return ofType.find((a) => a.status === 'active') ?? ofType[0];
+}
+
+async function loadOwnershipInputs(vehicle: OwnershipVehicle, userId: string, now: Date): Promise<OwnershipCostInputs> {
+  const [accounts, logs, fuel] = await Promise.all([
+    getFinancialAccounts(vehicle.vehicle_id).catch(() => [] as FinancialAccount[]),
+    getMileageLogs(vehicle.vehicle_id, userId).catch(() => [] as MileageLogEntry[]),
+    getFuelLogs(vehicle.vehicle_id).catch(() => [] as FuelLogEntry[]),
+  ]);
+  const lease = accounts.find((a) => a.type === 'lease' && a.status === 'active');
+  const loanAccount = lease ? undefined : currentAccount(accounts, 'loan');
+  // Fuel and maintenance count from when ownership (or the lease) began
+  const since = ownershipStart(vehicle, lease);
+  const [loan, maintenanceTotal] = await Promise.all([
+    loanAccount ? getLoanOverview(loanAccount, now).catch(() => null) : null,
+    getCostAnalytics(userId, vehicle.vehicle_id, since)
+      .then((analytics) => analytics.total_lifetime)
+      .catch(() => 0),
+  ]);
+  const fuelTotal = fuel
+    .filter((f) => dateOnly(f.filled_date) >= since)
+    .reduce((sum, f) => sum + Number(f.total_cost || 0), 0);
+
+  return {
+    vehicle,
+    maintenance_total: maintenanceTotal,
+    interest_paid: loan ? loan.position.payments.reduce((sum, p) => sum + p.interest, 0) : undefined,
+    loan_balance: loan ? loan.position.details.current_balance : undefined,
+    lease,
+    fuel_total: fuelTotal || undefined,
+    start_mileage: lease?.start_mileage ?? ownershipStartMileage(vehicle, logs, since),
+    now,
+  };
+}
+
+/** Total cost of ownership for one vehicle. */
+export async function getOwnershipCostReport(
+  vehicle: OwnershipVehicle,
+  userId: string,
+  now: Date = new Date()
+): Promise<OwnershipCostReport | null> {
+  try {
+    return buildOwnershipCostReport(await loadOwnershipInputs(vehicle, userId, now));
+  } catch (err) {
+    console.warn('[OwnershipCost] getOwnershipCostReport failed:', err);
+    return null;
+  }
+}
+
+/** Ownership cost of every active vehicle in the garage, side by side. */
+export async function getGarageOwnershipCosts(userId: string, now: Date = new Date()): Promise<GarageCostComparison> {
+  try {
+    const vehicles = await getUserVehicles(userId);
+    const reports = await Promise.all(
+      vehicles.map(async (v) => buildOwnershipCostReport(await loadOwnershipInputs(v, userId, now)))
+    );
+    return compareOwnershipCosts(reports);
+  } catch (err) {
+    console.warn('[OwnershipCost] getGarageOwnershipCosts failed:', err);
+    return compareOwnershipCosts([]);
+  }
+}
+
+// ============================================================================
+// PRINTABLE REPORT
+// ============================================================================
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (n?: number, cents = false) =>
+  n === undefined
+    ? '—'
+    : `$${n.toLocaleString('en-US', { minimumFractionDigits: cents ? 2 : 0, maximumFractionDigits: cents ? 2 : 0 })}`;
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 28px 0 4px; }
+  .meta { color: #555; font-size: 12px; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: right; padding: 6px 8px; border-bottom: 1px solid #ddd; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f3f4f6; }
+  tr.total td { font-weight: bold; border-top: 2px solid #111; }
+  .note { color: #777; font-size: 11px; margin-top: 6px; }
+  section { page-break-inside: avoid; }
+`;
+
+function vehicleSection(report: OwnershipCostReport): string {
+  const rows = report.lines
+    .map(
+      (l) =>
+        `<tr><td>${escapeHtml(l.label)}</td><td>${money(l.total)}</td><td>${money(l.annual)}</td>` +
+        `<td>${l.per_mile !== undefined ? money(l.per_mile, true) : '—'}</td><td>${Math.round(l.share * 100)}%</td></tr>`
+    )
+    .join('');
+  const missing = report.missing.map((c) => COST_CATEGORY_LABELS[c]).join(', ');
+  const miles = report.miles_driven !== undefined ? ` · ${report.miles_driven.toLocaleString()} mi driven` : '';
+
+  return `<section>
+<h2>${escapeHtml(report.name)}</h2>
+<p class="meta">Since ${report.owned_since} (${report.ownership_years.toFixed(1)} yrs)${miles} · ${money(report.monthly_cost)}/month</p>
+<table>
+<tr><th>Cost</th><th>Lifetime</th><th>Per Year</th><th>Per Mile</th><th>Share</th></tr>
+${rows}
+<tr class="total"><td>Total</td><td>${money(report.lifetime_cost)}</td><td>${money(report.annual_cost)}</td><td>${report.per_mile_cost !== undefined ? money(report.per_mile_cost, true) : '—'}</td><td></td></tr>
+</table>
+${missing ? `<p class="note">Not included (nothing recorded): ${escapeHtml(missing)}</p>` : ''}
+</section>`;
+}
+
+/** Standalone HTML page for printing or saving as PDF. */
+export function renderOwnershipCostReport(comparison: GarageCostComparison, options: { now?: Date } = {}): string {
+  const { reports } = comparison;
+  const generated = localIsoDate(options.now ?? new Date());
+  const comparisonTable =
+    reports.length > 1
+      ? `<section>
+<h2>Garage Comparison</h2>
+<table>
+<tr><th>Vehicle</th><th>Lifetime</th><th>Per Year</th><th>Per Mile</th></tr>
+${reports
+  .map(
+    (r) =>
+      `<tr><td>${escapeHtml(r.name)}${r.vehicle_id === comparison.lowest_per_mile ? ' (lowest per mile)' : ''}</td>` +
+      `<td>${money(r.lifetime_cost)}</td><td>${money(r.annual_cost)}</td>` +
+      `<td>${r.per_mile_cost !== undefined ? money(r.per_mile_cost, true) : '—'}</td></tr>`
+  )
+  .join('\n')}
+<tr class="total"><td>Garage</td><td>${money(comparison.lifetime_cost)}</td><td>${money(comparison.annual_cost)}</td><td></td></tr>
+</table>
+</section>`
+      : '';
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Total Cost of Ownership</title><style>${REPORT_STYLES}</style></head>
+<body>
+<h1>Total Cost of Ownership</h1>
+<p class="meta">Gear AI CoPilot · generated ${generated}</p>
+${comparisonTable}
+${reports.map(vehicleSection).join('\n')}
+</body></html>`;
+}
+
+/** Open the system print dialog (which can also save a PDF). */
+export async function printOwnershipCostReport(html: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const win = window.open('', '_blank');
+    if (!win) throw new Error('Allow pop-ups to print the report.');
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+    return;
+  }
+  await Print.printAsync({ html });
+}
@@ -0,0 +1,263 @@
+/**
+ * Gear AI CoPilot - Receipt Ingestion
+ *
+ * Turns a photographed service receipt into a proposed MaintenanceRecord and
+ * InstalledPart rows for the user to review, then, once the record is saved,
+ * stores the receipt and links it via attachment_urls. Extraction itself is
+ * scanServiceReceipt in ai-multimodal-service.
+ */
+
+import { scanServiceReceipt, ReceiptExtraction, ReceiptLineItem } from './ai-multimodal-service';
+import { addMaintenanceAttachment, createInstalledPart } from './maintenance-service';
+import { uploadMaintenanceReceipt } from './storage-service';
+import { localIsoDate, round2 } from './date-money';
+import type { InstalledPart, MaintenanceFormData, MaintenanceRecord, MaintenanceType } from '../types/maintenance';
+import type { Vehicle } from '../types/vehicle';
+
+/** An installed part read off a receipt; install date and mileage come from the saved record. */
+export type InstalledPartDraft = Pick<InstalledPart, 'part_name' | 'brand' | 'part_number' | 'category' | 'notes'>;
+
+export interface ReceiptProposal {
+  extraction: ReceiptExtraction;
+  record: MaintenanceFormData;
+  tax: number;
+  /** Shop supplies, disposal and similar; in record.cost but neither parts nor labor */
+  fees: number;
+  parts: InstalledPartDraft[];
+  /** Things the user should check before saving */
+  warnings: string[];
+}
+
+export type ReceiptVehicle = Pick<Vehicle, 'year' | 'make' | 'model' | 'current_mileage'>;
+
+type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+/** Line items and printed subtotals may disagree by rounding; beyond this it's worth a look. */
+const SUBTOTAL_TOLERANCE = 1;
+
+/** Receipt mileage this far past the last known odometer is more likely a misread. */
+const MAX_MILEAGE_JUMP = 50_000;
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/** First match wins, so more specific phrases come first. */
+const PART_CATEGORIES: Array<[RegExp, InstalledPart['category']]> = [
+  [/cabin/, 'cabin_filter'],
+  [/fuel filter/, 'fuel_filter'],
+  [/air filter|engine filter/, 'air_filter'],
+  [/brake fluid|dot ?[345]/, 'brake_fluid'],
+  [/power steering/, 'power_steering_fluid'],
+  [/transmission|atf|cvt fluid/, 'transmission_fluid'],
+  [/coolant|antifreeze/, 'coolant'],
+  [/oil/, 'oil'],
+  [/spark plug/, 'spark_plug'],
+  [/brake pad|\bpads?\b/, 'brake_pad'],
+  [/rotor/, 'brake_rotor'],
+  [/tire|tyre/, 'tire'],
+  [/battery/, 'battery'],
+  [/belt/, 'belt'],
+];
+
+const ROUTINE_WORK = /oil|filter|rotat|fluid|flush|coolant|plug|wiper|balanc|align/;
+const INSPECTION_WORK = /inspect|emission|smog|safety check/;
+
+export function partCategory(description: string): InstalledPart['category'] {
+  const text = description.toLowerCase();
+  return PART_CATEGORIES.find(([pattern]) => pattern.test(text))?.[1] ?? 'other';
+}
+
+function recordType(items: ReceiptLineItem[]): MaintenanceType {
+  const work = items.filter((i) => i.kind !== 'fee').map((i) => i.description.toLowerCase());
+  if (work.length === 0) return 'routine';
+  if (work.every((d) => INSPECTION_WORK.test(d))) return 'inspection';
+  if (work.every((d) => ROUTINE_WORK.test(d) || INSPECTION_WORK.test(d))) return 'routine';
+  return 'repair';
+}
+
+/** Labor lines name the job better than parts do ("Front brake service" vs "Ceramic pad set"). */
+function recordTitle(items: ReceiptLineItem[], shopName?: string): string {
+  const labor = items.filter((i) => i.kind === 'labor');
+  const source = labor.length > 0 ? labor : items.filter((i) => i.kind === 'part');
+  const names = [...new Set(source.map((i) => i.description.trim()).filter(Boolean))];
+  if (names.length === 0) return shopName ? `Service at ${shopName}` : 'Service';
+  return names.length > 2 ? `${names.slice(0, 2).join(' + ')} + ${names.length - 2} more` : names.join(' + ');
+}
+
+// ============================================================================
+// PROPOSAL (pure)
+// ============================================================================
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+const num = (v: unknown): number | undefined => {
+  const n = typeof v === 'string' ? parseFloat(v.replace(/[$,]/g, '')) : Number(v);
+  return v === null || v === undefined || v === '' || !Number.isFinite(n) ? undefined : n;
+};
+
+function receiptDate(raw: string | undefined, now: Date): string | undefined {
+  if (!raw) return undefined;
+  const iso = /^\d{4}-\d{2}-\d{2}/.test(raw) ? raw.slice(0, 10) : undefined;
+  const parsed = iso ? new Date(`${iso}T12:00:00`) : new Date(raw);
+  if (Number.isNaN(parsed.getTime()) || parsed > now) return undefined;
+  return iso ?? localIsoDate(parsed);
+}
+
+/** Uses the printed subtotal when there is one, noting when the lines don't add up to it. */
+function subtotal(label: string, lines: ReceiptLineItem[], printed: number | undefined, warnings: string[]): number {
+  const summed = round2(lines.reduce((sum, i) => sum + i.amount, 0));
+  if (printed === undefined) return summed;
+  if (lines.length > 0 && Math.abs(printed - summed) > SUBTOTAL_TOLERANCE) {
+    warnings.push(`${label} lines add up to ${money(summed)} but the receipt shows ${money(printed)}.`);
+  }
+  return round2(printed);
+}
+
+/**
+ * A fully populated record and parts list from an extracted receipt. Nothing
+ * here is trusted blindly: anything missing or inconsistent becomes a warning
+ * and falls back to something editable (today's date, summed line items).
+ */
+export function proposeFromReceipt(
+  extraction: ReceiptExtraction,
+  vehicle: ReceiptVehicle,
+  now: Date = new Date()
+): ReceiptProposal {
+  const warnings: string[] = [];
+  const items: ReceiptLineItem[] = (extraction.line_items ?? [])
+    .filter((i) => i && typeof i.description === 'string')
+    .map((i) => ({
+      ...i,
+      kind: i.kind === 'labor' || i.kind === 'fee' ? i.kind : 'part',
+      amount: num(i.amount) ?? 0,
+      quantity: num(i.quantity),
+      labor_hours: num(i.labor_hours),
+    }));
+  if (items.length === 0) warnings.push('No line items could be read from this receipt.');
+
+  const date = receiptDate(extraction.date ?? undefined, now);
+  if (!date) warnings.push('No service date found; using today.');
+
+  let mileage = num(extraction.mileage);
+  mileage = mileage !== undefined && mileage > 0 ? Math.round(mileage) : undefined;
+  if (mileage === undefined) {
+    warnings.push('No odometer reading found on the receipt.');
+  } else if (vehicle.current_mileage && mileage > vehicle.current_mileage + MAX_MILEAGE_JUMP) {
+    warnings.push(`Mileage ${mileage.toLocaleString()} is far above the ${vehicle.current_mileage.toLocaleString()} on record; check for a misread.`);
+  }
+
+  const parts = items.filter((i) => i.kind === 'part');
+  const labor = items.filter((i) => i.kind === 'labor');
+  const fees = round2(items.filter((i) => i.kind === 'fee').reduce((sum, i) => sum + i.amount, 0));
+  const parts_cost = subtotal('Parts', parts, num(extraction.parts_subtotal), warnings);
+  const labor_cost = subtotal('Labor', labor, num(extraction.labor_subtotal), warnings);
+  const tax = round2(num(extraction.tax) ?? 0);
+
+  const computed = round2(parts_cost + labor_cost + fees + tax);
+  const printedTotal = num(extraction.total);
+  if (printedTotal !== undefined && Math.abs(printedTotal - computed) > SUBTOTAL_TOLERANCE) {
+    warnings.push(`Parts, labor, fees and tax come to ${money(computed)} but the receipt total is ${money(printedTotal)}.`);
+  }
+  const cost = printedTotal ?? computed;
+
+  const shopName = extraction.shop_name || undefined;
+  const description = [
+    extraction.invoice_number && `Invoice ${extraction.invoice_number}`,
+    ...items.map((i) => {
+      const detail = [i.quantity && i.quantity !== 1 && `×${i.quantity}`, i.labor_hours && `${i.labor_hours} h`]
+        .filter(Boolean)
+        .join(', ');
+      return `• ${i.description}${detail ? ` (${detail})` : ''} — ${money(i.amount)}`;
+    }),
+    fees > 0 && `Shop fees ${money(fees)}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    extraction,
+    record: {
+      type: recordType(items),
+      date: date ?? localIsoDate(now),
+      mileage,
+      title: recordTitle(items, shopName),
+      description: description || undefined,
+      cost: cost > 0 ? cost : undefined,
+      labor_cost: labor_cost > 0 ? labor_cost : undefined,
+      parts_cost: parts_cost > 0 ? parts_cost : undefined,
+      shop_name: shopName,
+      shop_location: extraction.shop_location || undefined,
+      parts_replaced: parts.map((i) => i.description.trim()).filter(Boolean),
+    },
+    tax,
+    fees,
+    parts: parts.map((i) => ({
+      part_name: i.description.trim(),
+      brand: i.brand || undefined,
+      part_number: i.part_number || undefined,
+      category: partCategory(i.description),
+      notes: i.quantity && i.quantity !== 1 ? `Qty ${i.quantity}` : undefined,
+    })),
+    warnings,
+  };
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/** Reads a receipt photo and proposes what to log. */
+export async function scanReceipt(
+  imageBase64: string,
+  mimeType: ImageMimeType,
+  vehicle: ReceiptVehicle
+): Promise<ReceiptProposal> {
+  const extraction = await scanServiceReceipt(imageBase64, mimeType, `${vehicle.year} ${vehicle.make} ${vehicle.model}`);
+  return proposeFromReceipt(extraction, vehicle);
+}
+
+/** After the reviewed record is saved: uploads the receipt and links it in the record's attachment_urls. */
+export async function attachReceipt(
+  userId: string,
+  record: MaintenanceRecord,
+  receipt: { uri: string; fileName?: string }
+): Promise<string> {
+  try {
+    const blob = await (await fetch(receipt.uri)).blob();
+    const { url } = await uploadMaintenanceReceipt(
+      userId,
+      record.vehicle_id,
+      record.record_id,
+      blob,
+      receipt.fileName || 'receipt.jpg'
+    );
+    await addMaintenanceAttachment(record.record_id, userId, url);
+    return url;
+  } catch (error: any) {
+    console.error('Error in attachReceipt:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates the parts accepted from a receipt against the saved record. Kept
+ * apart from the upload so the parts are logged even if the upload fails.
+ */
+export async function createReceiptParts(record: MaintenanceRecord, parts: InstalledPartDraft[]): Promise<InstalledPart[]> {
+  try {
+    return await Promise.all(
+      parts.map((part) =>
+        createInstalledPart({
+          ...part,
+          vehicle_id: record.vehicle_id,
+          maintenance_record_id: record.record_id,
+          install_date: record.date,
+          install_mileage: record.mileage,
+        })
+      )
+    );
+  } catch (error: any) {
+    console.error('Error in createReceiptParts:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Gear AI CoPilot - Repair Cost Model
+ *
+ * Deterministic repair estimates for trouble codes: each code range maps to a
+ * typical repair job (book labor hours + parts price range), scaled by the
+ * vehicle's class. Feeds DTCAnalysis costs and `estimated_repair_cost_*` on
+ * saved codes, so the same code on the same car always prices the same.
+ */
+
+import type { DTCAnalysis, HealthSystem, RepairEstimate, VehicleClass } from '../types/diagnostic';
+import type { Vehicle } from '../types/vehicle';
+import { codeToSystem } from './dtc-systems';
+
+export type RepairCostVehicle = Pick<Vehicle, 'make'> & Partial<Pick<Vehicle, 'model' | 'body_type' | 'fuel_type'>>;
+
+// ============================================================================
+// VEHICLE CLASSES
+// ============================================================================
+
+interface ClassFactors {
+  labor_rate: number; // USD/hr, typical independent shop
+  parts: number; // Parts price multiplier
+  labor: number; // Book-time multiplier (access, packaging)
+}
+
+export const VEHICLE_CLASS_FACTORS: Record<VehicleClass, ClassFactors> = {
+  economy: { labor_rate: 110, parts: 0.85, labor: 0.9 },
+  standard: { labor_rate: 130, parts: 1.0, labor: 1.0 },
+  truck_suv: { labor_rate: 135, parts: 1.15, labor: 1.15 },
+  luxury: { labor_rate: 175, parts: 1.6, labor: 1.25 },
+  hybrid_ev: { labor_rate: 150, parts: 1.3, labor: 1.1 },
+};
+
+const LUXURY_MAKES = /^(bmw|mercedes|mercedes-benz|audi|lexus|acura|infiniti|cadillac|lincoln|porsche|volvo|land rover|range rover|jaguar|genesis|maserati|alfa romeo|aston martin|bentley|mini)$/i;
+const ECONOMY_MAKES = /^(kia|hyundai|mitsubishi|suzuki|fiat|scion|smart)$/i;
+const TRUCK_SUV_BODY = /truck|pickup|suv|sport utility|multipurpose|mpv|van|crossover/i;
+const TRUCK_MODELS = /^(f-?\d{3}|silverado|sierra|ram|tundra|tacoma|titan|frontier|colorado|canyon|ranger|tahoe|suburban|yukon|expedition|4runner|sequoia|wrangler|explorer)/i;
+
+/** Premium makes, priced as luxury for repairs and valued as luxury for depreciation. */
+export function isLuxuryMake(make: string): boolean {
+  return LUXURY_MAKES.test(make.trim());
+}
+
+/** Pricing class from make, body type, and fuel type (electrified first, then luxury, trucks/SUVs, economy). */
+export function vehicleClassFor(vehicle?: RepairCostVehicle): VehicleClass {
+  if (!vehicle) return 'standard';
+  if (/hybrid|electric|plug-in|\bev\b/i.test(vehicle.fuel_type ?? '')) return 'hybrid_ev';
+  if (/^tesla$/i.test(vehicle.make.trim())) return 'hybrid_ev';
+  if (isLuxuryMake(vehicle.make)) return 'luxury';
+  if (TRUCK_SUV_BODY.test(vehicle.body_type ?? '') || TRUCK_MODELS.test(vehicle.model?.trim() ?? '')) return 'truck_suv';
+  if (ECONOMY_MAKES.test(vehicle.make.trim())) return 'economy';
+  return 'standard';
+}
+
+// ============================================================================
+// REPAIR JOBS (standard class, including diagnosis time)
+// ============================================================================
+
+interface RepairJob {
+  label: string;
+  hours: [number, number];
+  parts: [number, number];
+  difficulty: DTCAnalysis['repair_difficulty'];
+}
+
+const JOBS = {
+  vvt: { label: 'VVT solenoid / cam phaser', hours: [1.0, 4.0], parts: [60, 450], difficulty: 'difficult' },
+  o2_sensor: { label: 'Oxygen sensor replacement', hours: [0.5, 1.2], parts: [40, 180], difficulty: 'easy' },
+  maf_sensor: { label: 'MAF sensor cleaning or replacement', hours: [0.3, 0.8], parts: [10, 300], difficulty: 'easy' },
+  map_sensor: { label: 'MAP sensor replacement', hours: [0.3, 0.8], parts: [30, 150], difficulty: 'easy' },
+  temp_sensor: { label: 'Temperature sensor replacement', hours: [0.3, 0.8], parts: [15, 80], difficulty: 'easy' },
+  thermostat: { label: 'Thermostat replacement', hours: [1.0, 2.5], parts: [20, 120], difficulty: 'moderate' },
+  throttle: { label: 'Throttle body / TPS service', hours: [0.5, 1.5], parts: [20, 450], difficulty: 'moderate' },
+  lean_condition: { label: 'Vacuum/intake leak diagnosis and repair', hours: [1.0, 2.5], parts: [10, 250], difficulty: 'moderate' },
+  rich_condition: { label: 'Rich condition diagnosis and repair', hours: [1.0, 2.0], parts: [20, 300], difficulty: 'moderate' },
+  fuel_pressure: { label: 'Fuel pressure diagnosis / pump or regulator', hours: [1.5, 3.5], parts: [60, 700], difficulty: 'difficult' },
+  fuel_injector: { label: 'Fuel injector replacement', hours: [1.0, 3.0], parts: [80, 600], difficulty: 'difficult' },
+  turbo: { label: 'Boost control / turbocharger repair', hours: [1.0, 6.0], parts: [50, 1800], difficulty: 'professional' },
+  overheating: { label: 'Cooling system diagnosis and repair', hours: [1.0, 3.0], parts: [20, 500], difficulty: 'moderate' },
+  ignition: { label: 'Ignition coil / spark plug replacement', hours: [0.5, 1.5], parts: [40, 300], difficulty: 'easy' },
+  knock_sensor: { label: 'Knock sensor replacement', hours: [1.0, 4.0], parts: [40, 150], difficulty: 'difficult' },
+  position_sensor: { label: 'Crank/cam position sensor replacement', hours: [0.5, 1.5], parts: [30, 150], difficulty: 'moderate' },
+  egr: { label: 'EGR valve / passage service', hours: [1.0, 3.0], parts: [80, 450], difficulty: 'moderate' },
+  secondary_air: { label: 'Secondary air pump or valve', hours: [1.0, 2.5], parts: [150, 650], difficulty: 'moderate' },
+  catalytic_converter: { label: 'Catalytic converter replacement', hours: [1.0, 2.5], parts: [350, 1800], difficulty: 'moderate' },
+  evap_cap: { label: 'Gas cap / EVAP large leak', hours: [0.3, 1.0], parts: [15, 60], difficulty: 'easy' },
+  evap: { label: 'EVAP leak diagnosis and repair', hours: [0.8, 2.0], parts: [15, 250], difficulty: 'moderate' },
+  fuel_level: { label: 'Fuel level sensor replacement', hours: [1.5, 3.0], parts: [100, 400], difficulty: 'difficult' },
+  cooling_fan: { label: 'Cooling fan / fan relay repair', hours: [0.8, 2.0], parts: [30, 450], difficulty: 'moderate' },
+  speed_sensor: { label: 'Vehicle speed sensor replacement', hours: [0.5, 1.0], parts: [30, 120], difficulty: 'easy' },
+  brake_switch: { label: 'Brake light switch replacement', hours: [0.3, 0.6], parts: [15, 60], difficulty: 'easy' },
+  idle_control: { label: 'Idle air control cleaning or replacement', hours: [0.5, 1.2], parts: [10, 200], difficulty: 'easy' },
+  oil_pressure: { label: 'Oil pressure sensor / switch', hours: [0.5, 1.5], parts: [20, 120], difficulty: 'moderate' },
+  charging: { label: 'Charging system / alternator repair', hours: [1.0, 2.0], parts: [40, 500], difficulty: 'moderate' },
+  power_steering: { label: 'Power steering pressure switch', hours: [0.5, 1.2], parts: [25, 120], difficulty: 'moderate' },
+  module: { label: 'Control module diagnosis / reprogramming', hours: [1.0, 2.5], parts: [0, 1200], difficulty: 'professional' },
+  trans_sensor: { label: 'Transmission sensor / range switch', hours: [0.5, 1.5], parts: [40, 200], difficulty: 'moderate' },
+  trans_solenoid: { label: 'Shift solenoid / valve body service', hours: [1.5, 4.0], parts: [60, 500], difficulty: 'difficult' },
+  trans_internal: { label: 'Transmission internal repair', hours: [4.0, 12.0], parts: [500, 3500], difficulty: 'professional' },
+  trans_diagnosis: { label: 'Transmission diagnosis', hours: [1.0, 2.0], parts: [0, 150], difficulty: 'professional' },
+  hybrid_system: { label: 'Hybrid/EV high-voltage system repair', hours: [2.0, 6.0], parts: [200, 3500], difficulty: 'professional' },
+  abs: { label: 'ABS wheel speed sensor / module', hours: [0.8, 2.5], parts: [40, 900], difficulty: 'moderate' },
+  steering_suspension: { label: 'Steering/suspension sensor or component', hours: [1.0, 3.0], parts: [50, 600], difficulty: 'difficult' },
+  airbag: { label: 'Airbag/SRS circuit repair', hours: [1.0, 2.0], parts: [50, 600], difficulty: 'professional' },
+  network: { label: 'Network communication diagnosis', hours: [1.0, 3.0], parts: [0, 400], difficulty: 'professional' },
+  body_electrical: { label: 'Body electrical diagnosis', hours: [1.0, 2.5], parts: [20, 300], difficulty: 'moderate' },
+  engine_performance: { label: 'Engine performance diagnosis and repair', hours: [1.0, 2.5], parts: [30, 400], difficulty: 'moderate' },
+  emissions: { label: 'Emissions system diagnosis and repair', hours: [1.0, 2.5], parts: [20, 450], difficulty: 'moderate' },
+} satisfies Record<string, RepairJob>;
+
+type JobKey = keyof typeof JOBS;
+
+/** Inclusive code range → job; first match wins, so narrow ranges come first. */
+const CODE_JOBS: Array<[from: string, to: string, job: JobKey]> = [
+  ['P0010', 'P0029', 'vvt'],
+  ['P0030', 'P0064', 'o2_sensor'],
+  ['P0087', 'P0095', 'fuel_pressure'],
+  ['P0100', 'P0104', 'maf_sensor'],
+  ['P0105', 'P0109', 'map_sensor'],
+  ['P0110', 'P0119', 'temp_sensor'],
+  ['P0120', 'P0124', 'throttle'],
+  ['P0125', 'P0128', 'thermostat'],
+  ['P0130', 'P0167', 'o2_sensor'],
+  ['P0171', 'P0171', 'lean_condition'],
+  ['P0174', 'P0174', 'lean_condition'],
+  ['P0172', 'P0172', 'rich_condition'],
+  ['P0175', 'P0175', 'rich_condition'],
+  ['P0180', 'P0194', 'fuel_pressure'],
+  ['P0200', 'P0212', 'fuel_injector'],
+  ['P0217', 'P0217', 'overheating'],
+  ['P0218', 'P0218', 'trans_diagnosis'],
+  ['P0220', 'P0229', 'throttle'],
+  ['P0230', 'P0233', 'fuel_pressure'],
+  ['P0234', 'P0260', 'turbo'],
+  ['P0261', 'P0298', 'fuel_injector'],
+  ['P0300', 'P0324', 'ignition'],
+  ['P0325', 'P0334', 'knock_sensor'],
+  ['P0335', 'P0349', 'position_sensor'],
+  ['P0350', 'P0364', 'ignition'],
+  ['P0365', 'P0394', 'position_sensor'],
+  ['P0400', 'P0409', 'egr'],
+  ['P0410', 'P0419', 'secondary_air'],
+  ['P0420', 'P0439', 'catalytic_converter'],
+  ['P0455', 'P0455', 'evap_cap'],
+  ['P0457', 'P0457', 'evap_cap'],
+  ['P0440', 'P0459', 'evap'],
+  ['P0460', 'P0464', 'fuel_level'],
+  ['P0480', 'P0485', 'cooling_fan'],
+  ['P0486', 'P0489', 'egr'],
+  ['P0495', 'P0495', 'cooling_fan'],
+  ['P0496', 'P0499', 'evap'],
+  ['P0500', 'P0503', 'speed_sensor'],
+  ['P0504', 'P0504', 'brake_switch'],
+  ['P0505', 'P0511', 'idle_control'],
+  ['P0520', 'P0524', 'oil_pressure'],
+  ['P0550', 'P0554', 'power_steering'],
+  ['P0560', 'P0563', 'charging'],
+  ['P0571', 'P0573', 'brake_switch'],
+  ['P0600', 'P0614', 'module'],
+  ['P0620', 'P0625', 'charging'],
+  ['P0627', 'P0629', 'fuel_pressure'],
+  ['P0600', 'P06FF', 'module'],
+  ['P0700', 'P0702', 'trans_diagnosis'],
+  ['P0705', 'P0729', 'trans_sensor'],
+  ['P0730', 'P0739', 'trans_internal'],
+  ['P0740', 'P0799', 'trans_solenoid'],
+  ['P0840', 'P0849', 'trans_sensor'],
+  ['P0960', 'P0999', 'trans_solenoid'],
+  ['P0700', 'P09FF', 'trans_diagnosis'],
+  ['P0A00', 'P0CFF', 'hybrid_system'],
+  ['P2004', 'P2029', 'vvt'],
+  ['P2096', 'P2099', 'lean_condition'],
+  ['P2100', 'P2139', 'throttle'],
+  ['P2187', 'P2192', 'lean_condition'],
+  ['P2195', 'P2199', 'o2_sensor'],
+  ['P2231', 'P2275', 'o2_sensor'],
+  ['P2300', 'P2339', 'ignition'],
+  ['P2400', 'P2424', 'evap'],
+  ['P2430', 'P2449', 'secondary_air'],
+  ['P2500', 'P2504', 'charging'],
+  ['P2700', 'P28FF', 'trans_solenoid'],
+  ['P2A00', 'P2AFF', 'o2_sensor'],
+  ['C0000', 'C02FF', 'abs'],
+  ['C0300', 'C0FFF', 'steering_suspension'],
+  ['B0000', 'B00FF', 'airbag'],
+];
+
+/** Fallback job when a code isn't in CODE_JOBS, by the system it affects. */
+const SYSTEM_JOBS: Record<HealthSystem, JobKey> = {
+  engine: 'engine_performance',
+  transmission: 'trans_diagnosis',
+  brakes: 'abs',
+  suspension: 'steering_suspension',
+  electrical: 'body_electrical',
+  fuel: 'engine_performance',
+  cooling: 'overheating',
+  exhaust: 'emissions',
+};
+
+function jobFor(code: string, make?: string): JobKey {
+  const match = CODE_JOBS.find(([from, to]) => code >= from && code <= to);
+  if (match) return match[2];
+  if (code[0] === 'U') return 'network';
+  return SYSTEM_JOBS[codeToSystem(code, make)];
+}
+
+// ============================================================================
+// ESTIMATE
+// ============================================================================
+
+const roundTo = (n: number, step: number) => Math.round(n / step) * step;
+
+/**
+ * Labor + parts estimate for a code on a vehicle (standard class when no
+ * vehicle is given). Totals are rounded to $10.
+ */
+export function estimateDTCRepairCost(code: string, vehicle?: RepairCostVehicle): RepairEstimate {
+  const normalized = code.trim().toUpperCase();
+  const key = jobFor(normalized, vehicle?.make);
+  const job: RepairJob = JOBS[key];
+  const vehicleClass = vehicleClassFor(vehicle);
+  const factors = VEHICLE_CLASS_FACTORS[vehicleClass];
+
+  const hoursMin = Math.round(job.hours[0] * factors.labor * 10) / 10;
+  const hoursMax = Math.round(job.hours[1] * factors.labor * 10) / 10;
+  const partsMin = roundTo(job.parts[0] * factors.parts, 5);
+  const partsMax = roundTo(job.parts[1] * factors.parts, 5);
+
+  return {
+    code: normalized,
+    job: key,
+    job_label: job.label,
+    vehicle_class: vehicleClass,
+    labor_hours_min: hoursMin,
+    labor_hours_max: hoursMax,
+    labor_rate: factors.labor_rate,
+    parts_cost_min: partsMin,
+    parts_cost_max: partsMax,
+    total_min: roundTo(hoursMin * factors.labor_rate + partsMin, 10),
+    total_max: roundTo(hoursMax * factors.labor_rate + partsMax, 10),
+    difficulty: job.difficulty,
+  };
+}
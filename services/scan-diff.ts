@@ -0,0 +1,88 @@
+/**
+ * Gear AI CoPilot - Diagnostic Scan Diffing
+ *
+ * Compares two persisted DiagnosticScan snapshots: codes that appeared, codes
+ * that cleared, and freeze-frame values that moved for codes seen in both.
+ */
+
+import type {
+  DiagnosticCode,
+  DiagnosticScan,
+  DiagnosticScanDiff,
+  FreezeFrameChange,
+  FreezeFrameData,
+} from '../types/diagnostic';
+import { getPIDDefinition } from './obd-pids';
+
+const FREEZE_FRAME_META_KEYS = ['frame_number', 'dtc', 'captured_at', 'parameters'];
+
+/** Numeric freeze-frame values keyed by PID key, from either the decoded parameter list or flat fields. */
+function freezeFrameValues(ff?: FreezeFrameData): Record<string, number> {
+  const values: Record<string, number> = {};
+  if (!ff) return values;
+  Object.entries(ff).forEach(([k, v]) => {
+    if (typeof v === 'number' && !FREEZE_FRAME_META_KEYS.includes(k)) values[k] = v;
+  });
+  ff.parameters?.forEach((p) => {
+    if (p.key) values[p.key] = p.value;
+  });
+  return values;
+}
+
+/** Freeze-frame values that differ (or appear/disappear) between two readings of the same code. */
+export function diffFreezeFrames(code: string, previous?: FreezeFrameData, current?: FreezeFrameData): FreezeFrameChange[] {
+  const before = freezeFrameValues(previous);
+  const after = freezeFrameValues(current);
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .filter((key) => {
+      const def = getPIDDefinition(key);
+      const round = (v?: number) => (v == null ? v : Number(v.toFixed(def?.decimals ?? 2)));
+      return round(before[key]) !== round(after[key]);
+    })
+    .map((key) => {
+      const def = getPIDDefinition(key);
+      return {
+        code,
+        key,
+        label: def?.name ?? key.replace(/_/g, ' '),
+        unit: def?.unit,
+        previous: before[key],
+        current: after[key],
+      };
+    });
+}
+
+/**
+ * Diff a scan against the previous one for the same vehicle. Without a previous
+ * scan every code counts as new.
+ */
+export function diffDiagnosticScans(current: DiagnosticScan, previous?: DiagnosticScan | null): DiagnosticScanDiff {
+  const prevByCode = new Map<string, DiagnosticCode>();
+  (previous?.codes_found ?? []).forEach((c) => prevByCode.set(c.code, c));
+  const currentCodes = new Set(current.codes_found.map((c) => c.code));
+
+  const newCodes: DiagnosticCode[] = [];
+  const unchanged: DiagnosticCode[] = [];
+  const changes: FreezeFrameChange[] = [];
+
+  current.codes_found.forEach((c) => {
+    const before = prevByCode.get(c.code);
+    if (!before) {
+      newCodes.push(c);
+      return;
+    }
+    unchanged.push(c);
+    changes.push(...diffFreezeFrames(c.code, before.freeze_frame_data, c.freeze_frame_data));
+  });
+
+  return {
+    scan_id: current.scan_id,
+    previous_scan_id: previous?.scan_id,
+    new_codes: newCodes,
+    cleared_codes: (previous?.codes_found ?? []).filter((c) => !currentCodes.has(c.code)),
+    unchanged_codes: unchanged,
+    freeze_frame_changes: changes,
+  };
+}
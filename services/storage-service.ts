@@ -15,6 +15,7 @@ export const STORAGE_BUCKETS = {
   MAINTENANCE_RECEIPTS: 'maintenance-receipts',
   PROFILE_AVATARS: 'profile-avatars',
   MANUALS: 'manuals',
+  CALENDAR_FEEDS: 'calendar-feeds',
 } as const;
 
 /**
@@ -107,6 +108,28 @@ export async function uploadMaintenanceReceipt(
   }
 }
 
+/**
+ * Publish a user's calendar feed (.ics), replacing the previous copy
+ */
+export async function uploadCalendarFeed(
+  userId: string,
+  token: string,
+  ics: string
+): Promise<{ url: string; path: string }> {
+  try {
+    const path = `${userId}/${token}.ics`;
+
+    return await uploadFile(STORAGE_BUCKETS.CALENDAR_FEEDS, path, new Blob([ics], { type: 'text/calendar' }), {
+      contentType: 'text/calendar; charset=utf-8',
+      cacheControl: '300', // Calendar apps poll; keep CDN copies short-lived
+      upsert: true,
+    });
+  } catch (error: any) {
+    console.error('Error in uploadCalendarFeed:', error);
+    throw error;
+  }
+}
+
 /**
  * Upload user profile avatar
  */
@@ -155,6 +178,13 @@ export async function deleteVehiclePhoto(path: string): Promise<void> {
   return deleteFile(STORAGE_BUCKETS.VEHICLE_PHOTOS, path);
 }
 
+/**
+ * Delete a published calendar feed
+ */
+export async function deleteCalendarFeed(userId: string, token: string): Promise<void> {
+  return deleteFile(STORAGE_BUCKETS.CALENDAR_FEEDS, `${userId}/${token}.ics`);
+}
+
 /**
  * Delete maintenance receipt
  */
@@ -254,6 +284,7 @@ export async function initializeStorageBuckets(): Promise<void> {
     { name: STORAGE_BUCKETS.MAINTENANCE_RECEIPTS, public: false },
     { name: STORAGE_BUCKETS.PROFILE_AVATARS, public: true },
     { name: STORAGE_BUCKETS.MANUALS, public: false },
+    { name: STORAGE_BUCKETS.CALENDAR_FEEDS, public: true },
   ];
 
   for (const bucket of buckets) {
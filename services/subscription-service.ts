@@ -17,6 +17,7 @@ export interface TierLimits {
     ocrVinScan: boolean;
     ragManualChat: boolean;
     obdDiagnostics: boolean;
+    liveDataRecording: boolean;
     damageDetection: boolean;
     valuationTracking: boolean;
     marketplaceTools: boolean;
@@ -35,6 +36,7 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
       ocrVinScan: false,
       ragManualChat: false,
       obdDiagnostics: false,
+      liveDataRecording: false,
       damageDetection: false,
       valuationTracking: false,
       marketplaceTools: false,
@@ -48,6 +50,7 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
       ocrVinScan: true,
       ragManualChat: true,
       obdDiagnostics: false,
+      liveDataRecording: false,
       damageDetection: false,
       valuationTracking: true,
       marketplaceTools: false,
@@ -61,6 +64,7 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
       ocrVinScan: true,
       ragManualChat: true,
       obdDiagnostics: true,
+      liveDataRecording: true,
       damageDetection: true,
       valuationTracking: true,
       marketplaceTools: true,
@@ -74,6 +78,7 @@ export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
       ocrVinScan: true,
       ragManualChat: true,
       obdDiagnostics: true,
+      liveDataRecording: true,
       damageDetection: true,
       valuationTracking: true,
       marketplaceTools: true,
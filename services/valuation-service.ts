@@ -0,0 +1,312 @@
+/**
+ * Gear AI CoPilot - Valuation Service
+ *
+ * Estimates what a vehicle is worth through a pluggable price source,
+ * keeps each estimate as a dated snapshot, and turns the snapshots into a
+ * depreciation history. Without a market-data provider the local
+ * depreciation-curve model prices the car from its make, segment, age,
+ * mileage and condition.
+ */
+
+import { supabase } from '../lib/supabase';
+import { updateVehicleMarketValue } from './vehicle-service';
+import { DAY_MS, dateOnly, localIsoDate, round2 } from './date-money';
+import { isLuxuryMake } from './repair-cost';
+import type { ConditionGrade, ValuationHistory, VehicleValuation } from '../types/financial';
+import type { Vehicle } from '../types/vehicle';
+
+export type VehicleSegment = 'luxury' | 'truck' | 'electric' | 'high_retention' | 'standard';
+
+export type ValuationVehicle = Pick<
+  Vehicle,
+  | 'vehicle_id'
+  | 'vin'
+  | 'year'
+  | 'make'
+  | 'model'
+  | 'trim'
+  | 'body_type'
+  | 'fuel_type'
+  | 'current_mileage'
+  | 'in_service_date'
+  | 'purchase_date'
+  | 'purchase_price'
+>;
+
+export interface ValuationInput {
+  vehicle: ValuationVehicle;
+  mileage: number;
+  condition: ConditionGrade;
+  /** Valuation date, YYYY-MM-DD */
+  as_of: string;
+}
+
+/** A valuation before it's stored */
+export type ValuationEstimate = Omit<VehicleValuation, 'valuation_id' | 'vehicle_id' | 'created_at'>;
+
+/** Price source; return null when it has no data for the vehicle. */
+export interface ValuationProvider {
+  name: string;
+  estimate(input: ValuationInput): Promise<ValuationEstimate | null>;
+}
+
+// ============================================================================
+// LOCAL DEPRECIATION MODEL (pure)
+// ============================================================================
+
+/** Share of value lost in year 1, years 2-5, and every year after. */
+const FIRST_YEAR_RATE = 0.2;
+const EARLY_YEARS_RATE = 0.15;
+const LATER_YEARS_RATE = 0.1;
+
+/** Multiplier on the curve's rates: above 1 loses value faster. */
+const SEGMENT_RATE_FACTOR: Record<VehicleSegment, number> = {
+  luxury: 1.2,
+  truck: 0.8,
+  electric: 1.25,
+  high_retention: 0.85,
+  standard: 1,
+};
+
+/** Typical price new, used when the purchase price isn't known. */
+const SEGMENT_NEW_PRICE: Record<VehicleSegment, number> = {
+  luxury: 58000,
+  truck: 52000,
+  electric: 50000,
+  high_retention: 34000,
+  standard: 36000,
+};
+
+const HIGH_RETENTION_MAKES = ['toyota', 'honda', 'subaru', 'mazda'];
+
+const CONDITION_FACTOR: Record<ConditionGrade, number> = {
+  excellent: 1.05,
+  good: 1,
+  fair: 0.9,
+  poor: 0.75,
+};
+
+const TYPICAL_ANNUAL_MILES = 12000;
+/** Value change per 1,000 mi above or below typical, capped either way. */
+const MILEAGE_ADJUSTMENT_PER_1000 = 0.005;
+const MAX_MILEAGE_ADJUSTMENT = 0.25;
+
+/** Trade-in, wholesale and dealer retail relative to private party. */
+const TRADE_IN_FACTOR = 0.85;
+const WHOLESALE_FACTOR = 0.8;
+const DEALER_RETAIL_FACTOR = 1.12;
+
+/** Floor so very old cars keep some value. */
+const MIN_RETENTION = 0.08;
+
+export const LOCAL_MODEL_SOURCE = 'Local depreciation model';
+
+function yearsBetween(fromIso: string, toIso: string): number {
+  const ms = new Date(`${toIso}T12:00:00`).getTime() - new Date(`${fromIso}T12:00:00`).getTime();
+  return Math.max(ms / DAY_MS / 365.25, 0);
+}
+
+export function vehicleSegment(vehicle: Pick<Vehicle, 'make' | 'body_type' | 'fuel_type'>): VehicleSegment {
+  const make = vehicle.make.trim().toLowerCase();
+  if (/electric|\bev\b|battery/i.test(vehicle.fuel_type ?? '') || make === 'tesla') return 'electric';
+  if (isLuxuryMake(make)) return 'luxury';
+  if (/truck|pickup/i.test(vehicle.body_type ?? '')) return 'truck';
+  if (HIGH_RETENTION_MAKES.includes(make)) return 'high_retention';
+  return 'standard';
+}
+
+function curveRate(year: number, segment: VehicleSegment): number {
+  const base = year < 1 ? FIRST_YEAR_RATE : year < 5 ? EARLY_YEARS_RATE : LATER_YEARS_RATE;
+  return Math.min(base * SEGMENT_RATE_FACTOR[segment], 0.5);
+}
+
+/** Share of its new price a car keeps after `age` years, part years prorated. */
+export function retentionAtAge(age: number, segment: VehicleSegment): number {
+  let retained = 1;
+  for (let year = 0; year < age; year++) {
+    retained *= 1 - curveRate(year, segment) * Math.min(age - year, 1);
+  }
+  return Math.max(retained, MIN_RETENTION);
+}
+
+/**
+ * Private-party value from the depreciation curve. With a purchase price the
+ * curve runs from the purchase date (assuming typical mileage then);
+ * otherwise from the segment's typical price new, with less confidence.
+ */
+export function estimateVehicleValue(input: ValuationInput): ValuationEstimate {
+  const { vehicle, mileage, condition, as_of } = input;
+  const segment = vehicleSegment(vehicle);
+  const newDate = vehicle.in_service_date ? dateOnly(vehicle.in_service_date) : `${vehicle.year - 1}-10-01`;
+  const age = yearsBetween(newDate, as_of);
+
+  const anchored = !!vehicle.purchase_price && vehicle.purchase_price > 0;
+  const anchorAge = anchored && vehicle.purchase_date ? yearsBetween(newDate, dateOnly(vehicle.purchase_date)) : 0;
+  const anchorPrice = anchored ? Number(vehicle.purchase_price) : SEGMENT_NEW_PRICE[segment];
+  const curveValue = anchorPrice * (retentionAtAge(Math.max(age, anchorAge), segment) / retentionAtAge(anchorAge, segment));
+
+  const expectedMiles = TYPICAL_ANNUAL_MILES * age;
+  const mileageAdjustment = Math.min(
+    Math.max((-(mileage - expectedMiles) / 1000) * MILEAGE_ADJUSTMENT_PER_1000, -MAX_MILEAGE_ADJUSTMENT),
+    MAX_MILEAGE_ADJUSTMENT
+  );
+  const value = curveValue * (1 + mileageAdjustment) * CONDITION_FACTOR[condition];
+
+  const confidence = (anchored ? 0.7 : 0.45) - (mileage > 0 ? 0 : 0.1) - (vehicle.in_service_date ? 0 : 0.05);
+
+  return {
+    current_market_value: round2(value),
+    private_party_value: round2(value),
+    trade_in_value: round2(value * TRADE_IN_FACTOR),
+    wholesale_value: round2(value * WHOLESALE_FACTOR),
+    dealer_retail_value: round2(value * DEALER_RETAIL_FACTOR),
+    confidence_level: round2(confidence),
+    data_source: LOCAL_MODEL_SOURCE,
+    valuation_date: as_of,
+    mileage_at_valuation: mileage,
+    condition_grade: condition,
+    depreciation_rate_annual: round2(curveRate(Math.floor(age), segment) * 100),
+    metadata: {
+      segment,
+      age_years: round2(age),
+      anchor: anchored ? 'purchase_price' : 'segment_new_price',
+      anchor_price: anchorPrice,
+      mileage_adjustment: round2(mileageAdjustment),
+    },
+  };
+}
+
+export const localDepreciationProvider: ValuationProvider = {
+  name: LOCAL_MODEL_SOURCE,
+  estimate: async (input) => estimateVehicleValue(input),
+};
+
+let _valuationProvider: ValuationProvider = localDepreciationProvider;
+
+/**
+ * Register the price source used by refreshVehicleValuation (a market-data
+ * API, dealer feed, ...). Defaults to the local depreciation model, which
+ * also covers any vehicle the provider can't price.
+ */
+export function setValuationProvider(provider: ValuationProvider): void {
+  _valuationProvider = provider;
+}
+
+// ============================================================================
+// HISTORY (pure)
+// ============================================================================
+
+/**
+ * Value over time: the purchase price on the purchase date (when known),
+ * then the latest snapshot per day. Depreciation runs from the first point
+ * to the latest.
+ */
+export function buildValuationHistory(
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'purchase_date' | 'purchase_price'>,
+  valuations: VehicleValuation[]
+): ValuationHistory {
+  const sorted = [...valuations].sort(
+    (a, b) => a.valuation_date.localeCompare(b.valuation_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+  const byDate = new Map<string, number>();
+  if (vehicle.purchase_price && vehicle.purchase_date) {
+    byDate.set(dateOnly(vehicle.purchase_date), Number(vehicle.purchase_price));
+  }
+  for (const v of sorted) byDate.set(dateOnly(v.valuation_date), Number(v.current_market_value));
+
+  const chart = [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, value]) => ({ date, value }));
+
+  const start = vehicle.purchase_price ? Number(vehicle.purchase_price) : chart[0]?.value ?? 0;
+  const latest = chart[chart.length - 1]?.value ?? start;
+  const total = start > 0 ? round2(start - latest) : 0;
+
+  return {
+    vehicle_id: vehicle.vehicle_id,
+    valuations: sorted,
+    depreciation_chart: chart,
+    total_depreciation: total,
+    depreciation_percentage: start > 0 ? Math.round((total / start) * 1000) / 10 : 0,
+  };
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/**
+ * Get a vehicle's valuation snapshots, oldest first
+ */
+export async function getValuations(vehicleId: string): Promise<VehicleValuation[]> {
+  try {
+    const { data, error } = await supabase
+      .from('vehicle_valuations')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('valuation_date', { ascending: true });
+
+    if (error) throw new Error(`Failed to fetch valuations: ${error.message}`);
+    return data || [];
+  } catch (error: any) {
+    console.error('Error in getValuations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Value the vehicle now, store the snapshot and make it the vehicle's
+ * current market value. Falls back to the local model when the provider
+ * fails or has nothing.
+ */
+export async function refreshVehicleValuation(
+  vehicle: ValuationVehicle,
+  userId: string,
+  condition: ConditionGrade = 'good',
+  now: Date = new Date()
+): Promise<VehicleValuation> {
+  try {
+    const input: ValuationInput = {
+      vehicle,
+      mileage: vehicle.current_mileage || 0,
+      condition,
+      as_of: localIsoDate(now),
+    };
+    let estimate: ValuationEstimate | null = null;
+    if (_valuationProvider !== localDepreciationProvider) {
+      estimate = await _valuationProvider.estimate(input).catch((err) => {
+        console.warn(`[Valuation] ${_valuationProvider.name} failed, using local model:`, err);
+        return null;
+      });
+    }
+    estimate = estimate ?? estimateVehicleValue(input);
+
+    const { data, error } = await supabase
+      .from('vehicle_valuations')
+      .insert({ ...estimate, vehicle_id: vehicle.vehicle_id, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save valuation: ${error.message}`);
+
+    await updateVehicleMarketValue(vehicle.vehicle_id, userId, estimate.current_market_value);
+    console.log('✅ Vehicle valued:', vehicle.vehicle_id, estimate.current_market_value);
+    return data;
+  } catch (error: any) {
+    console.error('Error in refreshVehicleValuation:', error);
+    throw error;
+  }
+}
+
+/** Valuation history for a vehicle, or null if it can't be loaded. */
+export async function getVehicleValuationHistory(
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'purchase_date' | 'purchase_price'>
+): Promise<ValuationHistory | null> {
+  try {
+    return buildValuationHistory(vehicle, await getValuations(vehicle.vehicle_id));
+  } catch (err) {
+    console.warn('[Valuation] getVehicleValuationHistory failed:', err);
+    return null;
+  }
+}
@@ -5,8 +5,17 @@
  */
 
 import { supabase } from '../lib/supabase';
-import { MileageLogEntry, Vehicle, VehicleFormData, VehicleStatus } from '../types/vehicle';
+import {
+  MileageLogEntry,
+  MileageProjection,
+  Vehicle,
+  VehicleFormData,
+  VehicleStats,
+  VehicleStatus,
+} from '../types/vehicle';
+import type { ServiceProfile } from '../types/maintenance';
 import { UNLIMITED_VEHICLES } from './constants';
+import { buildMileageProjection, ProjectionVehicle } from './mileage-projection';
 
 /**
  * Create a new vehicle for a user
@@ -139,6 +148,8 @@ export async function updateVehicle(
     if (updates.insurance_policy_number !== undefined) updateData.insurance_policy_number = updates.insurance_policy_number;
     if (updates.insurance_coverage_type !== undefined) updateData.insurance_coverage_type = updates.insurance_coverage_type;
     if (updates.insurance_expiry !== undefined) updateData.insurance_expiry = updates.insurance_expiry;
+    if (updates.insurance_premium_annual !== undefined) updateData.insurance_premium_annual = updates.insurance_premium_annual;
+    if (updates.registration_fee_annual !== undefined) updateData.registration_fee_annual = updates.registration_fee_annual;
     if (updates.dealer_seller_info !== undefined) updateData.dealer_seller_info = updates.dealer_seller_info;
     if (updates.loan_details !== undefined) updateData.loan_details = updates.loan_details;
 
@@ -302,6 +313,33 @@ export async function getUserVehicleCount(userId: string): Promise<number> {
   }
 }
 
+/**
+ * Garage-wide totals: vehicle count, average mileage, market value and depreciation
+ */
+export async function getVehicleStats(userId: string): Promise<VehicleStats> {
+  try {
+    const { data, error } = await supabase.rpc('get_user_vehicle_stats', { p_user_id: userId });
+
+    if (error) {
+      console.error('Error fetching vehicle stats:', error);
+      throw new Error(`Failed to fetch vehicle stats: ${error.message}`);
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) ?? {};
+    return {
+      total_vehicles: Number(row.total_vehicles) || 0,
+      average_mileage: Number(row.average_mileage) || 0,
+      total_value: Number(row.total_value) || 0,
+      total_depreciation: Number(row.total_depreciation) || 0,
+      pending_maintenance: Number(row.pending_maintenance) || 0,
+      active_diagnostic_codes: Number(row.active_diagnostic_codes) || 0,
+    };
+  } catch (error: any) {
+    console.error('Error in getVehicleStats:', error);
+    throw error;
+  }
+}
+
 /**
  * Check if user can add more vehicles based on their subscription tier
  */
@@ -387,7 +425,8 @@ export async function addMileageLog(
   userId: string,
   mileage: number,
   loggedDate: string,
-  notes?: string
+  notes?: string,
+  options: { onlyRaise?: boolean } = {}
 ): Promise<MileageLogEntry> {
   try {
     const { data, error } = await supabase
@@ -402,11 +441,16 @@ export async function addMileageLog(
     }
 
     // Keep current_mileage in sync with the latest entry
-    await supabase
+    let update = supabase
       .from('vehicles')
       .update({ current_mileage: mileage, updated_at: new Date().toISOString() })
       .eq('vehicle_id', vehicleId)
       .eq('user_id', userId);
+    if (options.onlyRaise) {
+      // Readings taken in passing (e.g. at a fill-up) may be backdated and mustn't wind the odometer back
+      update = update.or(`current_mileage.is.null,current_mileage.lt.${mileage}`);
+    }
+    await update;
 
     console.log('✅ Mileage log added:', vehicleId, mileage);
     return data;
@@ -416,6 +460,24 @@ export async function addMileageLog(
   }
 }
 
+/**
+ * Delete a mileage log entry (current_mileage is left as is)
+ */
+export async function deleteMileageLog(logId: string, userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('vehicle_mileage_logs')
+      .delete()
+      .eq('log_id', logId)
+      .eq('user_id', userId);
+
+    if (error) throw new Error(`Failed to delete mileage log: ${error.message}`);
+  } catch (error: any) {
+    console.error('Error in deleteMileageLog:', error);
+    throw error;
+  }
+}
+
 /**
  * Get mileage log history for a vehicle
  */
@@ -448,6 +510,17 @@ export async function getMileageLogs(
   }
 }
 
+/**
+ * Project a vehicle's mileage forward from its odometer log
+ */
+export async function getMileageProjection(
+  vehicle: ProjectionVehicle & Pick<Vehicle, 'vehicle_id'>,
+  userId: string
+): Promise<MileageProjection> {
+  const logs = await getMileageLogs(vehicle.vehicle_id, userId, 100);
+  return buildMileageProjection(logs, vehicle);
+}
+
 /**
  * Update the status tag of a vehicle
  */
@@ -470,3 +543,48 @@ export async function updateVehicleStatus(
     throw error;
   }
 }
+
+/**
+ * Switch a vehicle between the normal and severe-service maintenance schedule
+ */
+export async function updateVehicleServiceProfile(
+  vehicleId: string,
+  userId: string,
+  profile: ServiceProfile
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('vehicles')
+      .update({ service_profile: profile, updated_at: new Date().toISOString() })
+      .eq('vehicle_id', vehicleId)
+      .eq('user_id', userId);
+
+    if (error) throw new Error(`Failed to update service profile: ${error.message}`);
+    console.log('✅ Vehicle service profile updated:', vehicleId, profile);
+  } catch (error: any) {
+    console.error('Error in updateVehicleServiceProfile:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set the vehicle's current market value (latest valuation)
+ */
+export async function updateVehicleMarketValue(
+  vehicleId: string,
+  userId: string,
+  marketValue: number
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('vehicles')
+      .update({ current_market_value: marketValue, updated_at: new Date().toISOString() })
+      .eq('vehicle_id', vehicleId)
+      .eq('user_id', userId);
+
+    if (error) throw new Error(`Failed to update market value: ${error.message}`);
+  } catch (error: any) {
+    console.error('Error in updateVehicleMarketValue:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Gear AI CoPilot - Parts Warranty Tracker
+ *
+ * Works out how much warranty each installed part has left (by date and by
+ * odometer, whichever runs out first) and spots trouble codes or repairs
+ * that land on a covered part, so the user can go back to the installing
+ * shop instead of paying twice.
+ */
+
+import { getInstalledParts, getMaintenanceRecords, getServiceProviders } from './maintenance-service';
+import { getDiagnosticHistory } from './diagnostic-service';
+import { codeToSystem } from './dtc-systems';
+import { partCategory } from './receipt-ingestion';
+import { addMonths, dateOnly, daysBetween, localIsoDate } from './date-money';
+import type { DiagnosticCode, HealthSystem } from '../types/diagnostic';
+import type {
+  InstalledPart,
+  MaintenanceRecord,
+  PartWarrantyCoverage,
+  ServiceProvider,
+  WarrantyClaim,
+} from '../types/maintenance';
+import type { Vehicle } from '../types/vehicle';
+
+/** Coverage this close to running out is flagged as expiring. */
+const EXPIRING_DAYS = 30;
+const EXPIRING_MILES = 1000;
+
+/** Codes and repairs older than this are past the point of raising a claim. */
+const CLAIM_WINDOW_DAYS = 90;
+
+export interface WarrantyInputs {
+  parts: InstalledPart[];
+  records: MaintenanceRecord[];
+  codes: DiagnosticCode[];
+  providers: ServiceProvider[];
+  current_mileage?: number;
+  make?: string;
+  now?: Date;
+}
+
+export interface WarrantyReport {
+  coverage: PartWarrantyCoverage[];
+  claims: WarrantyClaim[];
+}
+
+// ============================================================================
+// COVERAGE
+// ============================================================================
+
+/**
+ * Coverage as of a date and odometer reading. A mileage limit without an
+ * install mileage can't be checked, so only the time limit applies then.
+ */
+export function warrantyCoverage(
+  part: InstalledPart,
+  mileage: number | undefined,
+  asOf: Date | string = new Date()
+): PartWarrantyCoverage {
+  if (!part.warranty_months && !part.warranty_miles) return { part, status: 'none' };
+
+  const today = typeof asOf === 'string' ? dateOnly(asOf) : localIsoDate(asOf);
+  const expires_on = part.warranty_months ? addMonths(part.install_date, part.warranty_months) : undefined;
+  const expires_at_mileage =
+    part.warranty_miles && part.install_mileage != null ? part.install_mileage + part.warranty_miles : undefined;
+  const days_remaining = expires_on ? daysBetween(today, expires_on) : undefined;
+  const miles_remaining = expires_at_mileage !== undefined && mileage ? expires_at_mileage - mileage : undefined;
+
+  let status: PartWarrantyCoverage['status'] = 'active';
+  if ((days_remaining ?? 0) < 0 || (miles_remaining ?? 0) < 0) status = 'expired';
+  else if ((days_remaining ?? Infinity) <= EXPIRING_DAYS || (miles_remaining ?? Infinity) <= EXPIRING_MILES) status = 'expiring';
+
+  return { part, status, expires_on, expires_at_mileage, days_remaining, miles_remaining };
+}
+
+/** "5 mo / 8,200 mi left", "12 days left" — whatever limits are known. */
+export function coverageRemainingText(coverage: PartWarrantyCoverage): string {
+  const { days_remaining: days, miles_remaining: miles } = coverage;
+  const parts = [
+    days !== undefined && (days > 60 ? `${Math.floor(days / 30.44)} mo` : `${days} day${days === 1 ? '' : 's'}`),
+    miles !== undefined && `${miles.toLocaleString()} mi`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `${parts.join(' / ')} left` : 'check your terms';
+}
+
+// ============================================================================
+// RELATED TROUBLE CODES AND REPAIRS
+// ============================================================================
+
+const CATEGORY_SYSTEMS: Partial<Record<InstalledPart['category'], HealthSystem>> = {
+  spark_plug: 'engine',
+  belt: 'engine',
+  brake_pad: 'brakes',
+  brake_rotor: 'brakes',
+  tire: 'suspension',
+  battery: 'electrical',
+  fuel_filter: 'fuel',
+};
+
+/** Systems for parts filed under "other", by name; first match wins. */
+const NAME_SYSTEMS: [RegExp, HealthSystem][] = [
+  [/alternator|starter|battery|ignition switch|window motor|\bmodule\b/, 'electrical'],
+  [/water pump|radiator|thermostat|cooling fan|heater core/, 'cooling'],
+  [/\bo2\b|oxygen|catalytic|converter|muffler|\begr\b/, 'exhaust'],
+  [/fuel pump|injector|fuel/, 'fuel'],
+  [/caliper|brake|\babs\b/, 'brakes'],
+  [/strut|shock|control arm|tie rod|ball joint|wheel bearing|steering|tpms/, 'suspension'],
+  [/clutch|transmission|axle|\bcv\b/, 'transmission'],
+  [/ignition coil|coil pack|spark|timing|gasket|throttle|mass air|\bmaf\b/, 'engine'],
+];
+
+/** Fluids and filters wear out rather than fail, so codes never implicate them; repairs still can. */
+const CONSUMABLES: InstalledPart['category'][] = [
+  'oil',
+  'air_filter',
+  'cabin_filter',
+  'coolant',
+  'brake_fluid',
+  'transmission_fluid',
+  'power_steering_fluid',
+];
+
+function partSystem(part: InstalledPart): HealthSystem | undefined {
+  if (CATEGORY_SYSTEMS[part.category]) return CATEGORY_SYSTEMS[part.category];
+  if (part.category !== 'other') return undefined;
+  const name = part.part_name.toLowerCase();
+  return NAME_SYSTEMS.find(([pattern]) => pattern.test(name))?.[1];
+}
+
+function codeImplicates(part: InstalledPart, code: string, make?: string): boolean {
+  if (CONSUMABLES.includes(part.category)) return false;
+  const system = partSystem(part);
+  return !!system && codeToSystem(code, make) === system;
+}
+
+/** The same kind of part replaced again, the part number on the record, or a code pointing at it. */
+function recordImplicates(part: InstalledPart, record: MaintenanceRecord, make?: string): boolean {
+  const texts = [record.title, ...(record.parts_replaced ?? [])].filter(Boolean);
+  if (part.category !== 'other' && texts.some((t) => partCategory(t) === part.category)) return true;
+
+  const haystack = [...texts, record.description ?? ''].join(' ').toLowerCase();
+  if (part.part_number && haystack.includes(part.part_number.toLowerCase())) return true;
+  if (part.category === 'other' && part.part_name.length > 3 && haystack.includes(part.part_name.toLowerCase())) return true;
+  return (record.dtc_codes ?? []).some((code) => codeImplicates(part, code, make));
+}
+
+function findProvider(shopName: string | undefined, providers: ServiceProvider[]): ServiceProvider | undefined {
+  if (!shopName) return undefined;
+  const wanted = shopName.trim().toLowerCase();
+  return providers.find((p) => p.name.trim().toLowerCase() === wanted);
+}
+
+// ============================================================================
+// REPORT (pure)
+// ============================================================================
+
+/**
+ * Coverage for every part, plus a claim prompt for each part whose most
+ * recent related code or repair appeared while it was covered. Repairs
+ * already marked warranty_covered don't prompt again.
+ */
+export function buildWarrantyReport(inputs: WarrantyInputs): WarrantyReport {
+  const now = inputs.now ?? new Date();
+  const today = localIsoDate(now);
+  const coverage = inputs.parts.map((part) => warrantyCoverage(part, inputs.current_mileage, now));
+  const claims: WarrantyClaim[] = [];
+
+  for (const current of coverage) {
+    const { part } = current;
+    if (current.status === 'none') continue;
+
+    const triggers: { trigger: WarrantyClaim['trigger']; mileage?: number }[] = [
+      ...inputs.codes
+        .filter((c) => (c.status === 'active' || c.status === 'pending') && codeImplicates(part, c.code, inputs.make))
+        .map((c) => ({
+          trigger: {
+            kind: 'dtc' as const,
+            diagnostic_id: c.diagnostic_id,
+            code: c.code,
+            description: c.description,
+            date: dateOnly(c.detected_at),
+          },
+          mileage: c.mileage_at_detection,
+        })),
+      ...inputs.records
+        .filter(
+          (r) =>
+            r.record_id !== part.maintenance_record_id &&
+            (r.type === 'repair' || r.type === 'diagnostic') &&
+            !r.warranty_covered &&
+            recordImplicates(part, r, inputs.make)
+        )
+        .map((r) => ({
+          trigger: { kind: 'repair' as const, record_id: r.record_id, title: r.title, date: dateOnly(r.date) },
+          mileage: r.mileage,
+        })),
+    ].filter(({ trigger }) => trigger.date > dateOnly(part.install_date) && daysBetween(trigger.date, today) <= CLAIM_WINDOW_DAYS);
+
+    // Most recent trigger that arrived while the part was still covered
+    const hit = triggers
+      .sort((a, b) => b.trigger.date.localeCompare(a.trigger.date))
+      .map((t) => ({ ...t, coverage: warrantyCoverage(part, t.mileage, t.trigger.date) }))
+      .find((t) => t.coverage.status === 'active' || t.coverage.status === 'expiring');
+    if (!hit) continue;
+
+    const original = inputs.records.find((r) => r.record_id === part.maintenance_record_id);
+    const shop_name = original?.shop_name;
+    const cause =
+      hit.trigger.kind === 'dtc'
+        ? `Code ${hit.trigger.code} (${hit.trigger.description}) points at the same system`
+        : `"${hit.trigger.title}" looks like work on the same part`;
+    const remaining = current.status === 'expired' ? 'has since expired' : coverageRemainingText(current);
+
+    claims.push({
+      coverage: current,
+      trigger: hit.trigger,
+      shop_name,
+      provider: findProvider(shop_name, inputs.providers),
+      message: `${part.part_name} was installed ${dateOnly(part.install_date)}${shop_name ? ` by ${shop_name}` : ''} and was under warranty on ${hit.trigger.date} (${remaining}). ${cause} — claim this under warranty before paying for it.`,
+    });
+  }
+
+  claims.sort((a, b) => b.trigger.date.localeCompare(a.trigger.date));
+  return { coverage, claims };
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/** Warranty coverage and open claim prompts for one vehicle. */
+export async function getWarrantyReport(
+  vehicle: Pick<Vehicle, 'vehicle_id' | 'make' | 'current_mileage'>,
+  userId: string,
+  now: Date = new Date()
+): Promise<WarrantyReport> {
+  try {
+    const parts = await getInstalledParts(vehicle.vehicle_id);
+    if (!parts.some((p) => p.warranty_months || p.warranty_miles)) {
+      return buildWarrantyReport({ parts, records: [], codes: [], providers: [], now });
+    }
+
+    const [records, codes, providers] = await Promise.all([
+      getMaintenanceRecords(vehicle.vehicle_id, userId),
+      getDiagnosticHistory(vehicle.vehicle_id),
+      getServiceProviders(userId).catch(() => [] as ServiceProvider[]),
+    ]);
+    return buildWarrantyReport({
+      parts,
+      records,
+      codes,
+      providers,
+      current_mileage: vehicle.current_mileage,
+      make: vehicle.make,
+      now,
+    });
+  } catch (err) {
+    console.warn('[WarrantyTracker] getWarrantyReport failed:', err);
+    return { coverage: [], claims: [] };
+  }
+}
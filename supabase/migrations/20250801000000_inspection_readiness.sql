@@ -0,0 +1,13 @@
+-- Gear AI CoPilot - Inspection Readiness
+-- Version: 20250801000000
+-- Description: Store the latest OBD readiness monitor check and inspection prediction on the vehicle
+
+-- ============================================================================
+-- VEHICLES: latest readiness check (decoded Mode 01 PID 01 + pass/fail prediction)
+-- ============================================================================
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS inspection_readiness JSONB;
+
+-- Vehicles with a failing prediction, for inspection-due reminders
+CREATE INDEX IF NOT EXISTS idx_vehicles_inspection_due_readiness
+  ON public.vehicles(inspection_due)
+  WHERE (inspection_readiness->>'prediction') = 'fail';
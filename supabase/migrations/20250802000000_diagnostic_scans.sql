@@ -0,0 +1,33 @@
+-- Gear AI CoPilot - Diagnostic Scans
+-- Version: 20250802000000
+-- Description: Persisted OBD-II scan sessions for scan history and scan-to-scan diffing
+
+-- ============================================================================
+-- DIAGNOSTIC SCANS TABLE (one row per full adapter scan)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.diagnostic_scans (
+  scan_id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id       UUID NOT NULL REFERENCES public.vehicles(vehicle_id) ON DELETE CASCADE,
+  user_id          UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  scan_date        TIMESTAMP NOT NULL DEFAULT NOW(),
+  mileage          INTEGER,
+  codes_found      JSONB NOT NULL DEFAULT '[]'::jsonb,  -- Array of DiagnosticCode with freeze frame at scan time
+  pending_codes    JSONB NOT NULL DEFAULT '[]'::jsonb,
+  permanent_codes  JSONB NOT NULL DEFAULT '[]'::jsonb,
+  live_data        JSONB,                               -- Array of OBDParameter
+  adapter_info     JSONB NOT NULL DEFAULT '{}'::jsonb,  -- OBDConnection
+  duration_seconds INTEGER DEFAULT 0,
+  created_at       TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_diagnostic_scans_vehicle ON public.diagnostic_scans(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_diagnostic_scans_date    ON public.diagnostic_scans(scan_date DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.diagnostic_scans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their diagnostic scans"
+  ON public.diagnostic_scans FOR ALL
+  USING (user_id = auth.uid());
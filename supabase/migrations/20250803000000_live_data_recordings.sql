@@ -0,0 +1,32 @@
+-- Gear AI CoPilot - Live Data Recordings
+-- Version: 20250803000000
+-- Description: Recorded OBD-II live data sessions (test drives, intermittent fault captures)
+
+-- ============================================================================
+-- LIVE DATA RECORDINGS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.live_data_recordings (
+  recording_id  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id    UUID REFERENCES public.vehicles(vehicle_id) ON DELETE CASCADE,
+  user_id       UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  name          VARCHAR(200) NOT NULL,
+  started_at    TIMESTAMP NOT NULL,
+  ended_at      TIMESTAMP,
+  duration_ms   INTEGER DEFAULT 0,
+  sample_count  INTEGER DEFAULT 0,
+  samples       JSONB NOT NULL DEFAULT '[]'::jsonb,  -- Array of { offset_ms, parameters: OBDParameter[] }
+  notes         TEXT,
+  created_at    TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_recordings_vehicle ON public.live_data_recordings(vehicle_id);
+CREATE INDEX IF NOT EXISTS idx_live_recordings_started ON public.live_data_recordings(started_at DESC);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.live_data_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their live data recordings"
+  ON public.live_data_recordings FOR ALL
+  USING (user_id = auth.uid());
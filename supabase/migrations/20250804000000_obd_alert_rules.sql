@@ -0,0 +1,45 @@
+-- Gear AI CoPilot - OBD Alert Rules
+-- Version: 20250804000000
+-- Description: Per-vehicle threshold rules evaluated against the live OBD-II stream, and an 'alert' diagnostic code status for what they record
+
+-- ============================================================================
+-- OBD ALERT RULES TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.obd_alert_rules (
+  rule_id        UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id     UUID NOT NULL REFERENCES public.vehicles(vehicle_id) ON DELETE CASCADE,
+  user_id        UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  name           VARCHAR(200) NOT NULL,
+  parameter      VARCHAR(60) NOT NULL,   -- OBDParameter key, e.g. coolant_temp
+  comparator     VARCHAR(10) NOT NULL CHECK (comparator IN ('above','below','outside')),
+  threshold      NUMERIC(10,3) NOT NULL,
+  threshold_low  NUMERIC(10,3),
+  duration_s     INTEGER NOT NULL DEFAULT 0 CHECK (duration_s >= 0),
+  severity       VARCHAR(20) CHECK (severity IN ('low','medium','high','critical')) DEFAULT 'medium',
+  code           VARCHAR(10) NOT NULL,   -- SAE DTC recorded in history when the rule fires
+  enabled        BOOLEAN DEFAULT true,
+  created_at     TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_obd_alert_rules_vehicle ON public.obd_alert_rules(vehicle_id);
+
+-- ============================================================================
+-- DIAGNOSTIC CODE STATUS: live alerts stay out of active code counts
+-- ============================================================================
+ALTER TABLE public.diagnostic_codes DROP CONSTRAINT IF EXISTS diagnostic_codes_status_check;
+ALTER TABLE public.diagnostic_codes
+  ADD CONSTRAINT diagnostic_codes_status_check
+  CHECK (status IN ('active','pending','resolved','false_positive','alert'));
+
+CREATE INDEX IF NOT EXISTS idx_diagnostic_codes_open_alerts
+  ON public.diagnostic_codes(vehicle_id)
+  WHERE status = 'alert';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.obd_alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their OBD alert rules"
+  ON public.obd_alert_rules FOR ALL
+  USING (user_id = auth.uid());
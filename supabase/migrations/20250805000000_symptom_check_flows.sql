@@ -0,0 +1,10 @@
+-- Gear AI CoPilot - Guided Diagnostic Flows
+-- Version: 20250805000000
+-- Description: Store the user's walk through a symptom check's yes/no troubleshooting tree
+
+-- ============================================================================
+-- SYMPTOM CHECKS: flow source, answers, and outcome
+-- ============================================================================
+ALTER TABLE public.symptom_checks ADD COLUMN IF NOT EXISTS flow_id      VARCHAR(50);  -- Curated flow, NULL for AI-generated steps
+ALTER TABLE public.symptom_checks ADD COLUMN IF NOT EXISTS flow_answers JSONB DEFAULT '[]'::jsonb;  -- Array of { step, answer, answered_at }
+ALTER TABLE public.symptom_checks ADD COLUMN IF NOT EXISTS flow_outcome JSONB;  -- DiagnosticFlowOutcome once the flow ends
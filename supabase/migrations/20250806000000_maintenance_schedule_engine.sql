@@ -0,0 +1,15 @@
+-- Gear AI CoPilot - Maintenance Schedule Engine
+-- Version: 20250806000000
+-- Description: Per-vehicle service profile and lookup index for schedule-generated reminders
+
+-- ============================================================================
+-- VEHICLES: normal vs severe-service schedule
+-- ============================================================================
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS service_profile VARCHAR(10) DEFAULT 'normal'
+  CHECK (service_profile IN ('normal', 'severe'));
+
+-- ============================================================================
+-- SERVICE REMINDERS: one open reminder per scheduled service
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_reminders_vehicle_service
+  ON public.service_reminders(vehicle_id, service_type);
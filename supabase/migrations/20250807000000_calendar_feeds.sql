@@ -0,0 +1,36 @@
+-- Gear AI CoPilot - Calendar Feeds
+-- Version: 20250807000000
+-- Description: Per-user iCalendar subscription feed of service reminders and renewal dates
+
+-- ============================================================================
+-- CALENDAR FEEDS TABLE: one secret feed per user
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id      UUID PRIMARY KEY REFERENCES public.users(user_id) ON DELETE CASCADE,
+  token        VARCHAR(64) NOT NULL UNIQUE
+                 DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),  -- Unguessable part of the feed URL
+  published_at TIMESTAMP,  -- Last time the .ics was rewritten
+  created_at   TIMESTAMP DEFAULT NOW()
+);
+
+-- ============================================================================
+-- STORAGE: public bucket, readable by URL only; each user writes their own folder
+-- ============================================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('calendar-feeds', 'calendar-feeds', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can publish their calendar feed"
+  ON storage.objects FOR ALL
+  TO authenticated
+  USING (bucket_id = 'calendar-feeds' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'calendar-feeds' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their calendar feed"
+  ON public.calendar_feeds FOR ALL
+  USING (user_id = auth.uid());
@@ -0,0 +1,28 @@
+-- Gear AI CoPilot - Loan Payments
+-- Version: 20250808000000
+-- Description: Recorded payments against financial accounts, replayed to recompute loan balances
+
+-- ============================================================================
+-- LOAN PAYMENTS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.loan_payments (
+  payment_id   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id   UUID NOT NULL REFERENCES public.financial_accounts(account_id) ON DELETE CASCADE,
+  user_id      UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  payment_date DATE NOT NULL,
+  amount       DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  notes        TEXT,
+  created_at   TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_payments_account_date
+  ON public.loan_payments(account_id, payment_date);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.loan_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their loan payments"
+  ON public.loan_payments FOR ALL
+  USING (user_id = auth.uid());
@@ -0,0 +1,11 @@
+-- Gear AI CoPilot - Lease Terms
+-- Version: 20250809000000
+-- Description: Mileage allowance terms on lease accounts, for overage projection
+
+-- ============================================================================
+-- FINANCIAL ACCOUNTS: lease mileage allowance
+-- ============================================================================
+ALTER TABLE public.financial_accounts ADD COLUMN IF NOT EXISTS miles_allowed_annual INT
+  CHECK (miles_allowed_annual IS NULL OR miles_allowed_annual > 0);
+ALTER TABLE public.financial_accounts ADD COLUMN IF NOT EXISTS overage_charge_per_mile DECIMAL(5, 2);
+ALTER TABLE public.financial_accounts ADD COLUMN IF NOT EXISTS start_mileage INT;  -- Odometer at delivery
@@ -0,0 +1,71 @@
+-- Gear AI CoPilot - Vehicle Valuations
+-- Version: 20250810000000
+-- Description: Market value snapshots over time, and depreciation in the garage stats
+
+-- ============================================================================
+-- VEHICLE VALUATIONS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.vehicle_valuations (
+  valuation_id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id               UUID NOT NULL REFERENCES public.vehicles(vehicle_id) ON DELETE CASCADE,
+  user_id                  UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  current_market_value     DECIMAL(10, 2) NOT NULL,
+  trade_in_value           DECIMAL(10, 2),
+  private_party_value      DECIMAL(10, 2),
+  dealer_retail_value      DECIMAL(10, 2),
+  wholesale_value          DECIMAL(10, 2),
+  confidence_level         DECIMAL(3, 2) CHECK (confidence_level BETWEEN 0 AND 1),
+  data_source              VARCHAR(100) NOT NULL,  -- Price source that produced the estimate
+  valuation_date           DATE NOT NULL DEFAULT CURRENT_DATE,
+  mileage_at_valuation     INT,
+  condition_grade          VARCHAR(20) CHECK (condition_grade IN ('excellent','good','fair','poor')),
+  depreciation_rate_annual DECIMAL(5, 2),  -- Percent per year at the vehicle's current age
+  created_at               TIMESTAMP DEFAULT NOW(),
+  metadata                 JSONB DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_valuations_vehicle_date
+  ON public.vehicle_valuations(vehicle_id, valuation_date);
+
+-- ============================================================================
+-- VEHICLE STATISTICS: depreciation from purchase price to the latest value
+-- ============================================================================
+-- The new column changes the return type, so the function is dropped and recreated
+DROP FUNCTION IF EXISTS public.get_user_vehicle_stats(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_user_vehicle_stats(p_user_id UUID)
+RETURNS TABLE (
+  total_vehicles INT,
+  average_mileage DECIMAL,
+  total_value DECIMAL,
+  total_depreciation DECIMAL,
+  pending_maintenance INT,
+  active_diagnostic_codes INT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*)::INT as total_vehicles,
+    COALESCE(AVG(current_mileage), 0)::DECIMAL as average_mileage,
+    COALESCE(SUM(current_market_value), 0)::DECIMAL as total_value,
+    COALESCE(SUM(purchase_price - current_market_value)
+      FILTER (WHERE purchase_price IS NOT NULL AND current_market_value IS NOT NULL), 0)::DECIMAL as total_depreciation,
+    0::INT as pending_maintenance, -- To be implemented with service reminders
+    0::INT as active_diagnostic_codes -- To be implemented with diagnostics
+  FROM public.vehicles
+  WHERE user_id = p_user_id AND is_active = true;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_user_vehicle_stats IS 'Returns aggregate statistics for a user''s vehicles';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.vehicle_valuations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their vehicle valuations"
+  ON public.vehicle_valuations FOR ALL
+  USING (user_id = auth.uid());
@@ -0,0 +1,11 @@
+-- Gear AI CoPilot - Ownership Costs
+-- Version: 20250811000000
+-- Description: Recurring insurance and registration costs, for the total cost of ownership report
+
+-- ============================================================================
+-- VEHICLES: annual running costs
+-- ============================================================================
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS insurance_premium_annual DECIMAL(10, 2)
+  CHECK (insurance_premium_annual IS NULL OR insurance_premium_annual >= 0);
+ALTER TABLE public.vehicles ADD COLUMN IF NOT EXISTS registration_fee_annual DECIMAL(10, 2)
+  CHECK (registration_fee_annual IS NULL OR registration_fee_annual >= 0);
@@ -0,0 +1,35 @@
+-- Gear AI CoPilot - Fuel Logs
+-- Version: 20250812000000
+-- Description: Fill-ups and charging sessions, for fuel economy and running costs
+
+-- ============================================================================
+-- FUEL LOGS TABLE
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.fuel_logs (
+  fuel_log_id    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id     UUID NOT NULL REFERENCES public.vehicles(vehicle_id) ON DELETE CASCADE,
+  user_id        UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  kind           VARCHAR(10) NOT NULL DEFAULT 'fuel' CHECK (kind IN ('fuel','charge')),
+  filled_date    DATE NOT NULL DEFAULT CURRENT_DATE,
+  odometer       INT NOT NULL CHECK (odometer >= 0),
+  volume         DECIMAL(8, 3) NOT NULL CHECK (volume > 0),  -- Gallons, liters or kWh
+  volume_unit    VARCHAR(5) NOT NULL CHECK (volume_unit IN ('gal','l','kwh')),
+  price_per_unit DECIMAL(8, 3),
+  total_cost     DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  is_full        BOOLEAN NOT NULL DEFAULT true,  -- Filled the tank / charged to the usual level
+  station        VARCHAR(200),
+  notes          TEXT,
+  mileage_log_id UUID REFERENCES public.vehicle_mileage_logs(log_id) ON DELETE SET NULL,
+  created_at     TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_logs_vehicle_odometer ON public.fuel_logs(vehicle_id, odometer);
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+ALTER TABLE public.fuel_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their fuel logs"
+  ON public.fuel_logs FOR ALL
+  USING (user_id = auth.uid());
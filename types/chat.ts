@@ -82,7 +82,7 @@ export interface VehicleFullContext {
   active_codes?: Array<{ code: string; description: string; severity: string }>;
   /** Upcoming service reminders */
   pending_services?: Array<{ title: string; due_mileage?: number; due_date?: string; priority: string }>;
-  /** 30-day mileage delta for proactive suggestions */
+  /** Projected miles this month (seasonally adjusted) for proactive suggestions */
   monthly_mileage_delta?: number;
 }
 
@@ -4,6 +4,8 @@
  * Data models for OBD-II diagnostics and trouble codes
  */
 
+import type { InstalledPart, MaintenanceRecord, MaintenanceType, ServiceReminder } from './maintenance';
+
 export interface DiagnosticCode {
   diagnostic_id: string;
   vehicle_id: string;
@@ -13,7 +15,7 @@ export interface DiagnosticCode {
   severity: 'low' | 'medium' | 'high' | 'critical';
   detected_at: string; // ISO timestamp
   cleared_at?: string; // ISO timestamp
-  status: 'active' | 'pending' | 'resolved' | 'false_positive';
+  status: 'active' | 'pending' | 'resolved' | 'false_positive' | 'alert'; // alert = open live data alert, not set by the ECU
   mileage_at_detection?: number;
   freeze_frame_data?: FreezeFrameData;
   ai_analysis?: string;
@@ -26,6 +28,9 @@ export interface DiagnosticCode {
   metadata?: Record<string, any>;
 }
 
+/** `metadata.source` of history rows written by the live alert monitor rather than read from the ECU. */
+export const LIVE_ALERT_SOURCE = 'live_alert';
+
 export interface FreezeFrameData {
   rpm?: number;
   vehicle_speed?: number;
@@ -36,15 +41,22 @@ export interface FreezeFrameData {
   intake_pressure?: number;
   timing_advance?: number;
   throttle_position?: number;
+  frame_number?: number; // Mode 02 frame the snapshot was read from
+  dtc?: string; // Code that triggered the snapshot (Mode 02 PID 02)
+  captured_at?: string; // ISO timestamp the frame was read from the vehicle
+  parameters?: OBDParameter[]; // Full decoded snapshot with names and units
   [key: string]: any; // Additional PIDs
 }
 
 export interface OBDParameter {
   pid: string; // Parameter ID (e.g., "01 0C" for RPM)
+  key?: string; // Registry key (e.g., "rpm"), matches LiveOBDData fields where applicable
   name: string;
   value: number;
   unit: string;
   description: string;
+  min?: number;
+  max?: number;
   timestamp: number;
 }
 
@@ -57,15 +69,56 @@ export interface OBDConnection {
   is_connected: boolean;
 }
 
+/** DTCs read from the vehicle in one pass, split by OBD-II service. */
+export interface DTCReadResult {
+  stored: string[]; // Mode 03 — confirmed, MIL-on codes
+  pending: string[]; // Mode 07 — failed once, not yet confirmed
+  permanent: string[]; // Mode 0A — survive a clear until the ECU verifies the repair
+}
+
+export interface DTCStatusTransition {
+  code: string;
+  diagnostic_id?: string;
+  from: DiagnosticCode['status'] | null; // null = newly detected
+  to: DiagnosticCode['status'];
+}
+
+export interface DTCSyncResult extends DTCReadResult {
+  transitions: DTCStatusTransition[];
+}
+
 export interface DiagnosticScan {
   scan_id: string;
   vehicle_id: string;
+  user_id?: string;
   scan_date: string;
   mileage: number;
-  codes_found: DiagnosticCode[];
+  codes_found: DiagnosticCode[]; // Open codes with the freeze frame read during this scan
+  pending_codes?: string[];
+  permanent_codes?: string[];
   live_data?: OBDParameter[];
   adapter_info: OBDConnection;
   duration_seconds: number;
+  created_at?: string;
+}
+
+export interface FreezeFrameChange {
+  code: string;
+  key: string;
+  label: string;
+  unit?: string;
+  previous?: number;
+  current?: number;
+}
+
+/** What changed between a scan and the one before it. */
+export interface DiagnosticScanDiff {
+  scan_id: string;
+  previous_scan_id?: string;
+  new_codes: DiagnosticCode[];
+  cleared_codes: DiagnosticCode[];
+  unchanged_codes: DiagnosticCode[];
+  freeze_frame_changes: FreezeFrameChange[];
 }
 
 export type DiagnosticCodeType = {
@@ -116,18 +169,72 @@ export interface DTCAnalysis {
   diy_vs_shop_reasoning?: string;
 }
 
+/** Pricing tier for repair estimates: shop labor rate, parts prices, and how hard the car is to work on. */
+export type VehicleClass = 'economy' | 'standard' | 'truck_suv' | 'luxury' | 'hybrid_ev';
+
+/** Deterministic repair estimate for a code from the labor-time and parts-cost model. */
+export interface RepairEstimate {
+  code: string;
+  job: string; // Repair job key, e.g. "o2_sensor"
+  job_label: string;
+  vehicle_class: VehicleClass;
+  labor_hours_min: number;
+  labor_hours_max: number;
+  labor_rate: number; // USD per hour
+  parts_cost_min: number;
+  parts_cost_max: number;
+  total_min: number;
+  total_max: number;
+  difficulty: DTCAnalysis['repair_difficulty'];
+}
+
+/** A code definition from the bundled offline DTC database. */
+export interface DTCDefinition {
+  code: string;
+  description: string;
+  subsystem: string; // SAE subsystem for the code's range, e.g. "Ignition System or Misfire"
+  manufacturer_specific: boolean;
+  make?: string; // Set when the definition came from a make-specific table
+  source: 'generic' | 'manufacturer' | 'range'; // range = only the SAE subsystem is known
+  common_causes: string[];
+  symptoms: string[];
+}
+
 // ============================================================================
 // HEALTH SCORE
 // ============================================================================
 
 export type HealthSystem = 'engine' | 'brakes' | 'suspension' | 'electrical' | 'fuel' | 'cooling' | 'transmission' | 'exhaust';
 
+/** One traceable deduction from a system's 100-point score. */
+export interface HealthDeduction {
+  system: HealthSystem;
+  points: number;
+  source: 'dtc' | 'recurring_dtc' | 'maintenance' | 'part_age' | 'recall' | 'live_data' | 'vehicle_age';
+  reason: string; // e.g. "P0301 Cylinder 1 Misfire Detected (active, high)"
+}
+
 export interface HealthSystemScore {
   system: HealthSystem;
   label: string;
   score: number; // 0–100
   status: 'good' | 'fair' | 'poor' | 'critical';
-  contributing_factors: string[];
+  contributing_factors: string[]; // One per deduction, e.g. "−15 · P0301 Cylinder 1 Misfire Detected (active, high)", noting any cut by the per-system cap
+  deductions?: HealthDeduction[]; // Points as charged after the cap
+}
+
+/** Everything the health score is computed from; gathered by calculateHealthScore. */
+export interface HealthScoreInputs {
+  now: string; // ISO timestamp
+  make?: string; // For manufacturer-specific DTC → system mapping
+  current_mileage: number;
+  vehicle_year: number;
+  codes: Pick<DiagnosticCode, 'code' | 'description' | 'severity' | 'status' | 'metadata'>[]; // Active, pending and open live alerts
+  scans: DiagnosticScan[]; // Recent scans, newest first
+  reminders: ServiceReminder[];
+  maintenance: Pick<MaintenanceRecord, 'title' | 'date' | 'mileage' | 'next_service_date' | 'next_service_mileage'>[];
+  parts: InstalledPart[];
+  recalls: Pick<RecallAlert, 'nhtsa_campaign' | 'component' | 'acknowledged'>[];
 }
 
 export interface VehicleHealthScore {
@@ -146,12 +253,45 @@ export interface VehicleHealthScore {
 // SYMPTOM CHECKER
 // ============================================================================
 
+/** Where a finished troubleshooting flow lands: what to do next, optionally as a service record to log. */
+export interface DiagnosticFlowOutcome {
+  title: string;
+  action: string;
+  urgency: 'low' | 'medium' | 'high' | 'critical';
+  diy: boolean; // Reasonable for an owner to do themselves
+  maintenance?: { type: MaintenanceType; title: string; description: string }; // Pre-fills a maintenance record
+}
+
+/**
+ * One yes/no node of a troubleshooting tree. `yes_step`/`no_step` branch to
+ * another (later) step and `yes_outcome`/`no_outcome` end the flow; when
+ * neither is set the step is linear — "yes" ends on `if_yes`, "no" moves on.
+ */
 export interface DiagnosticFlowStep {
   step: number;
   instruction: string;
   check?: string;
   if_yes?: string;
   if_no?: string;
+  yes_step?: number;
+  no_step?: number;
+  yes_outcome?: DiagnosticFlowOutcome;
+  no_outcome?: DiagnosticFlowOutcome;
+}
+
+export interface DiagnosticFlowAnswer {
+  step: number;
+  answer: 'yes' | 'no';
+  answered_at: string; // ISO timestamp
+}
+
+/** A curated troubleshooting tree for a common symptom. */
+export interface DiagnosticFlow {
+  flow_id: string;
+  title: string;
+  summary: string;
+  match: RegExp; // Symptom text this flow applies to
+  steps: DiagnosticFlowStep[];
 }
 
 export interface SymptomCheck {
@@ -165,6 +305,9 @@ export interface SymptomCheck {
   related_recalls: string[];
   related_tsbs: string[];
   flowchart_steps: DiagnosticFlowStep[];
+  flow_id?: string; // Curated DiagnosticFlow the steps came from; absent for AI-generated steps
+  flow_answers?: DiagnosticFlowAnswer[];
+  flow_outcome?: DiagnosticFlowOutcome;
   checked_at: string;
 }
 
@@ -199,27 +342,177 @@ export interface TSBResult {
   category?: string;
 }
 
+// ============================================================================
+// READINESS MONITORS (EMISSIONS I/M)
+// ============================================================================
+
+export type ReadinessMonitorId =
+  | 'misfire'
+  | 'fuel_system'
+  | 'components'
+  | 'catalyst'
+  | 'heated_catalyst'
+  | 'evap'
+  | 'secondary_air'
+  | 'ac_refrigerant'
+  | 'o2_sensor'
+  | 'o2_heater'
+  | 'egr_vvt'
+  | 'nmhc_catalyst'
+  | 'nox_scr'
+  | 'boost_pressure'
+  | 'exhaust_gas_sensor'
+  | 'pm_filter';
+
+export interface ReadinessMonitor {
+  id: ReadinessMonitorId;
+  name: string;
+  continuous: boolean; // Misfire, fuel system and components run constantly
+  complete: boolean;
+}
+
+/** Mode 01 PID 01: MIL state, DTC count and the supported readiness monitors. */
+export interface MonitorStatus {
+  mil_on: boolean;
+  dtc_count: number;
+  ignition: 'spark' | 'compression';
+  monitors: ReadinessMonitor[]; // Supported monitors only
+}
+
+export interface InspectionReadiness extends MonitorStatus {
+  checked_at: string; // ISO timestamp
+  mileage?: number;
+  prediction: 'pass' | 'fail';
+  incomplete: ReadinessMonitorId[]; // Non-continuous monitors that haven't run
+  allowed_incomplete: number; // EPA allowance for the model year
+  reasons: string[];
+}
+
 // ============================================================================
 // LIVE OBD DATA
 // ============================================================================
 
+/** Named live readings; a field is undefined when the vehicle doesn't support its PID. */
 export interface LiveOBDData {
-  rpm: number;
-  vehicle_speed: number; // km/h
-  coolant_temp: number; // °C
-  intake_air_temp: number; // °C
-  throttle_position: number; // %
-  engine_load: number; // %
-  fuel_trim_short: number; // %
-  fuel_trim_long: number; // %
-  o2_voltage_bank1: number; // V
+  rpm?: number;
+  vehicle_speed?: number; // km/h
+  coolant_temp?: number; // °C
+  intake_air_temp?: number; // °C
+  throttle_position?: number; // %
+  engine_load?: number; // %
+  fuel_trim_short?: number; // %
+  fuel_trim_long?: number; // %
+  o2_voltage_bank1?: number; // V
   o2_voltage_bank2?: number; // V
-  maf_rate: number; // g/s
-  timing_advance: number; // degrees
-  battery_voltage: number; // V
+  maf_rate?: number; // g/s
+  timing_advance?: number; // degrees
+  battery_voltage?: number; // V
   timestamp: number;
 }
 
+// ============================================================================
+// LIVE DATA ALERT RULES
+// ============================================================================
+
+export type AlertComparator = 'above' | 'below' | 'outside';
+
+export interface OBDAlertRule {
+  rule_id: string;
+  vehicle_id?: string;
+  name: string;
+  parameter: string; // OBDParameter key, e.g. 'coolant_temp', 'battery_voltage'
+  comparator: AlertComparator;
+  threshold: number; // 'outside' uses ±threshold around zero unless threshold_low is set
+  threshold_low?: number;
+  duration_s: number; // Condition must hold this long before firing
+  severity: DiagnosticCode['severity'];
+  code: string; // SAE DTC recorded in history when the rule fires
+  enabled: boolean;
+}
+
+export interface OBDAlertEvent {
+  rule_id: string;
+  rule_name: string;
+  vehicle_id?: string;
+  parameter: string;
+  value: number; // Worst value seen while the condition held
+  unit: string;
+  threshold: number;
+  severity: DiagnosticCode['severity'];
+  code: string;
+  message: string;
+  started_at: string; // ISO timestamp the condition began
+  triggered_at: string;
+}
+
+// ============================================================================
+// LIVE DATA RECORDING
+// ============================================================================
+
+export interface LiveDataSample {
+  offset_ms: number; // Since the recording started
+  parameters: OBDParameter[];
+}
+
+export interface LiveDataRecording {
+  recording_id: string;
+  name: string; // e.g. "Test drive — misfire under load"
+  vehicle_id?: string;
+  user_id?: string;
+  started_at: string; // ISO timestamp
+  ended_at?: string;
+  duration_ms: number;
+  sample_count: number;
+  samples: LiveDataSample[];
+  storage: 'local' | 'cloud';
+  notes?: string;
+}
+
+/** A recording without its samples, for listing. */
+export type LiveDataRecordingSummary = Omit<LiveDataRecording, 'samples'>;
+
+export interface PlaybackState {
+  position_ms: number;
+  duration_ms: number;
+  playing: boolean;
+  speed: number;
+}
+
+// ============================================================================
+// FUEL TRIM ANALYSIS
+// ============================================================================
+
+export type FuelTrimCondition = 'vacuum_leak' | 'maf_under_reporting' | 'fuel_delivery' | 'o2_sensor_lazy';
+
+/** Average trims and airflow for one operating range of a recording. */
+export interface FuelTrimBand {
+  label: 'idle' | 'cruise' | 'high_load';
+  sample_count: number;
+  short_trim: number; // %
+  long_trim: number; // %
+  total_trim: number; // short + long, %
+  maf_rate?: number; // g/s
+}
+
+export interface FuelTrimFinding {
+  condition: FuelTrimCondition;
+  title: string;
+  confidence: 'high' | 'medium' | 'low';
+  evidence: string[];
+  recommended_checks: string[];
+}
+
+export interface FuelTrimAnalysis {
+  mixture: 'lean' | 'rich' | 'normal';
+  bands: FuelTrimBand[];
+  findings: FuelTrimFinding[]; // Most likely first
+  sample_count: number;
+  o2_switch_rate?: number; // Crossings of 0.45 V per second in closed loop
+  o2_range?: { min: number; max: number }; // V
+  insufficient_data?: string; // Why no classification was possible
+  analyzed_at: string;
+}
+
 export interface OBDSessionState {
   status: 'disconnected' | 'scanning' | 'connecting' | 'connected' | 'error';
   adapter_name?: string;
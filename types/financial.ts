@@ -20,6 +20,9 @@ export interface FinancialAccount {
   interest_rate?: number; // APR as decimal (e.g., 0.0549 for 5.49%)
   money_factor?: number; // For leases
   residual_value?: number; // For leases
+  miles_allowed_annual?: number; // For leases
+  overage_charge_per_mile?: number; // For leases
+  start_mileage?: number; // Odometer at delivery
   monthly_payment?: number;
   down_payment?: number;
   principal_amount?: number;
@@ -57,11 +60,21 @@ export interface LeaseDetails {
   current_mileage: number;
   overage_charge_per_mile: number;
   projected_overage_cost: number;
-  buyout_value: number; // Current residual + remaining payments
+  buyout_value: number; // Residual + depreciation still to be paid
   market_value: number; // Current market value of vehicle
   equity: number; // market_value - buyout_value
 }
 
+export interface LoanPayment {
+  payment_id: string;
+  account_id: string;
+  user_id: string;
+  payment_date: string; // ISO date string
+  amount: number;
+  notes?: string;
+  created_at: string;
+}
+
 export interface AmortizationSchedule {
   payment_number: number;
   date: string;
@@ -73,6 +86,8 @@ export interface AmortizationSchedule {
   cumulative_principal: number;
 }
 
+export type ConditionGrade = 'excellent' | 'good' | 'fair' | 'poor';
+
 export interface VehicleValuation {
   valuation_id: string;
   vehicle_id: string;
@@ -85,7 +100,7 @@ export interface VehicleValuation {
   data_source: string; // e.g., "MarketCheck + Black Book"
   valuation_date: string;
   mileage_at_valuation: number;
-  condition_grade?: 'excellent' | 'good' | 'fair' | 'poor';
+  condition_grade?: ConditionGrade;
   depreciation_rate_annual: number; // Percentage per year
   created_at: string;
   metadata?: Record<string, any>;
@@ -110,7 +125,7 @@ export interface FinancialSummary {
   loan_balance?: number;
   equity: number; // current_value - loan_balance
   total_maintenance_cost: number;
-  total_ownership_cost: number; // depreciation + maintenance + interest
+  total_ownership_cost: number; // depreciation + maintenance + interest, plus lease, fuel, insurance and registration where known
   monthly_ownership_cost: number;
   ownership_months: number;
 }
@@ -164,4 +179,7 @@ export interface FinancialFormData {
   principal_amount?: number;
   residual_value?: number;
   money_factor?: number;
+  miles_allowed_annual?: number;
+  overage_charge_per_mile?: number;
+  start_mileage?: number;
 }
@@ -0,0 +1,83 @@
+/**
+ * Gear AI CoPilot - Fuel Type Definitions
+ *
+ * Fill-ups and charging sessions, and the fuel economy worked out from them
+ */
+
+export type FuelEntryKind = 'fuel' | 'charge';
+
+export type FuelVolumeUnit = 'gal' | 'l' | 'kwh';
+
+export interface FuelLogEntry {
+  fuel_log_id: string;
+  vehicle_id: string;
+  user_id: string;
+  kind: FuelEntryKind;
+  filled_date: string; // ISO date
+  odometer: number;
+  volume: number;
+  volume_unit: FuelVolumeUnit;
+  price_per_unit?: number;
+  total_cost: number;
+  is_full: boolean; // Filled the tank, or charged to the usual level
+  station?: string;
+  notes?: string;
+  mileage_log_id?: string; // Odometer reading this entry added to vehicle_mileage_logs
+  created_at: string;
+}
+
+export interface FuelLogFormData {
+  kind: FuelEntryKind;
+  filled_date: string;
+  odometer: number;
+  volume: number;
+  volume_unit: FuelVolumeUnit;
+  price_per_unit?: number;
+  total_cost?: number; // Worked out from volume × price when omitted
+  is_full: boolean;
+  station?: string;
+  notes?: string;
+}
+
+/** Miles between two full fills and everything pumped to get there. */
+export interface FuelEconomySegment {
+  kind: FuelEntryKind;
+  start_date: string;
+  end_date: string;
+  start_odometer: number;
+  end_odometer: number;
+  miles: number;
+  /** Gallons for fuel, kWh for charging */
+  volume: number;
+  cost: number;
+  /** Miles per gallon, or miles per kWh */
+  economy: number;
+  /** Fill-ups and partials that make up the segment */
+  entry_ids: string[];
+  /** Economy fell well below the recent norm */
+  anomaly?: boolean;
+}
+
+export interface FuelEconomyAnomaly {
+  end_date: string;
+  economy: number;
+  baseline: number;
+  drop_percent: number;
+  message: string;
+}
+
+export interface FuelEconomyStats {
+  kind: FuelEntryKind;
+  segments: FuelEconomySegment[];
+  /** Total miles over total volume across every segment */
+  average_economy?: number;
+  latest_economy?: number;
+  best_economy?: number;
+  worst_economy?: number;
+  cost_per_mile?: number;
+  total_cost: number;
+  total_volume: number;
+  by_month: { month: string; cost: number; volume: number }[];
+  /** Set when the latest segment's economy dropped sharply */
+  anomaly?: FuelEconomyAnomaly;
+}
@@ -12,6 +12,8 @@ export * from './chat';
 export * from './financial';
 export * from './manual';
 export * from './shell';
+export * from './notification';
+export * from './fuel';
 
 // Common utility types
 export interface APIError {
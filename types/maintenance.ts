@@ -68,6 +68,21 @@ export interface MaintenanceInterval {
   severity: 'critical' | 'important' | 'recommended' | 'optional';
 }
 
+/** Normal or severe-service (towing, short trips, dust, extreme heat/cold) schedule. */
+export type ServiceProfile = 'normal' | 'severe';
+
+/** A schedule interval resolved against the vehicle's service and odometer history. */
+export interface ScheduledService {
+  interval: MaintenanceInterval;
+  last_service_date?: string;
+  last_service_mileage?: number;
+  due_date?: string;
+  due_mileage?: number;
+  /** When due_mileage is expected to be reached, from the mileage projection */
+  projected_due_date?: string;
+  status: 'upcoming' | 'due' | 'overdue';
+}
+
 export type MaintenanceType = 
   | 'routine'
   | 'repair'
@@ -222,6 +237,29 @@ export interface InstalledPart {
   updated_at: string;
 }
 
+/** Where an installed part stands against its warranty; time and mileage limits, first one reached ends it. */
+export interface PartWarrantyCoverage {
+  part: InstalledPart;
+  status: 'active' | 'expiring' | 'expired' | 'none';
+  expires_on?: string; // ISO date
+  expires_at_mileage?: number;
+  days_remaining?: number;
+  miles_remaining?: number;
+}
+
+/** A covered part that a later trouble code or repair may implicate. */
+export interface WarrantyClaim {
+  coverage: PartWarrantyCoverage;
+  trigger:
+    | { kind: 'dtc'; diagnostic_id: string; code: string; description: string; date: string }
+    | { kind: 'repair'; record_id: string; title: string; date: string };
+  /** The shop that installed the part, when its record names one */
+  shop_name?: string;
+  /** Matching saved provider, for contact details */
+  provider?: ServiceProvider;
+  message: string;
+}
+
 export interface ServiceProvider {
   provider_id: string;
   user_id: string;
@@ -247,6 +285,40 @@ export interface MaintenanceBudget {
   updated_at: string;
 }
 
+/** Escalating budget states: projected to cross the alert threshold, crossed it, or over budget. */
+export type BudgetAlertLevel = 'none' | 'forecast' | 'threshold' | 'exceeded';
+
+/** An open reminder expected to be paid before the budget period ends. */
+export interface BudgetForecastItem {
+  reminder_id: string;
+  vehicle_id: string;
+  title: string;
+  due_date: string; // ISO date; projected from mileage when the reminder has none
+  estimated_cost: number;
+}
+
+/** One day (monthly budgets) or month (annual budgets) of the burn-down; amounts are budget remaining. */
+export interface BudgetBurnDownPoint {
+  date: string; // ISO date the bucket ends
+  ideal: number;
+  actual?: number; // buckets up to today
+  forecast?: number; // today onward
+}
+
+export interface BudgetStatus {
+  budget: MaintenanceBudget;
+  period_start: string; // ISO date
+  period_end: string; // ISO date, inclusive
+  spent: number;
+  upcoming: BudgetForecastItem[];
+  /** Spent plus upcoming estimated costs */
+  forecast: number;
+  percent_used: number;
+  forecast_percent: number;
+  alert: BudgetAlertLevel;
+  burn_down: BudgetBurnDownPoint[];
+}
+
 export interface CostAnalytics {
   total_lifetime: number;
   total_this_year: number;
@@ -254,6 +326,8 @@ export interface CostAnalytics {
   cost_per_mile: number;
   by_category: { category: string; total: number }[];
   by_month: { month: string; total: number }[];
+  /** Days of the current month, first to last */
+  by_day: { date: string; total: number }[];
   by_vehicle: { vehicle_id: string; name: string; total: number }[];
 }
 
@@ -0,0 +1,41 @@
+/**
+ * Gear AI CoPilot - Notification Type Definitions
+ *
+ * Device-local notifications for service reminders, document expiries, recalls
+ * and maintenance budget alerts
+ */
+
+export type NotificationKind =
+  | 'service_reminder'
+  | 'registration_expiry'
+  | 'inspection_due'
+  | 'insurance_expiry'
+  | 'recall'
+  | 'budget_alert';
+
+export interface PlannedNotification {
+  /** Stable per entity and stage, e.g. `registration_expiry:<vehicle_id>:2026-03-01:7` */
+  notification_id: string;
+  kind: NotificationKind;
+  /** Absent for account-wide budget alerts */
+  vehicle_id?: string;
+  title: string;
+  body: string;
+  fire_at: string; // ISO timestamp
+  /** App route opened when the notification is tapped */
+  route: string;
+}
+
+/** What the scheduler remembers between runs (persisted on device). */
+export interface NotificationLedger {
+  /** notification_id → fire_at of everything currently handed to the OS */
+  scheduled: Record<string, string>;
+  /** Notifications already shown, newest last; never re-scheduled unless snoozed */
+  delivered: string[];
+  /** notification_id → ISO time a snoozed notification comes back */
+  snoozed: Record<string, string>;
+  /** `<vehicle_id>:<campaign>` recalls already known, so only new ones notify */
+  known_recalls: string[];
+  /** Vehicles whose recall list has been seen once (the first look sets the baseline) */
+  recall_baselines: string[];
+}
@@ -37,6 +37,7 @@ export interface UserPreferences {
   diagnostic_alerts?: boolean;
   valuation_updates?: boolean;
   recall_alerts?: boolean;
+  expiry_alerts?: boolean; // Registration, inspection and insurance renewals
   cost_alerts?: boolean;
   chat_notifications?: boolean;
   theme?: 'light' | 'dark' | 'auto';
@@ -4,6 +4,9 @@
  * Core data models for vehicle management
  */
 
+import type { InspectionReadiness } from './diagnostic';
+import type { ServiceProfile } from './maintenance';
+
 export type VehicleStatus = 'active' | 'stored' | 'for_sale' | 'sold' | 'totaled';
 
 export interface MileageLogEntry {
@@ -15,6 +18,19 @@ export interface MileageLogEntry {
   created_at?: string;
 }
 
+/** How fast a vehicle accumulates miles, projected from its odometer log. */
+export interface MileageProjection {
+  /** Seasonally neutral average miles per day */
+  daily_miles: number;
+  /** Multiplier per calendar month (index 0 = January); all 1 until there's about a year of history */
+  seasonal_factors: number[];
+  /** Where the rate comes from: logged readings, the lifetime average, or a national default */
+  basis: 'logs' | 'lifetime' | 'default';
+  confidence: 'high' | 'medium' | 'low';
+  /** Reading the projection runs forward from */
+  last_reading?: { mileage: number; date: string };
+}
+
 export interface VehicleMetadata {
   nickname?: string;
   status?: VehicleStatus;
@@ -62,9 +78,13 @@ export interface Vehicle {
   insurance_policy_number?: string;
   insurance_coverage_type?: string;
   insurance_expiry?: string;
+  insurance_premium_annual?: number; // Ownership cost fields (migration 20250811000000)
+  registration_fee_annual?: number;
   dealer_seller_info?: string;
   loan_details?: string;
+  inspection_readiness?: InspectionReadiness; // Latest OBD readiness check
   manual_id?: string;
+  service_profile?: ServiceProfile; // Maintenance schedule profile (migration 20250806000000)
   created_at: string;
   updated_at: string;
   is_active: boolean;
@@ -90,6 +110,8 @@ export interface VehicleFormData {
   insurance_policy_number?: string;
   insurance_coverage_type?: string;
   insurance_expiry?: string;
+  insurance_premium_annual?: number;
+  registration_fee_annual?: number;
   dealer_seller_info?: string;
   loan_details?: string;
 }
@@ -116,6 +138,7 @@ export interface VehicleStats {
   total_vehicles: number;
   average_mileage: number;
   total_value: number;
+  total_depreciation: number; // Purchase price less current market value, where both are known
   pending_maintenance: number;
   active_diagnostic_codes: number;
 }